@@ -5,6 +5,7 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { getScrapingResults, getScrapingConfigs } from "@/lib/scraping/storage";
+import { summarizePrices } from "@/lib/scraping/prices";
 
 /**
  * GET handler for scraping analytics
@@ -53,6 +54,7 @@ export async function GET(request: NextRequest) {
     ).length;
     const failedResults = results.filter((r) => r.status === "failed").length;
     const partialResults = results.filter((r) => r.status === "partial").length;
+    const emptyResults = results.filter((r) => r.status === "empty").length;
     const pendingResults = results.filter((r) => r.status === "pending").length;
 
     // Calculate success rate
@@ -110,6 +112,7 @@ export async function GET(request: NextRequest) {
         successfulResults: successfulResults,
         failedResults: failedResults,
         partialResults: partialResults,
+        emptyResults: emptyResults,
         pendingResults: pendingResults,
         successRate: successRate.toFixed(2) + "%",
         uniqueUrlsCount: uniqueUrls.size,
@@ -121,9 +124,12 @@ export async function GET(request: NextRequest) {
           success: successfulResults,
           failed: failedResults,
           partial: partialResults,
+          empty: emptyResults,
           pending: pendingResults,
         },
       },
+      // Fees and products prices by category, then currency and period
+      prices: summarizePrices(results),
       recentActivity: recentResults,
     };
 
@@ -0,0 +1,232 @@
+/**
+ * API route for auth profiles
+ * Handles GET requests for profiles and their sessions, POST requests to
+ * create profiles or sign in and out with them, PUT requests to update
+ * profiles and DELETE requests to remove them. Passwords, tokens, cookie
+ * jars and session cookies are never returned
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteAuthProfile,
+  deleteAuthSession,
+  getAuthProfileById,
+  getAuthProfiles,
+  getAuthSession,
+  saveAuthProfile,
+} from "@/lib/scraping/storage";
+import auth, {
+  hideAuthSecrets,
+  keepSavedAuthSecrets,
+} from "@/lib/scraping/auth";
+import { AuthProfile, AuthSession } from "@/types/scraping";
+
+/**
+ * GET handler for auth profiles
+ * Query: id? - profile to return with the state of its session
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get("id");
+
+    if (!id) {
+      const profiles = await getAuthProfiles();
+      return NextResponse.json({ profiles: profiles.map(hideAuthSecrets) });
+    }
+
+    const profile = await getAuthProfileById(id);
+    if (!profile) {
+      return NextResponse.json(
+        { error: "Auth profile not found" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({
+      profile: hideAuthSecrets(profile),
+      session: describeSession(await getAuthSession(id)),
+    });
+  } catch (error: any) {
+    console.error("Error in GET /api/scraping/auth:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to get auth profiles" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST handler for auth profiles
+ * Body: a new profile, or { action: "login", id } to sign in now and
+ * replace the stored session, or { action: "logout", id } to drop it
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (body?.action === "login" || body?.action === "logout") {
+      const profile = body.id ? await getAuthProfileById(body.id) : null;
+      if (!profile) {
+        return NextResponse.json(
+          { error: "Auth profile not found" },
+          { status: 404 },
+        );
+      }
+
+      if (body.action === "logout") {
+        await deleteAuthSession(profile.id);
+        return NextResponse.json({ success: true });
+      }
+      if (profile.type !== "form" && profile.type !== "cookies") {
+        return NextResponse.json(
+          { error: `${profile.type} profiles do not sign in` },
+          { status: 400 },
+        );
+      }
+
+      try {
+        const session = await auth.getSession(profile, {}, true);
+        return NextResponse.json({
+          success: true,
+          session: describeSession(session),
+        });
+      } catch (loginError: any) {
+        return NextResponse.json(
+          { error: "Signing in failed", details: loginError.message },
+          { status: 422 },
+        );
+      }
+    }
+
+    const errors = auth.validateAuthProfile(body);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: "Invalid auth profile", details: errors },
+        { status: 400 },
+      );
+    }
+
+    const { id, createdAt, ...profile } = body as AuthProfile;
+    const saved = await saveAuthProfile(profile as AuthProfile);
+    return NextResponse.json(
+      { success: true, profile: hideAuthSecrets(saved) },
+      { status: 201 },
+    );
+  } catch (error: any) {
+    console.error("Error in POST /api/scraping/auth:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to save auth profile" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PUT handler for auth profiles
+ * Body: the profile with its id. A secret sent as undefined keeps its saved
+ * value and an empty one removes it; the stored session is dropped so the
+ * next scrape signs in with the new settings
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const existing = body?.id ? await getAuthProfileById(body.id) : null;
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Auth profile not found" },
+        { status: 404 },
+      );
+    }
+
+    const { hasPassword, hasToken, hasCookieJar, ...fields } = body;
+    const profile = keepSavedAuthSecrets(
+      { ...fields, id: existing.id, createdAt: existing.createdAt },
+      existing,
+    );
+
+    const errors = auth.validateAuthProfile(profile);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: "Invalid auth profile", details: errors },
+        { status: 400 },
+      );
+    }
+
+    const saved = await saveAuthProfile(profile);
+    await deleteAuthSession(saved.id);
+
+    return NextResponse.json({
+      success: true,
+      profile: hideAuthSecrets(saved),
+    });
+  } catch (error: any) {
+    console.error("Error in PUT /api/scraping/auth:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to update auth profile" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE handler for auth profiles
+ * Query: id - profile to delete along with its session
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get("id");
+    if (!id) {
+      return NextResponse.json(
+        { error: "Auth profile ID is required" },
+        { status: 400 },
+      );
+    }
+
+    const deleted = await deleteAuthProfile(id);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Auth profile not found" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ success: true, id });
+  } catch (error: any) {
+    console.error("Error in DELETE /api/scraping/auth:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to delete auth profile" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Describe a session without its cookie values
+ */
+function describeSession(session: AuthSession | null) {
+  if (!session) return null;
+
+  return {
+    createdAt: session.createdAt,
+    expiresAt: session.expiresAt,
+    expired: new Date(session.expiresAt).getTime() <= Date.now(),
+    cookies: session.cookies.map((cookie) => cookie.name),
+  };
+}
+
+/**
+ * Handle OPTIONS requests for CORS preflight
+ */
+export async function OPTIONS() {
+  const headers = new Headers();
+  headers.set("Access-Control-Allow-Origin", "*");
+  headers.set(
+    "Access-Control-Allow-Methods",
+    "GET, POST, PUT, DELETE, OPTIONS",
+  );
+  headers.set("Access-Control-Allow-Headers", "Content-Type, Authorization");
+  headers.set("Access-Control-Max-Age", "86400"); // 24 hours
+
+  return new NextResponse(null, { status: 204, headers });
+}
@@ -1,13 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
 import {
+  getAuthProfileById,
+  getProxyPoolById,
   getScrapingConfigById,
   deleteScrapingConfig,
   saveScrapingConfig,
 } from "@/lib/scraping/storage";
+import { validatePageActions } from "@/lib/scraping/pageActions";
+import {
+  hideConfigSecrets,
+  keepSavedWebhookSecrets,
+} from "@/lib/scraping/notifications";
 import { ScrapingConfig } from "@/types/scraping";
 
 /**
  * API route handler for retrieving a specific scraping configuration
+ * Webhook secrets are replaced with a hasSecret flag
  */
 export async function GET(
   request: NextRequest,
@@ -45,7 +53,7 @@ export async function GET(
       `GET /api/scraping/configurations/${id}: Configuration found and returned`,
     );
     // Return the configuration
-    return NextResponse.json(config);
+    return NextResponse.json(hideConfigSecrets(config));
   } catch (error: any) {
     const errorMessage = error.message || "Unknown error";
     const errorStack = error.stack || "";
@@ -68,6 +76,7 @@ export async function GET(
 
 /**
  * API route handler for updating a specific scraping configuration
+ * Webhooks sent without a secret keep their saved secret
  */
 export async function PUT(
   request: NextRequest,
@@ -88,6 +97,31 @@ export async function PUT(
       );
     }
 
+    const actionErrors = validatePageActions(body.actions);
+    if (actionErrors.length > 0) {
+      return NextResponse.json(
+        { error: "Invalid page actions", details: actionErrors },
+        { status: 400 },
+      );
+    }
+
+    if (body.authProfileId && !(await getAuthProfileById(body.authProfileId))) {
+      return NextResponse.json(
+        { error: "Auth profile not found" },
+        { status: 400 },
+      );
+    }
+
+    if (
+      body.options?.proxyPoolId &&
+      !(await getProxyPoolById(body.options.proxyPoolId))
+    ) {
+      return NextResponse.json(
+        { error: "Proxy pool not found" },
+        { status: 400 },
+      );
+    }
+
     // Get the existing configuration
     console.log(
       `PUT /api/scraping/configurations/${id}: Fetching existing configuration`,
@@ -111,6 +145,15 @@ export async function PUT(
       id, // Ensure the ID doesn't change
       updatedAt: new Date().toISOString(),
     };
+    if (body.notifications?.webhooks) {
+      updatedConfig.notifications = {
+        ...body.notifications,
+        webhooks: keepSavedWebhookSecrets(
+          body.notifications.webhooks,
+          existingConfig.notifications?.webhooks,
+        ),
+      };
+    }
 
     // Save the updated configuration
     console.log(
@@ -121,7 +164,7 @@ export async function PUT(
       `PUT /api/scraping/configurations/${id}: Configuration updated successfully`,
     );
 
-    return NextResponse.json(savedConfig);
+    return NextResponse.json(hideConfigSecrets(savedConfig));
   } catch (error: any) {
     const errorMessage = error.message || "Unknown error";
     const errorStack = error.stack || "";
@@ -201,7 +244,7 @@ export async function DELETE(
       success: true,
       message: "Configuration deleted successfully",
       id,
-      deletedConfig: configToDelete,
+      deletedConfig: hideConfigSecrets(configToDelete),
     });
   } catch (error: any) {
     const errorMessage = error.message || "Unknown error";
@@ -6,15 +6,20 @@
 import { NextRequest, NextResponse } from "next/server";
 import { ScrapingConfig } from "@/types/scraping";
 import {
+  getAuthProfileById,
+  getProxyPoolById,
   getScrapingConfigs,
   saveScrapingConfig,
   deleteScrapingConfig,
 } from "@/lib/scraping/storage";
 import { generateUniqueId } from "@/lib/utils/ids";
+import { validatePageActions } from "@/lib/scraping/pageActions";
+import { hideConfigSecrets } from "@/lib/scraping/notifications";
 
 /**
  * GET handler for scraping configurations
- * Returns all scraping configurations or a paginated subset
+ * Returns all scraping configurations or a paginated subset, without their
+ * webhook secrets
  */
 export async function GET(request: NextRequest) {
   try {
@@ -38,7 +43,7 @@ export async function GET(request: NextRequest) {
       `GET /api/scraping/configurations: Retrieved ${configs.length} configurations`,
     );
 
-    return NextResponse.json(configs, { status: 200 });
+    return NextResponse.json(configs.map(hideConfigSecrets), { status: 200 });
   } catch (error) {
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error";
@@ -86,6 +91,31 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const actionErrors = validatePageActions(body.actions);
+    if (actionErrors.length > 0) {
+      return NextResponse.json(
+        { error: "Invalid page actions", details: actionErrors },
+        { status: 400 },
+      );
+    }
+
+    if (body.authProfileId && !(await getAuthProfileById(body.authProfileId))) {
+      return NextResponse.json(
+        { error: "Auth profile not found" },
+        { status: 400 },
+      );
+    }
+
+    if (
+      body.options?.proxyPoolId &&
+      !(await getProxyPoolById(body.options.proxyPoolId))
+    ) {
+      return NextResponse.json(
+        { error: "Proxy pool not found" },
+        { status: 400 },
+      );
+    }
+
     // Create a new scraping configuration
     const newConfig: ScrapingConfig = {
       ...body,
@@ -103,7 +133,7 @@ export async function POST(request: NextRequest) {
       `POST /api/scraping/configurations: Configuration saved successfully with ID=${savedConfig.id}`,
     );
 
-    return NextResponse.json(savedConfig, { status: 201 });
+    return NextResponse.json(hideConfigSecrets(savedConfig), { status: 201 });
   } catch (error) {
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error";
@@ -9,6 +9,7 @@ import { initializeFileStorage } from "@/lib/db/fileStorage";
 import { initializeDatabase } from "@/lib/db/mysql";
 import scheduler from "@/lib/scraping/scheduler";
 import { syncAll } from "@/lib/scraping/sync";
+import { resumePendingDeliveries } from "@/lib/scraping/notifications";
 
 /**
  * POST handler for initializing the scraping module
@@ -17,7 +18,11 @@ import { syncAll } from "@/lib/scraping/sync";
 export async function POST(request: NextRequest) {
   try {
     // Parse the request body
-    let body: { startSync?: boolean; syncInterval?: number } = {};
+    let body: {
+      startSync?: boolean;
+      syncInterval?: number;
+      startScrapeScheduler?: boolean;
+    } = {};
     try {
       body = await request.json();
     } catch (parseError) {
@@ -42,6 +47,14 @@ export async function POST(request: NextRequest) {
       scheduler.startSyncScheduler(body.syncInterval);
     }
 
+    // Start enqueueing scheduled scraping configurations unless disabled
+    if (body.startScrapeScheduler !== false) {
+      scheduler.startScrapeScheduler();
+    }
+
+    // Pick up webhook deliveries that were waiting for a retry
+    const pendingDeliveries = await resumePendingDeliveries();
+
     return NextResponse.json({
       success: true,
       message: "Scraping module initialized successfully",
@@ -53,6 +66,9 @@ export async function POST(request: NextRequest) {
           results: syncResult.results,
         },
         scheduler: body.startSync !== false ? "started" : "not started",
+        scrapeScheduler:
+          body.startScrapeScheduler !== false ? "started" : "not started",
+        pendingDeliveries,
       },
     });
   } catch (error: any) {
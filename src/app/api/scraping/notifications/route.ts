@@ -0,0 +1,180 @@
+/**
+ * API route for change alerts
+ * Handles GET requests for a configuration's alert settings and the webhook
+ * delivery log, PUT requests to save alert rules and webhooks, and POST
+ * requests to send test events or redeliver logged deliveries
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getScrapingConfigById,
+  getWebhookDeliveries,
+  saveScrapingConfig,
+} from "@/lib/scraping/storage";
+import notifications from "@/lib/scraping/notifications";
+
+// Default number of deliveries returned from the log
+const DEFAULT_LOG_LIMIT = 50;
+
+/**
+ * GET handler for alert settings and deliveries
+ * Query: configId? - configuration to return settings and deliveries for,
+ * limit? - maximum number of deliveries to return
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const configId = searchParams.get("configId") || undefined;
+    const limitParam = searchParams.get("limit");
+    const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_LOG_LIMIT;
+
+    if (isNaN(limit) || limit < 0) {
+      return NextResponse.json({ error: "Invalid limit" }, { status: 400 });
+    }
+
+    const deliveries = (await getWebhookDeliveries(configId)).slice(0, limit);
+
+    if (!configId) {
+      return NextResponse.json({ deliveries });
+    }
+
+    const config = await getScrapingConfigById(configId);
+    if (!config) {
+      return NextResponse.json(
+        { error: "Scraping configuration not found" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({
+      notifications: notifications.hideWebhookSecrets(config.notifications),
+      deliveries,
+    });
+  } catch (error: any) {
+    console.error("Error in GET /api/scraping/notifications:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to get notifications" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PUT handler for alert settings
+ * Body: { configId, notifications: { enabled, rules, webhooks } }. A webhook
+ * sent without a secret keeps its saved secret; an empty secret removes it
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (!body || !body.configId || !body.notifications) {
+      return NextResponse.json(
+        { error: "configId and notifications are required" },
+        { status: 400 },
+      );
+    }
+
+    const errors = notifications.validateNotificationSettings(
+      body.notifications,
+    );
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: "Invalid notification settings", details: errors },
+        { status: 400 },
+      );
+    }
+
+    const config = await getScrapingConfigById(body.configId);
+    if (!config) {
+      return NextResponse.json(
+        { error: "Scraping configuration not found" },
+        { status: 404 },
+      );
+    }
+
+    const saved = await saveScrapingConfig({
+      ...config,
+      notifications: {
+        enabled: !!body.notifications.enabled,
+        rules: body.notifications.rules,
+        webhooks: notifications.keepSavedWebhookSecrets(
+          body.notifications.webhooks,
+          config.notifications?.webhooks,
+        ),
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      notifications: notifications.hideWebhookSecrets(saved.notifications),
+    });
+  } catch (error: any) {
+    console.error("Error in PUT /api/scraping/notifications:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to save notifications" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST handler for delivery actions
+ * Body: { action: "test", configId } or { action: "redeliver", deliveryId }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    switch (body?.action) {
+      case "test": {
+        const config = body.configId
+          ? await getScrapingConfigById(body.configId)
+          : null;
+        if (!config) {
+          return NextResponse.json(
+            { error: "Scraping configuration not found" },
+            { status: 404 },
+          );
+        }
+
+        const deliveries = await notifications.sendTestNotification(config);
+        return NextResponse.json({ success: true, deliveries });
+      }
+      case "redeliver": {
+        const delivery = body.deliveryId
+          ? await notifications.redeliverWebhook(body.deliveryId)
+          : null;
+        if (!delivery) {
+          return NextResponse.json(
+            { error: "Webhook delivery not found" },
+            { status: 404 },
+          );
+        }
+
+        return NextResponse.json({ success: true, delivery });
+      }
+      default:
+        return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+    }
+  } catch (error: any) {
+    console.error("Error in POST /api/scraping/notifications:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to deliver notification" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Handle OPTIONS requests for CORS preflight
+ */
+export async function OPTIONS() {
+  const headers = new Headers();
+  headers.set("Access-Control-Allow-Origin", "*");
+  headers.set("Access-Control-Allow-Methods", "GET, PUT, POST, OPTIONS");
+  headers.set("Access-Control-Allow-Headers", "Content-Type, Authorization");
+  headers.set("Access-Control-Max-Age", "86400"); // 24 hours
+
+  return new NextResponse(null, { status: 204, headers });
+}
@@ -0,0 +1,210 @@
+/**
+ * API route for proxy pools
+ * Handles GET requests for pools and the health of their proxies, POST
+ * requests to create pools or probe their proxies, PUT requests to update
+ * pools and DELETE requests to remove them. Proxy passwords are masked in
+ * every response
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteProxyPool,
+  getProxyPoolById,
+  getProxyPools,
+  saveProxyPool,
+} from "@/lib/scraping/storage";
+import proxyPools, {
+  hideProxyCredentials,
+  keepSavedProxyCredentials,
+} from "@/lib/scraping/proxyPool";
+import { ProxyPool } from "@/types/scraping";
+
+/**
+ * GET handler for proxy pools
+ * Query: id? - pool to return on its own
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get("id");
+
+    if (!id) {
+      const pools = await getProxyPools();
+      return NextResponse.json({ pools: pools.map(describePool) });
+    }
+
+    const pool = await getProxyPoolById(id);
+    if (!pool) {
+      return NextResponse.json(
+        { error: "Proxy pool not found" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ pool: describePool(pool) });
+  } catch (error: any) {
+    console.error("Error in GET /api/scraping/proxies:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to get proxy pools" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST handler for proxy pools
+ * Body: a new pool, or { action: "probe", id } to probe its proxies now, or
+ * { action: "reset", id } to forget their health
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (body?.action === "probe" || body?.action === "reset") {
+      const pool = body.id ? await getProxyPoolById(body.id) : null;
+      if (!pool) {
+        return NextResponse.json(
+          { error: "Proxy pool not found" },
+          { status: 404 },
+        );
+      }
+
+      if (body.action === "reset") {
+        proxyPools.resetProxyHealth(pool);
+      } else {
+        await proxyPools.probeProxyPool(pool);
+      }
+      return NextResponse.json({ success: true, pool: describePool(pool) });
+    }
+
+    const { id, createdAt, ...fields } = body || {};
+    const pool = { rotation: "round-robin", ...fields } as ProxyPool;
+
+    const errors = proxyPools.validateProxyPool(pool);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: "Invalid proxy pool", details: errors },
+        { status: 400 },
+      );
+    }
+
+    const saved = await saveProxyPool(pool);
+    return NextResponse.json(
+      { success: true, pool: describePool(saved) },
+      { status: 201 },
+    );
+  } catch (error: any) {
+    console.error("Error in POST /api/scraping/proxies:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to save proxy pool" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PUT handler for proxy pools
+ * Body: the pool with its id. Proxies sent back with their password masked
+ * keep their saved password
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const existing = body?.id ? await getProxyPoolById(body.id) : null;
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Proxy pool not found" },
+        { status: 404 },
+      );
+    }
+
+    const { health, ...fields } = body;
+    const pool = keepSavedProxyCredentials(
+      {
+        ...existing,
+        ...fields,
+        id: existing.id,
+        createdAt: existing.createdAt,
+      },
+      existing,
+    );
+
+    const errors = proxyPools.validateProxyPool(pool);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: "Invalid proxy pool", details: errors },
+        { status: 400 },
+      );
+    }
+
+    const saved = await saveProxyPool(pool);
+    return NextResponse.json({ success: true, pool: describePool(saved) });
+  } catch (error: any) {
+    console.error("Error in PUT /api/scraping/proxies:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to update proxy pool" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE handler for proxy pools
+ * Query: id - pool to delete
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get("id");
+    if (!id) {
+      return NextResponse.json(
+        { error: "Proxy pool ID is required" },
+        { status: 400 },
+      );
+    }
+
+    const existing = await getProxyPoolById(id);
+    const deleted = await deleteProxyPool(id);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Proxy pool not found" },
+        { status: 404 },
+      );
+    }
+
+    if (existing) proxyPools.resetProxyHealth(existing);
+    return NextResponse.json({ success: true, id });
+  } catch (error: any) {
+    console.error("Error in DELETE /api/scraping/proxies:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to delete proxy pool" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Describe a pool with its proxy passwords masked and the health of each
+ * proxy
+ */
+function describePool(pool: ProxyPool) {
+  return {
+    ...hideProxyCredentials(pool),
+    health: proxyPools.getProxyHealth(pool),
+  };
+}
+
+/**
+ * Handle OPTIONS requests for CORS preflight
+ */
+export async function OPTIONS() {
+  const headers = new Headers();
+  headers.set("Access-Control-Allow-Origin", "*");
+  headers.set(
+    "Access-Control-Allow-Methods",
+    "GET, POST, PUT, DELETE, OPTIONS",
+  );
+  headers.set("Access-Control-Allow-Headers", "Content-Type, Authorization");
+  headers.set("Access-Control-Max-Age", "86400"); // 24 hours
+
+  return new NextResponse(null, { status: 204, headers });
+}
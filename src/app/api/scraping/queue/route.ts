@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
-import scrapingQueue from "@/lib/scraping/queue";
-import { ScrapingConfig } from "@/types/scraping";
+import scrapingQueue, { QueueJobAction } from "@/lib/scraping/queue";
+import { hideConfigSecrets } from "@/lib/scraping/notifications";
+import { ScrapingConfig, ScrapingJob } from "@/types/scraping";
+
+const JOB_ACTIONS: QueueJobAction[] = ["cancel", "retry", "reprioritize"];
 
 /**
  * API route handler for queue operations
@@ -11,17 +14,25 @@ export async function GET(request: NextRequest) {
     const url = new URL(request.url);
     const jobId = url.searchParams.get("id");
 
+    // Resume processing after a server restart
+    scrapingQueue.startWorkers();
+
+    if (url.searchParams.get("state") === "true") {
+      // Get the paused/running state of the queue
+      return NextResponse.json(scrapingQueue.getQueueState());
+    }
+
     if (jobId) {
       // Get specific job
-      const job = scrapingQueue.getJob(jobId);
+      const job = await scrapingQueue.getJob(jobId);
       if (!job) {
         return NextResponse.json({ error: "Job not found" }, { status: 404 });
       }
-      return NextResponse.json(job);
+      return NextResponse.json(hideJobSecrets(job));
     } else {
       // Get all jobs
-      const jobs = scrapingQueue.getAllJobs();
-      return NextResponse.json(jobs);
+      const jobs = await scrapingQueue.getAllJobs();
+      return NextResponse.json(jobs.map(hideJobSecrets));
     }
   } catch (error: any) {
     console.error("Queue API error:", error);
@@ -60,13 +71,103 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * API route handler for removing a job from the queue
+ * API route handler for controlling the queue and its jobs
+ * Body: { action: "pause" | "resume" } for the whole queue, or
+ * { action: "cancel" | "retry" | "reprioritize", id?, batchId?, priority? }
+ * for a single job or every job of a batch
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const { action, id, batchId, priority } = await request.json();
+
+    if (action === "pause" || action === "resume") {
+      if (action === "pause") {
+        scrapingQueue.pauseQueue();
+      } else {
+        scrapingQueue.resumeQueue();
+      }
+      return NextResponse.json(scrapingQueue.getQueueState());
+    }
+
+    if (!JOB_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        {
+          error: `Invalid action. Expected one of: pause, resume, ${JOB_ACTIONS.join(", ")}`,
+        },
+        { status: 400 },
+      );
+    }
+
+    if (action === "reprioritize" && !priority) {
+      return NextResponse.json(
+        { error: "Priority is required" },
+        { status: 400 },
+      );
+    }
+
+    if (batchId) {
+      const result = await scrapingQueue.applyBatchAction(
+        batchId,
+        action,
+        priority,
+      );
+      if (result.updated.length === 0 && result.skipped.length === 0) {
+        return NextResponse.json(
+          { error: "No jobs found for batch" },
+          { status: 404 },
+        );
+      }
+      return NextResponse.json(result);
+    }
+
+    if (!id) {
+      return NextResponse.json(
+        { error: "Job ID or batch ID is required" },
+        { status: 400 },
+      );
+    }
+
+    const job = (await scrapingQueue.applyJobAction(
+      id,
+      action,
+      priority,
+    )) as ScrapingJob | null;
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(hideJobSecrets(job));
+  } catch (error: any) {
+    console.error("Queue API error:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to update queue" },
+      { status: error.status || 500 },
+    );
+  }
+}
+
+/**
+ * API route handler for removing a job, or every job of a batch, from the
+ * queue
  */
 export async function DELETE(request: NextRequest) {
   try {
     // Get query parameters
     const url = new URL(request.url);
     const jobId = url.searchParams.get("id");
+    const batchId = url.searchParams.get("batchId");
+
+    if (batchId) {
+      const result = await scrapingQueue.applyBatchAction(batchId, "remove");
+      if (result.updated.length === 0) {
+        return NextResponse.json(
+          { error: "No jobs found for batch" },
+          { status: 404 },
+        );
+      }
+      return NextResponse.json({ success: true, removed: result.updated });
+    }
 
     if (!jobId) {
       return NextResponse.json(
@@ -76,7 +177,7 @@ export async function DELETE(request: NextRequest) {
     }
 
     // Remove the job from the queue
-    const removed = scrapingQueue.removeJob(jobId);
+    const removed = await scrapingQueue.removeJob(jobId);
 
     if (!removed) {
       return NextResponse.json({ error: "Job not found" }, { status: 404 });
@@ -92,3 +193,11 @@ export async function DELETE(request: NextRequest) {
     );
   }
 }
+
+/**
+ * Hide the webhook secrets of a job's configuration, as the configuration
+ * routes do
+ */
+function hideJobSecrets(job: ScrapingJob): ScrapingJob {
+  return { ...job, config: hideConfigSecrets(job.config) };
+}
@@ -0,0 +1,101 @@
+/**
+ * API route for per-domain rate limits
+ * Handles GET requests for the default limits, the domain overrides and the
+ * state of each host, PUT requests to set the limits of a domain and DELETE
+ * requests to remove them
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import rateLimiter from "@/lib/scraping/rateLimiter";
+
+/**
+ * GET handler for rate limits
+ */
+export async function GET() {
+  try {
+    return NextResponse.json({
+      defaults: rateLimiter.getRateLimitDefaults(),
+      overrides: await rateLimiter.getDomainOverrides(),
+      hosts: rateLimiter.getRateLimiterState(),
+    });
+  } catch (error: any) {
+    console.error("Error in GET /api/scraping/rate-limits:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to get rate limits" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * PUT handler for rate limits
+ * Body: { domain, requestsPerSecond?, burst?, maxConcurrency? }, replacing
+ * any limits the domain already has. The limits also apply to subdomains
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const errors = rateLimiter.validateDomainRateLimit(body);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: "Invalid rate limit", details: errors },
+        { status: 400 },
+      );
+    }
+
+    const saved = await rateLimiter.setDomainRateLimit(body);
+    return NextResponse.json({ success: true, limit: saved });
+  } catch (error: any) {
+    console.error("Error in PUT /api/scraping/rate-limits:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to save rate limit" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE handler for rate limits
+ * Query: domain - domain whose limits to remove
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const domain = request.nextUrl.searchParams.get("domain");
+    if (!domain) {
+      return NextResponse.json(
+        { error: "Domain is required" },
+        { status: 400 },
+      );
+    }
+
+    const deleted = await rateLimiter.removeDomainRateLimit(domain);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Rate limit not found" },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({ success: true, domain });
+  } catch (error: any) {
+    console.error("Error in DELETE /api/scraping/rate-limits:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to delete rate limit" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Handle OPTIONS requests for CORS preflight
+ */
+export async function OPTIONS() {
+  const headers = new Headers();
+  headers.set("Access-Control-Allow-Origin", "*");
+  headers.set("Access-Control-Allow-Methods", "GET, PUT, DELETE, OPTIONS");
+  headers.set("Access-Control-Allow-Headers", "Content-Type, Authorization");
+  headers.set("Access-Control-Max-Age", "86400"); // 24 hours
+
+  return new NextResponse(null, { status: 204, headers });
+}
@@ -0,0 +1,71 @@
+/**
+ * API route for comparing scraping results
+ * Handles GET requests for the changes between a result and an earlier result
+ * of the same configuration
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getScrapingResultById } from "@/lib/scraping/storage";
+import { diffResults, findPreviousResult } from "@/lib/scraping/diff";
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+/**
+ * GET handler for the diff of a scraping result
+ * Query: against? - ID of the result to compare with, defaults to the
+ * previous result of the same configuration and URL
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const against = request.nextUrl.searchParams.get("against");
+
+    const result = await getScrapingResultById(id);
+    if (!result) {
+      return NextResponse.json(
+        { error: "Scraping result not found" },
+        { status: 404 },
+      );
+    }
+
+    const base = against
+      ? await getScrapingResultById(against)
+      : await findPreviousResult(result);
+    if (!base) {
+      return NextResponse.json(
+        {
+          error: against
+            ? "Scraping result to compare against not found"
+            : "No earlier result of this configuration to compare against",
+        },
+        { status: 404 },
+      );
+    }
+
+    if (base.configId !== result.configId) {
+      return NextResponse.json(
+        { error: "Only results of the same configuration can be compared" },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json(diffResults(base, result), { status: 200 });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+
+    console.error(`Error in GET /api/scraping/results/${params.id}/diff:`, {
+      message: errorMessage,
+      error,
+    });
+
+    return NextResponse.json(
+      { error: "Failed to compare scraping results", details: errorMessage },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * API route for the tables of a scraping result
+ * Handles GET requests for the data tables found on the scraped pages, as
+ * JSON or as a CSV download of one table
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getScrapingResultById } from "@/lib/scraping/storage";
+import { tableToCsv } from "@/lib/scraping/tables";
+
+interface RouteParams {
+  params: {
+    id: string;
+  };
+}
+
+/**
+ * GET handler for the tables of a scraping result
+ * Query: index? - index of one table; page? - page the table is on, for
+ * paginated results; format? - "json" (default) or "csv", which needs index
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = params;
+    const searchParams = request.nextUrl.searchParams;
+    const format = searchParams.get("format") || "json";
+    const index = searchParams.get("index");
+    const page = searchParams.get("page");
+
+    if (format !== "json" && format !== "csv") {
+      return NextResponse.json(
+        { error: `Unsupported format "${format}", use json or csv` },
+        { status: 400 },
+      );
+    }
+    if (format === "csv" && index === null) {
+      return NextResponse.json(
+        { error: "CSV export needs the index of a table" },
+        { status: 400 },
+      );
+    }
+
+    const result = await getScrapingResultById(id);
+    if (!result) {
+      return NextResponse.json(
+        { error: "Scraping result not found" },
+        { status: 404 },
+      );
+    }
+
+    const tables = result.raw?.tables || [];
+    if (index === null) {
+      return NextResponse.json({ tables }, { status: 200 });
+    }
+
+    const table = tables.find(
+      (candidate) =>
+        candidate.index === Number(index) &&
+        (page === null || (candidate.page ?? 1) === Number(page)),
+    );
+    if (!table) {
+      return NextResponse.json({ error: "Table not found" }, { status: 404 });
+    }
+
+    if (format === "json") {
+      return NextResponse.json(table, { status: 200 });
+    }
+
+    const filename = `result-${id}-table-${table.page ? `${table.page}-` : ""}${table.index}.csv`;
+    return new NextResponse(tableToCsv(table), {
+      status: 200,
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+
+    console.error(`Error in GET /api/scraping/results/${params.id}/tables:`, {
+      message: errorMessage,
+      error,
+    });
+
+    return NextResponse.json(
+      { error: "Failed to retrieve result tables", details: errorMessage },
+      { status: 500 },
+    );
+  }
+}
@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { ScrapingConfig, ScrapingResult } from "@/types/scraping";
 import { scrapeWebsite } from "@/lib/scraping/scraper";
-import { saveScrapingResult } from "@/lib/scraping/storage";
+import {
+  getAuthProfileById,
+  getProxyPoolById,
+  saveScrapingResult,
+} from "@/lib/scraping/storage";
 import scrapingQueue from "@/lib/scraping/queue";
+import { validatePageActions } from "@/lib/scraping/pageActions";
 
 /**
  * API route handler for scraping operations
@@ -87,6 +92,7 @@ export async function POST(request: NextRequest) {
     } else {
       // Ensure all options have default values if not provided
       config.options = {
+        ...config.options,
         handleDynamicContent: config.options.handleDynamicContent ?? true,
         followPagination: config.options.followPagination ?? false,
         extractImages: config.options.extractImages ?? true,
@@ -105,6 +111,34 @@ export async function POST(request: NextRequest) {
       config.categories = [];
     }
 
+    const actionErrors = validatePageActions(config.actions);
+    if (actionErrors.length > 0) {
+      return NextResponse.json(
+        { error: "Invalid page actions", details: actionErrors },
+        { status: 400 },
+      );
+    }
+
+    if (
+      config.authProfileId &&
+      !(await getAuthProfileById(config.authProfileId))
+    ) {
+      return NextResponse.json(
+        { error: "Auth profile not found" },
+        { status: 400 },
+      );
+    }
+
+    if (
+      config.options?.proxyPoolId &&
+      !(await getProxyPoolById(config.options.proxyPoolId))
+    ) {
+      return NextResponse.json(
+        { error: "Proxy pool not found" },
+        { status: 400 },
+      );
+    }
+
     // Check if this should be queued for batch processing
     if (config.mode === "scheduled" || config.mode === "multiple") {
       // Add to queue instead of processing immediately
@@ -135,41 +169,41 @@ export async function POST(request: NextRequest) {
         timeoutPromise,
       ])) as ScrapingResult;
 
-      // Check if the result contains an error status from the scraper
-      if (
-        result.status === "error" ||
-        (result.raw &&
-          result.raw.text &&
-          result.raw.text.includes("Error fetching content:"))
-      ) {
-        // Create a more user-friendly error message
-        const errorMessage =
-          result.raw?.text || "Access to the website was denied";
-        result = {
-          id: `error_${Date.now()}`,
-          configId: config.id || "manual",
-          url: config.url,
-          timestamp: new Date().toISOString(),
-          status: "failed",
-          categories: {},
-          raw: {
-            text: errorMessage,
-            html: result.raw?.html,
-          },
-          metadata: {
-            errors: [errorMessage],
-            suggestions: [
-              "The website may have blocked the scraping request",
-              "Try using a different URL or website",
-              "The website may require authentication",
-              "The website may have anti-bot protection",
-              "Try enabling stealth mode in the advanced options",
-              "Try increasing the rate limit delay in the advanced options",
-            ],
-            version: "1.0.0",
-          },
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
+      const blockedByRobots = result.metadata?.errors?.some(
+        (error) => error.code === "ROBOTS_DISALLOWED",
+      );
+      const authFailed = result.metadata?.errors?.some(
+        (error) => error.code === "AUTH_FAILED",
+      );
+
+      // Add troubleshooting suggestions to failed results
+      if (result.status === "failed" && blockedByRobots) {
+        result.metadata = {
+          ...result.metadata,
+          suggestions: [
+            "The website's robots.txt does not allow this page to be scraped",
+            'Only disable "Respect robots.txt" if you have permission to scrape the website',
+          ],
+        };
+      } else if (result.status === "failed" && authFailed) {
+        result.metadata = {
+          ...result.metadata,
+          suggestions: [
+            "Check the credentials and selectors of the auth profile",
+            "Sign in with the auth profile from the auth API to see the error",
+          ],
+        };
+      } else if (result.status === "failed") {
+        result.metadata = {
+          ...result.metadata,
+          suggestions: [
+            "The website may have blocked the scraping request",
+            "Try using a different URL or website",
+            "The website may require authentication",
+            "The website may have anti-bot protection",
+            "Try enabling stealth mode in the advanced options",
+            "Try increasing the rate limit delay in the advanced options",
+          ],
         };
       }
     } catch (scrapingError: any) {
@@ -187,7 +221,14 @@ export async function POST(request: NextRequest) {
           text: scrapingError.message || "Scraping operation failed",
         },
         metadata: {
-          errors: [scrapingError.message || "Unknown error"],
+          errors: [
+            {
+              code: /timed out/i.test(scrapingError.message || "")
+                ? "TIMEOUT"
+                : "INTERNAL_ERROR",
+              message: scrapingError.message || "Unknown error",
+            },
+          ],
           suggestions: [
             "The website may have blocked the scraping request",
             "Try using a different URL or website",
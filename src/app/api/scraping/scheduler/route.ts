@@ -1,14 +1,44 @@
 /**
- * API route for managing the synchronization scheduler
- * Handles POST requests to start/stop the synchronization scheduler
+ * API route for managing the schedulers
+ * Handles GET requests for the state and run history of both schedulers, and
+ * POST requests to start/stop the synchronization scheduler and the scrape
+ * scheduler, and to report the scrape scheduler's status
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import scheduler from "@/lib/scraping/scheduler";
 
 /**
- * POST handler for managing the synchronization scheduler
- * Starts or stops the synchronization scheduler
+ * GET handler for the state of the schedulers
+ * Query: limit? - maximum number of history entries to return
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const status = scheduler.getSchedulerStatus();
+
+    const limit = request.nextUrl.searchParams.get("limit");
+    if (limit !== null) {
+      const count = parseInt(limit, 10);
+      if (isNaN(count) || count < 0) {
+        return NextResponse.json({ error: "Invalid limit" }, { status: 400 });
+      }
+      status.history = status.history.slice(0, count);
+    }
+
+    return NextResponse.json(status);
+  } catch (error: any) {
+    console.error("Error in GET /api/scraping/scheduler:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to get scheduler status" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST handler for managing the schedulers
+ * Body: { action: "start" | "stop" | "status", scheduler?: "sync" | "scrape",
+ * interval?, missedRunPolicy? }. The scheduler defaults to "sync"
  */
 export async function POST(request: NextRequest) {
   try {
@@ -23,6 +53,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (body.scheduler === "scrape") {
+      return handleScrapeScheduler(body);
+    }
+
     // Handle the action
     switch (body.action) {
       case "start":
@@ -44,19 +78,60 @@ export async function POST(request: NextRequest) {
   } catch (error: any) {
     console.error("Error in POST /api/scraping/scheduler:", error);
     return NextResponse.json(
-      { error: error.message || "Failed to manage synchronization scheduler" },
+      { error: error.message || "Failed to manage scheduler" },
       { status: 500 },
     );
   }
 }
 
+/**
+ * Start, stop or report the status of the scrape scheduler
+ */
+function handleScrapeScheduler(body: any) {
+  switch (body.action) {
+    case "start":
+      if (
+        body.missedRunPolicy &&
+        !["skip", "run-once", "run-all"].includes(body.missedRunPolicy)
+      ) {
+        return NextResponse.json(
+          { error: "Invalid missedRunPolicy" },
+          { status: 400 },
+        );
+      }
+      scheduler.startScrapeScheduler({
+        interval: body.interval,
+        missedRunPolicy: body.missedRunPolicy,
+      });
+      return NextResponse.json({
+        success: true,
+        message: "Scrape scheduler started",
+        status: scheduler.getScrapeSchedulerStatus(),
+      });
+    case "stop":
+      scheduler.stopScrapeScheduler();
+      return NextResponse.json({
+        success: true,
+        message: "Scrape scheduler stopped",
+        status: scheduler.getScrapeSchedulerStatus(),
+      });
+    case "status":
+      return NextResponse.json({
+        success: true,
+        status: scheduler.getScrapeSchedulerStatus(),
+      });
+    default:
+      return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+  }
+}
+
 /**
  * Handle OPTIONS requests for CORS preflight
  */
 export async function OPTIONS() {
   const headers = new Headers();
   headers.set("Access-Control-Allow-Origin", "*");
-  headers.set("Access-Control-Allow-Methods", "POST, OPTIONS");
+  headers.set("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
   headers.set("Access-Control-Allow-Headers", "Content-Type, Authorization");
   headers.set("Access-Control-Max-Age", "86400"); // 24 hours
 
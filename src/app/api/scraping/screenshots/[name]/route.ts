@@ -0,0 +1,62 @@
+/**
+ * API route for screenshots of failed page actions
+ * Handles GET requests for the screenshots referenced by the page action
+ * results of a scraping result
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { loadScreenshotFromFile } from "@/lib/db/fileStorage";
+
+interface RouteParams {
+  params: {
+    name: string;
+  };
+}
+
+// Screenshot file names are generated IDs, which keeps paths out
+const SCREENSHOT_NAME_PATTERN = /^[a-z0-9-]+\.png$/i;
+
+/**
+ * GET handler for a screenshot
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { name } = params;
+
+    if (!SCREENSHOT_NAME_PATTERN.test(name)) {
+      return NextResponse.json(
+        { error: "Invalid screenshot name" },
+        { status: 400 },
+      );
+    }
+
+    const image = await loadScreenshotFromFile(name);
+    if (!image) {
+      return NextResponse.json(
+        { error: "Screenshot not found" },
+        { status: 404 },
+      );
+    }
+
+    return new NextResponse(image, {
+      status: 200,
+      headers: {
+        "Content-Type": "image/png",
+        "Cache-Control": "private, max-age=86400",
+      },
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+
+    console.error(`Error in GET /api/scraping/screenshots/${params.name}:`, {
+      message: errorMessage,
+      error,
+    });
+
+    return NextResponse.json(
+      { error: "Failed to retrieve screenshot", details: errorMessage },
+      { status: 500 },
+    );
+  }
+}
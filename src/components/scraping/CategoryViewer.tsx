@@ -21,6 +21,8 @@ import {
   Search,
   Filter,
   SlidersHorizontal,
+  SearchX,
+  XCircle,
   FileJson,
   FileSpreadsheet,
   FileCode,
@@ -40,6 +42,7 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import { ScrapingError, ScrapingResult } from "@/types/scraping";
 
 interface CategoryItem {
   id: string;
@@ -63,6 +66,8 @@ interface CategoryViewerProps {
   onDelete?: (categoryId: string, itemId: string) => void;
   onVerify?: (categoryId: string, itemId: string, verified: boolean) => void;
   onExport?: (format: string, categoryId?: string) => void;
+  status?: ScrapingResult["status"];
+  errors?: ScrapingError[];
   className?: string;
 }
 
@@ -72,6 +77,8 @@ const CategoryViewer: React.FC<CategoryViewerProps> = ({
   onDelete,
   onVerify,
   onExport,
+  status,
+  errors = [],
   className,
 }) => {
   const [activeCategory, setActiveCategory] = useState<string | null>(null);
@@ -152,7 +159,27 @@ const CategoryViewer: React.FC<CategoryViewerProps> = ({
         </div>
       </CardHeader>
 
-      {categoryKeys.length > 0 ? (
+      {status === "failed" ? (
+        <div className="flex-1 flex flex-col items-center justify-center p-8 text-center">
+          <XCircle className="h-12 w-12 text-destructive/70 mb-4" />
+          <h3 className="text-lg font-medium">Scraping failed</h3>
+          <p className="text-sm text-muted-foreground mt-1 max-w-md">
+            No data was extracted because the scraping operation failed.
+          </p>
+          {errors.length > 0 && (
+            <ul className="mt-4 space-y-1 text-sm text-left">
+              {errors.map((error, index) => (
+                <li key={index}>
+                  <span className="font-mono text-xs text-destructive mr-2">
+                    {error.code}
+                  </span>
+                  {error.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ) : categoryKeys.length > 0 ? (
         <Tabs
           value={activeCategory || undefined}
           onValueChange={(value) => setActiveCategory(value)}
@@ -172,6 +199,20 @@ const CategoryViewer: React.FC<CategoryViewerProps> = ({
             </TabsList>
           </div>
 
+          {status === "empty" && (
+            <div className="mx-4 mt-4 flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+              <SearchX className="h-4 w-4 mt-0.5 shrink-0" />
+              <div>
+                <p className="font-medium">No matching content found</p>
+                {errors.map((error, index) => (
+                  <p key={index} className="text-xs">
+                    {error.message}
+                  </p>
+                ))}
+              </div>
+            </div>
+          )}
+
           {categoryKeys.map((category) => (
             <TabsContent
               key={category}
@@ -336,7 +377,9 @@ const CategoryViewer: React.FC<CategoryViewerProps> = ({
                     <p className="text-sm text-muted-foreground mt-1">
                       {searchTerm || filterVerified !== null
                         ? "Try adjusting your search or filters"
-                        : "This category doesn't have any items yet"}
+                        : status === "empty"
+                          ? "Nothing on the scraped page matched this category"
+                          : "This category doesn't have any items yet"}
                     </p>
                   </div>
                 )}
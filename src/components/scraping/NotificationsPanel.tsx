@@ -0,0 +1,567 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  RefreshCw,
+  Save,
+  Send,
+  Plus,
+  Trash2,
+  RotateCcw,
+  AlertCircle,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { generateUniqueId } from "@/lib/utils/ids";
+import { loadScrapingConfigurations } from "@/lib/api/scraping";
+import {
+  AlertRule,
+  ItemChangeType,
+  ScrapingConfig,
+  WebhookDelivery,
+  WebhookTarget,
+} from "@/types/scraping";
+
+const CHANGE_TYPES: ItemChangeType[] = ["added", "removed", "modified"];
+
+// Webhooks as returned by the API: the secret is replaced with a flag
+type EditableWebhook = WebhookTarget & { hasSecret?: boolean };
+
+interface EditableSettings {
+  enabled: boolean;
+  rules: AlertRule[];
+  webhooks: EditableWebhook[];
+}
+
+const NotificationsPanel: React.FC = () => {
+  const [configs, setConfigs] = useState<ScrapingConfig[]>([]);
+  const [configId, setConfigId] = useState("");
+  const [settings, setSettings] = useState<EditableSettings>({
+    enabled: false,
+    rules: [],
+    webhooks: [],
+  });
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load saved configurations to choose from
+  useEffect(() => {
+    loadScrapingConfigurations(50, 0)
+      .then((loaded: ScrapingConfig[]) => {
+        setConfigs(loaded.filter((config) => !!config.id));
+        if (loaded[0]?.id) setConfigId(loaded[0].id);
+      })
+      .catch((error: any) =>
+        setError(error.message || "Failed to load configurations"),
+      );
+  }, []);
+
+  // Fetch the alert settings and delivery log of the selected configuration
+  const fetchNotifications = async () => {
+    if (!configId) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await fetch(
+        `/api/scraping/notifications?configId=${encodeURIComponent(configId)}`,
+      );
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch notifications");
+      }
+
+      setSettings(data.notifications);
+      setDeliveries(data.deliveries);
+    } catch (error: any) {
+      console.error("Error fetching notifications:", error);
+      setError(error.message || "Failed to fetch notifications");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setMessage(null);
+    fetchNotifications();
+  }, [configId]);
+
+  // Send a request to the notifications API and refresh the panel
+  const sendRequest = async (
+    method: "PUT" | "POST",
+    body: Record<string, any>,
+    successMessage: string,
+  ) => {
+    try {
+      setError(null);
+      setMessage(null);
+
+      const response = await fetch("/api/scraping/notifications", {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(
+          data.details?.join("; ") || data.error || "Request failed",
+        );
+      }
+
+      setMessage(successMessage);
+      await fetchNotifications();
+    } catch (error: any) {
+      console.error("Error updating notifications:", error);
+      setError(error.message || "Request failed");
+    }
+  };
+
+  const handleSave = () =>
+    sendRequest(
+      "PUT",
+      {
+        configId,
+        notifications: {
+          ...settings,
+          // Only send secrets that were typed in, the API keeps the others
+          webhooks: settings.webhooks.map(({ hasSecret, ...webhook }) =>
+            webhook.secret ? webhook : { ...webhook, secret: undefined },
+          ),
+        },
+      },
+      "Alert settings saved",
+    );
+
+  const handleTest = () =>
+    sendRequest("POST", { action: "test", configId }, "Test event sent");
+
+  const handleRedeliver = (deliveryId: string) =>
+    sendRequest(
+      "POST",
+      { action: "redeliver", deliveryId },
+      "Delivery sent again",
+    );
+
+  const updateRule = (id: string, changes: Partial<AlertRule>) =>
+    setSettings((current) => ({
+      ...current,
+      rules: current.rules.map((rule) =>
+        rule.id === id ? { ...rule, ...changes } : rule,
+      ),
+    }));
+
+  const updateWebhook = (id: string, changes: Partial<EditableWebhook>) =>
+    setSettings((current) => ({
+      ...current,
+      webhooks: current.webhooks.map((webhook) =>
+        webhook.id === id ? { ...webhook, ...changes } : webhook,
+      ),
+    }));
+
+  const addRule = () =>
+    setSettings((current) => ({
+      ...current,
+      rules: [
+        ...current.rules,
+        {
+          id: `rule_${generateUniqueId()}`,
+          name: `Rule ${current.rules.length + 1}`,
+          enabled: true,
+          categories: [],
+          changeTypes: [...CHANGE_TYPES],
+        },
+      ],
+    }));
+
+  const addWebhook = () =>
+    setSettings((current) => ({
+      ...current,
+      webhooks: [
+        ...current.webhooks,
+        { id: `webhook_${generateUniqueId()}`, url: "", enabled: true },
+      ],
+    }));
+
+  // Get delivery status badge color
+  const getStatusBadgeColor = (status: WebhookDelivery["status"]) => {
+    switch (status) {
+      case "delivered":
+        return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300";
+      case "failed":
+        return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300";
+      case "retrying":
+        return "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-300";
+      default:
+        return "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300";
+    }
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col bg-background rounded-lg border border-border overflow-hidden">
+      <div className="flex items-center justify-between p-4 border-b">
+        <div>
+          <h2 className="text-xl font-semibold">Change Alerts</h2>
+          <p className="text-sm text-muted-foreground">
+            Notify webhooks when scheduled runs find changes
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Select value={configId} onValueChange={setConfigId}>
+            <SelectTrigger className="w-64">
+              <SelectValue placeholder="Select a configuration" />
+            </SelectTrigger>
+            <SelectContent>
+              {configs.map((config) => (
+                <SelectItem key={config.id} value={config.id!}>
+                  {config.name || config.url}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={fetchNotifications}
+            disabled={isLoading || !configId}
+          >
+            <RefreshCw
+              className={`mr-2 h-4 w-4 ${isLoading ? "animate-spin" : ""}`}
+            />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive" className="m-4">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      {message && <p className="px-4 pt-4 text-sm text-green-600">{message}</p>}
+
+      {!configId ? (
+        <div className="flex items-center justify-center h-40 text-center">
+          <p className="text-muted-foreground">
+            Save a configuration to set up alerts for it
+          </p>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-auto p-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="notifications-enabled"
+                checked={settings.enabled}
+                onCheckedChange={(enabled) =>
+                  setSettings((current) => ({ ...current, enabled }))
+                }
+              />
+              <Label htmlFor="notifications-enabled">Alerts enabled</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleTest}
+                disabled={settings.webhooks.length === 0}
+              >
+                <Send className="mr-2 h-4 w-4" />
+                Send Test
+              </Button>
+              <Button size="sm" onClick={handleSave}>
+                <Save className="mr-2 h-4 w-4" />
+                Save
+              </Button>
+            </div>
+          </div>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <div className="flex justify-between items-center">
+                <CardTitle className="text-lg">Alert Rules</CardTitle>
+                <Button variant="outline" size="sm" onClick={addRule}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Rule
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {settings.rules.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  No rules yet. Rules decide which changes trigger an alert.
+                </p>
+              )}
+              {settings.rules.map((rule) => (
+                <div
+                  key={rule.id}
+                  className="grid grid-cols-1 md:grid-cols-2 gap-3 rounded-md border border-border p-3"
+                >
+                  <div className="space-y-1">
+                    <Label className="text-xs">Name</Label>
+                    <Input
+                      value={rule.name}
+                      onChange={(e) =>
+                        updateRule(rule.id, { name: e.target.value })
+                      }
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">
+                      Categories (comma separated, empty for all)
+                    </Label>
+                    <Input
+                      value={(rule.categories || []).join(", ")}
+                      placeholder="fees, eligibility"
+                      onChange={(e) =>
+                        updateRule(rule.id, {
+                          categories: e.target.value
+                            .split(",")
+                            .map((category) => category.trim())
+                            .filter(Boolean),
+                        })
+                      }
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">
+                      Pattern (regular expression, optional)
+                    </Label>
+                    <Input
+                      value={rule.pattern || ""}
+                      placeholder="fee|price"
+                      onChange={(e) =>
+                        updateRule(rule.id, {
+                          pattern: e.target.value || undefined,
+                        })
+                      }
+                    />
+                  </div>
+                  <div className="flex items-end justify-between">
+                    <div className="flex items-center space-x-3">
+                      {CHANGE_TYPES.map((type) => (
+                        <div
+                          key={type}
+                          className="flex items-center space-x-1 text-sm"
+                        >
+                          <Checkbox
+                            id={`${rule.id}-${type}`}
+                            checked={rule.changeTypes.includes(type)}
+                            onCheckedChange={(checked) =>
+                              updateRule(rule.id, {
+                                changeTypes: checked
+                                  ? [...rule.changeTypes, type]
+                                  : rule.changeTypes.filter((t) => t !== type),
+                              })
+                            }
+                          />
+                          <Label
+                            htmlFor={`${rule.id}-${type}`}
+                            className="capitalize"
+                          >
+                            {type}
+                          </Label>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        checked={rule.enabled}
+                        onCheckedChange={(enabled) =>
+                          updateRule(rule.id, { enabled })
+                        }
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Remove rule"
+                        onClick={() =>
+                          setSettings((current) => ({
+                            ...current,
+                            rules: current.rules.filter(
+                              (r) => r.id !== rule.id,
+                            ),
+                          }))
+                        }
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <div className="flex justify-between items-center">
+                <CardTitle className="text-lg">Webhooks</CardTitle>
+                <Button variant="outline" size="sm" onClick={addWebhook}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Webhook
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {settings.webhooks.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  No webhooks yet. Alerts are POSTed as JSON to each webhook.
+                </p>
+              )}
+              {settings.webhooks.map((webhook) => (
+                <div
+                  key={webhook.id}
+                  className="grid grid-cols-1 md:grid-cols-[2fr_1fr_auto] gap-3 items-end rounded-md border border-border p-3"
+                >
+                  <div className="space-y-1">
+                    <Label className="text-xs">URL</Label>
+                    <Input
+                      value={webhook.url}
+                      placeholder="https://example.com/hooks/scraper"
+                      onChange={(e) =>
+                        updateWebhook(webhook.id, { url: e.target.value })
+                      }
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Signing secret</Label>
+                    <Input
+                      type="password"
+                      value={webhook.secret || ""}
+                      placeholder={
+                        webhook.hasSecret ? "Saved, type to replace" : "None"
+                      }
+                      onChange={(e) =>
+                        updateWebhook(webhook.id, { secret: e.target.value })
+                      }
+                    />
+                  </div>
+                  <div className="flex items-center space-x-2 pb-1">
+                    <Switch
+                      checked={webhook.enabled}
+                      onCheckedChange={(enabled) =>
+                        updateWebhook(webhook.id, { enabled })
+                      }
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Remove webhook"
+                      onClick={() =>
+                        setSettings((current) => ({
+                          ...current,
+                          webhooks: current.webhooks.filter(
+                            (w) => w.id !== webhook.id,
+                          ),
+                        }))
+                      }
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <div>
+            <h3 className="text-sm font-medium mb-2">Delivery Log</h3>
+            {deliveries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No deliveries yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Created</TableHead>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Webhook</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Attempts</TableHead>
+                    <TableHead>Last Error</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {deliveries.map((delivery) => (
+                    <TableRow key={delivery.id}>
+                      <TableCell>
+                        {new Date(delivery.createdAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        {delivery.payload.event}
+                        {delivery.payload.alerts.length > 0 &&
+                          ` (${delivery.payload.alerts.length} alert(s))`}
+                      </TableCell>
+                      <TableCell className="max-w-[16rem] truncate">
+                        {delivery.webhookUrl}
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          className={cn(
+                            "text-xs",
+                            getStatusBadgeColor(delivery.status),
+                          )}
+                        >
+                          {delivery.status.charAt(0).toUpperCase() +
+                            delivery.status.slice(1)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {delivery.attempts} / {delivery.maxAttempts}
+                      </TableCell>
+                      <TableCell className="text-xs text-red-600">
+                        {delivery.lastError}
+                      </TableCell>
+                      <TableCell>
+                        {delivery.status !== "delivered" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Deliver again"
+                            onClick={() => handleRedeliver(delivery.id)}
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationsPanel;
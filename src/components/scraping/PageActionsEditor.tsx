@@ -0,0 +1,212 @@
+"use client";
+
+import React from "react";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PageAction, PageActionType } from "@/types/scraping";
+
+interface PageActionsEditorProps {
+  actions: PageAction[];
+  onChange: (actions: PageAction[]) => void;
+}
+
+const ACTION_LABELS: Record<PageActionType, string> = {
+  click: "Click",
+  type: "Type text",
+  select: "Select option",
+  waitFor: "Wait for element",
+  scroll: "Scroll",
+  evaluate: "Evaluate script",
+};
+
+const PageActionsEditor: React.FC<PageActionsEditorProps> = ({
+  actions,
+  onChange,
+}) => {
+  const updateAction = (index: number, changes: Partial<PageAction>) =>
+    onChange(
+      actions.map((action, i) =>
+        i === index ? { ...action, ...changes } : action,
+      ),
+    );
+
+  const moveAction = (index: number, offset: number) => {
+    const moved = [...actions];
+    const [action] = moved.splice(index, 1);
+    moved.splice(index + offset, 0, action);
+    onChange(moved);
+  };
+
+  const addAction = () =>
+    onChange([...actions, { type: "click", selector: "" }]);
+
+  const removeAction = (index: number) =>
+    onChange(actions.filter((_, i) => i !== index));
+
+  return (
+    <div className="space-y-3">
+      {actions.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No page actions. Add steps such as accepting cookies or clicking
+          &quot;Show more&quot; before the page is extracted.
+        </p>
+      )}
+      {actions.map((action, index) => (
+        <div
+          key={index}
+          className="grid grid-cols-1 md:grid-cols-2 gap-3 rounded-md border border-border p-3"
+        >
+          <div className="space-y-1">
+            <Label className="text-xs">Step {index + 1}</Label>
+            <Select
+              value={action.type}
+              onValueChange={(type: PageActionType) =>
+                updateAction(index, { type })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(ACTION_LABELS).map(([type, label]) => (
+                  <SelectItem key={type} value={type}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {action.type === "evaluate" ? (
+            <div className="space-y-1">
+              <Label className="text-xs">Result name</Label>
+              <Input
+                placeholder={`action${index + 1}`}
+                value={action.name || ""}
+                onChange={(e) => updateAction(index, { name: e.target.value })}
+              />
+            </div>
+          ) : (
+            <div className="space-y-1">
+              <Label className="text-xs">
+                Selector{action.type === "scroll" && " (optional)"}
+              </Label>
+              <Input
+                placeholder={
+                  action.type === "scroll" ? "Bottom of the page" : ".show-more"
+                }
+                value={action.selector || ""}
+                onChange={(e) =>
+                  updateAction(index, { selector: e.target.value })
+                }
+              />
+            </div>
+          )}
+
+          {(action.type === "type" || action.type === "select") && (
+            <div className="space-y-1">
+              <Label className="text-xs">
+                {action.type === "type" ? "Text" : "Option value"}
+              </Label>
+              <Input
+                value={action.value || ""}
+                onChange={(e) => updateAction(index, { value: e.target.value })}
+              />
+            </div>
+          )}
+
+          {action.type === "evaluate" && (
+            <div className="space-y-1 md:col-span-2">
+              <Label className="text-xs">Script</Label>
+              <Textarea
+                className="font-mono text-xs"
+                placeholder="document.querySelectorAll('.item').length"
+                value={action.script || ""}
+                onChange={(e) =>
+                  updateAction(index, { script: e.target.value })
+                }
+              />
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label className="text-xs">Timeout (ms)</Label>
+            <Input
+              type="number"
+              min={1}
+              placeholder="10000"
+              value={action.timeout ?? ""}
+              onChange={(e) =>
+                updateAction(index, {
+                  timeout: e.target.value
+                    ? parseInt(e.target.value, 10)
+                    : undefined,
+                })
+              }
+            />
+          </div>
+
+          <div className="flex items-end justify-between md:col-span-2">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id={`action-optional-${index}`}
+                checked={!!action.optional}
+                onCheckedChange={(checked) =>
+                  updateAction(index, { optional: !!checked })
+                }
+              />
+              <Label htmlFor={`action-optional-${index}`} className="text-xs">
+                Continue if this step fails
+              </Label>
+            </div>
+            <div className="flex space-x-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => moveAction(index, -1)}
+                disabled={index === 0}
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => moveAction(index, 1)}
+                disabled={index === actions.length - 1}
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => removeAction(index)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={addAction}>
+        <Plus className="mr-2 h-4 w-4" />
+        Add Step
+      </Button>
+    </div>
+  );
+};
+
+export default PageActionsEditor;
@@ -7,20 +7,34 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { RefreshCw, Play, Pause, Trash2, AlertCircle } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  RefreshCw,
+  Play,
+  Pause,
+  Trash2,
+  AlertCircle,
+  XCircle,
+  RotateCcw,
+} from "lucide-react";
 import { cn } from "@/lib/utils";
+import { HostRateLimitState, ScrapingJob } from "@/types/scraping";
 
-interface QueueItem {
-  id: string;
-  config: any;
-  status: "pending" | "processing" | "completed" | "failed" | "retrying";
-  progress: number;
-  result?: any;
-  error?: string;
-  retryCount: number;
-  createdAt: string;
-  updatedAt: string;
-}
+// How often to refresh while jobs are pending or running
+const POLL_INTERVAL = 2000;
+
+type JobAction = "cancel" | "retry" | "reprioritize" | "remove";
+
+// Statuses that allow each action, matching the queue API
+const CANCELLABLE = ["pending", "processing", "retrying"];
+const RETRYABLE = ["failed", "cancelled", "retrying"];
+const REPRIORITIZABLE = ["pending", "processing", "retrying"];
 
 interface QueueManagerProps {
   onRefresh?: () => void;
@@ -35,22 +49,26 @@ const QueueManager: React.FC<QueueManagerProps> = ({
   onRemoveJob = () => {},
   onPauseQueue = () => {},
   onResumeQueue = () => {},
-  isPaused = false,
+  isPaused: initiallyPaused = false,
 }) => {
-  const [queueItems, setQueueItems] = useState<QueueItem[]>([]);
+  const [queueItems, setQueueItems] = useState<ScrapingJob[]>([]);
   const [activeTab, setActiveTab] = useState("all");
+  const [selectedBatch, setSelectedBatch] = useState("all");
+  const [isPaused, setIsPaused] = useState(initiallyPaused);
+  const [rateLimits, setRateLimits] = useState<HostRateLimitState[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // Fetch queue items
-  const fetchQueueItems = async () => {
+  const fetchQueueItems = async (showLoading = true) => {
     try {
-      setIsLoading(true);
+      if (showLoading) setIsLoading(true);
       setError(null);
 
-      // In a production environment, this would fetch from the API
-      // For this implementation, we'll use sample data
-      const response = await fetch("/api/scraping/queue");
+      const [response, stateResponse] = await Promise.all([
+        fetch("/api/scraping/queue"),
+        fetch("/api/scraping/queue?state=true"),
+      ]);
 
       if (!response.ok) {
         throw new Error("Failed to fetch queue items");
@@ -58,87 +76,17 @@ const QueueManager: React.FC<QueueManagerProps> = ({
 
       const data = await response.json();
       setQueueItems(data);
+
+      if (stateResponse.ok) {
+        const state = await stateResponse.json();
+        setIsPaused(state.paused);
+        setRateLimits(state.rateLimits || []);
+      }
     } catch (error: any) {
       console.error("Error fetching queue items:", error);
       setError(error.message || "Failed to fetch queue items");
-
-      // Use sample data for demonstration
-      setQueueItems([
-        {
-          id: "job_1",
-          config: {
-            url: "https://example.com",
-            mode: "single",
-            scrapingMode: "basic",
-            priority: "high",
-          },
-          status: "processing",
-          progress: 45,
-          retryCount: 0,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-        },
-        {
-          id: "job_2",
-          config: {
-            url: "https://example.org",
-            mode: "single",
-            scrapingMode: "thorough",
-            priority: "medium",
-          },
-          status: "pending",
-          progress: 0,
-          retryCount: 0,
-          createdAt: new Date(Date.now() - 60000).toISOString(),
-          updatedAt: new Date(Date.now() - 60000).toISOString(),
-        },
-        {
-          id: "job_3",
-          config: {
-            url: "https://example.net",
-            mode: "single",
-            scrapingMode: "semantic",
-            priority: "low",
-          },
-          status: "completed",
-          progress: 100,
-          retryCount: 0,
-          createdAt: new Date(Date.now() - 120000).toISOString(),
-          updatedAt: new Date(Date.now() - 30000).toISOString(),
-        },
-        {
-          id: "job_4",
-          config: {
-            url: "https://invalid-url.com",
-            mode: "single",
-            scrapingMode: "basic",
-            priority: "medium",
-          },
-          status: "failed",
-          progress: 30,
-          error: "Failed to fetch URL: 404 Not Found",
-          retryCount: 3,
-          createdAt: new Date(Date.now() - 180000).toISOString(),
-          updatedAt: new Date(Date.now() - 90000).toISOString(),
-        },
-        {
-          id: "job_5",
-          config: {
-            url: "https://retry-example.com",
-            mode: "single",
-            scrapingMode: "basic",
-            priority: "high",
-          },
-          status: "retrying",
-          progress: 0,
-          error: "Connection timeout",
-          retryCount: 1,
-          createdAt: new Date(Date.now() - 240000).toISOString(),
-          updatedAt: new Date(Date.now() - 120000).toISOString(),
-        },
-      ]);
     } finally {
-      setIsLoading(false);
+      if (showLoading) setIsLoading(false);
     }
   };
 
@@ -147,13 +95,35 @@ const QueueManager: React.FC<QueueManagerProps> = ({
     fetchQueueItems();
   }, []);
 
-  // Filter queue items based on active tab
+  // Keep polling while jobs are pending or running so progress stays current
+  const hasActiveJobs = queueItems.some((item) =>
+    ["pending", "processing", "retrying"].includes(item.status),
+  );
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+
+    const timer = setInterval(() => fetchQueueItems(false), POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [hasActiveJobs]);
+
+  // Batches present in the queue, for the batch filter and bulk actions
+  const batchIds = Array.from(
+    new Set(
+      queueItems
+        .map((item) => item.batchId)
+        .filter((batchId): batchId is string => !!batchId),
+    ),
+  );
+
+  // Filter queue items based on active tab and selected batch
   const filteredItems = queueItems.filter((item) => {
+    if (selectedBatch !== "all" && item.batchId !== selectedBatch) return false;
     if (activeTab === "all") return true;
     if (activeTab === "active")
       return ["pending", "processing", "retrying"].includes(item.status);
     if (activeTab === "completed") return item.status === "completed";
-    if (activeTab === "failed") return item.status === "failed";
+    if (activeTab === "failed")
+      return item.status === "failed" || item.status === "cancelled";
     return true;
   });
 
@@ -164,7 +134,9 @@ const QueueManager: React.FC<QueueManagerProps> = ({
       ["pending", "processing", "retrying"].includes(item.status),
     ).length,
     completed: queueItems.filter((item) => item.status === "completed").length,
-    failed: queueItems.filter((item) => item.status === "failed").length,
+    failed: queueItems.filter(
+      (item) => item.status === "failed" || item.status === "cancelled",
+    ).length,
   };
 
   // Handle refresh
@@ -174,10 +146,111 @@ const QueueManager: React.FC<QueueManagerProps> = ({
   };
 
   // Handle remove job
-  const handleRemoveJob = (jobId: string) => {
-    // In a production environment, this would call the API
-    onRemoveJob(jobId);
-    setQueueItems(queueItems.filter((item) => item.id !== jobId));
+  const handleRemoveJob = async (jobId: string) => {
+    try {
+      const response = await fetch(
+        `/api/scraping/queue?id=${encodeURIComponent(jobId)}`,
+        { method: "DELETE" },
+      );
+
+      if (!response.ok && response.status !== 404) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to remove job");
+      }
+
+      onRemoveJob(jobId);
+      setQueueItems((items) => items.filter((item) => item.id !== jobId));
+    } catch (error: any) {
+      console.error("Error removing job:", error);
+      setError(error.message || "Failed to remove job");
+    }
+  };
+
+  // Send a control request to the queue API and refresh the list
+  const updateQueue = async (
+    method: "PATCH" | "DELETE",
+    target: { id?: string; batchId?: string },
+    body: Record<string, any> = {},
+  ) => {
+    try {
+      setError(null);
+      const params = new URLSearchParams(
+        target.batchId
+          ? { batchId: target.batchId }
+          : target.id
+            ? { id: target.id }
+            : {},
+      );
+      const response = await fetch(
+        method === "DELETE"
+          ? `/api/scraping/queue?${params.toString()}`
+          : "/api/scraping/queue",
+        {
+          method,
+          headers: { "Content-Type": "application/json" },
+          body:
+            method === "PATCH" ? JSON.stringify({ ...target, ...body }) : null,
+        },
+      );
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update queue");
+      }
+
+      if (data.skipped?.length > 0) {
+        setError(
+          `${data.skipped.length} job(s) skipped: ${data.skipped[0].error}`,
+        );
+      }
+
+      await fetchQueueItems(false);
+      return data;
+    } catch (error: any) {
+      console.error("Error updating queue:", error);
+      setError(error.message || "Failed to update queue");
+      return null;
+    }
+  };
+
+  // Handle a row action
+  const handleJobAction = (
+    jobId: string,
+    action: Exclude<JobAction, "remove">,
+    priority?: string,
+  ) => updateQueue("PATCH", { id: jobId }, { action, priority });
+
+  // Handle a bulk action on the selected batch
+  const handleBatchAction = async (action: JobAction) => {
+    if (selectedBatch === "all") return;
+
+    if (action === "remove") {
+      const data = await updateQueue("DELETE", { batchId: selectedBatch });
+      if (data) {
+        data.removed.forEach((jobId: string) => onRemoveJob(jobId));
+        setSelectedBatch("all");
+      }
+    } else {
+      await updateQueue("PATCH", { batchId: selectedBatch }, { action });
+    }
+  };
+
+  // Handle pause and resume of the whole queue
+  const handleTogglePause = async () => {
+    const state = await updateQueue(
+      "PATCH",
+      {},
+      { action: isPaused ? "resume" : "pause" },
+    );
+    if (!state) return;
+
+    setIsPaused(state.paused);
+    setRateLimits(state.rateLimits || []);
+    if (state.paused) {
+      onPauseQueue();
+    } else {
+      onResumeQueue();
+    }
   };
 
   // Get status badge color
@@ -191,6 +264,8 @@ const QueueManager: React.FC<QueueManagerProps> = ({
         return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300";
       case "retrying":
         return "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-300";
+      case "cancelled":
+        return "bg-slate-200 text-slate-700 dark:bg-slate-800 dark:text-slate-300";
       default:
         return "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300";
     }
@@ -231,11 +306,7 @@ const QueueManager: React.FC<QueueManagerProps> = ({
             />
             {isLoading ? "Refreshing..." : "Refresh"}
           </Button>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={isPaused ? onResumeQueue : onPauseQueue}
-          >
+          <Button variant="outline" size="sm" onClick={handleTogglePause}>
             {isPaused ? (
               <>
                 <Play className="mr-2 h-4 w-4" />
@@ -301,6 +372,97 @@ const QueueManager: React.FC<QueueManagerProps> = ({
         </Card>
       </div>
 
+      {batchIds.length > 0 && (
+        <div className="flex items-center gap-2 px-4 pb-4">
+          <Select value={selectedBatch} onValueChange={setSelectedBatch}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Filter by batch" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All batches</SelectItem>
+              {batchIds.map((batchId) => (
+                <SelectItem key={batchId} value={batchId}>
+                  Batch {batchId}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selectedBatch !== "all" && (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleBatchAction("cancel")}
+              >
+                <XCircle className="mr-2 h-4 w-4" />
+                Cancel Batch
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleBatchAction("retry")}
+              >
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Retry Batch
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleBatchAction("remove")}
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Remove Batch
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+
+      {rateLimits.length > 0 && (
+        <div className="px-4 pb-4">
+          <h3 className="text-sm font-medium mb-2">Rate Limits</h3>
+          <div className="space-y-1 text-xs">
+            {rateLimits.map((limit) => (
+              <div
+                key={limit.host}
+                className="flex flex-wrap items-center gap-x-4 gap-y-1 rounded border px-3 py-2"
+              >
+                <span className="font-medium">{limit.host}</span>
+                {limit.domain && (
+                  <Badge variant="outline" className="text-xs">
+                    {limit.domain} limits
+                  </Badge>
+                )}
+                <span className="text-muted-foreground">
+                  Active: {limit.active} / {limit.maxConcurrency}
+                </span>
+                <span className="text-muted-foreground">
+                  Waiting: {limit.waiting}
+                </span>
+                <span className="text-muted-foreground">
+                  Tokens: {limit.tokens} / {limit.burst}
+                </span>
+                <span className="text-muted-foreground">
+                  {limit.requestsPerSecond} req/s
+                  {limit.slowdown > 1 && ` (slowed ${limit.slowdown}x)`}
+                </span>
+                {limit.lastStatus && (
+                  <span className="text-muted-foreground">
+                    Last status: {limit.lastStatus}
+                  </span>
+                )}
+                {limit.backoffUntil && (
+                  <Badge className="text-xs bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-300">
+                    Backing off until{" "}
+                    {new Date(limit.backoffUntil).toLocaleTimeString()}
+                  </Badge>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <Tabs value={activeTab} onValueChange={setActiveTab} className="flex-1">
         <div className="px-4 border-b">
           <TabsList>
@@ -312,7 +474,7 @@ const QueueManager: React.FC<QueueManagerProps> = ({
               Completed ({queueStats.completed})
             </TabsTrigger>
             <TabsTrigger value="failed">
-              Failed ({queueStats.failed})
+              Failed / Cancelled ({queueStats.failed})
             </TabsTrigger>
           </TabsList>
         </div>
@@ -350,15 +512,11 @@ const QueueManager: React.FC<QueueManagerProps> = ({
                             <Badge
                               className={cn(
                                 "text-xs",
-                                getPriorityBadgeColor(
-                                  item.config.priority || "medium",
-                                ),
+                                getPriorityBadgeColor(item.priority),
                               )}
                             >
-                              {item.config.priority
-                                ? item.config.priority.charAt(0).toUpperCase() +
-                                  item.config.priority.slice(1)
-                                : "Medium"}{" "}
+                              {item.priority.charAt(0).toUpperCase() +
+                                item.priority.slice(1)}{" "}
                               Priority
                             </Badge>
                             <Badge className="text-xs bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300">
@@ -368,27 +526,82 @@ const QueueManager: React.FC<QueueManagerProps> = ({
                                 item.config.scrapingMode.slice(1)}{" "}
                               Mode
                             </Badge>
+                            {item.batchId && (
+                              <Badge variant="outline" className="text-xs">
+                                Batch {item.batchId}
+                              </Badge>
+                            )}
                           </div>
                         </div>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleRemoveJob(item.id)}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
+                        <div className="flex items-center space-x-1">
+                          {REPRIORITIZABLE.includes(item.status) && (
+                            <Select
+                              value={item.priority}
+                              onValueChange={(priority) =>
+                                handleJobAction(
+                                  item.id,
+                                  "reprioritize",
+                                  priority,
+                                )
+                              }
+                            >
+                              <SelectTrigger className="h-8 w-28 text-xs">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="high">High</SelectItem>
+                                <SelectItem value="medium">Medium</SelectItem>
+                                <SelectItem value="low">Low</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          )}
+                          {CANCELLABLE.includes(item.status) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Cancel job"
+                              onClick={() => handleJobAction(item.id, "cancel")}
+                            >
+                              <XCircle className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {RETRYABLE.includes(item.status) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Retry job"
+                              onClick={() => handleJobAction(item.id, "retry")}
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Remove job"
+                            onClick={() => handleRemoveJob(item.id)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
                       </div>
                     </CardHeader>
                     <CardContent>
                       {item.status === "processing" && (
                         <div className="space-y-2">
                           <div className="flex justify-between text-sm">
-                            <span>Progress</span>
+                            <span>{item.stage || "Progress"}</span>
                             <span>{item.progress}%</span>
                           </div>
                           <Progress value={item.progress} className="h-2" />
                         </div>
                       )}
+                      {item.status === "retrying" && item.nextAttemptAt && (
+                        <p className="text-sm text-muted-foreground">
+                          Next attempt at{" "}
+                          {new Date(item.nextAttemptAt).toLocaleString()}
+                        </p>
+                      )}
                       {item.error && (
                         <Alert
                           variant="destructive"
@@ -411,9 +624,15 @@ const QueueManager: React.FC<QueueManagerProps> = ({
                           <span className="font-medium">Job ID:</span> {item.id}
                         </div>
                         <div>
-                          <span className="font-medium">Retry Count:</span>{" "}
-                          {item.retryCount}
+                          <span className="font-medium">Retries:</span>{" "}
+                          {item.retryCount} / {item.maxRetries}
                         </div>
+                        {item.resultIds.length > 0 && (
+                          <div className="col-span-2">
+                            <span className="font-medium">Results:</span>{" "}
+                            {item.resultIds.join(", ")}
+                          </div>
+                        )}
                       </div>
                     </CardContent>
                   </Card>
@@ -0,0 +1,261 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RefreshCw, AlertCircle, GitCompare } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  FieldChange,
+  ItemChangeType,
+  ResultDiff,
+  ScrapingResult,
+} from "@/types/scraping";
+
+interface ResultDiffViewerProps {
+  result: ScrapingResult;
+  className?: string;
+}
+
+const CHANGE_COLORS: Record<ItemChangeType, string> = {
+  added: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300",
+  removed: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300",
+  modified: "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-300",
+};
+
+const ResultDiffViewer: React.FC<ResultDiffViewerProps> = ({
+  result,
+  className,
+}) => {
+  const [earlierResults, setEarlierResults] = useState<ScrapingResult[]>([]);
+  const [against, setAgainst] = useState("previous");
+  const [diff, setDiff] = useState<ResultDiff | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch earlier results of the same configuration and URL to compare against
+  useEffect(() => {
+    const fetchEarlierResults = async () => {
+      try {
+        const response = await fetch("/api/scraping/results");
+        if (!response.ok) return;
+
+        const results: ScrapingResult[] = await response.json();
+        setEarlierResults(
+          results
+            .filter(
+              (candidate) =>
+                candidate.id !== result.id &&
+                candidate.configId === result.configId &&
+                candidate.url === result.url &&
+                candidate.timestamp < result.timestamp,
+            )
+            .sort((a, b) => b.timestamp.localeCompare(a.timestamp)),
+        );
+      } catch (error) {
+        console.error("Error fetching earlier results:", error);
+      }
+    };
+
+    setAgainst("previous");
+    fetchEarlierResults();
+  }, [result.id]);
+
+  // Fetch the diff
+  const fetchDiff = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const query =
+        against === "previous" ? "" : `?against=${encodeURIComponent(against)}`;
+      const response = await fetch(
+        `/api/scraping/results/${encodeURIComponent(result.id)}/diff${query}`,
+      );
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to compare results");
+      }
+
+      setDiff(data);
+    } catch (error: any) {
+      setDiff(null);
+      setError(error.message || "Failed to compare results");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDiff();
+  }, [result.id, against]);
+
+  // Format a field value for display
+  const formatValue = (value: any) => {
+    if (value === undefined || value === null || value === "") return "—";
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+  };
+
+  const renderChanges = (changes: FieldChange[]) => (
+    <div className="mt-2 space-y-1 text-xs">
+      {changes.map((change) => (
+        <div key={change.field} className="grid grid-cols-[8rem_1fr] gap-2">
+          <span className="font-medium">{change.field}</span>
+          <div>
+            <div className="text-red-600 line-through break-words">
+              {formatValue(change.before)}
+            </div>
+            <div className="text-green-600 break-words">
+              {formatValue(change.after)}
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+
+  const changedCategories =
+    diff?.categories.filter((category) => category.items.length > 0) || [];
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      <div className="bg-muted/50 rounded-lg p-4 border border-border">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
+          <div>
+            <h3 className="text-sm font-medium">Changes</h3>
+            <p className="text-xs text-muted-foreground">
+              What changed since an earlier run of this configuration
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={against} onValueChange={setAgainst}>
+              <SelectTrigger className="h-8 w-64 text-xs">
+                <SelectValue placeholder="Compare against" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="previous">Previous run</SelectItem>
+                {earlierResults.map((earlier) => (
+                  <SelectItem key={earlier.id} value={earlier.id}>
+                    {new Date(earlier.timestamp).toLocaleString()}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={fetchDiff}
+              disabled={isLoading}
+              className="flex items-center gap-1"
+            >
+              <RefreshCw
+                className={`h-3 w-3 ${isLoading ? "animate-spin" : ""}`}
+              />
+              Refresh
+            </Button>
+          </div>
+        </div>
+        {diff && (
+          <div className="flex flex-wrap items-center gap-2 mt-3">
+            <Badge className={cn("text-xs", CHANGE_COLORS.added)}>
+              {diff.summary.added} added
+            </Badge>
+            <Badge className={cn("text-xs", CHANGE_COLORS.removed)}>
+              {diff.summary.removed} removed
+            </Badge>
+            <Badge className={cn("text-xs", CHANGE_COLORS.modified)}>
+              {diff.summary.modified} modified
+            </Badge>
+            <Badge variant="outline" className="text-xs">
+              {diff.summary.unchanged} unchanged
+            </Badge>
+            <span className="text-xs text-muted-foreground">
+              Compared with the run of{" "}
+              {new Date(diff.baseTimestamp).toLocaleString()}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {diff && changedCategories.length === 0 && (
+        <Card>
+          <CardContent className="text-center py-12">
+            <div className="mx-auto rounded-full bg-muted w-12 h-12 flex items-center justify-center mb-4">
+              <GitCompare className="h-6 w-6 text-muted-foreground" />
+            </div>
+            <CardTitle className="mb-2">No Changes</CardTitle>
+            <p className="text-muted-foreground">
+              Every item matches the earlier run.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {changedCategories.map((category) => (
+        <Card key={category.category}>
+          <CardHeader className="pb-2">
+            <div className="flex justify-between items-center">
+              <CardTitle className="text-lg capitalize">
+                {category.category}
+              </CardTitle>
+              <span className="text-xs text-muted-foreground">
+                +{category.added} / -{category.removed} / ~{category.modified}
+              </span>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {category.items.map((item, index) => {
+              const current = item.after || item.before;
+              return (
+                <div
+                  key={`${item.type}-${current?.id || index}`}
+                  className="rounded-md border border-border p-3"
+                >
+                  <div className="flex items-center gap-2">
+                    <Badge className={cn("text-xs", CHANGE_COLORS[item.type])}>
+                      {item.type.charAt(0).toUpperCase() + item.type.slice(1)}
+                    </Badge>
+                    <span className="text-sm font-medium">
+                      {current?.title}
+                    </span>
+                  </div>
+                  {item.type === "modified" ? (
+                    renderChanges(item.changes)
+                  ) : (
+                    <p
+                      className={cn(
+                        "mt-2 text-xs text-muted-foreground",
+                        item.type === "removed" && "line-through",
+                      )}
+                    >
+                      {current?.content}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
+
+export default ResultDiffViewer;
@@ -0,0 +1,276 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { RefreshCw, Play, Square, AlertCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { SchedulerRunRecord, SchedulerStatus } from "@/types/scraping";
+
+// How often to refresh the scheduler state
+const POLL_INTERVAL = 10000;
+
+type SchedulerType = SchedulerRunRecord["type"];
+
+const SCHEDULER_LABELS: Record<SchedulerType, string> = {
+  sync: "Synchronization",
+  scrape: "Scheduled Scrapes",
+};
+
+interface SchedulerPanelProps {
+  onRefresh?: () => void;
+}
+
+const SchedulerPanel: React.FC<SchedulerPanelProps> = ({
+  onRefresh = () => {},
+}) => {
+  const [status, setStatus] = useState<SchedulerStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch the scheduler state and run history
+  const fetchStatus = async (showLoading = true) => {
+    try {
+      if (showLoading) setIsLoading(true);
+      setError(null);
+
+      const response = await fetch("/api/scraping/scheduler");
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch scheduler status");
+      }
+
+      setStatus(await response.json());
+    } catch (error: any) {
+      console.error("Error fetching scheduler status:", error);
+      setError(error.message || "Failed to fetch scheduler status");
+    } finally {
+      if (showLoading) setIsLoading(false);
+    }
+  };
+
+  // Fetch the status on mount and keep it current
+  useEffect(() => {
+    fetchStatus();
+
+    const timer = setInterval(() => fetchStatus(false), POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Handle refresh
+  const handleRefresh = () => {
+    fetchStatus();
+    onRefresh();
+  };
+
+  // Start or stop a scheduler
+  const handleToggle = async (scheduler: SchedulerType, running: boolean) => {
+    try {
+      setError(null);
+      const response = await fetch("/api/scraping/scheduler", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: running ? "stop" : "start",
+          scheduler,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to update scheduler");
+      }
+
+      await fetchStatus(false);
+    } catch (error: any) {
+      console.error("Error updating scheduler:", error);
+      setError(error.message || "Failed to update scheduler");
+    }
+  };
+
+  // Format an interval in milliseconds for display
+  const formatInterval = (interval: number) => {
+    if (interval % 3600000 === 0) return `${interval / 3600000} h`;
+    if (interval % 60000 === 0) return `${interval / 60000} min`;
+    return `${Math.round(interval / 1000)} s`;
+  };
+
+  const formatTime = (time: string | null) =>
+    time ? new Date(time).toLocaleString() : "—";
+
+  // Format the counts of a run, e.g. "checked 3, enqueued 1"
+  const formatCounts = (counts: Record<string, number>) =>
+    Object.entries(counts)
+      .map(([name, count]) => `${name} ${count}`)
+      .join(", ") || "—";
+
+  const renderScheduler = (scheduler: SchedulerType) => {
+    const state = status?.[scheduler];
+
+    return (
+      <Card key={scheduler}>
+        <CardHeader className="pb-2">
+          <div className="flex justify-between items-start">
+            <div>
+              <CardTitle className="text-lg">
+                {SCHEDULER_LABELS[scheduler]}
+              </CardTitle>
+              <div className="flex items-center space-x-2 mt-1">
+                <Badge
+                  className={cn(
+                    "text-xs",
+                    state?.running
+                      ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300"
+                      : "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300",
+                  )}
+                >
+                  {state?.running ? "Running" : "Stopped"}
+                </Badge>
+                {state?.inProgress && (
+                  <Badge className="text-xs bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300">
+                    In Progress
+                  </Badge>
+                )}
+              </div>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!state}
+              onClick={() => handleToggle(scheduler, !!state?.running)}
+            >
+              {state?.running ? (
+                <>
+                  <Square className="mr-2 h-4 w-4" />
+                  Stop
+                </>
+              ) : (
+                <>
+                  <Play className="mr-2 h-4 w-4" />
+                  Start
+                </>
+              )}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 gap-2 text-xs text-muted-foreground">
+            <div>
+              <span className="font-medium">Interval:</span>{" "}
+              {state ? formatInterval(state.interval) : "—"}
+            </div>
+            {scheduler === "scrape" && status && (
+              <div>
+                <span className="font-medium">Missed runs:</span>{" "}
+                {status.scrape.missedRunPolicy}
+              </div>
+            )}
+            <div>
+              <span className="font-medium">Last run:</span>{" "}
+              {formatTime(state?.lastRunAt || null)}
+            </div>
+            <div>
+              <span className="font-medium">Next run:</span>{" "}
+              {formatTime(state?.nextRunAt || null)}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="w-full h-full flex flex-col bg-background rounded-lg border border-border overflow-hidden">
+      <div className="flex items-center justify-between p-4 border-b">
+        <div>
+          <h2 className="text-xl font-semibold">Schedulers</h2>
+          <p className="text-sm text-muted-foreground">
+            Monitor the synchronization and scrape schedulers
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleRefresh}
+          disabled={isLoading}
+        >
+          <RefreshCw
+            className={`mr-2 h-4 w-4 ${isLoading ? "animate-spin" : ""}`}
+          />
+          {isLoading ? "Refreshing..." : "Refresh"}
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive" className="m-4">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-2 gap-4 p-4">
+        {renderScheduler("sync")}
+        {renderScheduler("scrape")}
+      </div>
+
+      <div className="flex-1 overflow-auto p-4 pt-0">
+        <h3 className="text-sm font-medium mb-2">Run History</h3>
+        {!status || status.history.length === 0 ? (
+          <div className="flex items-center justify-center h-24 text-center">
+            <p className="text-muted-foreground">No runs recorded yet</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Scheduler</TableHead>
+                <TableHead>Started</TableHead>
+                <TableHead>Duration</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Counts</TableHead>
+                <TableHead>Errors</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {status.history.map((run) => (
+                <TableRow key={`${run.type}-${run.startedAt}`}>
+                  <TableCell>{SCHEDULER_LABELS[run.type]}</TableCell>
+                  <TableCell>{formatTime(run.startedAt)}</TableCell>
+                  <TableCell>{run.duration} ms</TableCell>
+                  <TableCell>
+                    <Badge
+                      className={cn(
+                        "text-xs",
+                        run.success
+                          ? "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300"
+                          : "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300",
+                      )}
+                    >
+                      {run.success ? "Success" : "Failed"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{formatCounts(run.counts)}</TableCell>
+                  <TableCell className="text-xs text-red-600">
+                    {run.errors.join("; ")}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SchedulerPanel;
@@ -11,6 +11,8 @@ import {
   AlertCircle,
   List,
   BarChart,
+  Clock,
+  Bell,
   Download,
   FileJson,
   FileText,
@@ -27,6 +29,8 @@ import {
 import ScrapingConfigPanel from "./ScrapingConfigPanel";
 import ScrapingResultsPanel from "./ScrapingResultsPanel";
 import QueueManager from "./QueueManager";
+import SchedulerPanel from "./SchedulerPanel";
+import NotificationsPanel from "./NotificationsPanel";
 import ScrapingAnalytics from "./ScrapingAnalytics";
 import {
   ScrapingConfig,
@@ -795,7 +799,14 @@ const ScrapingDashboard: React.FC<ScrapingDashboardProps> = ({
       const tabParam = urlParams.get("tab");
       if (
         tabParam &&
-        ["scraping", "results", "queue", "analytics"].includes(tabParam)
+        [
+          "scraping",
+          "results",
+          "queue",
+          "scheduler",
+          "alerts",
+          "analytics",
+        ].includes(tabParam)
       ) {
         setActiveTab(tabParam);
       }
@@ -832,6 +843,14 @@ const ScrapingDashboard: React.FC<ScrapingDashboardProps> = ({
               <List className="h-4 w-4" />
               Queue
             </TabsTrigger>
+            <TabsTrigger value="scheduler" className="flex items-center gap-2">
+              <Clock className="h-4 w-4" />
+              Scheduler
+            </TabsTrigger>
+            <TabsTrigger value="alerts" className="flex items-center gap-2">
+              <Bell className="h-4 w-4" />
+              Alerts
+            </TabsTrigger>
             <TabsTrigger value="analytics" className="flex items-center gap-2">
               <BarChart className="h-4 w-4" />
               Analytics
@@ -969,6 +988,14 @@ const ScrapingDashboard: React.FC<ScrapingDashboardProps> = ({
           <QueueManager />
         </TabsContent>
 
+        <TabsContent value="scheduler" className="mt-0">
+          <SchedulerPanel />
+        </TabsContent>
+
+        <TabsContent value="alerts" className="mt-0">
+          <NotificationsPanel />
+        </TabsContent>
+
         <TabsContent value="analytics" className="mt-0">
           <ScrapingAnalytics />
         </TabsContent>
@@ -48,6 +48,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import CategoryViewer from "./CategoryViewer";
+import ResultDiffViewer from "./ResultDiffViewer";
 import DataPreview from "./DataPreview";
 import { ScrapingResult, ExportOptions } from "@/types/scraping";
 
@@ -362,12 +363,33 @@ const ScrapingResultsPanel: React.FC<ScrapingResultsPanelProps> = ({
           <TabsList className="mt-2">
             <TabsTrigger value="categories">Categorized Data</TabsTrigger>
             <TabsTrigger value="raw">Raw Data</TabsTrigger>
+            {results?.configId && (
+              <TabsTrigger value="changes">Changes</TabsTrigger>
+            )}
           </TabsList>
         </div>
 
         <div className="flex-1 overflow-auto p-4">
           <TabsContent value="categories" className="mt-0 h-full">
-            {!data?.categories || Object.keys(data.categories).length === 0 ? (
+            {results?.status === "failed" ? (
+              <div className="space-y-4">
+                <CategoryViewer
+                  categories={{}}
+                  status="failed"
+                  errors={results.metadata?.errors}
+                />
+                <div className="flex justify-center">
+                  <Button
+                    onClick={onRefresh}
+                    className="flex items-center gap-2"
+                  >
+                    <RefreshCw className="h-4 w-4" />
+                    Try Again
+                  </Button>
+                </div>
+              </div>
+            ) : !data?.categories ||
+              Object.keys(data.categories).length === 0 ? (
               <Card className="h-full flex items-center justify-center">
                 <CardContent className="text-center py-12">
                   <div className="mx-auto rounded-full bg-muted w-12 h-12 flex items-center justify-center mb-4">
@@ -486,11 +508,19 @@ const ScrapingResultsPanel: React.FC<ScrapingResultsPanelProps> = ({
                   onAdd={onAddCategory}
                   onExport={handleExportCategory}
                   onVerify={onVerifyCategory}
+                  status={results?.status}
+                  errors={results?.metadata?.errors}
                 />
               </div>
             )}
           </TabsContent>
 
+          {results?.configId && (
+            <TabsContent value="changes" className="mt-0 h-full">
+              <ResultDiffViewer result={results} />
+            </TabsContent>
+          )}
+
           <TabsContent value="raw" className="mt-0 h-full">
             {!data |
               !data.raw |
@@ -27,6 +27,9 @@ import {
   RefreshCw,
   Copy,
   Download,
+  Circle,
+  Square,
+  Workflow,
 } from "lucide-react";
 import {
   Tooltip,
@@ -35,6 +38,8 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { Input as InputWithButton } from "@/components/ui/input";
+import { PageAction } from "@/types/scraping";
+import PageActionsEditor from "./PageActionsEditor";
 
 interface VisualSelectorBuilderProps {
   url: string;
@@ -65,6 +70,8 @@ const VisualSelectorBuilder: React.FC<VisualSelectorBuilderProps> = ({
   const [error, setError] = useState<string | null>(null);
   const [iframeLoaded, setIframeLoaded] = useState(false);
   const [selectionMode, setSelectionMode] = useState(false);
+  const [recordingMode, setRecordingMode] = useState(false);
+  const [recordedActions, setRecordedActions] = useState<PageAction[]>([]);
   const [selectedElements, setSelectedElements] = useState<ElementData[]>([]);
   const [hoveredElement, setHoveredElement] = useState<ElementData | null>(
     null,
@@ -121,6 +128,7 @@ const VisualSelectorBuilder: React.FC<VisualSelectorBuilderProps> = ({
           // Selector tool initialization
           (function() {
             let selectionModeEnabled = false;
+            let recordingModeEnabled = false;
             let highlightedElement = null;
             let highlightOverlay = null;
             
@@ -273,6 +281,46 @@ const VisualSelectorBuilder: React.FC<VisualSelectorBuilderProps> = ({
               return selector;
             }
             
+            // Generate a selector that matches only this element, for recorded actions
+            function generateActionSelector(element) {
+              const selector = generateCssSelector(element);
+              try {
+                if (document.querySelectorAll(selector).length === 1) return selector;
+              } catch (e) {}
+              return getElementPath(element);
+            }
+            
+            // Record clicks on the page as click actions
+            function handleRecordClick(event) {
+              if (!recordingModeEnabled || selectionModeEnabled) return;
+              const target = event.target.closest('a, button, label, summary, [role="button"], [onclick]') || event.target;
+              // Form fields are recorded when their value changes
+              if (/^(INPUT|TEXTAREA|SELECT|OPTION)$/.test(target.tagName)) return;
+              window.parent.postMessage({
+                type: 'ACTION_RECORDED',
+                action: {
+                  type: 'click',
+                  selector: generateActionSelector(target),
+                  description: 'click "' + (target.innerText || target.tagName.toLowerCase()).trim().substring(0, 40) + '"'
+                }
+              }, '*');
+            }
+            
+            // Record form field changes as type and select actions
+            function handleRecordChange(event) {
+              if (!recordingModeEnabled) return;
+              const target = event.target;
+              if (!/^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName)) return;
+              window.parent.postMessage({
+                type: 'ACTION_RECORDED',
+                action: {
+                  type: target.tagName === 'SELECT' ? 'select' : 'type',
+                  selector: generateActionSelector(target),
+                  value: target.value
+                }
+              }, '*');
+            }
+            
             // Generate selectors for categories
             function generateSelectors(elements) {
               const cssSelectors = {};
@@ -361,6 +409,8 @@ const VisualSelectorBuilder: React.FC<VisualSelectorBuilderProps> = ({
                 if (!selectionModeEnabled && highlightOverlay) {
                   highlightOverlay.style.display = 'none';
                 }
+              } else if (event.data.type === 'TOGGLE_RECORDING_MODE') {
+                recordingModeEnabled = event.data.enabled;
               } else if (event.data.type === 'GENERATE_SELECTORS') {
                 const selectors = generateSelectors(event.data.elements);
                 window.parent.postMessage({
@@ -373,6 +423,8 @@ const VisualSelectorBuilder: React.FC<VisualSelectorBuilderProps> = ({
             // Add event listeners
             document.addEventListener('mouseover', handleMouseOver, true);
             document.addEventListener('click', handleClick, true);
+            document.addEventListener('click', handleRecordClick, true);
+            document.addEventListener('change', handleRecordChange, true);
             
             // Notify parent that we're ready
             window.parent.postMessage({ type: 'SELECTOR_TOOL_READY' }, '*');
@@ -394,6 +446,8 @@ const VisualSelectorBuilder: React.FC<VisualSelectorBuilderProps> = ({
         setHoveredElement(event.data.element);
       } else if (event.data.type === "ELEMENT_SELECTED") {
         addSelectedElement(event.data.element);
+      } else if (event.data.type === "ACTION_RECORDED") {
+        setRecordedActions((current) => [...current, event.data.action]);
       } else if (event.data.type === "SELECTORS_GENERATED") {
         setGeneratedSelectors(event.data.selectors);
       } else if (event.data.type === "ERROR") {
@@ -426,6 +480,21 @@ const VisualSelectorBuilder: React.FC<VisualSelectorBuilderProps> = ({
     }
   }, [selectionMode, iframeLoaded]);
 
+  // Toggle recording mode
+  useEffect(() => {
+    const iframe = iframeRef.current;
+    if (!iframe || !iframeLoaded) return;
+
+    try {
+      iframe.contentWindow?.postMessage(
+        { type: "TOGGLE_RECORDING_MODE", enabled: recordingMode },
+        "*",
+      );
+    } catch (err) {
+      console.error("Error toggling recording mode:", err);
+    }
+  }, [recordingMode, iframeLoaded]);
+
   const addSelectedElement = (element: ElementData) => {
     // Check if element is already selected
     const isAlreadySelected = selectedElements.some(
@@ -451,6 +520,7 @@ const VisualSelectorBuilder: React.FC<VisualSelectorBuilderProps> = ({
       elements: selectedElements,
       categories: categories,
       customEntities: customEntities,
+      actions: recordedActions,
       timestamp: new Date().toISOString(),
       url: url,
     };
@@ -573,7 +643,10 @@ const VisualSelectorBuilder: React.FC<VisualSelectorBuilderProps> = ({
           <Button
             variant={selectionMode ? "default" : "outline"}
             size="sm"
-            onClick={() => setSelectionMode(!selectionMode)}
+            onClick={() => {
+              setSelectionMode(!selectionMode);
+              setRecordingMode(false);
+            }}
           >
             {selectionMode ? (
               <>
@@ -587,6 +660,27 @@ const VisualSelectorBuilder: React.FC<VisualSelectorBuilderProps> = ({
               </>
             )}
           </Button>
+          <Button
+            variant={recordingMode ? "default" : "outline"}
+            size="sm"
+            onClick={() => {
+              setRecordingMode(!recordingMode);
+              setSelectionMode(false);
+              if (!recordingMode) setActiveTab("actions");
+            }}
+          >
+            {recordingMode ? (
+              <>
+                <Square className="mr-2 h-4 w-4" />
+                Stop Recording
+              </>
+            ) : (
+              <>
+                <Circle className="mr-2 h-4 w-4" />
+                Record Actions
+              </>
+            )}
+          </Button>
           <Button
             variant="outline"
             size="sm"
@@ -618,7 +712,10 @@ const VisualSelectorBuilder: React.FC<VisualSelectorBuilderProps> = ({
             variant="default"
             size="sm"
             onClick={handleSaveSelectors}
-            disabled={Object.keys(generatedSelectors.css).length === 0}
+            disabled={
+              Object.keys(generatedSelectors.css).length === 0 &&
+              recordedActions.length === 0
+            }
           >
             <Save className="mr-2 h-4 w-4" />
             Save Selectors
@@ -652,6 +749,10 @@ const VisualSelectorBuilder: React.FC<VisualSelectorBuilderProps> = ({
                 <li>
                   Click "Generate Selectors" to create CSS and XPath selectors
                 </li>
+                <li>
+                  Click "Record Actions" and use the page to record the clicks
+                  and form input needed before extraction
+                </li>
                 <li>Click "Save Selectors" when you're done</li>
               </ol>
             </div>
@@ -812,6 +913,10 @@ const VisualSelectorBuilder: React.FC<VisualSelectorBuilderProps> = ({
                   <Plus className="mr-2 h-4 w-4" />
                   Categories & Entities
                 </TabsTrigger>
+                <TabsTrigger value="actions" className="flex-1">
+                  <Workflow className="mr-2 h-4 w-4" />
+                  Actions
+                </TabsTrigger>
               </TabsList>
             </div>
 
@@ -1140,6 +1245,34 @@ const VisualSelectorBuilder: React.FC<VisualSelectorBuilderProps> = ({
                 </div>
               </div>
             </TabsContent>
+
+            <TabsContent value="actions" className="flex-1 p-4 overflow-auto">
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-lg font-medium">
+                    Recorded Actions ({recordedActions.length})
+                  </h3>
+                  {recordedActions.length > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setRecordedActions([])}
+                    >
+                      Clear All
+                    </Button>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {recordingMode
+                    ? "Recording: clicks and form input on the page are added as steps"
+                    : "Steps run in the browser before the page is extracted"}
+                </p>
+                <PageActionsEditor
+                  actions={recordedActions}
+                  onChange={setRecordedActions}
+                />
+              </div>
+            </TabsContent>
           </Tabs>
         </div>
       </div>
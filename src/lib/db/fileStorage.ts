@@ -1,11 +1,30 @@
 import fs from "fs-extra";
 import path from "path";
-import { ScrapingConfig, ScrapingResult } from "@/types/scraping";
+import {
+  AuthProfile,
+  AuthSession,
+  CategoryDefinition,
+  DomainRateLimit,
+  ProxyPool,
+  ScrapingConfig,
+  ScrapingJob,
+  ScrapingResult,
+  WebhookDelivery,
+} from "@/types/scraping";
+import { CATEGORY_NAME_PATTERN } from "@/lib/scraping/categoryRules";
 
 // Define paths for file storage
 const DATA_DIR = path.join(process.cwd(), "data");
 const CONFIGS_DIR = path.join(DATA_DIR, "configurations");
 const RESULTS_DIR = path.join(DATA_DIR, "results");
+const JOBS_DIR = path.join(DATA_DIR, "jobs");
+const DELIVERIES_DIR = path.join(DATA_DIR, "deliveries");
+const CATEGORIES_DIR = path.join(DATA_DIR, "categories");
+const SCREENSHOTS_DIR = path.join(DATA_DIR, "screenshots");
+const AUTH_PROFILES_DIR = path.join(DATA_DIR, "auth-profiles");
+const SESSIONS_DIR = path.join(DATA_DIR, "sessions");
+const PROXY_POOLS_DIR = path.join(DATA_DIR, "proxy-pools");
+const RATE_LIMITS_DIR = path.join(DATA_DIR, "rate-limits");
 
 /**
  * Initialize the file storage system by creating necessary directories
@@ -16,6 +35,14 @@ export async function initializeFileStorage() {
     await fs.ensureDir(DATA_DIR);
     await fs.ensureDir(CONFIGS_DIR);
     await fs.ensureDir(RESULTS_DIR);
+    await fs.ensureDir(JOBS_DIR);
+    await fs.ensureDir(DELIVERIES_DIR);
+    await fs.ensureDir(CATEGORIES_DIR);
+    await fs.ensureDir(SCREENSHOTS_DIR);
+    await fs.ensureDir(AUTH_PROFILES_DIR);
+    await fs.ensureDir(SESSIONS_DIR);
+    await fs.ensureDir(PROXY_POOLS_DIR);
+    await fs.ensureDir(RATE_LIMITS_DIR);
     console.log("File storage initialized successfully");
     return true;
   } catch (error) {
@@ -244,6 +271,56 @@ export async function loadAllResultsFromFiles(
   }
 }
 
+/**
+ * Load the latest result of a configuration and URL saved before a time
+ * Files are read one at a time so only the best match is kept in memory
+ * @param configId Configuration the result was scraped with
+ * @param url URL the result was scraped from
+ * @param before Only results with an earlier timestamp are considered
+ * @param excludeId Optional ID of a result to skip
+ * @returns The latest matching result that did not fail, or null
+ */
+export async function loadPreviousResultFromFiles(
+  configId: string,
+  url: string,
+  before: string,
+  excludeId?: string,
+): Promise<ScrapingResult | null> {
+  try {
+    if (!(await fs.pathExists(RESULTS_DIR))) {
+      return null;
+    }
+
+    const files = await fs.readdir(RESULTS_DIR);
+    let previous: ScrapingResult | null = null;
+
+    for (const file of files) {
+      if (!file.endsWith(".json")) continue;
+
+      const candidate: ScrapingResult = await fs.readJson(
+        path.join(RESULTS_DIR, file),
+      );
+      if (
+        candidate.id === excludeId ||
+        candidate.configId !== configId ||
+        candidate.url !== url ||
+        candidate.status === "failed" ||
+        candidate.timestamp >= before
+      ) {
+        continue;
+      }
+      if (!previous || candidate.timestamp > previous.timestamp) {
+        previous = candidate;
+      }
+    }
+
+    return previous;
+  } catch (error) {
+    console.error("Error loading previous result from files:", error);
+    return null;
+  }
+}
+
 /**
  * Delete a scraping result file
  * @param resultId ID of the result to delete
@@ -263,6 +340,682 @@ export async function deleteResultFile(resultId: string): Promise<boolean> {
   }
 }
 
+/**
+ * Save a queued scraping job to a file
+ * @param job Job to save
+ * @returns The saved job
+ */
+export async function saveJobToFile(job: ScrapingJob): Promise<ScrapingJob> {
+  try {
+    await fs.ensureDir(JOBS_DIR);
+    const filePath = path.join(JOBS_DIR, `${job.id}.json`);
+    // Jobs are rewritten while workers poll them, so replace the file in one
+    // step instead of leaving it half-written
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeJson(tempPath, job, { spaces: 2 });
+    await fs.move(tempPath, filePath, { overwrite: true });
+    return job;
+  } catch (error) {
+    console.error("Error saving job to file:", error);
+    throw error;
+  }
+}
+
+/**
+ * Load a queued scraping job from a file
+ * @param jobId ID of the job to load
+ * @returns The loaded job or null if not found
+ */
+export async function loadJobFromFile(
+  jobId: string,
+): Promise<ScrapingJob | null> {
+  try {
+    const filePath = path.join(JOBS_DIR, `${jobId}.json`);
+    if (await fs.pathExists(filePath)) {
+      return await fs.readJson(filePath);
+    }
+    return null;
+  } catch (error) {
+    console.error("Error loading job from file:", error);
+    return null;
+  }
+}
+
+/**
+ * Load all queued scraping jobs from files
+ * @returns Array of jobs, oldest first
+ */
+export async function loadAllJobsFromFiles(): Promise<ScrapingJob[]> {
+  try {
+    if (!(await fs.pathExists(JOBS_DIR))) {
+      await fs.ensureDir(JOBS_DIR);
+      return [];
+    }
+
+    const files = await fs.readdir(JOBS_DIR);
+    const jobs = await Promise.all(
+      files
+        .filter((file) => file.endsWith(".json"))
+        .map(async (file) => {
+          try {
+            return (await fs.readJson(
+              path.join(JOBS_DIR, file),
+            )) as ScrapingJob;
+          } catch (error) {
+            // The file may have been deleted by another request
+            console.error(`Error reading job file ${file}:`, error);
+            return null;
+          }
+        }),
+    );
+
+    return jobs
+      .filter((job): job is ScrapingJob => job !== null)
+      .sort(
+        (a, b) =>
+          new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+      );
+  } catch (error) {
+    console.error("Error loading jobs from files:", error);
+    return [];
+  }
+}
+
+/**
+ * Delete a queued scraping job file
+ * @param jobId ID of the job to delete
+ * @returns True if deleted successfully, false otherwise
+ */
+export async function deleteJobFile(jobId: string): Promise<boolean> {
+  try {
+    const filePath = path.join(JOBS_DIR, `${jobId}.json`);
+    if (await fs.pathExists(filePath)) {
+      await fs.remove(filePath);
+      return true;
+    }
+    return false;
+  } catch (error) {
+    console.error(`Error deleting job file ${jobId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Save a webhook delivery to a file
+ * @param delivery Delivery to save
+ * @returns The saved delivery
+ */
+export async function saveDeliveryToFile(
+  delivery: WebhookDelivery,
+): Promise<WebhookDelivery> {
+  try {
+    await fs.ensureDir(DELIVERIES_DIR);
+    const filePath = path.join(DELIVERIES_DIR, `${delivery.id}.json`);
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeJson(tempPath, delivery, { spaces: 2 });
+    await fs.move(tempPath, filePath, { overwrite: true });
+    return delivery;
+  } catch (error) {
+    console.error("Error saving webhook delivery to file:", error);
+    throw error;
+  }
+}
+
+/**
+ * Load a webhook delivery from a file
+ * @param deliveryId ID of the delivery to load
+ * @returns The loaded delivery or null if not found
+ */
+export async function loadDeliveryFromFile(
+  deliveryId: string,
+): Promise<WebhookDelivery | null> {
+  try {
+    const filePath = path.join(DELIVERIES_DIR, `${deliveryId}.json`);
+    if (await fs.pathExists(filePath)) {
+      return await fs.readJson(filePath);
+    }
+    return null;
+  } catch (error) {
+    console.error("Error loading webhook delivery from file:", error);
+    return null;
+  }
+}
+
+/**
+ * Load all webhook deliveries from files
+ * @returns Array of deliveries, newest first
+ */
+export async function loadAllDeliveriesFromFiles(): Promise<WebhookDelivery[]> {
+  try {
+    if (!(await fs.pathExists(DELIVERIES_DIR))) {
+      await fs.ensureDir(DELIVERIES_DIR);
+      return [];
+    }
+
+    const files = await fs.readdir(DELIVERIES_DIR);
+    const deliveries = await Promise.all(
+      files
+        .filter((file) => file.endsWith(".json"))
+        .map(async (file) => {
+          try {
+            return (await fs.readJson(
+              path.join(DELIVERIES_DIR, file),
+            )) as WebhookDelivery;
+          } catch (error) {
+            console.error(
+              `Error reading webhook delivery file ${file}:`,
+              error,
+            );
+            return null;
+          }
+        }),
+    );
+
+    return deliveries
+      .filter((delivery): delivery is WebhookDelivery => delivery !== null)
+      .sort(
+        (a, b) =>
+          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+      );
+  } catch (error) {
+    console.error("Error loading webhook deliveries from files:", error);
+    return [];
+  }
+}
+
+/**
+ * Delete a webhook delivery file
+ * @param deliveryId ID of the delivery to delete
+ * @returns True if deleted successfully, false otherwise
+ */
+export async function deleteDeliveryFile(deliveryId: string): Promise<boolean> {
+  try {
+    const filePath = path.join(DELIVERIES_DIR, `${deliveryId}.json`);
+    if (await fs.pathExists(filePath)) {
+      await fs.remove(filePath);
+      return true;
+    }
+    return false;
+  } catch (error) {
+    console.error(`Error deleting webhook delivery file ${deliveryId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Save a category definition to a file named after the category
+ * @param category Category to save
+ * @returns The saved category
+ */
+export async function saveCategoryToFile(
+  category: CategoryDefinition,
+): Promise<CategoryDefinition> {
+  if (!CATEGORY_NAME_PATTERN.test(category.name)) {
+    throw new Error(`Invalid category name: ${category.name}`);
+  }
+
+  try {
+    await fs.ensureDir(CATEGORIES_DIR);
+    const filePath = path.join(CATEGORIES_DIR, `${category.name}.json`);
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeJson(tempPath, category, { spaces: 2 });
+    await fs.move(tempPath, filePath, { overwrite: true });
+    return category;
+  } catch (error) {
+    console.error("Error saving category to file:", error);
+    throw error;
+  }
+}
+
+/**
+ * Load a category definition from a file
+ * @param name Lowercase category name
+ * @returns The loaded category or null if not found
+ */
+export async function loadCategoryFromFile(
+  name: string,
+): Promise<CategoryDefinition | null> {
+  if (!CATEGORY_NAME_PATTERN.test(name)) return null;
+
+  try {
+    const filePath = path.join(CATEGORIES_DIR, `${name}.json`);
+    if (await fs.pathExists(filePath)) {
+      return await fs.readJson(filePath);
+    }
+    return null;
+  } catch (error) {
+    console.error(`Error loading category ${name} from file:`, error);
+    return null;
+  }
+}
+
+/**
+ * Load all category definitions from files
+ * @returns Array of categories sorted by name
+ */
+export async function loadAllCategoriesFromFiles(): Promise<
+  CategoryDefinition[]
+> {
+  try {
+    if (!(await fs.pathExists(CATEGORIES_DIR))) {
+      await fs.ensureDir(CATEGORIES_DIR);
+      return [];
+    }
+
+    const files = await fs.readdir(CATEGORIES_DIR);
+    const categories = await Promise.all(
+      files
+        .filter((file) => file.endsWith(".json"))
+        .map(async (file) => {
+          try {
+            return (await fs.readJson(
+              path.join(CATEGORIES_DIR, file),
+            )) as CategoryDefinition;
+          } catch (error) {
+            console.error(`Error reading category file ${file}:`, error);
+            return null;
+          }
+        }),
+    );
+
+    return categories
+      .filter((category): category is CategoryDefinition => category !== null)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error("Error loading categories from files:", error);
+    return [];
+  }
+}
+
+/**
+ * Delete a category definition file
+ * @param name Lowercase category name
+ * @returns True if deleted successfully, false otherwise
+ */
+export async function deleteCategoryFile(name: string): Promise<boolean> {
+  if (!CATEGORY_NAME_PATTERN.test(name)) return false;
+
+  try {
+    const filePath = path.join(CATEGORIES_DIR, `${name}.json`);
+    if (await fs.pathExists(filePath)) {
+      await fs.remove(filePath);
+      return true;
+    }
+    return false;
+  } catch (error) {
+    console.error(`Error deleting category file ${name}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Save a screenshot image
+ * @param name File name, such as "abc123.png"
+ * @param image PNG data
+ * @returns The file name
+ */
+export async function saveScreenshotToFile(
+  name: string,
+  image: Uint8Array,
+): Promise<string> {
+  try {
+    await fs.ensureDir(SCREENSHOTS_DIR);
+    await fs.writeFile(path.join(SCREENSHOTS_DIR, name), image);
+    return name;
+  } catch (error) {
+    console.error("Error saving screenshot to file:", error);
+    throw error;
+  }
+}
+
+/**
+ * Load a screenshot image
+ * @param name File name of the screenshot
+ * @returns The PNG data or null if not found
+ */
+export async function loadScreenshotFromFile(
+  name: string,
+): Promise<Buffer | null> {
+  try {
+    const filePath = path.join(SCREENSHOTS_DIR, name);
+    if (await fs.pathExists(filePath)) {
+      return await fs.readFile(filePath);
+    }
+    return null;
+  } catch (error) {
+    console.error(`Error loading screenshot ${name} from file:`, error);
+    return null;
+  }
+}
+
+/**
+ * Save an auth profile to a file
+ * @param profile Profile to save, with its secrets already encrypted
+ * @returns The saved profile
+ */
+export async function saveAuthProfileToFile(
+  profile: AuthProfile,
+): Promise<AuthProfile> {
+  try {
+    await fs.ensureDir(AUTH_PROFILES_DIR);
+    const filePath = path.join(AUTH_PROFILES_DIR, `${profile.id}.json`);
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeJson(tempPath, profile, { spaces: 2 });
+    await fs.move(tempPath, filePath, { overwrite: true });
+    return profile;
+  } catch (error) {
+    console.error("Error saving auth profile to file:", error);
+    throw error;
+  }
+}
+
+/**
+ * Load an auth profile from a file
+ * @param profileId ID of the profile to load
+ * @returns The loaded profile or null if not found
+ */
+export async function loadAuthProfileFromFile(
+  profileId: string,
+): Promise<AuthProfile | null> {
+  try {
+    const filePath = path.join(AUTH_PROFILES_DIR, `${profileId}.json`);
+    if (await fs.pathExists(filePath)) {
+      return await fs.readJson(filePath);
+    }
+    return null;
+  } catch (error) {
+    console.error(`Error loading auth profile ${profileId} from file:`, error);
+    return null;
+  }
+}
+
+/**
+ * Load all auth profiles from files
+ * @returns Array of profiles sorted by name
+ */
+export async function loadAllAuthProfilesFromFiles(): Promise<AuthProfile[]> {
+  try {
+    if (!(await fs.pathExists(AUTH_PROFILES_DIR))) {
+      await fs.ensureDir(AUTH_PROFILES_DIR);
+      return [];
+    }
+
+    const files = await fs.readdir(AUTH_PROFILES_DIR);
+    const profiles = await Promise.all(
+      files
+        .filter((file) => file.endsWith(".json"))
+        .map(async (file) => {
+          try {
+            return (await fs.readJson(
+              path.join(AUTH_PROFILES_DIR, file),
+            )) as AuthProfile;
+          } catch (error) {
+            console.error(`Error reading auth profile file ${file}:`, error);
+            return null;
+          }
+        }),
+    );
+
+    return profiles
+      .filter((profile): profile is AuthProfile => profile !== null)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error("Error loading auth profiles from files:", error);
+    return [];
+  }
+}
+
+/**
+ * Delete an auth profile file
+ * @param profileId ID of the profile to delete
+ * @returns True if deleted successfully, false otherwise
+ */
+export async function deleteAuthProfileFile(
+  profileId: string,
+): Promise<boolean> {
+  try {
+    const filePath = path.join(AUTH_PROFILES_DIR, `${profileId}.json`);
+    if (await fs.pathExists(filePath)) {
+      await fs.remove(filePath);
+      return true;
+    }
+    return false;
+  } catch (error) {
+    console.error(`Error deleting auth profile file ${profileId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Save the session of an auth profile to a file named after the profile
+ * @param session Session to save, with its cookie values already encrypted
+ * @returns The saved session
+ */
+export async function saveSessionToFile(
+  session: AuthSession,
+): Promise<AuthSession> {
+  try {
+    await fs.ensureDir(SESSIONS_DIR);
+    const filePath = path.join(SESSIONS_DIR, `${session.profileId}.json`);
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeJson(tempPath, session, { spaces: 2 });
+    await fs.move(tempPath, filePath, { overwrite: true });
+    return session;
+  } catch (error) {
+    console.error("Error saving session to file:", error);
+    throw error;
+  }
+}
+
+/**
+ * Load the session of an auth profile from a file
+ * @param profileId ID of the profile
+ * @returns The stored session or null if not found
+ */
+export async function loadSessionFromFile(
+  profileId: string,
+): Promise<AuthSession | null> {
+  try {
+    const filePath = path.join(SESSIONS_DIR, `${profileId}.json`);
+    if (await fs.pathExists(filePath)) {
+      return await fs.readJson(filePath);
+    }
+    return null;
+  } catch (error) {
+    console.error(`Error loading session ${profileId} from file:`, error);
+    return null;
+  }
+}
+
+/**
+ * Delete the session file of an auth profile
+ * @param profileId ID of the profile
+ * @returns True if deleted successfully, false otherwise
+ */
+export async function deleteSessionFile(profileId: string): Promise<boolean> {
+  try {
+    const filePath = path.join(SESSIONS_DIR, `${profileId}.json`);
+    if (await fs.pathExists(filePath)) {
+      await fs.remove(filePath);
+      return true;
+    }
+    return false;
+  } catch (error) {
+    console.error(`Error deleting session file ${profileId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Save a proxy pool to a file
+ * @param pool Pool to save, with its proxy URLs already encrypted
+ * @returns The saved pool
+ */
+export async function saveProxyPoolToFile(pool: ProxyPool): Promise<ProxyPool> {
+  try {
+    await fs.ensureDir(PROXY_POOLS_DIR);
+    const filePath = path.join(PROXY_POOLS_DIR, `${pool.id}.json`);
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeJson(tempPath, pool, { spaces: 2 });
+    await fs.move(tempPath, filePath, { overwrite: true });
+    return pool;
+  } catch (error) {
+    console.error("Error saving proxy pool to file:", error);
+    throw error;
+  }
+}
+
+/**
+ * Load a proxy pool from a file
+ * @param poolId ID of the pool to load
+ * @returns The loaded pool or null if not found
+ */
+export async function loadProxyPoolFromFile(
+  poolId: string,
+): Promise<ProxyPool | null> {
+  try {
+    const filePath = path.join(PROXY_POOLS_DIR, `${poolId}.json`);
+    if (await fs.pathExists(filePath)) {
+      return await fs.readJson(filePath);
+    }
+    return null;
+  } catch (error) {
+    console.error(`Error loading proxy pool ${poolId} from file:`, error);
+    return null;
+  }
+}
+
+/**
+ * Load all proxy pools from files
+ * @returns Array of pools sorted by name
+ */
+export async function loadAllProxyPoolsFromFiles(): Promise<ProxyPool[]> {
+  try {
+    if (!(await fs.pathExists(PROXY_POOLS_DIR))) {
+      await fs.ensureDir(PROXY_POOLS_DIR);
+      return [];
+    }
+
+    const files = await fs.readdir(PROXY_POOLS_DIR);
+    const pools = await Promise.all(
+      files
+        .filter((file) => file.endsWith(".json"))
+        .map(async (file) => {
+          try {
+            return (await fs.readJson(
+              path.join(PROXY_POOLS_DIR, file),
+            )) as ProxyPool;
+          } catch (error) {
+            console.error(`Error reading proxy pool file ${file}:`, error);
+            return null;
+          }
+        }),
+    );
+
+    return pools
+      .filter((pool): pool is ProxyPool => pool !== null)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error("Error loading proxy pools from files:", error);
+    return [];
+  }
+}
+
+/**
+ * Delete a proxy pool file
+ * @param poolId ID of the pool to delete
+ * @returns True if deleted successfully, false otherwise
+ */
+export async function deleteProxyPoolFile(poolId: string): Promise<boolean> {
+  try {
+    const filePath = path.join(PROXY_POOLS_DIR, `${poolId}.json`);
+    if (await fs.pathExists(filePath)) {
+      await fs.remove(filePath);
+      return true;
+    }
+    return false;
+  } catch (error) {
+    console.error(`Error deleting proxy pool file ${poolId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Save the rate limits of a domain to a file named after the domain
+ * @param limit Limits to save
+ * @returns The saved limits
+ */
+export async function saveRateLimitToFile(
+  limit: DomainRateLimit,
+): Promise<DomainRateLimit> {
+  try {
+    await fs.ensureDir(RATE_LIMITS_DIR);
+    const filePath = path.join(RATE_LIMITS_DIR, `${limit.domain}.json`);
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeJson(tempPath, limit, { spaces: 2 });
+    await fs.move(tempPath, filePath, { overwrite: true });
+    return limit;
+  } catch (error) {
+    console.error("Error saving rate limit to file:", error);
+    throw error;
+  }
+}
+
+/**
+ * Load the rate limits of every domain from files
+ * @returns Array of limits sorted by domain
+ */
+export async function loadAllRateLimitsFromFiles(): Promise<DomainRateLimit[]> {
+  try {
+    if (!(await fs.pathExists(RATE_LIMITS_DIR))) {
+      await fs.ensureDir(RATE_LIMITS_DIR);
+      return [];
+    }
+
+    const files = await fs.readdir(RATE_LIMITS_DIR);
+    const limits = await Promise.all(
+      files
+        .filter((file) => file.endsWith(".json"))
+        .map(async (file) => {
+          try {
+            return (await fs.readJson(
+              path.join(RATE_LIMITS_DIR, file),
+            )) as DomainRateLimit;
+          } catch (error) {
+            console.error(`Error reading rate limit file ${file}:`, error);
+            return null;
+          }
+        }),
+    );
+
+    return limits
+      .filter((limit): limit is DomainRateLimit => limit !== null)
+      .sort((a, b) => a.domain.localeCompare(b.domain));
+  } catch (error) {
+    console.error("Error loading rate limits from files:", error);
+    return [];
+  }
+}
+
+/**
+ * Delete the rate limit file of a domain
+ * @param domain Domain whose limits to delete
+ * @returns True if deleted successfully, false otherwise
+ */
+export async function deleteRateLimitFile(domain: string): Promise<boolean> {
+  try {
+    const filePath = path.join(RATE_LIMITS_DIR, `${domain}.json`);
+    if (await fs.pathExists(filePath)) {
+      await fs.remove(filePath);
+      return true;
+    }
+    return false;
+  } catch (error) {
+    console.error(`Error deleting rate limit file ${domain}:`, error);
+    return false;
+  }
+}
+
 // Initialize file storage when this module is imported
 // Wrap in try/catch to prevent unhandled promise rejection
 try {
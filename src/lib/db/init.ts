@@ -60,11 +60,87 @@ export async function initializeAllTables() {
         raw JSON,
         metadata JSON,
         createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+        updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        INDEX idx_scraping_results_config (configId, timestamp)
       )
     `);
     console.log("Created scraping_results table");
 
+    // Create scraping_jobs table
+    await executeQuery(`
+      CREATE TABLE IF NOT EXISTS scraping_jobs (
+        id VARCHAR(50) PRIMARY KEY,
+        status VARCHAR(50) NOT NULL,
+        priority VARCHAR(20) NOT NULL,
+        batchId VARCHAR(50),
+        job_data JSON NOT NULL,
+        createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        INDEX idx_scraping_jobs_status (status)
+      )
+    `);
+    console.log("Created scraping_jobs table");
+
+    // Create webhook_deliveries table
+    await executeQuery(`
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id VARCHAR(50) PRIMARY KEY,
+        configId VARCHAR(50) NOT NULL,
+        status VARCHAR(50) NOT NULL,
+        delivery_data JSON NOT NULL,
+        createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+        INDEX idx_webhook_deliveries_config (configId)
+      )
+    `);
+    console.log("Created webhook_deliveries table");
+
+    // Create auth_profiles table
+    await executeQuery(`
+      CREATE TABLE IF NOT EXISTS auth_profiles (
+        id VARCHAR(50) PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        type VARCHAR(20) NOT NULL,
+        profile_data JSON NOT NULL,
+        createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+      )
+    `);
+    console.log("Created auth_profiles table");
+
+    // Create auth_sessions table
+    await executeQuery(`
+      CREATE TABLE IF NOT EXISTS auth_sessions (
+        profileId VARCHAR(50) PRIMARY KEY,
+        session_data JSON NOT NULL,
+        expiresAt TIMESTAMP NULL,
+        createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    console.log("Created auth_sessions table");
+
+    // Create proxy_pools table
+    await executeQuery(`
+      CREATE TABLE IF NOT EXISTS proxy_pools (
+        id VARCHAR(50) PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        pool_data JSON NOT NULL,
+        createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+      )
+    `);
+    console.log("Created proxy_pools table");
+
+    // Create domain_rate_limits table
+    await executeQuery(`
+      CREATE TABLE IF NOT EXISTS domain_rate_limits (
+        domain VARCHAR(255) PRIMARY KEY,
+        limit_data JSON NOT NULL,
+        updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+      )
+    `);
+    console.log("Created domain_rate_limits table");
+
     // Create scraping_categories table
     await executeQuery(`
       CREATE TABLE IF NOT EXISTS scraping_categories (
@@ -0,0 +1,95 @@
+/**
+ * Secrets module
+ * Encrypts credentials with AES-256-GCM before they are written to MySQL or
+ * JSON files. The key comes from SECRETS_KEY; without it a random key is
+ * generated once and kept in data/secret.key
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+const ENCRYPTED_PREFIX = "enc:v1:";
+const KEY_FILE = path.join(process.cwd(), "data", "secret.key");
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+let secretKey: Buffer | null = null;
+
+/**
+ * Encrypt a secret for storage
+ * @returns The encrypted value, prefixed so it can be told apart from
+ * plain text
+ */
+export function encryptSecret(value: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv("aes-256-gcm", getSecretKey(), iv);
+  const encrypted = Buffer.concat([
+    cipher.update(value, "utf8"),
+    cipher.final(),
+  ]);
+
+  return (
+    ENCRYPTED_PREFIX +
+    Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString("base64")
+  );
+}
+
+/**
+ * Decrypt a stored secret
+ * Values stored before encryption was introduced are returned unchanged
+ * @throws When the value was encrypted with a different key
+ */
+export function decryptSecret(value: string): string {
+  if (!isEncryptedSecret(value)) return value;
+
+  const data = Buffer.from(value.substring(ENCRYPTED_PREFIX.length), "base64");
+  try {
+    const decipher = crypto.createDecipheriv(
+      "aes-256-gcm",
+      getSecretKey(),
+      data.subarray(0, IV_LENGTH),
+    );
+    decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+    return Buffer.concat([
+      decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch (error) {
+    throw new Error(
+      "Could not decrypt a stored secret, SECRETS_KEY may have changed",
+    );
+  }
+}
+
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * Get the encryption key, creating the key file on first use when
+ * SECRETS_KEY is not set
+ */
+function getSecretKey(): Buffer {
+  if (secretKey) return secretKey;
+
+  if (process.env.SECRETS_KEY) {
+    secretKey = crypto
+      .createHash("sha256")
+      .update(process.env.SECRETS_KEY)
+      .digest();
+    return secretKey;
+  }
+
+  if (fs.existsSync(KEY_FILE)) {
+    secretKey = Buffer.from(fs.readFileSync(KEY_FILE, "utf8").trim(), "hex");
+  } else {
+    console.warn(
+      `Secrets: SECRETS_KEY is not set, generating a key in ${KEY_FILE}`,
+    );
+    secretKey = crypto.randomBytes(32);
+    fs.mkdirSync(path.dirname(KEY_FILE), { recursive: true });
+    fs.writeFileSync(KEY_FILE, secretKey.toString("hex"), { mode: 0o600 });
+  }
+  return secretKey;
+}
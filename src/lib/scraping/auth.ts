@@ -0,0 +1,456 @@
+/**
+ * Auth module
+ * Signs configurations in with their auth profile before pages are fetched.
+ * Bearer and basic profiles add an Authorization header, form profiles log
+ * in through headless Chromium and cookie profiles send imported cookies.
+ * Cookies from form logins and imports are kept in the session vault and
+ * reused until the session expires or the site stops accepting it
+ */
+
+import type { Page } from "puppeteer-core";
+import {
+  AuthProfile,
+  AuthProfileType,
+  AuthSession,
+  FetchResult,
+  ScrapingConfig,
+  ScrapingError,
+  SessionCookie,
+} from "@/types/scraping";
+import { getAuthProfileById, getAuthSession, saveAuthSession } from "./storage";
+import { withBrowserPage } from "./renderer";
+
+type FetchOptions = ScrapingConfig["options"];
+
+export const AUTH_PROFILE_TYPES: AuthProfileType[] = [
+  "form",
+  "bearer",
+  "basic",
+  "cookies",
+];
+
+const DEFAULT_SESSION_TTL = 60; // Minutes
+const DEFAULT_LOGIN_TIMEOUT = 30000;
+
+// Profile types and the fields they need
+const REQUIRED_FIELDS: Record<AuthProfileType, (keyof AuthProfile)[]> = {
+  form: [
+    "loginUrl",
+    "usernameSelector",
+    "passwordSelector",
+    "username",
+    "password",
+  ],
+  bearer: ["token"],
+  basic: ["username", "password"],
+  cookies: ["cookieJar"],
+};
+
+// Sessions being created, so parallel scrapes with one profile sign in once
+const pendingSessions = new Map<string, Promise<AuthSession>>();
+
+/**
+ * Check an auth profile before it is saved
+ * @returns The problems found, empty if the profile is valid
+ */
+export function validateAuthProfile(profile: any): string[] {
+  if (!profile || typeof profile !== "object") {
+    return ["profile must be an object"];
+  }
+
+  const errors: string[] = [];
+  if (typeof profile.name !== "string" || !profile.name.trim()) {
+    errors.push("name is required");
+  }
+  if (!AUTH_PROFILE_TYPES.includes(profile.type)) {
+    errors.push(`type must be one of ${AUTH_PROFILE_TYPES.join(", ")}`);
+    return errors;
+  }
+
+  for (const field of REQUIRED_FIELDS[profile.type as AuthProfileType]) {
+    if (typeof profile[field] !== "string" || !profile[field].trim()) {
+      errors.push(`${profile.type} profiles need a ${field}`);
+    }
+  }
+
+  if (profile.type === "form") {
+    if (profile.loginUrl) {
+      try {
+        const { protocol } = new URL(profile.loginUrl);
+        if (protocol !== "http:" && protocol !== "https:") throw new Error();
+      } catch (error) {
+        errors.push("loginUrl must be an http(s) URL");
+      }
+    }
+    if (!profile.successSelector && !profile.successUrlPattern) {
+      errors.push("form profiles need a successSelector or successUrlPattern");
+    }
+  }
+  if (profile.successUrlPattern) {
+    try {
+      new RegExp(profile.successUrlPattern);
+    } catch (error) {
+      errors.push("successUrlPattern must be a valid regular expression");
+    }
+  }
+  if (
+    profile.type === "cookies" &&
+    typeof profile.cookieJar === "string" &&
+    profile.cookieJar.trim() &&
+    parseCookieJar(profile.cookieJar).length === 0
+  ) {
+    errors.push("cookieJar contains no cookies");
+  }
+  if (
+    profile.sessionTtl !== undefined &&
+    (typeof profile.sessionTtl !== "number" || !(profile.sessionTtl > 0))
+  ) {
+    errors.push("sessionTtl must be a positive number of minutes");
+  }
+
+  return errors;
+}
+
+/**
+ * Parse imported cookies
+ * Accepts a Netscape cookies.txt file, a JSON array as exported by browser
+ * extensions or the value of a Cookie header
+ */
+export function parseCookieJar(text: string): SessionCookie[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      const cookies: any[] = Array.isArray(parsed)
+        ? parsed
+        : parsed.cookies || [];
+      return cookies
+        .filter((cookie) => cookie && cookie.name && cookie.value != null)
+        .map((cookie) => ({
+          name: String(cookie.name),
+          value: String(cookie.value),
+          domain: cookie.domain,
+          path: cookie.path,
+          expires: toExpiry(cookie.expires ?? cookie.expirationDate),
+        }));
+    } catch (error) {
+      return [];
+    }
+  }
+
+  // cookies.txt lines: domain, subdomains flag, path, secure, expiry, name, value
+  const lines = trimmed.split(/\r?\n/);
+  if (lines.some((line) => line.split("\t").length === 7)) {
+    return lines
+      .map((line) => line.replace(/^#HttpOnly_/, "").trim())
+      .filter((line) => line && !line.startsWith("#"))
+      .map((line) => line.split("\t"))
+      .filter((fields) => fields.length === 7)
+      .map(([domain, , path, , expires, name, value]) => ({
+        name,
+        value,
+        domain,
+        path,
+        expires: toExpiry(expires),
+      }));
+  }
+
+  return trimmed
+    .replace(/^cookie:\s*/i, "")
+    .split(";")
+    .map((pair) => pair.trim())
+    .filter((pair) => pair.indexOf("=") > 0)
+    .map((pair) => ({
+      name: pair.substring(0, pair.indexOf("=")).trim(),
+      value: pair.substring(pair.indexOf("=") + 1).trim(),
+    }));
+}
+
+/**
+ * Add the credentials of a configuration's auth profile to its options
+ * Both renderers send them only to the origin of the page being fetched
+ * @param config Configuration with an authProfileId
+ * @param refresh Sign in again even if the stored session has not expired
+ * @returns The configuration with the Authorization header or session
+ * cookies added to its options
+ * @throws When the profile does not exist or signing in fails
+ */
+export async function applyAuthProfile(
+  config: ScrapingConfig,
+  refresh = false,
+): Promise<ScrapingConfig> {
+  const profile = await getAuthProfileById(config.authProfileId!);
+  if (!profile) {
+    throw new Error(`Auth profile ${config.authProfileId} not found`);
+  }
+
+  const options = { ...config.options };
+  switch (profile.type) {
+    case "bearer":
+      options.headers = {
+        ...options.headers,
+        Authorization: `Bearer ${profile.token}`,
+      };
+      break;
+    case "basic":
+      options.headers = {
+        ...options.headers,
+        Authorization: `Basic ${Buffer.from(
+          `${profile.username}:${profile.password}`,
+        ).toString("base64")}`,
+      };
+      break;
+    default: {
+      const session = await getSession(profile, config.options, refresh);
+      options.cookies = {
+        ...options.cookies,
+        ...getSessionCookies(session, config.url),
+      };
+    }
+  }
+
+  return { ...config, options };
+}
+
+/**
+ * Get the session of a form or cookies profile, signing in when there is
+ * no stored session or it has expired
+ * @param profile Profile to get the session for
+ * @param options Scraping options the login page is loaded with
+ * @param refresh Sign in again even if the stored session has not expired
+ */
+export async function getSession(
+  profile: AuthProfile,
+  options: Partial<FetchOptions> = {},
+  refresh = false,
+): Promise<AuthSession> {
+  if (!refresh) {
+    const stored = await getAuthSession(profile.id);
+    if (stored && new Date(stored.expiresAt).getTime() > Date.now()) {
+      return stored;
+    }
+  }
+
+  let pending = pendingSessions.get(profile.id);
+  if (!pending) {
+    pending = createSession(profile, options)
+      .then(saveAuthSession)
+      .finally(() => pendingSessions.delete(profile.id));
+    pendingSessions.set(profile.id, pending);
+  }
+  return pending;
+}
+
+/**
+ * Check if a page was refused because the session is no longer valid: the
+ * site answered 401/403 or redirected to the login page of a form profile
+ */
+export async function isSessionRejected(
+  config: ScrapingConfig,
+  fetched: FetchResult,
+): Promise<boolean> {
+  const profile = await getAuthProfileById(config.authProfileId!);
+  if (profile?.type !== "form") return false;
+  if (fetched.status === 401 || fetched.status === 403) return true;
+  if (!fetched.finalUrl) return false;
+
+  const login = new URL(profile.loginUrl!);
+  const landed = new URL(fetched.finalUrl);
+  return (
+    landed.origin === login.origin &&
+    landed.pathname === login.pathname &&
+    new URL(config.url).pathname !== login.pathname
+  );
+}
+
+/**
+ * Convert a sign-in failure to the error reported on the result
+ */
+export function toAuthError(
+  config: ScrapingConfig,
+  error: unknown,
+): ScrapingError {
+  return {
+    code: "AUTH_FAILED",
+    message: `Signing in failed: ${
+      error instanceof Error ? error.message : String(error)
+    }`,
+    details: { authProfileId: config.authProfileId },
+  };
+}
+
+/**
+ * Replace the secrets of a profile with flags so they are never sent to
+ * the client
+ */
+export function hideAuthSecrets(profile: AuthProfile) {
+  const { password, token, cookieJar, ...rest } = profile;
+  return {
+    ...rest,
+    hasPassword: !!password,
+    hasToken: !!token,
+    hasCookieJar: !!cookieJar,
+  };
+}
+
+/**
+ * Fill in the secrets a client left out when updating a profile
+ * A secret sent as undefined keeps its saved value; an empty string
+ * removes it
+ */
+export function keepSavedAuthSecrets(
+  profile: AuthProfile,
+  saved: AuthProfile,
+): AuthProfile {
+  const merged = { ...profile };
+  for (const field of ["password", "token", "cookieJar"] as const) {
+    merged[field] =
+      profile[field] === undefined ? saved[field] : profile[field] || undefined;
+  }
+  return merged;
+}
+
+/**
+ * Sign in with a profile and capture its cookies
+ */
+async function createSession(
+  profile: AuthProfile,
+  options: Partial<FetchOptions>,
+): Promise<AuthSession> {
+  let cookies: SessionCookie[];
+
+  if (profile.type === "form") {
+    console.log(`Auth: signing in with profile ${profile.name}`);
+    cookies = await loginWithForm(profile, options);
+  } else {
+    cookies = parseCookieJar(profile.cookieJar || "").filter(
+      (cookie) => !isExpired(cookie),
+    );
+    if (cookies.length === 0) {
+      throw new Error(`The cookies of auth profile ${profile.name} expired`);
+    }
+  }
+
+  const now = Date.now();
+  return {
+    profileId: profile.id,
+    cookies,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(
+      now + (profile.sessionTtl ?? DEFAULT_SESSION_TTL) * 60000,
+    ).toISOString(),
+  };
+}
+
+/**
+ * Fill in and submit the login form, then wait for the success check
+ * @returns The cookies of the signed-in browser context
+ */
+async function loginWithForm(
+  profile: AuthProfile,
+  options: Partial<FetchOptions>,
+): Promise<SessionCookie[]> {
+  const timeout = options.timeout ?? DEFAULT_LOGIN_TIMEOUT;
+
+  return withBrowserPage(profile.loginUrl!, options, async (page) => {
+    await page.goto(profile.loginUrl!, { waitUntil: "networkidle2", timeout });
+    await typeInto(page, profile.usernameSelector!, profile.username!, timeout);
+    await typeInto(page, profile.passwordSelector!, profile.password!, timeout);
+
+    if (profile.submitSelector) {
+      await page.click(profile.submitSelector);
+    } else {
+      await page.keyboard.press("Enter");
+    }
+
+    try {
+      if (profile.successSelector) {
+        await page.waitForSelector(profile.successSelector, { timeout });
+      }
+      if (profile.successUrlPattern) {
+        await page.waitForFunction(
+          (pattern: string) => new RegExp(pattern).test(window.location.href),
+          { timeout },
+          profile.successUrlPattern,
+        );
+      }
+    } catch (error) {
+      throw new Error(
+        `The success check of auth profile ${profile.name} did not pass, check its credentials and selectors`,
+      );
+    }
+
+    const cookies = await page.browserContext().cookies();
+    return cookies.map((cookie) => ({
+      name: cookie.name,
+      value: cookie.value,
+      domain: cookie.domain,
+      path: cookie.path,
+      expires: cookie.expires > 0 ? cookie.expires : undefined,
+    }));
+  });
+}
+
+async function typeInto(
+  page: Page,
+  selector: string,
+  value: string,
+  timeout: number,
+) {
+  const element = await page.waitForSelector(selector, {
+    visible: true,
+    timeout,
+  });
+  await element!.type(value);
+}
+
+/**
+ * Get the session cookies that apply to a URL, keyed by name
+ */
+function getSessionCookies(
+  session: AuthSession,
+  url: string,
+): Record<string, string> {
+  const { hostname, pathname } = new URL(url);
+  const cookies: Record<string, string> = {};
+
+  for (const cookie of session.cookies) {
+    if (isExpired(cookie)) continue;
+    if (cookie.domain) {
+      const domain = cookie.domain.replace(/^\./, "").toLowerCase();
+      if (hostname !== domain && !hostname.endsWith(`.${domain}`)) continue;
+    }
+    if (cookie.path && !pathname.startsWith(cookie.path)) continue;
+    cookies[cookie.name] = cookie.value;
+  }
+
+  return cookies;
+}
+
+function isExpired(cookie: SessionCookie): boolean {
+  return !!cookie.expires && cookie.expires * 1000 <= Date.now();
+}
+
+/**
+ * Convert a cookie expiry in seconds, milliseconds or as a date string to
+ * Unix time in seconds; session cookies have none
+ */
+function toExpiry(value: any): number | undefined {
+  const number =
+    typeof value === "string" && isNaN(Number(value))
+      ? Date.parse(value) / 1000
+      : Number(value);
+  if (!number || !(number > 0)) return undefined;
+  // Values this large are milliseconds
+  return number > 1e11 ? Math.floor(number / 1000) : number;
+}
+
+export default {
+  validateAuthProfile,
+  parseCookieJar,
+  applyAuthProfile,
+  getSession,
+  isSessionRejected,
+};
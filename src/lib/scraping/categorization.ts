@@ -1,9 +1,14 @@
-import { CategoryData, CategoryItem } from "@/types/scraping";
-import { generateUniqueId } from "@/lib/utils/ids";
 import {
-  extractItemsFromContent,
-  getCategoryKeywords,
-} from "./extractItemsFromContent";
+  CategoryData,
+  CategoryDefinition,
+  CategoryItem,
+  NormalizedPrice,
+} from "@/types/scraping";
+import { loadCategoryRules } from "./categoryRules";
+import { extractItemsFromContent } from "./extractItemsFromContent";
+import { createItemId, ensureUniqueItemIds } from "./itemIdentity";
+import { LLMExtractionOptions, extractWithLLM } from "./llm";
+import { parsePrice } from "./prices";
 
 /**
  * Categorizes content based on extracted data and specified categories
@@ -15,13 +20,14 @@ export async function categorizeContent(
   try {
     const categorizedData: Record<string, CategoryData> = {};
     const startTime = Date.now();
+    const rules = await loadCategoryRules(categories);
 
     // Process each category
     for (const category of categories) {
       const categoryKey = category.toLowerCase();
 
-      // Get category description - now async
-      const description = await getCategoryDescription(category);
+      // Get category description from its rules
+      const description = rules[categoryKey].description;
 
       // Initialize category data
       categorizedData[categoryKey] = {
@@ -30,7 +36,7 @@ export async function categorizeContent(
         metadata: {
           processingTime: 0,
           confidence: 0,
-          extractionMethod: extractedData.structured
+          extractionMethod: extractedData.structured?.[categoryKey]
             ? "structured"
             : "content-based",
           itemCount: 0,
@@ -38,7 +44,11 @@ export async function categorizeContent(
       };
 
       // Extract items for this category
-      const items = await extractCategoryItems(extractedData, category);
+      const items = await extractCategoryItems(
+        extractedData,
+        category,
+        rules[categoryKey],
+      );
 
       // Calculate average confidence
       const totalConfidence = items.reduce(
@@ -53,7 +63,7 @@ export async function categorizeContent(
       categorizedData[categoryKey].metadata = {
         processingTime: Date.now() - startTime,
         confidence: avgConfidence,
-        extractionMethod: extractedData.structured
+        extractionMethod: extractedData.structured?.[categoryKey]
           ? "structured"
           : "content-based",
         itemCount: items.length,
@@ -73,6 +83,63 @@ export async function categorizeContent(
   }
 }
 
+/**
+ * Categorizes content with the configured language model provider
+ * @throws If no provider is configured or the model call fails, so callers
+ * can fall back to categorizeContent
+ */
+export async function categorizeContentWithLLM(
+  extractedData: any,
+  categories: string[],
+  options: LLMExtractionOptions = {},
+): Promise<Record<string, CategoryData>> {
+  const extraction = await extractWithLLM(
+    {
+      text: extractedData.text || "",
+      categories,
+      url: extractedData.url,
+      title: extractedData.title,
+    },
+    options,
+  );
+
+  const categorizedData: Record<string, CategoryData> = {};
+  const rules = await loadCategoryRules(categories);
+
+  for (const category of categories) {
+    const categoryKey = category.toLowerCase();
+    const items = ensureUniqueItemIds(
+      (extraction.items[categoryKey] || []).sort(
+        (a, b) => (b.confidence || 0) - (a.confidence || 0),
+      ),
+    );
+    const totalConfidence = items.reduce(
+      (sum, item) => sum + (item.confidence || 0),
+      0,
+    );
+
+    categorizedData[categoryKey] = {
+      description: rules[categoryKey].description,
+      items,
+      metadata: {
+        processingTime: extraction.processingTime,
+        confidence: items.length > 0 ? totalConfidence / items.length : 0,
+        extractionMethod: "llm",
+        provider: extraction.provider,
+        model: extraction.model,
+        itemCount: items.length,
+        source: extractedData.url || "unknown",
+      },
+    };
+  }
+
+  if (Object.keys(categorizedData).length > 1) {
+    addCrossCategoryRelationships(categorizedData);
+  }
+
+  return categorizedData;
+}
+
 /**
  * Adds relationships between items across different categories
  */
@@ -219,84 +286,32 @@ function addCrossCategoryRelationships(
   }
 }
 
-/**
- * Returns a description for a category
- * Fetches from API if available, falls back to local defaults
- */
-async function getCategoryDescription(category: string): Promise<string> {
-  const key = category.toLowerCase();
-
-  try {
-    // Try to fetch category description from API
-    const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || "";
-    // Check if we're in a browser environment
-    const baseUrl =
-      typeof window !== "undefined"
-        ? window.location.origin
-        : "http://localhost:3000";
-    const response = await fetch(
-      `${baseUrl}${API_BASE_URL}/api/scraping/categories/${key}`,
-      {
-        method: "GET",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        // Add cache control to avoid excessive API calls
-        cache: "force-cache",
-      },
-    );
-
-    if (response.ok) {
-      const data = await response.json();
-      if (data && data.description) {
-        return data.description;
-      }
-    }
-
-    // Fall back to default descriptions if API fails
-    console.info(`Using default description for category: ${key}`);
-  } catch (error) {
-    console.warn(`Error fetching category description for ${key}:`, error);
-    // Continue to fallback - don't throw error to ensure graceful degradation
-  }
-
-  // Default descriptions as fallback
-  const descriptions: Record<string, string> = {
-    services: "Services offered by the organization",
-    fees: "Pricing and fee structure",
-    documents: "Required documents and forms",
-    eligibility: "Eligibility criteria for services",
-    products: "Products available for purchase",
-    contact: "Contact information and support details",
-    faq: "Frequently asked questions and answers",
-    hours: "Business hours and availability",
-    locations: "Physical locations and addresses",
-    team: "Team members and staff information",
-    testimonials: "Customer reviews and testimonials",
-  };
-
-  return descriptions[key] || `Information about ${category}`;
-}
-
 /**
  * Extracts items for a specific category from the extracted data
  */
 async function extractCategoryItems(
   extractedData: any,
   category: string,
+  rules: CategoryDefinition,
 ): Promise<CategoryItem[]> {
   // Check if we have structured data for this category
   const categoryKey = category.toLowerCase();
   const items: CategoryItem[] = [];
+  const usedStructuredData = !!extractedData.structured?.[categoryKey];
 
-  if (extractedData.structured && extractedData.structured[categoryKey]) {
+  if (usedStructuredData) {
     const categoryData = extractedData.structured[categoryKey];
 
     // Convert structured data to category items
     if (Array.isArray(categoryData.items)) {
       for (const item of categoryData.items) {
         items.push({
-          id: generateUniqueId(),
+          id: createItemId(
+            category,
+            extractedData.url,
+            item.title,
+            item.description,
+          ),
           title: item.title || "",
           content: item.description || "",
           source: extractedData.url || "",
@@ -315,6 +330,7 @@ async function extractCategoryItems(
     const extractedItems = await extractItemsFromContent(
       extractedData,
       category,
+      rules,
     );
     items.push(...extractedItems);
   }
@@ -322,9 +338,12 @@ async function extractCategoryItems(
   // Apply post-processing to improve quality
   const processedItems = postProcessCategoryItems(items, category);
 
-  return processedItems;
+  return ensureUniqueItemIds(processedItems);
 }
 
+// Extraction methods whose titles are exact, so only identical items are merged
+const EXACT_EXTRACTION_METHODS = ["structured", "table"];
+
 /**
  * Post-processes category items to improve quality
  */
@@ -341,8 +360,17 @@ function postProcessCategoryItems(
   // Remove duplicates based on title similarity
   const uniqueItems: CategoryItem[] = [];
   const seenTitles = new Set<string>();
+  const seenExactItems = new Set<string>();
 
   processedItems.forEach((item) => {
+    if (EXACT_EXTRACTION_METHODS.includes(item.metadata?.extractionMethod)) {
+      const identity = `${item.title}|${item.content}`.toLowerCase().trim();
+      if (seenExactItems.has(identity)) return;
+      seenExactItems.add(identity);
+      uniqueItems.push(item);
+      return;
+    }
+
     // Normalize title for comparison
     const normalizedTitle = item.title.toLowerCase().trim();
 
@@ -379,11 +407,11 @@ function postProcessCategoryItems(
     switch (category.toLowerCase()) {
       case "services":
         // Extract price if mentioned in content
-        const priceMatch = item.content.match(/\$\d+(\.\d+)?|\d+ dollars/i);
-        if (priceMatch && (!item.metadata || !item.metadata.price)) {
+        const servicePrice = parsePrice(item.content);
+        if (servicePrice && (!item.metadata || !item.metadata.price)) {
           enhancedItem.metadata = {
             ...enhancedItem.metadata,
-            price: priceMatch[0],
+            price: servicePrice.raw,
             hasPriceInfo: true,
           };
         }
@@ -391,13 +419,14 @@ function postProcessCategoryItems(
 
       case "fees":
         // Ensure fee items have amount information
-        if (!item.metadata) enhancedItem.metadata = {};
+        enhancedItem.metadata = { ...enhancedItem.metadata };
+        const feePrice = normalizeItemPrice(item);
 
         // Extract amount if not already present
-        if (!enhancedItem.metadata.amount) {
-          const amountMatch = item.content.match(/\$\d+(\.\d+)?|\d+ dollars/i);
-          if (amountMatch) {
-            enhancedItem.metadata.amount = amountMatch[0];
+        if (feePrice) {
+          enhancedItem.metadata.normalizedPrice = feePrice;
+          if (!enhancedItem.metadata.amount) {
+            enhancedItem.metadata.amount = feePrice.raw;
           }
         }
         break;
@@ -433,9 +462,7 @@ function postProcessCategoryItems(
 
       case "products":
         // Extract price and availability if mentioned
-        const productPriceMatch = item.content.match(
-          /\$\d+(\.\d+)?|\d+ dollars/i,
-        );
+        const productPrice = normalizeItemPrice(item);
         const availabilityMatch = item.content.match(
           /in stock|available|out of stock|backordered|pre-order/i,
         );
@@ -444,8 +471,11 @@ function postProcessCategoryItems(
           ...enhancedItem.metadata,
         };
 
-        if (productPriceMatch && !enhancedItem.metadata.price) {
-          enhancedItem.metadata.price = productPriceMatch[0];
+        if (productPrice) {
+          enhancedItem.metadata.normalizedPrice = productPrice;
+          if (!enhancedItem.metadata.price) {
+            enhancedItem.metadata.price = productPrice.raw;
+          }
         }
 
         if (availabilityMatch && !enhancedItem.metadata.availability) {
@@ -478,3 +508,29 @@ function postProcessCategoryItems(
     return enhancedItem;
   });
 }
+
+/**
+ * Normalize the price of a fees or products item
+ * Structured data gives the amount and currency separately; other items use
+ * the price found by the extractor, then their content and title
+ */
+function normalizeItemPrice(item: CategoryItem): NormalizedPrice | null {
+  const metadata = item.metadata || {};
+  const candidates = [
+    metadata.price && metadata.currency
+      ? `${metadata.price} ${metadata.currency}`
+      : null,
+    metadata.price,
+    metadata.amount,
+    item.content,
+    item.title,
+  ];
+
+  for (const candidate of candidates) {
+    if (typeof candidate !== "string" || !candidate) continue;
+    const price = parsePrice(candidate);
+    if (price) return price;
+  }
+
+  return null;
+}
@@ -0,0 +1,336 @@
+/**
+ * Category rules module
+ * Resolves the rules that drive extraction for a category: the built-in
+ * rules of the standard categories, overridden by categories stored through
+ * the categories API
+ */
+
+import { CategoryDefinition, CategoryStrategy } from "@/types/scraping";
+import { getCategoryDefinition } from "./storage";
+
+// Category names double as file names in file storage, which checks them too
+export const CATEGORY_NAME_PATTERN = /^[a-z0-9][a-z0-9 _-]*$/;
+
+export const CATEGORY_STRATEGIES: CategoryStrategy[] = [
+  "services",
+  "fees",
+  "documents",
+  "eligibility",
+  "products",
+  "generic",
+];
+
+// Built-in rules of the standard categories
+export const DEFAULT_CATEGORIES: Record<string, CategoryDefinition> = {
+  services: {
+    name: "services",
+    description: "Services offered by the organization",
+    keywords: [
+      "service",
+      "offering",
+      "solution",
+      "product",
+      "package",
+      "plan",
+      "feature",
+    ],
+    headingPatterns: ["service|plan|package"],
+    strategy: "services",
+  },
+  fees: {
+    name: "fees",
+    description: "Pricing and fee structure",
+    keywords: [
+      "fee",
+      "price",
+      "cost",
+      "pricing",
+      "payment",
+      "rate",
+      "charge",
+      "$",
+      "dollar",
+      "subscription",
+    ],
+    headingPatterns: ["fee|price|cost|pricing"],
+    strategy: "fees",
+  },
+  documents: {
+    name: "documents",
+    description: "Required documents and forms",
+    keywords: [
+      "document",
+      "form",
+      "file",
+      "paperwork",
+      "agreement",
+      "contract",
+      "pdf",
+      "download",
+      "upload",
+    ],
+    strategy: "documents",
+  },
+  eligibility: {
+    name: "eligibility",
+    description: "Eligibility criteria for services",
+    keywords: [
+      "eligibility",
+      "requirement",
+      "qualify",
+      "criteria",
+      "eligible",
+      "qualification",
+      "who can",
+      "must be",
+    ],
+    strategy: "eligibility",
+  },
+  products: {
+    name: "products",
+    description: "Products available for purchase",
+    keywords: [
+      "product",
+      "item",
+      "merchandise",
+      "goods",
+      "inventory",
+      "stock",
+      "catalog",
+    ],
+    strategy: "products",
+  },
+  contact: {
+    name: "contact",
+    description: "Contact information and support details",
+    keywords: [
+      "contact",
+      "email",
+      "phone",
+      "call",
+      "address",
+      "location",
+      "reach",
+      "support",
+    ],
+  },
+  faq: {
+    name: "faq",
+    description: "Frequently asked questions and answers",
+    keywords: [
+      "faq",
+      "question",
+      "answer",
+      "frequently",
+      "asked",
+      "help",
+      "support",
+    ],
+  },
+  hours: {
+    name: "hours",
+    description: "Business hours and availability",
+    keywords: [
+      "hours",
+      "schedule",
+      "open",
+      "close",
+      "availability",
+      "time",
+      "day",
+      "week",
+    ],
+  },
+  locations: {
+    name: "locations",
+    description: "Physical locations and addresses",
+    keywords: [
+      "location",
+      "address",
+      "branch",
+      "office",
+      "store",
+      "find us",
+      "visit",
+      "map",
+    ],
+  },
+  team: {
+    name: "team",
+    description: "Team members and staff information",
+    keywords: [
+      "team",
+      "staff",
+      "employee",
+      "member",
+      "personnel",
+      "expert",
+      "specialist",
+      "professional",
+    ],
+  },
+  testimonials: {
+    name: "testimonials",
+    description: "Customer reviews and testimonials",
+    keywords: [
+      "testimonial",
+      "review",
+      "feedback",
+      "client",
+      "customer",
+      "rating",
+      "experience",
+    ],
+  },
+};
+
+/**
+ * Resolve the rules of a category
+ * Fields set on the stored definition replace the built-in ones; unknown
+ * categories without a stored definition match their own name
+ * @param category Category name
+ * @param stored Definition stored through the categories API, if any
+ */
+export function resolveCategoryRules(
+  category: string,
+  stored?: CategoryDefinition | null,
+): CategoryDefinition {
+  const name = category.toLowerCase().trim();
+  const defaults: CategoryDefinition = DEFAULT_CATEGORIES[name] || {
+    name,
+    description: `Information about ${category}`,
+    keywords: [name],
+  };
+  if (!stored) return { strategy: "generic", ...defaults };
+
+  return {
+    ...defaults,
+    ...stored,
+    name,
+    description: stored.description || defaults.description,
+    keywords:
+      stored.keywords && stored.keywords.length > 0
+        ? stored.keywords
+        : defaults.keywords,
+    headingPatterns:
+      stored.headingPatterns && stored.headingPatterns.length > 0
+        ? stored.headingPatterns
+        : defaults.headingPatterns,
+    strategy: stored.strategy || defaults.strategy || "generic",
+  };
+}
+
+/**
+ * Load the rules of several categories from storage
+ * Categories that cannot be loaded use their built-in rules
+ * @returns Rules keyed by lowercase category name
+ */
+export async function loadCategoryRules(
+  categories: string[],
+): Promise<Record<string, CategoryDefinition>> {
+  const rules: Record<string, CategoryDefinition> = {};
+
+  for (const category of categories) {
+    const key = category.toLowerCase();
+    let stored: CategoryDefinition | null = null;
+
+    try {
+      stored = await getCategoryDefinition(key);
+    } catch (error) {
+      console.warn(`Using built-in rules for category ${key}:`, error);
+    }
+
+    rules[key] = resolveCategoryRules(category, stored);
+  }
+
+  return rules;
+}
+
+/**
+ * Validate a category definition sent to the categories API
+ * @returns Error messages, empty when the definition is valid
+ */
+export function validateCategoryDefinition(definition: any): string[] {
+  const errors: string[] = [];
+  if (!definition || typeof definition !== "object") {
+    return ["Category definition must be an object"];
+  }
+
+  if (typeof definition.name !== "string" || !definition.name.trim()) {
+    errors.push("name is required");
+  } else if (
+    !CATEGORY_NAME_PATTERN.test(definition.name.toLowerCase().trim())
+  ) {
+    errors.push(
+      "name must start with a letter or digit and contain only letters, digits, spaces, hyphens and underscores",
+    );
+  }
+  if (
+    typeof definition.description !== "string" ||
+    !definition.description.trim()
+  ) {
+    errors.push("description is required");
+  }
+
+  for (const field of ["keywords", "negativeKeywords", "headingPatterns"]) {
+    const value = definition[field];
+    if (
+      value !== undefined &&
+      (!Array.isArray(value) ||
+        value.some((entry) => typeof entry !== "string"))
+    ) {
+      errors.push(`${field} must be an array of strings`);
+    }
+  }
+
+  if (definition.keywordWeights !== undefined) {
+    const weights = definition.keywordWeights;
+    if (
+      !weights ||
+      typeof weights !== "object" ||
+      Object.values(weights).some(
+        (weight) => typeof weight !== "number" || !(weight >= 0),
+      )
+    ) {
+      errors.push("keywordWeights must map keywords to non-negative numbers");
+    }
+  }
+
+  for (const pattern of Array.isArray(definition.headingPatterns)
+    ? definition.headingPatterns
+    : []) {
+    try {
+      new RegExp(pattern, "i");
+    } catch (error) {
+      errors.push(`Invalid heading pattern: ${pattern}`);
+    }
+  }
+
+  if (
+    definition.strategy !== undefined &&
+    !CATEGORY_STRATEGIES.includes(definition.strategy)
+  ) {
+    errors.push(`strategy must be one of ${CATEGORY_STRATEGIES.join(", ")}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Get the weight of a keyword, 1 unless the rules set one
+ */
+export function getKeywordWeight(
+  rules: CategoryDefinition,
+  keyword: string,
+): number {
+  const weights = rules.keywordWeights || {};
+  const weight = weights[keyword] ?? weights[keyword.toLowerCase()];
+  return typeof weight === "number" ? weight : 1;
+}
+
+export default {
+  resolveCategoryRules,
+  loadCategoryRules,
+  validateCategoryDefinition,
+  getKeywordWeight,
+};
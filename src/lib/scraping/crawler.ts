@@ -0,0 +1,248 @@
+/**
+ * Link crawler module
+ * Follows links breadth-first from the scraped page up to maxLinkDepth
+ */
+
+import { JSDOM } from "jsdom";
+import { FetchResult, ScrapingConfig, ScrapingError } from "@/types/scraping";
+import { canonicalizeUrl, matchesGlob, toAbsoluteUrl } from "@/lib/utils/urls";
+import { renderPage } from "./renderer";
+import { PageResult } from "./pagination";
+import {
+  RobotsCheck,
+  checkRobotsTxt,
+  getEffectiveDelay,
+  toRobotsError,
+} from "./robots";
+
+interface FrontierEntry {
+  url: string;
+  depth: number;
+  parentUrl: string;
+}
+
+// Defaults for options the user did not set
+const DEFAULT_MAX_CRAWL_PAGES = 50;
+const DEFAULT_CONCURRENCY_PER_HOST = 2;
+
+// Upper bound on requests in flight across all hosts
+const MAX_CONCURRENT_REQUESTS = 4;
+
+// Links to files that are never HTML pages
+const NON_HTML_EXTENSIONS =
+  /\.(pdf|zip|gz|tar|rar|7z|exe|dmg|jpe?g|png|gif|webp|svg|ico|bmp|mp3|mp4|avi|mov|webm|woff2?|ttf|eot|css|js|json|xml|rss|docx?|xlsx?|pptx?|csv)$/i;
+
+/**
+ * Crawl the links found on the root page
+ * The frontier is processed in breadth-first order while respecting the
+ * per-host concurrency limit, while the rate limiter keeps rateLimitDelay
+ * between requests to a host.
+ * With respectRobotsTxt, disallowed links are reported instead of fetched
+ * and the robots.txt Crawl-delay raises the delay for their host
+ * @param config Scraping configuration
+ * @param root Fetch result of the page the crawl starts from
+ * @param processPage Extracts and categorizes a fetched page
+ * @param firstPageNumber Page number given to the first crawled page
+ * @param visitedUrls URLs that were already scraped, e.g. by pagination
+ * @param signal Optional signal that stops the crawl
+ * @returns The crawled pages in page order, warnings and errors
+ */
+export async function crawlLinks(
+  config: ScrapingConfig,
+  root: FetchResult,
+  processPage: (fetched: FetchResult, page: number) => Promise<PageResult>,
+  firstPageNumber: number,
+  visitedUrls: string[] = [],
+  signal?: AbortSignal,
+): Promise<{
+  pages: PageResult[];
+  warnings: string[];
+  errors: ScrapingError[];
+}> {
+  const maxDepth = config.options.maxLinkDepth || 1;
+  const maxPages = config.options.maxCrawlPages || DEFAULT_MAX_CRAWL_PAGES;
+  const perHostLimit = Math.max(
+    1,
+    config.options.maxConcurrencyPerHost || DEFAULT_CONCURRENCY_PER_HOST,
+  );
+
+  const pages: PageResult[] = [];
+  const warnings: string[] = [];
+  const errors: ScrapingError[] = [];
+  const frontier: FrontierEntry[] = [];
+  const visited = new Set<string>(
+    [config.url, root.finalUrl, ...visitedUrls].map(canonicalizeUrl),
+  );
+  const activePerHost = new Map<string, number>();
+  const running = new Set<Promise<void>>();
+  let nextPageNumber = firstPageNumber;
+  let truncated = false;
+
+  const enqueueLinks = (html: string, pageUrl: string, depth: number) => {
+    for (const link of extractLinks(html, pageUrl)) {
+      const canonical = canonicalizeUrl(link);
+      if (visited.has(canonical)) continue;
+      if (!isInScope(link, root.finalUrl || config.url, config)) continue;
+
+      visited.add(canonical);
+      frontier.push({ url: link, depth, parentUrl: pageUrl });
+    }
+  };
+
+  const visit = async (entry: FrontierEntry, pageNumber: number) => {
+    let robots: RobotsCheck | undefined;
+    if (config.options.respectRobotsTxt) {
+      robots = await checkRobotsTxt(entry.url, config.options);
+      if (!robots.allowed) {
+        errors.push(toRobotsError(robots));
+        return;
+      }
+    }
+
+    // The rate limiter spaces out requests to the same host
+    const fetched = await renderPage(
+      entry.url,
+      {
+        ...config.options,
+        rateLimitDelay: getEffectiveDelay(config.options, robots),
+      },
+      signal,
+    );
+    if (signal?.aborted) return;
+
+    if (fetched.error) {
+      warnings.push(`Could not crawl ${entry.url}: ${fetched.error}`);
+      return;
+    }
+
+    visited.add(canonicalizeUrl(fetched.finalUrl));
+    const pageResult = await processPage(fetched, pageNumber);
+    pageResult.depth = entry.depth;
+    pageResult.parentUrl = entry.parentUrl;
+    pages.push(pageResult);
+
+    if (entry.depth < maxDepth) {
+      enqueueLinks(fetched.html, fetched.finalUrl, entry.depth + 1);
+    }
+  };
+
+  enqueueLinks(root.html, root.finalUrl || config.url, 1);
+
+  while (frontier.length > 0 || running.size > 0) {
+    // A cancelled crawl lets running requests settle but starts no new ones
+    if (signal?.aborted) frontier.length = 0;
+
+    // Start every frontier entry whose host has a free slot, oldest first
+    for (let i = 0; i < frontier.length; ) {
+      if (running.size >= MAX_CONCURRENT_REQUESTS) break;
+
+      if (pages.length + running.size >= maxPages) {
+        truncated = true;
+        frontier.length = 0;
+        break;
+      }
+
+      const entry = frontier[i];
+      const host = new URL(entry.url).host;
+      const active = activePerHost.get(host) || 0;
+      if (active >= perHostLimit) {
+        i++;
+        continue;
+      }
+
+      frontier.splice(i, 1);
+      activePerHost.set(host, active + 1);
+
+      const task: Promise<void> = visit(entry, nextPageNumber++)
+        .catch((error) => {
+          warnings.push(
+            `Could not crawl ${entry.url}: ${error?.message || String(error)}`,
+          );
+        })
+        .finally(() => {
+          activePerHost.set(host, (activePerHost.get(host) || 1) - 1);
+          running.delete(task);
+        });
+      running.add(task);
+    }
+
+    if (running.size === 0) break;
+    await Promise.race(running);
+  }
+
+  if (truncated) {
+    warnings.push(
+      `Link crawl stopped after ${maxPages} pages (maxCrawlPages reached)`,
+    );
+  }
+
+  return {
+    pages: pages.sort((a, b) => a.page - b.page),
+    warnings,
+    errors,
+  };
+}
+
+/**
+ * Check if a link may be followed from the crawl root
+ */
+export function isInScope(
+  url: string,
+  rootUrl: string,
+  config: ScrapingConfig,
+): boolean {
+  const target = new URL(url);
+  const root = new URL(rootUrl);
+
+  if (target.origin !== root.origin) return false;
+
+  // Path-prefix scope keeps the crawl inside the root page's directory
+  if (config.options.linkScope === "path-prefix") {
+    const prefix = root.pathname.substring(
+      0,
+      root.pathname.lastIndexOf("/") + 1,
+    );
+    if (!target.pathname.startsWith(prefix)) return false;
+  }
+
+  if (NON_HTML_EXTENSIONS.test(target.pathname)) return false;
+
+  const include = cleanPatterns(config.options.includePatterns);
+  if (
+    include.length > 0 &&
+    !include.some((pattern) => matchesGlob(url, pattern))
+  ) {
+    return false;
+  }
+
+  const exclude = cleanPatterns(config.options.excludePatterns);
+  return !exclude.some((pattern) => matchesGlob(url, pattern));
+}
+
+/**
+ * Drop blank glob patterns left over from editing
+ */
+function cleanPatterns(patterns?: string[]): string[] {
+  return (patterns || []).map((pattern) => pattern.trim()).filter(Boolean);
+}
+
+/**
+ * Collect the absolute URLs of all links on a page
+ */
+function extractLinks(html: string, pageUrl: string): string[] {
+  const dom = new JSDOM(html, { url: pageUrl });
+
+  try {
+    const links: string[] = [];
+    dom.window.document.querySelectorAll("a[href]").forEach((anchor) => {
+      const rel = (anchor.getAttribute("rel") || "").toLowerCase();
+      if (rel.split(/\s+/).includes("nofollow")) return;
+
+      const url = toAbsoluteUrl(anchor.getAttribute("href") || "", pageUrl);
+      if (url) links.push(url);
+    });
+    return links;
+  } finally {
+    dom.window.close();
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * Diff module
+ * Compares two results of the same scraping configuration category by
+ * category and reports added, removed and modified items
+ */
+
+import {
+  CategoryDiff,
+  CategoryItem,
+  FieldChange,
+  ItemDiff,
+  ResultDiff,
+  ScrapingResult,
+} from "@/types/scraping";
+import { getPreviousScrapingResult } from "./storage";
+
+// Item fields compared directly; metadata is compared key by key
+const COMPARED_FIELDS = [
+  "title",
+  "content",
+  "source",
+  "confidence",
+  "verified",
+] as const;
+
+// Metadata that differs on every run without the item changing
+const IGNORED_METADATA = ["timestamp", "contentHash"];
+
+/**
+ * Compare two results of the same configuration
+ * @param base The result to compare against, usually the older one
+ * @param target The result to compare
+ * @returns The changes from base to target
+ */
+export function diffResults(
+  base: ScrapingResult,
+  target: ScrapingResult,
+): ResultDiff {
+  if (base.configId !== target.configId) {
+    throw new Error(
+      `Cannot compare results of different configurations: ${base.configId} and ${target.configId}`,
+    );
+  }
+
+  const categoryNames = Array.from(
+    new Set([
+      ...Object.keys(target.categories || {}),
+      ...Object.keys(base.categories || {}),
+    ]),
+  );
+
+  const categories = categoryNames.map((category) =>
+    diffCategory(
+      category,
+      base.categories?.[category]?.items || [],
+      target.categories?.[category]?.items || [],
+    ),
+  );
+
+  return {
+    configId: target.configId,
+    baseResultId: base.id,
+    targetResultId: target.id,
+    baseTimestamp: base.timestamp,
+    targetTimestamp: target.timestamp,
+    summary: {
+      added: sum(categories, "added"),
+      removed: sum(categories, "removed"),
+      modified: sum(categories, "modified"),
+      unchanged: sum(categories, "unchanged"),
+    },
+    categories,
+  };
+}
+
+/**
+ * Find the latest result of the same configuration and URL saved before a
+ * result, skipping failed runs since they have no items to compare
+ * @returns The previous result, or null if this is the first one
+ */
+export async function findPreviousResult(
+  result: ScrapingResult,
+): Promise<ScrapingResult | null> {
+  return getPreviousScrapingResult(
+    result.configId,
+    result.url,
+    result.timestamp,
+    result.id,
+  );
+}
+
+/**
+ * Compare the items of one category
+ * Items are matched by ID first, then by title and source, then by content,
+ * so an item whose title or content changed is reported as modified
+ */
+export function diffCategory(
+  category: string,
+  baseItems: CategoryItem[],
+  targetItems: CategoryItem[],
+): CategoryDiff {
+  const unmatched = new Set(baseItems);
+  const pairs = new Map<CategoryItem, CategoryItem>();
+
+  const identities: ((item: CategoryItem) => string)[] = [
+    (item) => item.id,
+    (item) =>
+      item.title ? `${normalize(item.title)}|${normalize(item.source)}` : "",
+    (item) => normalize(item.content),
+  ];
+
+  for (const identity of identities) {
+    const candidates = groupBy(Array.from(unmatched), identity);
+
+    for (const item of targetItems) {
+      if (pairs.has(item)) continue;
+
+      const key = identity(item);
+      const match = key ? candidates.get(key)?.shift() : undefined;
+      if (match) {
+        pairs.set(item, match);
+        unmatched.delete(match);
+      }
+    }
+  }
+
+  const items: ItemDiff[] = [];
+  let unchanged = 0;
+
+  for (const item of targetItems) {
+    const before = pairs.get(item);
+    if (!before) {
+      items.push({ type: "added", after: item, changes: [] });
+      continue;
+    }
+
+    const changes = diffItem(before, item);
+    if (changes.length > 0) {
+      items.push({ type: "modified", before, after: item, changes });
+    } else {
+      unchanged++;
+    }
+  }
+
+  for (const before of Array.from(unmatched)) {
+    items.push({ type: "removed", before, changes: [] });
+  }
+
+  return {
+    category,
+    added: items.filter((item) => item.type === "added").length,
+    removed: items.filter((item) => item.type === "removed").length,
+    modified: items.filter((item) => item.type === "modified").length,
+    unchanged,
+    items,
+  };
+}
+
+/**
+ * List the fields that differ between two versions of an item
+ */
+export function diffItem(
+  before: CategoryItem,
+  after: CategoryItem,
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  for (const field of COMPARED_FIELDS) {
+    if (!isEqual(before[field], after[field])) {
+      changes.push({ field, before: before[field], after: after[field] });
+    }
+  }
+
+  const metadataKeys = new Set([
+    ...Object.keys(before.metadata || {}),
+    ...Object.keys(after.metadata || {}),
+  ]);
+  for (const key of Array.from(metadataKeys)) {
+    if (IGNORED_METADATA.includes(key)) continue;
+
+    const previous = before.metadata?.[key];
+    const next = after.metadata?.[key];
+    if (!isEqual(previous, next)) {
+      changes.push({ field: `metadata.${key}`, before: previous, after: next });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Normalize text for matching: case, whitespace and surrounding punctuation
+ * do not make two items different
+ */
+function normalize(text?: string): string {
+  return (text || "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/^[\s.,;:!?'"()-]+|[\s.,;:!?'"()-]+$/g, "");
+}
+
+/**
+ * Compare two values, ignoring the key order of objects
+ */
+function isEqual(a: any, b: any): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+function stableStringify(value: any): string {
+  if (value === undefined) return "undefined";
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  return `{${Object.keys(value)
+    .sort()
+    .filter((key) => value[key] !== undefined)
+    .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+    .join(",")}}`;
+}
+
+/**
+ * Group items by a key, keeping their order; items without a key are left out
+ */
+function groupBy(
+  items: CategoryItem[],
+  key: (item: CategoryItem) => string,
+): Map<string, CategoryItem[]> {
+  const groups = new Map<string, CategoryItem[]>();
+  for (const item of items) {
+    const value = key(item);
+    if (!value) continue;
+    groups.set(value, [...(groups.get(value) || []), item]);
+  }
+  return groups;
+}
+
+function sum(
+  categories: CategoryDiff[],
+  field: "added" | "removed" | "modified" | "unchanged",
+): number {
+  return categories.reduce((total, category) => total + category[field], 0);
+}
@@ -0,0 +1,362 @@
+/**
+ * Entities module
+ * Extracts the custom entities defined on a configuration from categorized
+ * items using each entity's selector, regex or list of possible values
+ */
+
+import { JSDOM } from "jsdom";
+import {
+  CategoryData,
+  CategoryItem,
+  CustomEntity,
+  EntityValue,
+  ItemEntities,
+  RawData,
+} from "@/types/scraping";
+import { detectSelectorType, selectNodes } from "./extractRawData";
+
+// Confidence of a value by how it was found
+const SELECTOR_CONFIDENCE = 0.9; // Lowered for each ancestor between the match and its item
+const MIN_SELECTOR_CONFIDENCE = 0.5;
+const REGEX_CONFIDENCE = 0.8;
+const POSSIBLE_VALUE_CONFIDENCE = 0.7;
+
+// How far up from a selector match to look for the item it belongs to
+const MAX_ANCESTOR_LEVELS = 4;
+
+interface SelectorMatch {
+  text: string;
+  level: number; // Ancestors between the matched node and the item's text
+}
+
+/**
+ * Extract custom entities for the items of every category
+ * Values are stored on metadata.entities; items missing a required entity
+ * list it in metadata.missingRequiredEntities. Invalid selectors and regular
+ * expressions are reported as warnings on the raw data
+ * @param categories Categorized data of a page
+ * @param rawData Raw data of the page, providing the HTML selectors run on
+ * @param entities Entity definitions of the configuration
+ */
+export function applyCustomEntities(
+  categories: Record<string, CategoryData>,
+  rawData: RawData,
+  entities: CustomEntity[] = [],
+): Record<string, CategoryData> {
+  const definitions = entities.filter((entity) => entity.name);
+  if (definitions.length === 0) return categories;
+
+  const patterns = compilePatterns(definitions, rawData);
+  const dom = new JSDOM(rawData.html || "");
+
+  try {
+    const nodes = selectEntityNodes(dom.window.document, definitions, rawData);
+
+    for (const [key, data] of Object.entries(categories)) {
+      const categoryEntities = definitions.filter(
+        (entity) => !entity.category || entity.category.toLowerCase() === key,
+      );
+      if (categoryEntities.length === 0) continue;
+
+      const selected = assignSelectorMatches(
+        data.items,
+        categoryEntities,
+        nodes,
+      );
+      data.items = data.items.map((item) =>
+        extractItemEntities(
+          item,
+          categoryEntities,
+          patterns,
+          selected.get(item),
+        ),
+      );
+      data.metadata = {
+        ...data.metadata,
+        incompleteItemCount: data.items.filter(
+          (item) => item.metadata?.missingRequiredEntities,
+        ).length,
+      };
+    }
+  } finally {
+    dom.window.close();
+  }
+
+  return categories;
+}
+
+/**
+ * Extract the entities of one item
+ * A selector match assigned to the item wins, then the regex over the
+ * item's text, then the first possible value mentioned in it
+ */
+export function extractItemEntities(
+  item: CategoryItem,
+  entities: CustomEntity[],
+  patterns: Map<CustomEntity, RegExp | null> = compilePatterns(entities),
+  selected?: Map<string, SelectorMatch>,
+): CategoryItem {
+  const values: ItemEntities = {};
+  const missing: string[] = [];
+  const itemText = [item.title, item.content].filter(Boolean).join("\n");
+
+  for (const entity of entities) {
+    const pattern = patterns.get(entity) || null;
+    const match = selected?.get(entity.name);
+    let found: EntityValue | null = null;
+
+    if (match) {
+      const value = pattern ? matchPattern(pattern, match.text) : match.text;
+      if (value) {
+        found = {
+          value,
+          raw: match.text,
+          method: "selector",
+          confidence: Math.max(
+            MIN_SELECTOR_CONFIDENCE,
+            SELECTOR_CONFIDENCE - match.level * 0.1,
+          ),
+          valid: true,
+        };
+      }
+    }
+
+    if (!found && pattern) {
+      const value = matchPattern(pattern, itemText);
+      if (value) {
+        found = {
+          value,
+          raw: value,
+          method: "regex",
+          confidence: REGEX_CONFIDENCE,
+          valid: true,
+        };
+      }
+    }
+
+    if (found && entity.possibleValues?.length) {
+      found = validatePossibleValue(found, entity.possibleValues);
+    }
+
+    if (!found && entity.possibleValues?.length) {
+      const value = findPossibleValue(itemText, entity.possibleValues);
+      if (value) {
+        found = {
+          value,
+          raw: value,
+          method: "possibleValues",
+          confidence: POSSIBLE_VALUE_CONFIDENCE,
+          valid: true,
+        };
+      }
+    }
+
+    if (found) values[entity.name] = found;
+    if (entity.required && (!found || !found.valid)) missing.push(entity.name);
+  }
+
+  const { missingRequiredEntities, ...metadata } = item.metadata || {};
+  return {
+    ...item,
+    metadata: {
+      ...metadata,
+      entities: values,
+      ...(missing.length > 0 && { missingRequiredEntities: missing }),
+    },
+  };
+}
+
+/**
+ * Compile the regular expressions of the entities, case-insensitive
+ * Invalid expressions are skipped with a warning
+ */
+function compilePatterns(
+  entities: CustomEntity[],
+  rawData?: RawData,
+): Map<CustomEntity, RegExp | null> {
+  const patterns = new Map<CustomEntity, RegExp | null>();
+
+  for (const entity of entities) {
+    if (!entity.regex) {
+      patterns.set(entity, null);
+      continue;
+    }
+
+    try {
+      patterns.set(entity, new RegExp(entity.regex, "i"));
+    } catch (error) {
+      patterns.set(entity, null);
+      rawData?.warnings.push(
+        `Invalid regex for entity "${entity.name}": ${entity.regex}`,
+      );
+    }
+  }
+
+  return patterns;
+}
+
+/**
+ * Run the selectors of the entities against the page
+ * Invalid selectors are skipped with a warning
+ */
+function selectEntityNodes(
+  document: Document,
+  entities: CustomEntity[],
+  rawData: RawData,
+): Map<CustomEntity, Node[]> {
+  const nodes = new Map<CustomEntity, Node[]>();
+
+  for (const entity of entities) {
+    const selector = (entity.selector || "").trim();
+    if (!selector) continue;
+
+    const selectorType = detectSelectorType(selector);
+    try {
+      nodes.set(entity, selectNodes(document, selector, selectorType));
+    } catch (error) {
+      rawData.warnings.push(
+        `Invalid ${selectorType} selector for entity "${entity.name}": ${selector}`,
+      );
+    }
+  }
+
+  return nodes;
+}
+
+/**
+ * Work out which item each selector match belongs to
+ * Walks up from the matched node until an ancestor contains the text of
+ * exactly one item; an ancestor shared by several items is ambiguous and the
+ * match is dropped. An item keeps the closest match of each entity
+ */
+function assignSelectorMatches(
+  items: CategoryItem[],
+  entities: CustomEntity[],
+  nodes: Map<CustomEntity, Node[]>,
+): Map<CategoryItem, Map<string, SelectorMatch>> {
+  const assigned = new Map<CategoryItem, Map<string, SelectorMatch>>();
+  const texts = items.map((item) => ({
+    item,
+    title: normalize(item.title),
+    content: normalize(item.content),
+  }));
+
+  for (const entity of entities) {
+    for (const node of nodes.get(entity) || []) {
+      const text = normalize(node.textContent || "");
+      if (!text) continue;
+
+      const owner = findOwner(node, text, texts);
+      if (!owner) continue;
+
+      const matches = assigned.get(owner.item) || new Map();
+      const previous = matches.get(entity.name);
+      if (!previous || previous.level > owner.level) {
+        matches.set(entity.name, {
+          text: (node.textContent || "").trim(),
+          level: owner.level,
+        });
+      }
+      assigned.set(owner.item, matches);
+    }
+  }
+
+  return assigned;
+}
+
+/**
+ * Find the item a matched node belongs to and how many ancestors up its
+ * text was found
+ * @returns The owning item, or null if none or several items match first
+ */
+function findOwner(
+  node: Node,
+  text: string,
+  texts: { item: CategoryItem; title: string; content: string }[],
+): { item: CategoryItem; level: number } | null {
+  let ancestor: Node | null = node;
+  let level = 0;
+
+  while (ancestor && level <= MAX_ANCESTOR_LEVELS) {
+    const ancestorText = normalize(ancestor.textContent || "");
+    const owners = texts.filter(
+      ({ title, content }) =>
+        (!!title && ancestorText.includes(title)) ||
+        (!!content && ancestorText.includes(content)) ||
+        (level === 0 && !!content && content.includes(text)),
+    );
+
+    if (owners.length === 1) return { item: owners[0].item, level };
+    if (owners.length > 1) return null;
+
+    ancestor = ancestor.parentNode;
+    level++;
+  }
+
+  return null;
+}
+
+/**
+ * Apply a pattern, preferring its first capture group over the whole match
+ */
+function matchPattern(pattern: RegExp, text: string): string | null {
+  const match = pattern.exec(text);
+  if (!match) return null;
+  return (match[1] !== undefined ? match[1] : match[0]).trim() || null;
+}
+
+/**
+ * Check a value against the possible values of its entity
+ * An exact match keeps its confidence, a value containing a possible value
+ * is narrowed to it, and anything else is marked invalid
+ */
+function validatePossibleValue(
+  found: EntityValue,
+  possibleValues: string[],
+): EntityValue {
+  const value = normalize(found.value);
+  const exact = possibleValues.find(
+    (possible) => normalize(possible) === value,
+  );
+  if (exact) return { ...found, value: exact };
+
+  const contained = findPossibleValue(found.value, possibleValues);
+  if (contained) {
+    return { ...found, value: contained, confidence: found.confidence * 0.9 };
+  }
+
+  return { ...found, valid: false, confidence: found.confidence * 0.5 };
+}
+
+/**
+ * Find the possible value mentioned first, as a whole word, in a text
+ */
+function findPossibleValue(
+  text: string,
+  possibleValues: string[],
+): string | null {
+  const normalized = normalize(text);
+  let first: { value: string; index: number } | null = null;
+
+  for (const possible of possibleValues) {
+    const value = normalize(possible);
+    if (!value) continue;
+
+    const escaped = value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const match = new RegExp(`(^|\\W)${escaped}($|\\W)`).exec(normalized);
+    if (match && (!first || match.index < first.index)) {
+      first = { value: possible, index: match.index };
+    }
+  }
+
+  return first ? first.value : null;
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+export default {
+  applyCustomEntities,
+  extractItemEntities,
+};
@@ -1,197 +1,207 @@
-import { CategoryItem } from "@/types/scraping";
-import { generateUniqueId } from "@/lib/utils/ids";
+import {
+  CategoryDefinition,
+  CategoryItem,
+  CategoryStrategy,
+  ExtractedTable,
+} from "@/types/scraping";
+import { getKeywordWeight, resolveCategoryRules } from "./categoryRules";
+import {
+  Extractor,
+  PotentialItem,
+  mergeExtractorResults,
+  registerExtractor,
+  runExtractors,
+} from "./extractors";
+import { htmlToText } from "./fetcher";
+import { createItemId } from "./itemIdentity";
+import { openingHoursExtractor } from "./openingHours";
+import { findPrices } from "./prices";
+import { tableToItems } from "./tables";
+
+// Confidence of table rows, by what ties the table to the category
+const TABLE_KEYWORD_CONFIDENCE = 0.85; // Caption or a header names the category
+const TABLE_CURRENCY_CONFIDENCE = 0.75; // Only a currency column, for fees
+
+// Extractors of the category strategies, plus the domain extractors that
+// ship with the scraper
+const BUILT_IN_EXTRACTORS: Extractor[] = [
+  strategyExtractor("services", (content, rules, items) =>
+    extractServiceItems(content, rules.keywords, rules, items),
+  ),
+  strategyExtractor("fees", (content, rules, items) =>
+    extractFeeItems(content, rules.keywords, rules, items),
+  ),
+  strategyExtractor("documents", (content, rules, items) =>
+    extractDocumentItems(content, rules.keywords, items),
+  ),
+  strategyExtractor("eligibility", (content, rules, items) =>
+    extractEligibilityItems(content, rules.keywords, items),
+  ),
+  strategyExtractor("products", (content, rules, items) =>
+    extractProductItems(content, rules.keywords, items),
+  ),
+  strategyExtractor("generic", (content, rules, items) =>
+    extractGenericItems(content, rules.keywords, rules, items),
+  ),
+  openingHoursExtractor,
+];
+BUILT_IN_EXTRACTORS.forEach(registerExtractor);
 
 /**
  * Extracts items from content based on category
+ * @param rules Extraction rules of the category, the built-in rules if omitted
  */
 export async function extractItemsFromContent(
   extractedData: any,
   category: string,
+  rules: CategoryDefinition = resolveCategoryRules(category),
 ): Promise<CategoryItem[]> {
-  const items: CategoryItem[] = [];
-  const categoryKey = category.toLowerCase();
-  const content = extractedData.text || extractedData.html || "";
-
-  // Get keywords for this category
-  const keywords = getCategoryKeywords(categoryKey);
+  let items: CategoryItem[] = [];
+  // The extractors below match HTML patterns, so prefer the selected HTML
+  let content = extractedData.html || extractedData.text || "";
+
+  // Rows of matching tables become items; the tables are then left out of
+  // the pattern matching so their cells are not extracted a second time
+  const tableItems = extractTableItems(
+    extractedData.tables || [],
+    category,
+    rules,
+    extractedData.url,
+  );
+  if (tableItems.length > 0) {
+    items.push(...tableItems);
+    content = content.replace(/<table[\s\S]*?<\/table>/gi, "");
+  }
 
-  // Extract potential items based on patterns and keywords
-  const potentialItems = extractPotentialItems(content, categoryKey, keywords);
+  // Run the registered extractors of the category and merge their items
+  const results = await runExtractors({
+    category,
+    rules,
+    url: extractedData.url,
+    html: content,
+    text:
+      tableItems.length > 0 || !extractedData.text
+        ? htmlToText(content)
+        : extractedData.text,
+    structuredData: extractedData.structuredData,
+  });
+  const potentialItems = mergeExtractorResults(results, (item) =>
+    calculateConfidence(item, rules),
+  );
 
   // Convert potential items to CategoryItem format
   potentialItems.forEach((item, index) => {
     items.push({
-      id: generateUniqueId(),
+      id: createItemId(category, extractedData.url, item.title, item.content),
       title: item.title || `${category} ${index + 1}`,
       content: item.content || "",
-      confidence: calculateConfidence(item, keywords),
+      confidence: item.confidence,
       verified: false,
       source: extractedData.url || "",
       metadata: {
+        ...item.metadata,
         extractionMethod: "content-based",
         timestamp: new Date().toISOString(),
         keywords: item.matchedKeywords || [],
         position: item.position || 0,
+        ...(item.price && { price: item.price }),
       },
     });
   });
 
+  // Drop items that mention a negative keyword
+  const negativePatterns = (rules.negativeKeywords || []).map(keywordPattern);
+  if (negativePatterns.length > 0) {
+    items = items.filter((item) => {
+      const text = `${item.title}\n${item.content}`.toLowerCase();
+      return !negativePatterns.some((pattern) => pattern.test(text));
+    });
+  }
+
   return items;
 }
 
 /**
- * Returns keywords for a category
+ * Turn the rows of the tables that belong to a category into items
+ * A table belongs to a category when its caption or a header mentions one
+ * of the category's keywords, or, for the fees strategy, when it has a
+ * currency column
+ */
+function extractTableItems(
+  tables: ExtractedTable[],
+  category: string,
+  rules: CategoryDefinition,
+  source?: string,
+): CategoryItem[] {
+  const patterns = rules.keywords.map(keywordPattern);
+
+  return tables.flatMap((table) => {
+    const labels = [table.caption || "", ...table.headers]
+      .join("\n")
+      .toLowerCase();
+
+    if (patterns.some((pattern) => pattern.test(labels))) {
+      return tableToItems(table, category, source, TABLE_KEYWORD_CONFIDENCE);
+    }
+    if (rules.strategy === "fees" && table.columnTypes.includes("currency")) {
+      return tableToItems(table, category, source, TABLE_CURRENCY_CONFIDENCE);
+    }
+    return [];
+  });
+}
+
+/**
+ * Returns the built-in keywords for a category
  */
 export function getCategoryKeywords(category: string): string[] {
-  const keywords: Record<string, string[]> = {
-    services: [
-      "service",
-      "offering",
-      "solution",
-      "product",
-      "package",
-      "plan",
-      "feature",
-    ],
-    fees: [
-      "fee",
-      "price",
-      "cost",
-      "pricing",
-      "payment",
-      "rate",
-      "charge",
-      "$",
-      "dollar",
-      "subscription",
-    ],
-    documents: [
-      "document",
-      "form",
-      "file",
-      "paperwork",
-      "agreement",
-      "contract",
-      "pdf",
-      "download",
-      "upload",
-    ],
-    eligibility: [
-      "eligibility",
-      "requirement",
-      "qualify",
-      "criteria",
-      "eligible",
-      "qualification",
-      "who can",
-      "must be",
-    ],
-    products: [
-      "product",
-      "item",
-      "merchandise",
-      "goods",
-      "inventory",
-      "stock",
-      "catalog",
-    ],
-    contact: [
-      "contact",
-      "email",
-      "phone",
-      "call",
-      "address",
-      "location",
-      "reach",
-      "support",
-    ],
-    faq: [
-      "faq",
-      "question",
-      "answer",
-      "frequently",
-      "asked",
-      "help",
-      "support",
-    ],
-    hours: [
-      "hours",
-      "schedule",
-      "open",
-      "close",
-      "availability",
-      "time",
-      "day",
-      "week",
-    ],
-    locations: [
-      "location",
-      "address",
-      "branch",
-      "office",
-      "store",
-      "find us",
-      "visit",
-      "map",
-    ],
-    team: [
-      "team",
-      "staff",
-      "employee",
-      "member",
-      "personnel",
-      "expert",
-      "specialist",
-      "professional",
-    ],
-    testimonials: [
-      "testimonial",
-      "review",
-      "feedback",
-      "client",
-      "customer",
-      "rating",
-      "experience",
-    ],
-  };
+  return resolveCategoryRules(category).keywords;
+}
 
-  const key = category.toLowerCase();
-  return keywords[key] || [key];
+/**
+ * Match a keyword at the start of a word in lowercase text
+ */
+function keywordPattern(keyword: string): RegExp {
+  return new RegExp(
+    `(^|[^a-z0-9])${keyword.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`,
+  );
 }
 
 /**
- * Extract potential items from content based on patterns and keywords
+ * Build the pattern section headings of a category are matched with: its
+ * heading patterns, or else its keywords
  */
-function extractPotentialItems(
-  content: string,
-  category: string,
-  keywords: string[],
-): any[] {
-  const potentialItems: any[] = [];
-
-  // Different extraction strategies based on category
-  switch (category) {
-    case "services":
-      extractServiceItems(content, keywords, potentialItems);
-      break;
-    case "fees":
-      extractFeeItems(content, keywords, potentialItems);
-      break;
-    case "documents":
-      extractDocumentItems(content, keywords, potentialItems);
-      break;
-    case "eligibility":
-      extractEligibilityItems(content, keywords, potentialItems);
-      break;
-    case "products":
-      extractProductItems(content, keywords, potentialItems);
-      break;
-    default:
-      // Generic extraction for other categories
-      extractGenericItems(content, keywords, potentialItems);
-  }
+function headingSource(rules: CategoryDefinition): string {
+  const patterns =
+    rules.headingPatterns && rules.headingPatterns.length > 0
+      ? rules.headingPatterns
+      : rules.keywords.map((keyword) =>
+          keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+        );
+  return patterns.map((pattern) => `(?:${pattern})`).join("|");
+}
 
-  return potentialItems;
+/**
+ * Wrap the pattern extractor of a strategy as a registered extractor
+ */
+function strategyExtractor(
+  strategy: CategoryStrategy,
+  extract: (
+    content: string,
+    rules: CategoryDefinition,
+    items: PotentialItem[],
+  ) => void | Promise<void>,
+): Extractor {
+  return {
+    name: strategy,
+    strategies: [strategy],
+    needs: ["html"],
+    priority: 0,
+    extract: async ({ html, rules }) => {
+      const items: PotentialItem[] = [];
+      await extract(html, rules, items);
+      return items;
+    },
+  };
 }
 
 /**
@@ -200,8 +210,11 @@ function extractPotentialItems(
 function extractServiceItems(
   content: string,
   keywords: string[],
+  rules: CategoryDefinition,
   items: any[],
 ) {
+  const servicePattern = new RegExp(headingSource(rules), "i");
+
   // Look for headings followed by descriptions
   const headingPattern = /<h[1-6][^>]*>([^<]+)<\/h[1-6]>/gi;
   let match;
@@ -215,7 +228,7 @@ function extractServiceItems(
       title.toLowerCase().includes(keyword.toLowerCase()),
     );
 
-    if (matchedKeywords.length > 0 || /service|plan|package/i.test(title)) {
+    if (matchedKeywords.length > 0 || servicePattern.test(title)) {
       // Try to find a description after the heading
       const afterHeading = content.substring(
         position + match[0].length,
@@ -244,7 +257,7 @@ function extractServiceItems(
       itemText.toLowerCase().includes(keyword.toLowerCase()),
     );
 
-    if (matchedKeywords.length > 0 || /service|plan|package/i.test(itemText)) {
+    if (matchedKeywords.length > 0 || servicePattern.test(itemText)) {
       // Split into title and content if possible
       const parts = itemText.split(/:|–|\-/); // Split by colon, en dash, or hyphen
 
@@ -270,15 +283,19 @@ function extractServiceItems(
 /**
  * Extract fee items from content
  */
-function extractFeeItems(content: string, keywords: string[], items: any[]) {
-  // Look for price patterns
-  const pricePattern =
-    /\$\s*\d+(?:\.\d{2})?(?:\s*[-–]\s*\$\s*\d+(?:\.\d{2})?)?|\d+(?:\.\d{2})?\s*(?:dollars|USD)/gi;
+function extractFeeItems(
+  content: string,
+  keywords: string[],
+  rules: CategoryDefinition,
+  items: any[],
+) {
   let match;
 
   // First pass: find explicit fee sections
-  const feeHeadingPattern =
-    /<h[1-6][^>]*>([^<]*(?:fee|price|cost|pricing)[^<]*)<\/h[1-6]>/gi;
+  const feeHeadingPattern = new RegExp(
+    `<h[1-6][^>]*>([^<]*(?:${headingSource(rules)})[^<]*)<\/h[1-6]>`,
+    "gi",
+  );
 
   while ((match = feeHeadingPattern.exec(content)) !== null) {
     const title = match[1].trim();
@@ -291,16 +308,13 @@ function extractFeeItems(content: string, keywords: string[], items: any[]) {
     );
 
     // Look for prices in this section
-    const priceMatches = [...afterHeading.matchAll(pricePattern)];
+    const priceMatches = findPrices(afterHeading);
 
     priceMatches.forEach((priceMatch, index) => {
-      const priceText = priceMatch[0];
+      const priceText = priceMatch.price.raw;
       const surroundingText = afterHeading.substring(
-        Math.max(0, priceMatch.index! - 50),
-        Math.min(
-          afterHeading.length,
-          priceMatch.index! + priceText.length + 50,
-        ),
+        Math.max(0, priceMatch.index - 50),
+        Math.min(afterHeading.length, priceMatch.index + priceText.length + 50),
       );
 
       items.push({
@@ -308,15 +322,15 @@ function extractFeeItems(content: string, keywords: string[], items: any[]) {
         content: surroundingText.trim(),
         price: priceText,
         matchedKeywords: ["fee", "price"],
-        position: position + priceMatch.index!,
+        position: position + priceMatch.index,
       });
     });
   }
 
   // Second pass: find prices throughout the content
-  while ((match = pricePattern.exec(content)) !== null) {
-    const price = match[0];
-    const position = match.index;
+  for (const priceMatch of findPrices(content)) {
+    const price = priceMatch.price.raw;
+    const position = priceMatch.index;
 
     // Get surrounding text for context
     const start = Math.max(0, position - 100);
@@ -599,20 +613,15 @@ async function extractProductItems(
       }
     }
 
-    // Look for price in the description and surrounding content
-    let price = null;
-    const pricePatterns = [
-      /\$\s*\d+(?:\.\d{2})?/i,
-      /(?:price|cost|fee)\s*:\s*\$?\s*\d+(?:\.\d{2})?/i,
-      /\d+(?:\.\d{2})?\s*(?:dollars|USD)/i,
-    ];
-
-    for (const pattern of pricePatterns) {
-      const priceMatch = afterHeading.match(pattern);
-      if (priceMatch) {
-        price = priceMatch[0];
-        break;
-      }
+    // Look for price in the description and surrounding content, falling
+    // back to a labelled amount without a currency
+    const [priceMatch] = findPrices(afterHeading);
+    let price = priceMatch ? priceMatch.price.raw : null;
+    if (!price) {
+      const labelledMatch = afterHeading.match(
+        /(?:price|cost|fee)\s*:\s*\d+(?:[.,]\d{1,2})?/i,
+      );
+      price = labelledMatch ? labelledMatch[0] : null;
     }
 
     // Try to extract additional metadata
@@ -671,20 +680,20 @@ async function extractProductItems(
       }
     }
 
-    // Extract price with expanded patterns
-    let price = null;
+    // Extract price with expanded patterns, preferring one with a currency
+    const [priceMatch] = findPrices(productHtml.replace(/<[^>]+>/g, " "));
+    let price = priceMatch ? priceMatch.price.raw : null;
     const pricePatterns = [
-      /\$\s*\d+(?:\.\d{2})?/i,
-      /(?:price|cost|fee)\s*:\s*\$?\s*\d+(?:\.\d{2})?/i,
+      /(?:price|cost|fee)\s*:\s*\d+(?:[.,]\d{1,2})?/i,
       /<span[^>]*class=["'][^"']*(?:price|cost)[^"']*["'][^>]*>([^<]+)<\/span>/i,
     ];
 
-    for (const pattern of pricePatterns) {
-      const priceMatch = productHtml.match(pattern);
-      if (priceMatch) {
-        price = priceMatch[0].replace(/<[^>]+>/g, "").trim();
+    for (const pattern of price ? [] : pricePatterns) {
+      const patternMatch = productHtml.match(pattern);
+      if (patternMatch) {
+        price = patternMatch[0].replace(/<[^>]+>/g, "").trim();
         if (price.match(/price|cost|fee/i)) {
-          price = price.replace(/.*?([\$\d\.]+).*/, "$1");
+          price = price.replace(/.*?([\d.,]+).*/, "$1");
         }
         break;
       }
@@ -740,11 +749,12 @@ async function extractProductItems(
 function extractGenericItems(
   content: string,
   keywords: string[],
+  rules: CategoryDefinition,
   items: any[],
 ) {
-  // Look for sections with headings containing keywords
+  // Look for sections with headings matching the category
   const headingPattern = new RegExp(
-    `<h[1-6][^>]*>([^<]*(?:${keywords.join("|")})[^<]*)<\/h[1-6]>`,
+    `<h[1-6][^>]*>([^<]*(?:${headingSource(rules)})[^<]*)<\/h[1-6]>`,
     "gi",
   );
   let match;
@@ -814,21 +824,30 @@ function extractGenericItems(
 /**
  * Calculate confidence score for an extracted item
  */
-function calculateConfidence(item: any, keywords: string[]): number {
+function calculateConfidence(
+  item: PotentialItem,
+  rules: CategoryDefinition,
+): number {
   let score = 0.5; // Base score
 
-  // Increase score based on matched keywords
+  // Increase score based on matched keywords, by their weight
   if (item.matchedKeywords && item.matchedKeywords.length > 0) {
-    score += Math.min(0.3, item.matchedKeywords.length * 0.1);
+    const weight = item.matchedKeywords.reduce(
+      (sum: number, keyword: string) => sum + getKeywordWeight(rules, keyword),
+      0,
+    );
+    score += Math.min(0.3, weight * 0.1);
   }
 
   // Increase score if title contains keywords
   if (item.title) {
-    const titleKeywordMatches = keywords.filter((keyword) =>
-      item.title.toLowerCase().includes(keyword.toLowerCase()),
-    ).length;
+    const titleKeywordWeight = rules.keywords
+      .filter((keyword) =>
+        item.title.toLowerCase().includes(keyword.toLowerCase()),
+      )
+      .reduce((sum, keyword) => sum + getKeywordWeight(rules, keyword), 0);
 
-    score += Math.min(0.2, titleKeywordMatches * 0.05);
+    score += Math.min(0.2, titleKeywordWeight * 0.05);
   }
 
   // Increase score if content is substantial
@@ -0,0 +1,321 @@
+/**
+ * Raw data extraction module
+ * Parses fetched HTML and applies the configured CSS or XPath selector
+ */
+
+import { JSDOM } from "jsdom";
+import { ExtractedElement, RawData, ScrapingConfig } from "@/types/scraping";
+import { htmlToText } from "./fetcher";
+import {
+  harvestStructuredData,
+  hasStructuredData,
+  mapStructuredData,
+} from "./structuredData";
+import { parseTables } from "./tables";
+
+// Elements that never contain useful content
+const NON_CONTENT_SELECTOR = "script, style, noscript, template";
+
+// Page chrome removed when skipHeadersFooters is enabled
+const HEADER_FOOTER_SELECTOR = [
+  "header",
+  "footer",
+  "nav",
+  "[role='banner']",
+  "[role='contentinfo']",
+  "[role='navigation']",
+  "#header",
+  "#footer",
+  ".site-header",
+  ".site-footer",
+].join(", ");
+
+// Media removed when skipImagesMedia is enabled
+const MEDIA_SELECTOR =
+  "img, picture, video, audio, source, track, svg, canvas, iframe, object, embed";
+
+// Node type constants from the DOM spec
+const ELEMENT_NODE = 1;
+const ATTRIBUTE_NODE = 2;
+
+/**
+ * Basic extraction - applies the selector and returns the selected content
+ */
+export async function extractRawData(
+  html: string,
+  text: string,
+  config: ScrapingConfig,
+): Promise<RawData> {
+  return withDocument(html, config, (document, rawData) => {
+    rawData.title = document.title || undefined;
+    return rawData;
+  });
+}
+
+/**
+ * Thorough extraction - also collects headings, links and images
+ */
+export async function extractRawDataThorough(
+  html: string,
+  text: string,
+  config: ScrapingConfig,
+): Promise<RawData> {
+  return withDocument(html, config, (document, rawData, roots) => {
+    rawData.title = document.title || undefined;
+    collectOutline(roots, rawData, config);
+    return rawData;
+  });
+}
+
+/**
+ * Semantic extraction - focuses on the main content region of the page
+ * when no selector is configured, then collects the page outline
+ */
+export async function extractRawDataSemantic(
+  html: string,
+  text: string,
+  config: ScrapingConfig,
+): Promise<RawData> {
+  return withDocument(
+    html,
+    config,
+    (document, rawData, roots) => {
+      rawData.title = document.title || undefined;
+      collectOutline(roots, rawData, config);
+      return rawData;
+    },
+    true,
+  );
+}
+
+/**
+ * Detect whether a selector is XPath or CSS from its syntax
+ */
+export function detectSelectorType(selector: string): "css" | "xpath" {
+  const trimmed = selector.trim();
+
+  if (
+    trimmed.startsWith("/") ||
+    trimmed.startsWith("./") ||
+    trimmed.startsWith("(") ||
+    /^[a-z-]+::/i.test(trimmed) || // Axis such as descendant::div
+    /\b(text|contains|starts-with|normalize-space)\(/.test(trimmed) ||
+    /\[@[\w-]+/.test(trimmed) // Attribute predicate such as div[@class]
+  ) {
+    return "xpath";
+  }
+
+  return "css";
+}
+
+/**
+ * Select nodes from a document with a CSS or XPath selector
+ * Throws if the selector is invalid
+ */
+export function selectNodes(
+  document: Document,
+  selector: string,
+  selectorType: "css" | "xpath",
+): Node[] {
+  if (selectorType === "css") {
+    return Array.from(document.querySelectorAll(selector));
+  }
+
+  const window = document.defaultView as unknown as typeof globalThis;
+  const snapshot = document.evaluate(
+    selector,
+    document,
+    null,
+    window.XPathResult.ORDERED_NODE_SNAPSHOT_TYPE,
+    null,
+  );
+
+  const nodes: Node[] = [];
+  for (let i = 0; i < snapshot.snapshotLength; i++) {
+    const node = snapshot.snapshotItem(i);
+    if (node) nodes.push(node);
+  }
+  return nodes;
+}
+
+/**
+ * Parse the HTML, clean it up, apply the selector and hand the selected
+ * roots to the mode-specific callback
+ */
+function withDocument(
+  html: string,
+  config: ScrapingConfig,
+  collect: (document: Document, rawData: RawData, roots: Node[]) => RawData,
+  preferMainContent = false,
+): RawData {
+  const selector = (config.selector || "").trim();
+  const selectorType =
+    config.selectorType === "auto" || !config.selectorType
+      ? detectSelectorType(selector)
+      : config.selectorType;
+
+  const rawData: RawData = {
+    url: config.url,
+    html: "",
+    text: "",
+    selectorType,
+    elements: [],
+    elementCount: 0,
+    pageCount: 1,
+    errors: [],
+    warnings: [],
+  };
+
+  if (!html) {
+    rawData.warnings.push("The page returned no HTML content");
+    return rawData;
+  }
+
+  const dom = new JSDOM(html, { url: config.url });
+
+  try {
+    const document = dom.window.document;
+
+    // JSON-LD lives in script tags, so harvest before they are removed
+    if (config.options.extractMetadata !== false) {
+      const structuredData = harvestStructuredData(document);
+      if (hasStructuredData(structuredData)) {
+        rawData.structuredData = structuredData;
+        rawData.structured = mapStructuredData(structuredData);
+      }
+    }
+
+    removeElements(document, NON_CONTENT_SELECTOR);
+
+    if (config.options.skipHeadersFooters) {
+      removeElements(document, HEADER_FOOTER_SELECTOR);
+    }
+
+    if (config.options.skipImagesMedia) {
+      removeElements(document, MEDIA_SELECTOR);
+    }
+
+    let roots: Node[] = [];
+
+    if (selector) {
+      try {
+        roots = selectNodes(document, selector, selectorType);
+        if (roots.length === 0) {
+          rawData.warnings.push(
+            `Selector "${selector}" (${selectorType}) matched no elements, using the full page instead`,
+          );
+        }
+      } catch (error) {
+        rawData.errors.push({
+          code: "INVALID_SELECTOR",
+          message: `Invalid ${selectorType} selector "${selector}": ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+          details: { selector, selectorType },
+        });
+      }
+    }
+
+    if (roots.length === 0) {
+      const main = preferMainContent
+        ? document.querySelector("main, [role='main'], article")
+        : null;
+      roots = [main || document.body || document.documentElement];
+    }
+
+    rawData.elements = roots.map(toExtractedElement);
+    rawData.html = rawData.elements.map((element) => element.html).join("\n");
+    rawData.text = rawData.elements
+      .map((element) => element.text)
+      .filter(Boolean)
+      .join("\n\n");
+
+    const tables = parseTables(roots);
+    if (tables.length > 0) rawData.tables = tables;
+
+    rawData.elementCount = roots.reduce(
+      (count, root) =>
+        root.nodeType === ELEMENT_NODE
+          ? count + 1 + (root as Element).getElementsByTagName("*").length
+          : count + 1,
+      0,
+    );
+
+    return collect(document, rawData, roots);
+  } finally {
+    dom.window.close();
+  }
+}
+
+/**
+ * Remove every element matching a selector
+ */
+function removeElements(document: Document, selector: string) {
+  document.querySelectorAll(selector).forEach((element) => element.remove());
+}
+
+/**
+ * Convert a selected node into a serialisable element description
+ */
+function toExtractedElement(node: Node): ExtractedElement {
+  if (node.nodeType === ELEMENT_NODE) {
+    const element = node as Element;
+    const attributes: Record<string, string> = {};
+    for (const attribute of Array.from(element.attributes)) {
+      attributes[attribute.name] = attribute.value;
+    }
+
+    return {
+      tag: element.tagName.toLowerCase(),
+      text: htmlToText(element.outerHTML),
+      html: element.outerHTML,
+      attributes,
+    };
+  }
+
+  // XPath can select text and attribute nodes directly
+  const value = (node.nodeValue || "").trim();
+  return {
+    tag: node.nodeType === ATTRIBUTE_NODE ? `@${(node as Attr).name}` : "#text",
+    text: value,
+    html: value
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;"),
+  };
+}
+
+/**
+ * Collect headings, links and images from the selected content
+ */
+function collectOutline(
+  roots: Node[],
+  rawData: RawData,
+  config: ScrapingConfig,
+) {
+  const elements = roots.filter(
+    (root): root is Element => root.nodeType === ELEMENT_NODE,
+  );
+  const queryAll = (selector: string) =>
+    elements.flatMap((root) => [
+      ...(root.matches(selector) ? [root] : []),
+      ...Array.from(root.querySelectorAll(selector)),
+    ]);
+
+  rawData.headings = queryAll("h1, h2, h3, h4, h5, h6").map((heading) => ({
+    level: parseInt(heading.tagName.substring(1), 10),
+    text: (heading.textContent || "").replace(/\s+/g, " ").trim(),
+  }));
+
+  rawData.links = queryAll("a[href]").map((link) => ({
+    href: (link as HTMLAnchorElement).href,
+    text: (link.textContent || "").replace(/\s+/g, " ").trim(),
+  }));
+
+  if (config.options.extractImages && !config.options.skipImagesMedia) {
+    rawData.images = queryAll("img[src]").map((image) => ({
+      src: (image as HTMLImageElement).src,
+      alt: image.getAttribute("alt") || "",
+    }));
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Extractors module
+ * Registry of the extractors that turn page content into category items.
+ * Each extractor declares the categories or strategies it handles, the
+ * inputs it needs and a priority; every extractor that applies to a
+ * category runs and their items are merged and scored together
+ */
+
+import { JSDOM } from "jsdom";
+import {
+  CategoryDefinition,
+  CategoryStrategy,
+  StructuredData,
+} from "@/types/scraping";
+
+export type ExtractorInput = "html" | "text" | "dom" | "structured";
+
+export interface ExtractorContext {
+  category: string; // Category name as requested
+  rules: CategoryDefinition;
+  url?: string;
+  html: string; // Selected HTML, without the tables already turned into items
+  text: string; // Plain text of the selected content
+  document?: Document; // Parsed HTML, for extractors that need the DOM
+  structuredData?: StructuredData; // Structured data embedded in the page
+}
+
+export interface PotentialItem {
+  title: string;
+  content: string;
+  matchedKeywords?: string[];
+  position?: number; // Offset of the item in the content
+  price?: string;
+  url?: string; // Link of the item, such as a document download
+  confidence?: number; // Scored from the category rules when omitted
+  metadata?: Record<string, any>;
+}
+
+export interface Extractor {
+  name: string;
+  categories?: string[]; // Category names handled, in lowercase
+  strategies?: CategoryStrategy[]; // Strategies of the categories handled
+  needs: ExtractorInput[];
+  priority: number; // Higher runs first and wins when items are merged
+  extract: (
+    context: ExtractorContext,
+  ) => PotentialItem[] | Promise<PotentialItem[]>;
+}
+
+export interface ExtractorResult {
+  extractor: Extractor;
+  items: PotentialItem[];
+}
+
+// Confidence added for every other extractor that found the same item
+const AGREEMENT_BONUS = 0.05;
+const MAX_CONFIDENCE = 0.95;
+
+const extractors = new Map<string, Extractor>();
+
+/**
+ * Register an extractor, replacing any extractor with the same name
+ */
+export function registerExtractor(extractor: Extractor): void {
+  extractors.set(extractor.name, extractor);
+}
+
+/**
+ * Remove a registered extractor
+ * @returns Whether an extractor was removed
+ */
+export function unregisterExtractor(name: string): boolean {
+  return extractors.delete(name);
+}
+
+/**
+ * Get the registered extractors that handle a category, highest priority
+ * first
+ */
+export function getExtractors(rules: CategoryDefinition): Extractor[] {
+  const name = rules.name.toLowerCase();
+  const strategy = rules.strategy || "generic";
+
+  return Array.from(extractors.values())
+    .filter(
+      (extractor) =>
+        extractor.categories?.includes(name) ||
+        extractor.strategies?.includes(strategy),
+    )
+    .sort((a, b) => b.priority - a.priority);
+}
+
+/**
+ * Run every extractor that handles the category of the context
+ * Extractors whose inputs are missing are skipped, and an extractor that
+ * fails is logged without stopping the others
+ */
+export async function runExtractors(
+  context: ExtractorContext,
+): Promise<ExtractorResult[]> {
+  const applicable = getExtractors(context.rules).filter((extractor) =>
+    extractor.needs.every((need) => hasInput(context, need)),
+  );
+  if (applicable.length === 0) return [];
+
+  const needsDom = applicable.some((extractor) =>
+    extractor.needs.includes("dom"),
+  );
+  const dom = needsDom ? new JSDOM(context.html, { url: context.url }) : null;
+  const input = dom ? { ...context, document: dom.window.document } : context;
+
+  try {
+    const results: ExtractorResult[] = [];
+    for (const extractor of applicable) {
+      try {
+        results.push({ extractor, items: await extractor.extract(input) });
+      } catch (error) {
+        console.warn(`Extractor ${extractor.name} failed:`, error);
+      }
+    }
+    return results;
+  } finally {
+    dom?.window.close();
+  }
+}
+
+/**
+ * Merge the items of several extractors into one list
+ * An item another extractor already found under the same title is merged
+ * into it: the item of the extractor with the highest priority is kept, the
+ * matched keywords are combined and every other extractor that found it
+ * raises the confidence
+ * @param score Scores items that do not set their own confidence
+ */
+export function mergeExtractorResults(
+  results: ExtractorResult[],
+  score: (item: PotentialItem) => number,
+): PotentialItem[] {
+  const merged: PotentialItem[] = [];
+  const byTitle = new Map<string, PotentialItem>();
+
+  for (const { extractor, items } of results) {
+    for (const item of items) {
+      const key = (item.title || "").toLowerCase().replace(/\s+/g, " ").trim();
+      const existing = key ? byTitle.get(key) : undefined;
+      const names: string[] = existing?.metadata?.extractors || [];
+
+      if (!existing || names.includes(extractor.name)) {
+        const scored: PotentialItem = {
+          ...item,
+          confidence: item.confidence ?? score(item),
+          metadata: { ...item.metadata, extractors: [extractor.name] },
+        };
+        merged.push(scored);
+        if (key && !existing) byTitle.set(key, scored);
+        continue;
+      }
+
+      existing.matchedKeywords = Array.from(
+        new Set([
+          ...(existing.matchedKeywords || []),
+          ...(item.matchedKeywords || []),
+        ]),
+      );
+      existing.content = existing.content || item.content;
+      existing.price = existing.price || item.price;
+      existing.confidence = Math.min(
+        MAX_CONFIDENCE,
+        Math.max(existing.confidence!, item.confidence ?? score(item)) +
+          AGREEMENT_BONUS,
+      );
+      existing.metadata = {
+        ...item.metadata,
+        ...existing.metadata,
+        extractors: [...names, extractor.name],
+      };
+    }
+  }
+
+  return merged;
+}
+
+function hasInput(context: ExtractorContext, need: ExtractorInput): boolean {
+  switch (need) {
+    case "html":
+    case "dom":
+      return !!context.html;
+    case "text":
+      return !!context.text;
+    case "structured":
+      return !!context.structuredData;
+  }
+}
+
+export default {
+  registerExtractor,
+  unregisterExtractor,
+  getExtractors,
+  runExtractors,
+  mergeExtractorResults,
+};
@@ -0,0 +1,551 @@
+/**
+ * HTTP fetch module
+ * Fetches page content server-side with retries, timeouts, redirects and charset detection
+ */
+
+import http from "http";
+import https from "https";
+import { pipeline } from "stream";
+import zlib from "zlib";
+import { HttpProxyAgent } from "http-proxy-agent";
+import { HttpsProxyAgent } from "https-proxy-agent";
+import { SocksProxyAgent } from "socks-proxy-agent";
+import { FetchResult, ScrapingConfig } from "@/types/scraping";
+
+type FetchOptions = ScrapingConfig["options"];
+
+// Defaults used when the configuration does not provide a value
+const DEFAULT_TIMEOUT = 30000; // 30 seconds per attempt
+const DEFAULT_RETRY_DELAY = 1000;
+const MAX_ATTEMPTS = 3;
+const MAX_REDIRECTS = 5;
+const MAX_BODY_SIZE = 10 * 1024 * 1024; // 10 MB
+const MAX_RETRY_AFTER = 60000; // Never wait longer than a minute between attempts
+const ABORTED_MESSAGE = "Request aborted";
+
+const DEFAULT_USER_AGENT = "Mozilla/5.0 (compatible; ScrapingBot/1.0)";
+const STEALTH_USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36";
+
+// Request headers that carry credentials
+const CREDENTIAL_HEADERS = ["authorization", "cookie"];
+
+// HTTP statuses that are worth retrying
+export const RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+
+interface RawResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: Buffer;
+  finalUrl: string;
+}
+
+/**
+ * Fetch the content of a web page as served, without running JavaScript
+ * Never throws: failures are reported through the `error` field of the result
+ * @param url URL to fetch
+ * @param handleDynamicContent Ignored here: pages that need JavaScript are
+ * rendered through renderPage in the renderer module
+ * @param options Scraping options from the configuration
+ * @param signal Optional signal that aborts the request and any retries
+ * @param retryStatuses HTTP statuses to retry here; pages fetched through
+ * renderPage leave 429 and 503 to the rate limiter
+ * @returns The fetched HTML, its text content and response details
+ */
+export async function fetchWebsiteContent(
+  url: string,
+  handleDynamicContent: boolean,
+  options: Partial<FetchOptions> = {},
+  signal?: AbortSignal,
+  retryStatuses: number[] = RETRYABLE_STATUSES,
+): Promise<FetchResult> {
+  const retryDelay = options.retryDelay ?? DEFAULT_RETRY_DELAY;
+  let lastError = "Unknown error occurred";
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    if (signal?.aborted) {
+      lastError = ABORTED_MESSAGE;
+      break;
+    }
+
+    try {
+      const response = await requestWithRedirects(url, options, signal);
+      const html = decodeBody(response.body, response.headers["content-type"]);
+
+      // Retry transient server errors before giving up
+      if (retryStatuses.includes(response.status) && attempt < MAX_ATTEMPTS) {
+        lastError = `HTTP ${response.status} ${response.statusText}`;
+        console.warn(
+          `Fetcher: ${url} returned ${response.status}, retrying (attempt ${attempt}/${MAX_ATTEMPTS})`,
+        );
+        await delay(
+          getRetryDelay(response.headers, retryDelay, attempt),
+          signal,
+        );
+        continue;
+      }
+
+      return {
+        html,
+        text: htmlToText(html),
+        status: response.status,
+        finalUrl: response.finalUrl,
+        headers: response.headers,
+        error:
+          response.status >= 400
+            ? `HTTP ${response.status} ${response.statusText}`
+            : undefined,
+      };
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+
+      if (!isRetryableError(error) || attempt === MAX_ATTEMPTS) {
+        break;
+      }
+
+      console.warn(
+        `Fetcher: error fetching ${url} (${lastError}), retrying (attempt ${attempt}/${MAX_ATTEMPTS})`,
+      );
+      await delay(retryDelay * Math.pow(2, attempt - 1), signal);
+    }
+  }
+
+  return {
+    html: "",
+    text: "",
+    status: 0,
+    finalUrl: url,
+    headers: {},
+    error: `Error fetching content: ${lastError}`,
+  };
+}
+
+/**
+ * Perform a request and follow redirects up to MAX_REDIRECTS
+ */
+async function requestWithRedirects(
+  url: string,
+  options: Partial<FetchOptions>,
+  signal?: AbortSignal,
+): Promise<RawResponse> {
+  let currentUrl = url;
+  let method = "GET";
+  const { headers, credentials } = buildRequestHeaders(options);
+
+  // Credentials only go to the origin of the requested page, as in the
+  // Chromium renderer, so a redirect elsewhere never receives them
+  const origin = new URL(url).origin;
+
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    const response = await requestOnce(
+      currentUrl,
+      method,
+      new URL(currentUrl).origin === origin
+        ? { ...headers, ...credentials }
+        : headers,
+      options,
+      signal,
+    );
+
+    const location = response.headers["location"];
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+
+    const nextUrl = new URL(location, currentUrl).toString();
+
+    // 303 always switches to GET; 307/308 keep the method
+    if (response.status === 303) {
+      method = "GET";
+    }
+
+    currentUrl = nextUrl;
+  }
+
+  throw new Error(`Too many redirects (maximum is ${MAX_REDIRECTS})`);
+}
+
+/**
+ * Perform a single HTTP request without following redirects
+ */
+function requestOnce(
+  url: string,
+  method: string,
+  headers: Record<string, string>,
+  options: Partial<FetchOptions>,
+  signal?: AbortSignal,
+): Promise<RawResponse> {
+  return new Promise((resolve, reject) => {
+    const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+
+    if (signal?.aborted) {
+      reject(new Error(ABORTED_MESSAGE));
+      return;
+    }
+
+    const { requestUrl, agent } = resolveProxy(url, options.proxyUrl);
+    const target = new URL(requestUrl);
+
+    if (target.protocol !== "http:" && target.protocol !== "https:") {
+      reject(new Error(`Unsupported protocol: ${target.protocol}`));
+      return;
+    }
+
+    const transport = target.protocol === "https:" ? https : http;
+    const request = transport.request(target, {
+      method,
+      headers,
+      agent,
+    });
+
+    // Reject directly: once the response has started, destroying the
+    // request alone does not always surface an error on the body stream
+    const fail = (error: Error) => {
+      cleanup();
+      request.destroy();
+      reject(error);
+    };
+
+    const timer = setTimeout(() => {
+      fail(
+        Object.assign(new Error(`Request timed out after ${timeout}ms`), {
+          code: "ETIMEDOUT",
+        }),
+      );
+    }, timeout);
+
+    const onAbort = () => fail(new Error(ABORTED_MESSAGE));
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    };
+
+    request.on("response", (response) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      const stream = decompress(response, fail);
+
+      stream.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_SIZE) {
+          fail(
+            new Error(
+              `Response exceeds maximum size of ${MAX_BODY_SIZE} bytes`,
+            ),
+          );
+          return;
+        }
+        chunks.push(chunk);
+      });
+
+      stream.on("end", () => {
+        cleanup();
+        resolve({
+          status: response.statusCode || 0,
+          statusText: response.statusMessage || "",
+          headers: normalizeHeaders(response.headers),
+          body: Buffer.concat(chunks),
+          finalUrl: url,
+        });
+      });
+
+      stream.on("error", fail);
+    });
+
+    request.on("error", fail);
+
+    request.end();
+  });
+}
+
+/**
+ * Get the User-Agent sent with requests for the given options
+ */
+export function getUserAgent(options: Partial<FetchOptions>): string {
+  return (
+    options.userAgent ||
+    (options.stealthMode ? STEALTH_USER_AGENT : DEFAULT_USER_AGENT)
+  );
+}
+
+/**
+ * Build the request headers from the scraping options
+ * The Authorization header and cookies are returned apart from the other
+ * headers so they can be limited to the page's own origin
+ */
+function buildRequestHeaders(options: Partial<FetchOptions>): {
+  headers: Record<string, string>;
+  credentials: Record<string, string>;
+} {
+  const headers: Record<string, string> = {
+    "User-Agent": getUserAgent(options),
+    Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
+    "Accept-Language": "en-US,en;q=0.9",
+    "Accept-Encoding": "gzip, deflate, br",
+  };
+  const credentials: Record<string, string> = {};
+
+  // Custom headers override the defaults
+  if (options.headers) {
+    for (const [name, value] of Object.entries(options.headers)) {
+      if (CREDENTIAL_HEADERS.includes(name.toLowerCase())) {
+        credentials[name] = value;
+      } else {
+        headers[name] = value;
+      }
+    }
+  }
+
+  if (options.cookies && Object.keys(options.cookies).length > 0) {
+    credentials["Cookie"] = Object.entries(options.cookies)
+      .map(([name, value]) => `${name}=${value}`)
+      .join("; ");
+  }
+
+  return { headers, credentials };
+}
+
+/**
+ * Work out how to route a request through the configured proxy
+ * Forward proxies (http://host:port, socks5://host:port) are used as an
+ * agent, while URL-prefix proxies such as "https://corsproxy.io/?url=" get
+ * the target URL appended
+ */
+function resolveProxy(
+  url: string,
+  proxyUrl?: string,
+): { requestUrl: string; agent?: http.Agent } {
+  if (!proxyUrl) {
+    return { requestUrl: url };
+  }
+
+  const proxy = new URL(proxyUrl);
+  if (proxy.protocol.startsWith("socks")) {
+    return { requestUrl: url, agent: new SocksProxyAgent(proxyUrl) };
+  }
+
+  const isForwardProxy =
+    (proxy.pathname === "/" || proxy.pathname === "") && !proxy.search;
+
+  if (!isForwardProxy) {
+    return { requestUrl: `${proxyUrl}${encodeURIComponent(url)}` };
+  }
+
+  const agent = url.startsWith("https:")
+    ? new HttpsProxyAgent(proxyUrl)
+    : new HttpProxyAgent(proxyUrl);
+
+  return { requestUrl: url, agent };
+}
+
+/**
+ * Decompress a response stream according to its content encoding
+ * @param onError Called when the response or the decoder fails, such as a
+ * connection reset partway through a compressed body
+ */
+function decompress(
+  response: http.IncomingMessage,
+  onError: (error: Error) => void,
+): NodeJS.ReadableStream {
+  let decoder: zlib.Gunzip | zlib.Inflate | zlib.BrotliDecompress;
+  switch ((response.headers["content-encoding"] || "").toLowerCase()) {
+    case "gzip":
+    case "x-gzip":
+      decoder = zlib.createGunzip();
+      break;
+    case "deflate":
+      decoder = zlib.createInflate();
+      break;
+    case "br":
+      decoder = zlib.createBrotliDecompress();
+      break;
+    default:
+      return response;
+  }
+
+  return pipeline(response, decoder, (error) => {
+    if (error) onError(error);
+  });
+}
+
+/**
+ * Flatten Node's header object into single string values
+ */
+function normalizeHeaders(
+  headers: http.IncomingHttpHeaders,
+): Record<string, string> {
+  const normalized: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value === undefined) continue;
+    normalized[name.toLowerCase()] = Array.isArray(value)
+      ? value.join(", ")
+      : value;
+  }
+  return normalized;
+}
+
+/**
+ * Decode a response body using the detected charset
+ */
+export function decodeBody(body: Buffer, contentType?: string): string {
+  const charset = detectCharset(body, contentType);
+  try {
+    return new TextDecoder(charset).decode(body);
+  } catch (error) {
+    console.warn(`Fetcher: unsupported charset "${charset}", using utf-8`);
+    return new TextDecoder("utf-8").decode(body);
+  }
+}
+
+/**
+ * Detect the charset of a response body
+ * Checks the byte order mark, then the Content-Type header, then <meta> tags
+ */
+export function detectCharset(body: Buffer, contentType?: string): string {
+  // Byte order marks take precedence over everything else
+  if (body[0] === 0xef && body[1] === 0xbb && body[2] === 0xbf) return "utf-8";
+  if (body[0] === 0xff && body[1] === 0xfe) return "utf-16le";
+  if (body[0] === 0xfe && body[1] === 0xff) return "utf-16be";
+
+  const headerMatch = contentType?.match(/charset=["']?([\w.:-]+)/i);
+  if (headerMatch) {
+    return headerMatch[1].toLowerCase();
+  }
+
+  // Look for <meta charset> or <meta http-equiv="Content-Type"> in the head
+  const head = body.subarray(0, 2048).toString("latin1");
+  const metaMatch =
+    head.match(/<meta[^>]+charset=["']?([\w.:-]+)/i) ||
+    head.match(/<\?xml[^>]+encoding=["']([\w.:-]+)["']/i);
+  if (metaMatch) {
+    return metaMatch[1].toLowerCase();
+  }
+
+  return "utf-8";
+}
+
+/**
+ * Convert HTML to readable plain text
+ */
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style|noscript|template)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+      .replace(/<!--[\s\S]*?-->/g, " ")
+      .replace(
+        /<\/?(p|div|section|article|li|ul|ol|tr|table|h[1-6]|br|header|footer|nav|main)[^>]*>/gi,
+        "\n",
+      )
+      .replace(/<[^>]+>/g, " "),
+  )
+    .replace(/[^\S\n]+/g, " ")
+    .replace(/\s*\n\s*/g, "\n")
+    .trim();
+}
+
+/**
+ * Decode common HTML entities
+ */
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = {
+    amp: "&",
+    lt: "<",
+    gt: ">",
+    quot: '"',
+    apos: "'",
+    nbsp: " ",
+    copy: "©",
+    reg: "®",
+    euro: "€",
+    pound: "£",
+    yen: "¥",
+    ndash: "–",
+    mdash: "—",
+  };
+
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const value =
+        code[1].toLowerCase() === "x"
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return isNaN(value) ? entity : String.fromCodePoint(value);
+    }
+    return named[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Check if a request error is transient and worth retrying
+ */
+function isRetryableError(error: unknown): boolean {
+  const code = (error as NodeJS.ErrnoException)?.code;
+  return [
+    "ECONNRESET",
+    "ECONNREFUSED",
+    "ETIMEDOUT",
+    "EAI_AGAIN",
+    "EPIPE",
+    "ENETUNREACH",
+  ].includes(code || "");
+}
+
+/**
+ * Work out how long to wait before retrying, honouring Retry-After
+ */
+function getRetryDelay(
+  headers: Record<string, string>,
+  retryDelay: number,
+  attempt: number,
+): number {
+  return (
+    parseRetryAfter(headers["retry-after"], MAX_RETRY_AFTER) ??
+    retryDelay * Math.pow(2, attempt - 1)
+  );
+}
+
+/**
+ * Parse a Retry-After header, given in seconds or as an HTTP date
+ * @param value Header value
+ * @param maxDelay Longest delay to return, in milliseconds
+ * @returns The delay in milliseconds, or null without a valid header
+ */
+export function parseRetryAfter(
+  value: string | undefined,
+  maxDelay: number,
+): number | null {
+  if (!value) return null;
+
+  const seconds = parseInt(value, 10);
+  if (!isNaN(seconds)) return Math.min(seconds * 1000, maxDelay);
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.min(Math.max(0, date - Date.now()), maxDelay);
+  }
+  return null;
+}
+
+/**
+ * Wait for the given time, returning early when the signal aborts
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
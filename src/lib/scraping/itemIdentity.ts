@@ -0,0 +1,141 @@
+/**
+ * Item identity module
+ * Derives stable IDs for categorized items so the same item keeps its ID,
+ * creation date and verified flag across re-scrapes of a page
+ */
+
+import crypto from "crypto";
+import { CategoryItem, ScrapingResult } from "@/types/scraping";
+import { findPreviousResult } from "./diff";
+
+/**
+ * Create a deterministic ID for an item
+ * The ID is derived from the category, source URL and title. Items without a
+ * title are identified by their content instead, so a changed price keeps the
+ * ID of the titled item it belongs to
+ * @param category Category the item belongs to
+ * @param source URL the item was extracted from
+ * @param title Title found on the page, without generated fallbacks
+ * @param content Content of the item
+ */
+export function createItemId(
+  category: string,
+  source: string | undefined,
+  title: string | undefined,
+  content: string | undefined,
+): string {
+  const key = normalizeText(title)
+    ? `title:${normalizeText(title)}`
+    : `content:${normalizeText(content)}`;
+
+  return `item_${hash(
+    [normalizeText(category), normalizeUrl(source), key].join("|"),
+  ).substring(0, 24)}`;
+}
+
+/**
+ * Hash the content of an item, used to tell whether it changed between runs
+ */
+export function hashItemContent(item: CategoryItem): string {
+  return hash(normalizeText(item.content));
+}
+
+/**
+ * Make item IDs unique within a category
+ * Items with the same title and content on one page would otherwise share an
+ * ID, so repeats get a numbered suffix in page order
+ */
+export function ensureUniqueItemIds(items: CategoryItem[]): CategoryItem[] {
+  const counts = new Map<string, number>();
+
+  return items.map((item) => {
+    const count = (counts.get(item.id) || 0) + 1;
+    counts.set(item.id, count);
+    return count === 1 ? item : { ...item, id: `${item.id}_${count}` };
+  });
+}
+
+/**
+ * Carry item history over from an earlier result
+ * Items seen before keep their createdAt and verified flag, and their
+ * updatedAt unless the content changed. New items are dated to the result
+ * @param result The new result, updated in place
+ * @param previous The earlier result of the same configuration and URL
+ */
+export function applyItemHistory(
+  result: ScrapingResult,
+  previous: ScrapingResult | null,
+): ScrapingResult {
+  for (const [category, data] of Object.entries(result.categories || {})) {
+    const previousItems = new Map(
+      (previous?.categories?.[category]?.items || []).map((item) => [
+        item.id,
+        item,
+      ]),
+    );
+
+    data.items = data.items.map((item) => {
+      const contentHash = hashItemContent(item);
+      const before = previousItems.get(item.id);
+      const seenAt = before?.createdAt || previous?.timestamp;
+      const unchanged =
+        !!before &&
+        (before.metadata?.contentHash || hashItemContent(before)) ===
+          contentHash;
+
+      return {
+        ...item,
+        verified: !!before?.verified || !!item.verified,
+        metadata: { ...item.metadata, contentHash },
+        createdAt: before ? seenAt : result.timestamp,
+        updatedAt:
+          unchanged && before?.updatedAt ? before.updatedAt : result.timestamp,
+      };
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Carry item history over from the previous result of the same configuration
+ * and URL, see applyItemHistory
+ */
+export async function carryOverItemHistory(
+  result: ScrapingResult,
+): Promise<ScrapingResult> {
+  try {
+    return applyItemHistory(result, await findPreviousResult(result));
+  } catch (error) {
+    console.warn("Error loading previous result for item history:", error);
+    return applyItemHistory(result, null);
+  }
+}
+
+/**
+ * Normalize text for identity: case and whitespace do not make two items
+ * different
+ */
+function normalizeText(text?: string): string {
+  return (text || "").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Normalize a URL for identity, ignoring the fragment, a trailing slash and
+ * the case of the host
+ */
+function normalizeUrl(url?: string): string {
+  if (!url) return "";
+
+  try {
+    const parsed = new URL(url);
+    parsed.hash = "";
+    return parsed.toString().replace(/\/$/, "");
+  } catch (error) {
+    return url.trim().replace(/#.*$/, "").replace(/\/$/, "");
+  }
+}
+
+function hash(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex");
+}
@@ -0,0 +1,436 @@
+/**
+ * LLM module
+ * Extracts categorized items from page text through a pluggable language
+ * model provider. Ships an adapter for OpenAI-compatible chat completion APIs
+ * (OpenAI, llama.cpp, Ollama, vLLM) and a deterministic mock for tests
+ */
+
+import { CategoryItem } from "@/types/scraping";
+import { getCategoryKeywords } from "./extractItemsFromContent";
+import { createItemId } from "./itemIdentity";
+
+export interface LLMMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LLMExtractionInput {
+  text: string;
+  categories: string[];
+  url?: string;
+  title?: string;
+  maxItemsPerCategory: number;
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[];
+  input: LLMExtractionInput; // The values the prompt was rendered from
+  signal?: AbortSignal;
+}
+
+/**
+ * A language model that completes a prompt
+ * Providers only return the raw completion; prompting and parsing the
+ * response into items is shared by all providers
+ */
+export interface LLMProvider {
+  name: string;
+  model: string;
+  complete(request: LLMCompletionRequest): Promise<string>;
+}
+
+export interface LLMProviderOptions {
+  provider?: "openai" | "mock" | "none";
+  baseUrl?: string; // Base URL of the API, including the version path
+  apiKey?: string;
+  model?: string;
+  timeout?: number; // Request timeout in milliseconds
+}
+
+export interface LLMExtractionOptions {
+  provider?: LLMProvider; // Defaults to the configured provider
+  confidenceThreshold?: number; // Items below this confidence are dropped
+  maxItemsPerCategory?: number;
+  maxInputLength?: number; // Page text beyond this many characters is cut off
+  promptTemplate?: string;
+  signal?: AbortSignal;
+}
+
+export interface LLMExtractionResult {
+  items: Record<string, CategoryItem[]>;
+  provider: string;
+  model: string;
+  processingTime: number;
+}
+
+// Instructions sent as the system message
+const SYSTEM_PROMPT =
+  "You extract structured information from web pages. Answer with a single " +
+  "JSON object and nothing else.";
+
+/**
+ * Default extraction prompt
+ * Placeholders: {{categories}}, {{maxItems}}, {{url}}, {{title}}, {{content}}
+ */
+export const DEFAULT_EXTRACTION_PROMPT = `Extract the items of the following categories from the web page below: {{categories}}.
+
+Return a JSON object of the form:
+{"items": [{"category": "<one of the categories>", "title": "<short name of the item>", "content": "<the relevant text from the page>", "confidence": <number between 0 and 1>, "metadata": {<optional details such as price, amount or date>}}]}
+
+Rules:
+- Only use information found on the page.
+- Return at most {{maxItems}} items per category.
+- confidence is how sure you are that the item belongs to its category.
+- Return {"items": []} if nothing matches.
+
+URL: {{url}}
+Title: {{title}}
+
+Page content:
+"""
+{{content}}
+"""`;
+
+const DEFAULT_MAX_ITEMS = 10;
+const DEFAULT_MAX_INPUT_LENGTH = 12000;
+
+let providerOptions: Required<LLMProviderOptions> = {
+  provider: (process.env.LLM_PROVIDER ||
+    (process.env.LLM_BASE_URL ? "openai" : "none")) as
+    | "openai"
+    | "mock"
+    | "none",
+  baseUrl: process.env.LLM_BASE_URL || "http://localhost:11434/v1",
+  apiKey: process.env.LLM_API_KEY || "",
+  model: process.env.LLM_MODEL || "llama3.1",
+  timeout: process.env.LLM_TIMEOUT
+    ? parseInt(process.env.LLM_TIMEOUT, 10)
+    : 60000,
+};
+
+let activeProvider: LLMProvider | null = null;
+
+/**
+ * Change the configured provider
+ * Defaults come from LLM_PROVIDER, LLM_BASE_URL, LLM_API_KEY, LLM_MODEL and
+ * LLM_TIMEOUT
+ */
+export function configureLLMProvider(options: LLMProviderOptions) {
+  providerOptions = { ...providerOptions, ...options };
+  activeProvider = null;
+}
+
+/**
+ * Use a custom provider instead of the configured one
+ * Pass null to go back to the configured provider
+ */
+export function setLLMProvider(provider: LLMProvider | null) {
+  activeProvider = provider;
+}
+
+/**
+ * Get the provider extraction goes through
+ * @returns The provider, or null if none is configured
+ */
+export function getLLMProvider(): LLMProvider | null {
+  if (activeProvider) return activeProvider;
+
+  switch (providerOptions.provider) {
+    case "openai":
+      activeProvider = createOpenAICompatibleProvider(providerOptions);
+      break;
+    case "mock":
+      activeProvider = createMockProvider();
+      break;
+    default:
+      return null;
+  }
+
+  return activeProvider;
+}
+
+/**
+ * Create a provider for an OpenAI-compatible chat completions API
+ */
+export function createOpenAICompatibleProvider(
+  options: LLMProviderOptions = {},
+): LLMProvider {
+  const { baseUrl, apiKey, model, timeout } = {
+    ...providerOptions,
+    ...options,
+  };
+  const endpoint = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  return {
+    name: "openai",
+    model,
+    async complete({ messages, signal }) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeout);
+      const onAbort = () => controller.abort();
+      signal?.addEventListener("abort", onAbort);
+
+      try {
+        const response = await fetch(endpoint, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+          },
+          body: JSON.stringify({
+            model,
+            messages,
+            temperature: 0,
+            response_format: { type: "json_object" },
+          }),
+          signal: controller.signal,
+        });
+
+        if (!response.ok) {
+          const details = await response.text().catch(() => "");
+          throw new Error(
+            `LLM request failed with HTTP ${response.status}${details ? `: ${details.substring(0, 200)}` : ""}`,
+          );
+        }
+
+        const data = await response.json();
+        const content = data?.choices?.[0]?.message?.content;
+        if (typeof content !== "string") {
+          throw new Error("LLM response did not contain a message");
+        }
+        return content;
+      } catch (error: any) {
+        if (error?.name === "AbortError") {
+          throw new Error(
+            signal?.aborted
+              ? "LLM request was cancelled"
+              : `LLM request timed out after ${timeout}ms`,
+          );
+        }
+        throw error;
+      } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+      }
+    },
+  };
+}
+
+/**
+ * Create a deterministic provider for tests and local development
+ * By default it answers like a model would by picking the sentences that
+ * mention a category's keywords; pass respond to return a fixed completion
+ */
+export function createMockProvider(
+  respond?: (request: LLMCompletionRequest) => string,
+): LLMProvider {
+  return {
+    name: "mock",
+    model: "mock",
+    async complete(request) {
+      if (respond) return respond(request);
+
+      const { text, categories, maxItemsPerCategory } = request.input;
+      const sentences = text
+        .replace(/([.!?])\s+/g, "$1\n")
+        .split(/\n+/)
+        .map((sentence) => sentence.trim())
+        .filter(Boolean);
+      const items: Record<string, any>[] = [];
+
+      for (const category of categories) {
+        const keywords = [
+          category.toLowerCase(),
+          ...getCategoryKeywords(category.toLowerCase()),
+        ];
+        let count = 0;
+
+        for (const sentence of sentences) {
+          if (count >= maxItemsPerCategory) break;
+
+          const lower = sentence.toLowerCase();
+          const matched = keywords.filter((keyword) => lower.includes(keyword));
+          if (matched.length === 0) continue;
+
+          items.push({
+            category,
+            title: sentence.split(/\s+/).slice(0, 6).join(" "),
+            content: sentence,
+            confidence: Math.min(0.95, 0.5 + matched.length * 0.15),
+            metadata: { keywords: matched },
+          });
+          count++;
+        }
+      }
+
+      return JSON.stringify({ items });
+    },
+  };
+}
+
+/**
+ * Render a prompt template, replacing {{name}} placeholders
+ */
+export function renderPrompt(
+  template: string,
+  values: Record<string, string | number>,
+): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (placeholder, name) =>
+    values[name] !== undefined ? String(values[name]) : placeholder,
+  );
+}
+
+/**
+ * Extract categorized items from page text with a language model
+ * @throws If no provider is configured or the response cannot be parsed
+ */
+export async function extractWithLLM(
+  input: Omit<LLMExtractionInput, "maxItemsPerCategory">,
+  options: LLMExtractionOptions = {},
+): Promise<LLMExtractionResult> {
+  const provider = options.provider || getLLMProvider();
+  if (!provider) {
+    throw new Error(
+      "No LLM provider is configured. Set LLM_PROVIDER or LLM_BASE_URL",
+    );
+  }
+
+  const startTime = Date.now();
+  const maxItemsPerCategory = options.maxItemsPerCategory || DEFAULT_MAX_ITEMS;
+  const extractionInput: LLMExtractionInput = {
+    ...input,
+    text: input.text.substring(
+      0,
+      options.maxInputLength || DEFAULT_MAX_INPUT_LENGTH,
+    ),
+    maxItemsPerCategory,
+  };
+
+  const prompt = renderPrompt(
+    options.promptTemplate || DEFAULT_EXTRACTION_PROMPT,
+    {
+      categories: input.categories.join(", "),
+      maxItems: maxItemsPerCategory,
+      url: input.url || "unknown",
+      title: input.title || "unknown",
+      content: extractionInput.text,
+    },
+  );
+
+  const completion = await provider.complete({
+    messages: [
+      { role: "system", content: SYSTEM_PROMPT },
+      { role: "user", content: prompt },
+    ],
+    input: extractionInput,
+    signal: options.signal,
+  });
+
+  return {
+    items: parseExtractionResponse(completion, extractionInput, provider, {
+      confidenceThreshold: options.confidenceThreshold || 0,
+    }),
+    provider: provider.name,
+    model: provider.model,
+    processingTime: Date.now() - startTime,
+  };
+}
+
+/**
+ * Turn a completion into category items
+ * Items of unknown categories, without content or below the confidence
+ * threshold are dropped
+ */
+function parseExtractionResponse(
+  completion: string,
+  input: LLMExtractionInput,
+  provider: LLMProvider,
+  { confidenceThreshold }: { confidenceThreshold: number },
+): Record<string, CategoryItem[]> {
+  const parsed = parseJson(completion);
+  const rawItems: any[] = Array.isArray(parsed?.items)
+    ? parsed.items
+    : Array.isArray(parsed)
+      ? parsed
+      : [];
+
+  const items: Record<string, CategoryItem[]> = {};
+  const categoryKeys = new Map(
+    input.categories.map((category) => [category.toLowerCase(), category]),
+  );
+  categoryKeys.forEach((category, key) => (items[key] = []));
+
+  const timestamp = new Date().toISOString();
+
+  for (const raw of rawItems) {
+    const key = String(raw?.category || "").toLowerCase();
+    const category = categoryKeys.get(key);
+    const title = typeof raw?.title === "string" ? raw.title.trim() : "";
+    const content =
+      typeof raw?.content === "string" ? raw.content.trim() : title;
+    const confidence = Number(raw?.confidence);
+
+    if (!category || !content) continue;
+    if (items[key].length >= input.maxItemsPerCategory) continue;
+
+    const itemConfidence = isNaN(confidence)
+      ? 0.5
+      : Math.max(0, Math.min(1, confidence));
+    if (itemConfidence < confidenceThreshold) continue;
+
+    items[key].push({
+      id: createItemId(category, input.url, title, content),
+      title: title || content.substring(0, 50),
+      content,
+      source: input.url || "",
+      confidence: itemConfidence,
+      verified: false,
+      metadata: {
+        ...(raw.metadata && typeof raw.metadata === "object"
+          ? raw.metadata
+          : {}),
+        extractionMethod: "llm",
+        provider: provider.name,
+        model: provider.model,
+        timestamp,
+      },
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Parse JSON from a completion, tolerating Markdown code fences and text
+ * around the object
+ */
+function parseJson(completion: string): any {
+  const unfenced = completion
+    .replace(/^\s*```(?:json)?\s*/i, "")
+    .replace(/\s*```\s*$/, "");
+
+  try {
+    return JSON.parse(unfenced);
+  } catch (error) {
+    const start = unfenced.indexOf("{");
+    const end = unfenced.lastIndexOf("}");
+    if (start !== -1 && end > start) {
+      try {
+        return JSON.parse(unfenced.substring(start, end + 1));
+      } catch (innerError) {
+        // Fall through to the error below
+      }
+    }
+    throw new Error("LLM response was not valid JSON");
+  }
+}
+
+export default {
+  configureLLMProvider,
+  setLLMProvider,
+  getLLMProvider,
+  createOpenAICompatibleProvider,
+  createMockProvider,
+  renderPrompt,
+  extractWithLLM,
+};
@@ -0,0 +1,504 @@
+/**
+ * Notifications module
+ * Evaluates alert rules against the changes between successive results of a
+ * configuration and delivers matching alerts to webhooks
+ */
+
+import crypto from "crypto";
+import {
+  AlertMatch,
+  AlertRule,
+  NotificationSettings,
+  ResultDiff,
+  ScrapingConfig,
+  ScrapingResult,
+  WebhookDelivery,
+  WebhookPayload,
+  WebhookTarget,
+} from "@/types/scraping";
+import { generateUniqueId } from "@/lib/utils/ids";
+import {
+  getScrapingConfigById,
+  getWebhookDeliveries,
+  getWebhookDeliveryById,
+  saveWebhookDelivery,
+} from "./storage";
+import { diffResults, findPreviousResult } from "./diff";
+
+export interface WebhookDeliveryOptions {
+  maxAttempts?: number; // Attempts per delivery, including the first
+  retryDelay?: number; // Delay before the first retry, doubled for each retry
+  timeout?: number; // Request timeout in milliseconds
+}
+
+// Headers sent with every delivery
+export const SIGNATURE_HEADER = "X-Scraper-Signature";
+export const TIMESTAMP_HEADER = "X-Scraper-Timestamp";
+export const EVENT_HEADER = "X-Scraper-Event";
+export const DELIVERY_HEADER = "X-Scraper-Delivery";
+
+const CHANGE_TYPES = ["added", "removed", "modified"];
+const MAX_RETRY_DELAY = 60 * 60 * 1000; // Never wait more than an hour between attempts
+
+let deliveryOptions: Required<WebhookDeliveryOptions> = {
+  maxAttempts: 5,
+  retryDelay: process.env.WEBHOOK_RETRY_DELAY
+    ? parseInt(process.env.WEBHOOK_RETRY_DELAY, 10)
+    : 30000,
+  timeout: 10000,
+};
+
+// Timers of scheduled retries keyed by delivery ID
+const retryTimers = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Change how webhooks are delivered
+ */
+export function configureWebhookDelivery(options: WebhookDeliveryOptions) {
+  deliveryOptions = { ...deliveryOptions, ...options };
+}
+
+/**
+ * Check notification settings before they are saved
+ * @returns The problems found, empty if the settings are valid
+ */
+export function validateNotificationSettings(
+  settings: NotificationSettings,
+): string[] {
+  const errors: string[] = [];
+
+  if (!settings || !Array.isArray(settings.rules)) {
+    return ["rules must be an array"];
+  }
+  if (!Array.isArray(settings.webhooks)) {
+    return ["webhooks must be an array"];
+  }
+
+  for (const rule of settings.rules) {
+    const name = rule.name || rule.id;
+    if (!rule.id) errors.push("Every alert rule needs an id");
+    if (
+      !Array.isArray(rule.changeTypes) ||
+      rule.changeTypes.length === 0 ||
+      rule.changeTypes.some((type) => !CHANGE_TYPES.includes(type))
+    ) {
+      errors.push(
+        `Alert rule ${name} needs change types from ${CHANGE_TYPES.join(", ")}`,
+      );
+    }
+    if (rule.pattern) {
+      try {
+        new RegExp(rule.pattern);
+      } catch (error) {
+        errors.push(`Alert rule ${name} has an invalid pattern`);
+      }
+    }
+  }
+
+  for (const webhook of settings.webhooks) {
+    if (!webhook.id) errors.push("Every webhook needs an id");
+    try {
+      const { protocol } = new URL(webhook.url);
+      if (protocol !== "http:" && protocol !== "https:") throw new Error();
+    } catch (error) {
+      errors.push(`Webhook URL must be an http(s) URL: ${webhook.url}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Find the changes each enabled rule is interested in
+ * @param rules Alert rules of the configuration
+ * @param diff Changes between two results
+ * @returns One match per rule and category with matching changes
+ */
+export function evaluateAlertRules(
+  rules: AlertRule[],
+  diff: ResultDiff,
+): AlertMatch[] {
+  const matches: AlertMatch[] = [];
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+
+    let pattern: RegExp | null = null;
+    if (rule.pattern) {
+      try {
+        pattern = new RegExp(rule.pattern, "i");
+      } catch (error) {
+        console.warn(
+          `Notifications: skipping rule ${rule.id}, invalid pattern`,
+        );
+        continue;
+      }
+    }
+
+    for (const category of diff.categories) {
+      if (
+        rule.categories?.length &&
+        !rule.categories.includes(category.category)
+      ) {
+        continue;
+      }
+
+      const changes = category.items.filter(
+        (item) =>
+          rule.changeTypes.includes(item.type) &&
+          (!pattern ||
+            [item.before, item.after].some(
+              (version) =>
+                version &&
+                (pattern!.test(version.title) ||
+                  pattern!.test(version.content)),
+            )),
+      );
+
+      if (changes.length > 0) {
+        matches.push({
+          ruleId: rule.id,
+          ruleName: rule.name,
+          category: category.category,
+          changes,
+        });
+      }
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Compare a new result with the previous one and notify the configuration's
+ * webhooks of any changes matching its alert rules
+ * @param config Configuration the result was scraped with
+ * @param result The newly saved result
+ * @returns The deliveries that were created
+ */
+export async function notifyResultChanges(
+  config: ScrapingConfig,
+  result: ScrapingResult,
+): Promise<WebhookDelivery[]> {
+  const settings = config.notifications;
+  if (!config.id || !settings?.enabled || result.status === "failed") {
+    return [];
+  }
+
+  const previous = await findPreviousResult(result);
+  if (!previous) return [];
+
+  const diff = diffResults(previous, result);
+  const alerts = evaluateAlertRules(settings.rules, diff);
+  if (alerts.length === 0) return [];
+
+  console.log(
+    `Notifications: ${alerts.length} alert(s) for configuration ${config.id}`,
+  );
+
+  return deliverToWebhooks(config, settings.webhooks, {
+    event: "scraping.alert",
+    configId: config.id,
+    configName: config.name,
+    url: result.url,
+    resultId: result.id,
+    baseResultId: previous.id,
+    timestamp: new Date().toISOString(),
+    alerts,
+  });
+}
+
+/**
+ * Send a test event to every enabled webhook of a configuration
+ * @returns The deliveries that were created
+ */
+export async function sendTestNotification(
+  config: ScrapingConfig,
+): Promise<WebhookDelivery[]> {
+  if (!config.id) {
+    throw new Error("The configuration must be saved before it can be tested");
+  }
+
+  return deliverToWebhooks(config, config.notifications?.webhooks || [], {
+    event: "scraping.test",
+    configId: config.id,
+    configName: config.name,
+    url: config.url,
+    timestamp: new Date().toISOString(),
+    alerts: [],
+  });
+}
+
+/**
+ * Send a logged delivery again, e.g. after the receiver was fixed
+ * @returns The delivery after the new attempt
+ */
+export async function redeliverWebhook(
+  deliveryId: string,
+): Promise<WebhookDelivery | null> {
+  const delivery = await getWebhookDeliveryById(deliveryId);
+  if (!delivery) return null;
+
+  cancelRetry(delivery.id);
+  delivery.status = "pending";
+  delivery.attempts = 0;
+  delivery.nextAttemptAt = undefined;
+  return attemptDelivery(delivery);
+}
+
+/**
+ * Schedule the retries that were pending when the process stopped
+ * @returns The number of deliveries that will be retried
+ */
+export async function resumePendingDeliveries(): Promise<number> {
+  const deliveries = await getWebhookDeliveries();
+  const pending = deliveries.filter(
+    (delivery) =>
+      (delivery.status === "pending" || delivery.status === "retrying") &&
+      !retryTimers.has(delivery.id),
+  );
+
+  for (const delivery of pending) {
+    const due = delivery.nextAttemptAt
+      ? new Date(delivery.nextAttemptAt).getTime() - Date.now()
+      : 0;
+    scheduleRetry(delivery, Math.max(due, 0));
+  }
+
+  return pending.length;
+}
+
+/**
+ * Cancel every scheduled retry
+ */
+export function stopWebhookRetries() {
+  retryTimers.forEach((timer) => clearTimeout(timer));
+  retryTimers.clear();
+}
+
+/**
+ * Sign a delivery body: HMAC-SHA256 of "<timestamp>.<body>" with the
+ * webhook's secret, so receivers can reject altered or replayed requests
+ */
+export function signPayload(
+  body: string,
+  secret: string,
+  timestamp: string,
+): string {
+  const digest = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `sha256=${digest}`;
+}
+
+/**
+ * Replace webhook secrets with a flag so they are never sent to the client
+ */
+export function hideWebhookSecrets(settings?: NotificationSettings) {
+  return {
+    enabled: settings?.enabled || false,
+    rules: settings?.rules || [],
+    webhooks: (settings?.webhooks || []).map(({ secret, ...webhook }) => ({
+      ...webhook,
+      hasSecret: !!secret,
+    })),
+  };
+}
+
+/**
+ * Hide the webhook secrets of a configuration before it is sent to the
+ * client
+ */
+export function hideConfigSecrets(config: ScrapingConfig) {
+  return config.notifications
+    ? { ...config, notifications: hideWebhookSecrets(config.notifications) }
+    : config;
+}
+
+/**
+ * Fill in the secrets a client left out when saving webhooks
+ * A webhook sent without a secret keeps its saved secret; an empty secret
+ * removes it
+ */
+export function keepSavedWebhookSecrets(
+  webhooks: (WebhookTarget & { hasSecret?: boolean })[],
+  saved: WebhookTarget[] = [],
+): WebhookTarget[] {
+  return webhooks.map(({ hasSecret, ...webhook }) =>
+    webhook.secret === undefined
+      ? {
+          ...webhook,
+          secret: saved.find((previous) => previous.id === webhook.id)?.secret,
+        }
+      : { ...webhook, secret: webhook.secret || undefined },
+  );
+}
+
+/**
+ * Create a delivery of a payload for each enabled webhook and send it
+ */
+async function deliverToWebhooks(
+  config: ScrapingConfig,
+  webhooks: WebhookTarget[],
+  payload: Omit<WebhookPayload, "deliveryId">,
+): Promise<WebhookDelivery[]> {
+  const now = new Date().toISOString();
+
+  const deliveries = webhooks
+    .filter((webhook) => webhook.enabled)
+    .map((webhook): WebhookDelivery => {
+      const id = `delivery_${generateUniqueId()}`;
+      return {
+        id,
+        configId: config.id!,
+        webhookId: webhook.id,
+        webhookUrl: webhook.url,
+        status: "pending",
+        payload: { ...payload, deliveryId: id },
+        attempts: 0,
+        maxAttempts: deliveryOptions.maxAttempts,
+        createdAt: now,
+        updatedAt: now,
+      };
+    });
+
+  return Promise.all(
+    deliveries.map(async (delivery) => {
+      await saveWebhookDelivery(delivery);
+      return attemptDelivery(delivery);
+    }),
+  );
+}
+
+/**
+ * Send a delivery once and record the outcome, scheduling a retry when the
+ * receiver could not be reached or had a temporary error
+ */
+async function attemptDelivery(
+  delivery: WebhookDelivery,
+): Promise<WebhookDelivery> {
+  retryTimers.delete(delivery.id);
+
+  // The secret is read from the configuration so it never ends up in the log
+  const config = await getScrapingConfigById(delivery.configId);
+  const webhook = config?.notifications?.webhooks.find(
+    (target) => target.id === delivery.webhookId,
+  );
+  if (!webhook || !webhook.enabled) {
+    delivery.status = "failed";
+    delivery.nextAttemptAt = undefined;
+    delivery.lastError = "The webhook is no longer configured";
+    return saveWebhookDelivery(delivery);
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    [EVENT_HEADER]: delivery.payload.event,
+    [DELIVERY_HEADER]: delivery.id,
+    [TIMESTAMP_HEADER]: timestamp,
+  };
+  if (webhook.secret) {
+    headers[SIGNATURE_HEADER] = signPayload(body, webhook.secret, timestamp);
+  }
+
+  delivery.attempts++;
+  delivery.webhookUrl = webhook.url;
+  let retryable = true;
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), deliveryOptions.timeout);
+  try {
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers,
+      body,
+      signal: controller.signal,
+    });
+    delivery.lastStatusCode = response.status;
+
+    if (response.ok) {
+      delivery.status = "delivered";
+      delivery.deliveredAt = new Date().toISOString();
+      delivery.nextAttemptAt = undefined;
+      delivery.lastError = undefined;
+      return saveWebhookDelivery(delivery);
+    }
+
+    delivery.lastError = `HTTP ${response.status}`;
+    retryable =
+      response.status >= 500 ||
+      response.status === 408 ||
+      response.status === 429;
+  } catch (error: any) {
+    delivery.lastStatusCode = undefined;
+    delivery.lastError =
+      error?.name === "AbortError"
+        ? `Timed out after ${deliveryOptions.timeout}ms`
+        : error?.cause?.message || error?.message || String(error);
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (retryable && delivery.attempts < delivery.maxAttempts) {
+    const delay = Math.min(
+      deliveryOptions.retryDelay * Math.pow(2, delivery.attempts - 1),
+      MAX_RETRY_DELAY,
+    );
+    delivery.status = "retrying";
+    delivery.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+    console.warn(
+      `Notifications: delivery ${delivery.id} to ${webhook.url} failed (${delivery.lastError}), retrying in ${delay}ms`,
+    );
+    await saveWebhookDelivery(delivery);
+    scheduleRetry(delivery, delay);
+    return delivery;
+  }
+
+  delivery.status = "failed";
+  delivery.nextAttemptAt = undefined;
+  console.error(
+    `Notifications: delivery ${delivery.id} to ${webhook.url} failed after ${delivery.attempts} attempt(s): ${delivery.lastError}`,
+  );
+  return saveWebhookDelivery(delivery);
+}
+
+function scheduleRetry(delivery: WebhookDelivery, delay: number) {
+  cancelRetry(delivery.id);
+  retryTimers.set(
+    delivery.id,
+    setTimeout(() => {
+      attemptDelivery(delivery).catch((error) =>
+        console.error(
+          `Notifications: error retrying delivery ${delivery.id}:`,
+          error,
+        ),
+      );
+    }, delay),
+  );
+}
+
+function cancelRetry(deliveryId: string) {
+  const timer = retryTimers.get(deliveryId);
+  if (timer) {
+    clearTimeout(timer);
+    retryTimers.delete(deliveryId);
+  }
+}
+
+export default {
+  configureWebhookDelivery,
+  validateNotificationSettings,
+  evaluateAlertRules,
+  notifyResultChanges,
+  sendTestNotification,
+  redeliverWebhook,
+  resumePendingDeliveries,
+  stopWebhookRetries,
+  signPayload,
+  hideWebhookSecrets,
+  hideConfigSecrets,
+  keepSavedWebhookSecrets,
+};
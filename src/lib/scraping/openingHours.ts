@@ -0,0 +1,144 @@
+/**
+ * Opening hours module
+ * Extractor for the hours category: finds lines such as
+ * "Mon - Fri: 9:00 AM - 5:00 PM" in the page text and normalizes their days
+ * and times
+ */
+
+import { Extractor, PotentialItem } from "./extractors";
+
+const DAYS = [
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+  "Sunday",
+];
+
+const DAY_GROUPS: Record<string, string[]> = {
+  daily: DAYS,
+  "every day": DAYS,
+  weekdays: DAYS.slice(0, 5),
+  weekends: DAYS.slice(5),
+};
+
+const DAY_SOURCE =
+  "(?:mon(?:day)?|tue(?:s(?:day)?)?|wed(?:nesday)?|thu(?:r(?:s(?:day)?)?)?|fri(?:day)?|sat(?:urday)?|sun(?:day)?)\\b\\.?|daily|every day|weekdays|weekends";
+const TIME_SOURCE =
+  "\\d{1,2}(?:[:.]\\d{2})?\\s*(?:[ap]\\.?m\\.?)?|noon|midnight";
+const SEPARATOR_SOURCE = "\\s*(?:-|–|—|\\bto\\b|\\bthrough\\b)\\s*";
+const LIST_SOURCE = "\\s*(?:,|&|\\band\\b)\\s*";
+
+// Days, joined by ranges and lists, then a time range or "closed"
+const HOURS_SOURCE = `\\b((?:${DAY_SOURCE})(?:(?:${SEPARATOR_SOURCE}|${LIST_SOURCE})(?:${DAY_SOURCE}))*)\\s*:?\\s*(?:(${TIME_SOURCE})${SEPARATOR_SOURCE}(${TIME_SOURCE})|(closed))`;
+
+const EXTRACTOR_CONFIDENCE = 0.85;
+
+export const openingHoursExtractor: Extractor = {
+  name: "opening-hours",
+  categories: ["hours"],
+  needs: ["text"],
+  priority: 10,
+  extract: ({ text }) => extractOpeningHours(text),
+};
+
+/**
+ * Find opening hours in a text
+ * Each item has the days as its title and the hours as its content, with
+ * the expanded days and 24-hour opening and closing times in its metadata
+ */
+export function extractOpeningHours(text: string): PotentialItem[] {
+  const items: PotentialItem[] = [];
+  const pattern = new RegExp(HOURS_SOURCE, "gi");
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const [, dayText, openText, closeText, closed] = match;
+    const days = expandDays(dayText);
+    const opens = closed ? null : toTime(openText, closeText);
+    const closes = closed ? null : toTime(closeText);
+    if (days.length === 0 || (!closed && (!opens || !closes))) continue;
+
+    items.push({
+      title: dayText.trim(),
+      content: closed ? "Closed" : `${openText.trim()} - ${closeText.trim()}`,
+      matchedKeywords: ["hours"],
+      position: match.index,
+      confidence: EXTRACTOR_CONFIDENCE,
+      metadata: closed ? { days, closed: true } : { days, opens, closes },
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Expand a day list such as "Mon-Wed, Fri" into full day names
+ */
+function expandDays(text: string): string[] {
+  const days: string[] = [];
+  const parts = text.toLowerCase().split(new RegExp(LIST_SOURCE));
+
+  for (const part of parts) {
+    const group = DAY_GROUPS[part.trim()];
+    if (group) {
+      days.push(...group);
+      continue;
+    }
+
+    const [from, to] = part.split(new RegExp(SEPARATOR_SOURCE)).map(toDay);
+    if (from === -1) continue;
+    if (to === undefined || to === -1) {
+      days.push(DAYS[from]);
+      continue;
+    }
+    for (let day = from; ; day = (day + 1) % 7) {
+      days.push(DAYS[day]);
+      if (day === to) break;
+    }
+  }
+
+  return days.filter((day, index) => days.indexOf(day) === index);
+}
+
+function toDay(text: string): number {
+  const prefix = text.trim().slice(0, 3);
+  return DAYS.findIndex((day) => day.toLowerCase().startsWith(prefix));
+}
+
+/**
+ * Convert a time to "HH:MM"
+ * An opening time without am/pm is in the afternoon only when the range
+ * closes later in the afternoon, so "1 - 5pm" opens at 13:00 and "9 - 5pm"
+ * at 09:00
+ * @param close Closing time of the range, for opening times without am/pm
+ */
+function toTime(text: string, close?: string): string | null {
+  const value = text.trim().toLowerCase();
+  if (value === "noon") return "12:00";
+  if (value === "midnight") return "00:00";
+
+  const match = /^(\d{1,2})(?:[:.](\d{2}))?\s*([ap])?/.exec(value);
+  if (!match) return null;
+
+  let hours = parseInt(match[1], 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  let meridiem = match[3];
+  const closing = close && /^(\d{1,2}).*p\.?m\.?$/.exec(close.toLowerCase());
+  if (!meridiem && closing && hours < parseInt(closing[1], 10)) {
+    meridiem = "p";
+  }
+
+  if (meridiem === "p" && hours < 12) hours += 12;
+  if (meridiem === "a" && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return null;
+
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+export default {
+  openingHoursExtractor,
+  extractOpeningHours,
+};
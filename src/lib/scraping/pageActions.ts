@@ -0,0 +1,281 @@
+/**
+ * Page actions module
+ * Runs the scripted interactions of a configuration on a rendered page
+ * before it is extracted: clicking, typing, selecting options, waiting for
+ * elements, scrolling and evaluating scripts that return data
+ */
+
+import type { Page } from "puppeteer-core";
+import { PageAction, PageActionResult, PageActionType } from "@/types/scraping";
+import { saveScreenshotToFile } from "@/lib/db/fileStorage";
+import { generateUniqueId } from "@/lib/utils/ids";
+
+export const PAGE_ACTION_TYPES: PageActionType[] = [
+  "click",
+  "type",
+  "select",
+  "waitFor",
+  "scroll",
+  "evaluate",
+];
+
+export interface PageActionsOutcome {
+  results: PageActionResult[];
+  extracted: Record<string, any>; // Values returned by evaluate steps
+  error?: string; // Set when a required step failed
+}
+
+export const DEFAULT_MAX_SCROLLS = 10;
+
+const DEFAULT_ACTION_TIMEOUT = 10000;
+const SETTLE_TIME = 300; // Network quiet time that ends a click or select
+const MAX_SETTLE_WAIT = 3000;
+const SCROLL_DELAY = 250; // Time lazy content gets to load after each scroll step
+
+// Steps and the fields they need
+const REQUIRED_FIELDS: Record<PageActionType, (keyof PageAction)[]> = {
+  click: ["selector"],
+  type: ["selector", "value"],
+  select: ["selector", "value"],
+  waitFor: ["selector"],
+  scroll: [],
+  evaluate: ["script"],
+};
+
+/**
+ * Check the page actions of a configuration before they are saved or run
+ * @returns The problems found, empty if the actions are valid
+ */
+export function validatePageActions(actions: any): string[] {
+  if (actions === undefined) return [];
+  if (!Array.isArray(actions)) return ["actions must be an array"];
+
+  const errors: string[] = [];
+  actions.forEach((action, index) => {
+    const step = `Action ${index + 1}`;
+    if (!action || !PAGE_ACTION_TYPES.includes(action.type)) {
+      errors.push(
+        `${step}: type must be one of ${PAGE_ACTION_TYPES.join(", ")}`,
+      );
+      return;
+    }
+
+    for (const field of REQUIRED_FIELDS[action.type as PageActionType]) {
+      if (typeof action[field] !== "string" || !action[field].trim()) {
+        errors.push(`${step}: ${action.type} steps need a ${field}`);
+      }
+    }
+    if (
+      action.timeout !== undefined &&
+      (typeof action.timeout !== "number" || !(action.timeout > 0))
+    ) {
+      errors.push(`${step}: timeout must be a positive number`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Run page actions in order
+ * A step that fails is recorded with a screenshot of the page; the
+ * remaining steps are skipped unless the failed step is optional
+ */
+export async function runPageActions(
+  page: Page,
+  actions: PageAction[],
+): Promise<PageActionsOutcome> {
+  const outcome: PageActionsOutcome = { results: [], extracted: {} };
+
+  for (let index = 0; index < actions.length; index++) {
+    const action = actions[index];
+
+    if (outcome.error) {
+      outcome.results.push({
+        index,
+        type: action.type,
+        status: "skipped",
+        duration: 0,
+      });
+      continue;
+    }
+
+    const startTime = Date.now();
+    const timeout = action.timeout ?? DEFAULT_ACTION_TIMEOUT;
+
+    try {
+      const value = await withTimeout(
+        runAction(page, action, timeout),
+        timeout,
+      );
+      if (action.type === "evaluate") {
+        outcome.extracted[action.name || `action${index + 1}`] = value;
+      }
+      outcome.results.push({
+        index,
+        type: action.type,
+        status: "success",
+        duration: Date.now() - startTime,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      outcome.results.push({
+        index,
+        type: action.type,
+        status: "failed",
+        duration: Date.now() - startTime,
+        error: message,
+        screenshot: await takeScreenshot(page),
+      });
+
+      if (!action.optional) {
+        outcome.error = `Page action ${index + 1} (${describeAction(action)}) failed: ${message}`;
+      }
+    }
+  }
+
+  return outcome;
+}
+
+/**
+ * Scroll down one screen at a time until the page stops growing
+ * @returns The number of scroll steps taken
+ */
+export async function scrollToBottom(
+  page: Page,
+  maxScrolls: number,
+): Promise<number> {
+  let scrolls = 0;
+
+  while (scrolls < maxScrolls) {
+    const height = await page.evaluate(() => {
+      window.scrollBy(0, window.innerHeight);
+      return document.documentElement.scrollHeight;
+    });
+    scrolls++;
+    await new Promise((resolve) => setTimeout(resolve, SCROLL_DELAY));
+
+    const atBottom = await page.evaluate(
+      (previousHeight: number) =>
+        window.scrollY + window.innerHeight >=
+          document.documentElement.scrollHeight &&
+        document.documentElement.scrollHeight === previousHeight,
+      height,
+    );
+    if (atBottom) break;
+  }
+
+  return scrolls;
+}
+
+/**
+ * Short description of a step for error messages, such as click ".more"
+ */
+export function describeAction(action: PageAction): string {
+  if (action.description) return action.description;
+  return action.selector ? `${action.type} "${action.selector}"` : action.type;
+}
+
+async function runAction(
+  page: Page,
+  action: PageAction,
+  timeout: number,
+): Promise<any> {
+  switch (action.type) {
+    case "click": {
+      const element = await page.waitForSelector(action.selector!, {
+        visible: true,
+        timeout,
+      });
+      await element!.click();
+      await waitForSettle(page, timeout);
+      return;
+    }
+    case "type": {
+      const element = await page.waitForSelector(action.selector!, {
+        visible: true,
+        timeout,
+      });
+      await element!.type(action.value || "");
+      return;
+    }
+    case "select": {
+      await page.waitForSelector(action.selector!, { timeout });
+      const selected = await page.select(action.selector!, action.value || "");
+      if (selected.length === 0) {
+        throw new Error(`No option with the value "${action.value}"`);
+      }
+      await waitForSettle(page, timeout);
+      return;
+    }
+    case "waitFor":
+      await page.waitForSelector(action.selector!, { visible: true, timeout });
+      return;
+    case "scroll":
+      if (action.selector) {
+        const element = await page.waitForSelector(action.selector, {
+          timeout,
+        });
+        await element!.scrollIntoView();
+      } else {
+        await scrollToBottom(page, DEFAULT_MAX_SCROLLS);
+      }
+      return;
+    case "evaluate":
+      return page.evaluate(action.script!);
+  }
+}
+
+/**
+ * Give requests started by an interaction a moment to finish
+ */
+async function waitForSettle(page: Page, timeout: number) {
+  await page
+    .waitForNetworkIdle({
+      idleTime: SETTLE_TIME,
+      timeout: Math.min(timeout, MAX_SETTLE_WAIT),
+    })
+    .catch(() => {});
+}
+
+/**
+ * Save a screenshot of the page
+ * @returns The file name of the screenshot, or undefined if it failed
+ */
+async function takeScreenshot(page: Page): Promise<string | undefined> {
+  try {
+    const image = await page.screenshot({ type: "png" });
+    return await saveScreenshotToFile(`${generateUniqueId()}.png`, image);
+  } catch (error) {
+    console.warn(
+      "Could not take a screenshot of the failed page action:",
+      error,
+    );
+    return undefined;
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, timeout: number): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error(`Timed out after ${timeout}ms`)),
+      timeout,
+    );
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      },
+    );
+  });
+}
+
+export default {
+  validatePageActions,
+  runPageActions,
+  describeAction,
+};
@@ -0,0 +1,420 @@
+/**
+ * Pagination module
+ * Finds next-page links and crawls paginated content page by page
+ */
+
+import { JSDOM } from "jsdom";
+import {
+  CategoryData,
+  FetchResult,
+  RawData,
+  ScrapingConfig,
+  ScrapingError,
+} from "@/types/scraping";
+import { canonicalizeUrl, toAbsoluteUrl } from "@/lib/utils/urls";
+import { renderPage } from "./renderer";
+import { detectSelectorType, selectNodes } from "./extractRawData";
+import {
+  RobotsCheck,
+  checkRobotsTxt,
+  getEffectiveDelay,
+  toRobotsError,
+} from "./robots";
+
+export interface PageResult {
+  page: number; // 1-based page number
+  url: string;
+  depth?: number; // Link depth when the page was reached by the crawler
+  parentUrl?: string; // Page the crawler found the link on
+  rawData: RawData;
+  categories: Record<string, CategoryData>;
+}
+
+export interface NextPageLink {
+  url: string;
+  method: "selector" | "rel-next" | "next-anchor" | "numbered";
+}
+
+// Anchor text commonly used for "next page" links
+const NEXT_TEXT_PATTERN =
+  /^(next|next page|next »|next ›|next >|more results|older posts|›|»|>|>>|→|weiter|suivant|siguiente|volgende)$/i;
+
+// Query parameters commonly used to carry the page number
+const PAGE_PARAMS = ["page", "p", "pg", "paged", "pagenum", "page_no"];
+
+// Containers that usually hold numbered pagers
+const PAGER_SELECTOR =
+  ".pagination, .pager, .paging, .page-numbers, [class*='pagination'], nav[aria-label*='agination'], [role='navigation']";
+
+/**
+ * Find the URL of the next page
+ * Tries the user-supplied selector first, then rel="next", then common
+ * "Next" anchors and finally numbered pagers
+ * @param html HTML of the current page
+ * @param currentUrl URL of the current page, used to resolve relative links
+ * @param nextPageSelector Optional CSS or XPath selector for the next link
+ * @returns The next page link or null if there is none
+ */
+export function findNextPageUrl(
+  html: string,
+  currentUrl: string,
+  nextPageSelector?: string,
+): NextPageLink | null {
+  const dom = new JSDOM(html, { url: currentUrl });
+
+  try {
+    const document = dom.window.document;
+
+    if (nextPageSelector && nextPageSelector.trim()) {
+      const url = findBySelector(document, nextPageSelector.trim(), currentUrl);
+      // An explicit selector that finds nothing means we're on the last page
+      return url ? { url, method: "selector" } : null;
+    }
+
+    const relNext = document.querySelector(
+      "link[rel~='next'][href], a[rel~='next'][href]",
+    );
+    const relNextUrl = relNext && resolveHref(relNext, currentUrl);
+    if (relNextUrl) {
+      return { url: relNextUrl, method: "rel-next" };
+    }
+
+    const nextAnchorUrl = findNextAnchor(document, currentUrl);
+    if (nextAnchorUrl) {
+      return { url: nextAnchorUrl, method: "next-anchor" };
+    }
+
+    const numberedUrl = findNumberedPage(document, currentUrl);
+    if (numberedUrl) {
+      return { url: numberedUrl, method: "numbered" };
+    }
+
+    return null;
+  } finally {
+    dom.window.close();
+  }
+}
+
+/**
+ * Follow next-page links from the first page up to maxPages
+ * Only links on the first page's origin are followed. Pages are fetched
+ * sequentially, and the rate limiter waits rateLimitDelay
+ * between requests (or the robots.txt Crawl-delay when respectRobotsTxt is
+ * enabled)
+ * @param config Scraping configuration
+ * @param firstPage Fetch result of the first page
+ * @param processPage Extracts and categorizes a fetched page
+ * @param signal Optional signal that stops the crawl
+ * @returns The results of the additional pages, warnings and errors
+ */
+export async function crawlPagination(
+  config: ScrapingConfig,
+  firstPage: FetchResult,
+  processPage: (fetched: FetchResult, page: number) => Promise<PageResult>,
+  signal?: AbortSignal,
+): Promise<{
+  pages: PageResult[];
+  warnings: string[];
+  errors: ScrapingError[];
+}> {
+  const pages: PageResult[] = [];
+  const warnings: string[] = [];
+  const errors: ScrapingError[] = [];
+  const visited = new Set<string>([
+    canonicalizeUrl(config.url),
+    canonicalizeUrl(firstPage.finalUrl),
+  ]);
+  const origin = new URL(firstPage.finalUrl || config.url).origin;
+
+  let current = firstPage;
+
+  for (let page = 2; page <= config.options.maxPages; page++) {
+    const next = findNextPageUrl(
+      current.html,
+      current.finalUrl,
+      config.options.nextPageSelector,
+    );
+
+    if (!next) break;
+
+    // The configuration's headers and cookies must not go to another site
+    if (new URL(next.url).origin !== origin) {
+      warnings.push(
+        `Pagination stopped at page ${page - 1}: next link points to another site (${next.url})`,
+      );
+      break;
+    }
+
+    if (visited.has(canonicalizeUrl(next.url))) {
+      warnings.push(
+        `Pagination stopped at page ${page - 1}: next link points to an already visited page (${next.url})`,
+      );
+      break;
+    }
+    visited.add(canonicalizeUrl(next.url));
+
+    let robots: RobotsCheck | undefined;
+    if (config.options.respectRobotsTxt) {
+      robots = await checkRobotsTxt(next.url, config.options);
+      if (!robots.allowed) {
+        errors.push(toRobotsError(robots));
+        warnings.push(
+          `Pagination stopped at page ${page}: ${next.url} is disallowed by robots.txt`,
+        );
+        break;
+      }
+    }
+
+    // The rate limiter waits rateLimitDelay since the last request to the host
+    const fetched = await renderPage(
+      next.url,
+      {
+        ...config.options,
+        rateLimitDelay: getEffectiveDelay(config.options, robots),
+      },
+      signal,
+    );
+    if (signal?.aborted) break;
+
+    if (fetched.error) {
+      warnings.push(
+        `Pagination stopped at page ${page}: ${fetched.error} (${next.url})`,
+      );
+      break;
+    }
+
+    visited.add(canonicalizeUrl(fetched.finalUrl));
+    const pageResult = await processPage(fetched, page);
+    pageResult.rawData.warnings.push(
+      `Reached page ${page} via ${next.method} link`,
+    );
+    pages.push(pageResult);
+    current = fetched;
+  }
+
+  return { pages, warnings, errors };
+}
+
+/**
+ * Merge per-page results into a single set of categories and raw data
+ * Each item records the page it came from in its metadata
+ * @param pages Page results in page order
+ * @param deduplicate Drop items repeated on several pages
+ */
+export function mergePageResults(
+  pages: PageResult[],
+  deduplicate: boolean,
+): { categories: Record<string, CategoryData>; rawData: RawData } {
+  const categories: Record<string, CategoryData> = {};
+  const seen = new Set<string>();
+
+  for (const page of pages) {
+    for (const [key, data] of Object.entries(page.categories)) {
+      if (!categories[key]) {
+        categories[key] = {
+          description: data.description,
+          items: [],
+          metadata: { ...data.metadata },
+        };
+      }
+
+      for (const item of data.items) {
+        const identity = `${key}|${item.title.trim().toLowerCase()}|${item.content.trim().toLowerCase()}`;
+        if (deduplicate && seen.has(identity)) continue;
+        seen.add(identity);
+
+        categories[key].items.push({
+          ...item,
+          metadata: {
+            ...item.metadata,
+            page: page.page,
+            pageUrl: page.url,
+            ...(page.depth !== undefined && { depth: page.depth }),
+          },
+        });
+      }
+    }
+  }
+
+  // Recalculate the category summaries over all pages
+  for (const data of Object.values(categories)) {
+    const totalConfidence = data.items.reduce(
+      (sum, item) => sum + (item.confidence || 0),
+      0,
+    );
+    data.metadata = {
+      ...data.metadata,
+      confidence:
+        data.items.length > 0 ? totalConfidence / data.items.length : 0,
+      itemCount: data.items.length,
+      pageCount: pages.length,
+    };
+  }
+
+  const first = pages[0].rawData;
+  const rawData: RawData = {
+    ...first,
+    html: pages
+      .map(
+        (page) =>
+          `<!-- page ${page.page}: ${page.url} -->\n${page.rawData.html}`,
+      )
+      .join("\n"),
+    text: pages.map((page) => page.rawData.text).join("\n\n"),
+    elements: pages.flatMap((page) => page.rawData.elements),
+    elementCount: pages.reduce(
+      (sum, page) => sum + page.rawData.elementCount,
+      0,
+    ),
+    pageCount: pages.length,
+    headings:
+      first.headings && pages.flatMap((page) => page.rawData.headings || []),
+    links: first.links && pages.flatMap((page) => page.rawData.links || []),
+    images: first.images && pages.flatMap((page) => page.rawData.images || []),
+    tables: pages.some((page) => page.rawData.tables)
+      ? pages.flatMap((page) =>
+          (page.rawData.tables || []).map((table) => ({
+            ...table,
+            page: page.page,
+          })),
+        )
+      : undefined,
+    errors: pages.flatMap((page) => page.rawData.errors),
+    warnings: pages.flatMap((page) => page.rawData.warnings),
+  };
+
+  return { categories, rawData };
+}
+
+/**
+ * Find the next link with a user-supplied CSS or XPath selector
+ */
+function findBySelector(
+  document: Document,
+  selector: string,
+  currentUrl: string,
+): string | null {
+  let nodes: Node[];
+  try {
+    nodes = selectNodes(document, selector, detectSelectorType(selector));
+  } catch (error) {
+    console.warn(`Pagination: invalid next-page selector "${selector}"`, error);
+    return null;
+  }
+
+  for (const node of nodes) {
+    // XPath may select the href attribute itself
+    if (node.nodeType === 2) {
+      return toAbsoluteUrl(node.nodeValue || "", currentUrl);
+    }
+    if (node.nodeType === 1) {
+      const element = node as Element;
+      const link =
+        element.closest("a[href]") || element.querySelector("a[href]");
+      const url = resolveHref(link || element, currentUrl);
+      if (url) return url;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find an anchor labelled "Next" or marked up as a next link
+ */
+function findNextAnchor(document: Document, currentUrl: string): string | null {
+  const anchors = Array.from(document.querySelectorAll("a[href]"));
+
+  for (const anchor of anchors) {
+    if (isDisabled(anchor)) continue;
+
+    const label = [
+      anchor.textContent,
+      anchor.getAttribute("aria-label"),
+      anchor.getAttribute("title"),
+    ]
+      .map((value) => (value || "").replace(/\s+/g, " ").trim())
+      .find((value) => NEXT_TEXT_PATTERN.test(value));
+
+    if (label) {
+      const url = resolveHref(anchor, currentUrl);
+      if (url) return url;
+    }
+  }
+
+  // Fall back to class names such as "next" or "pagination-next"
+  const byClass = document.querySelector(
+    "a[class~='next'][href], a[class*='next-page'][href], a[class*='pagination-next'][href], li[class~='next'] a[href], .next > a[href]",
+  );
+  if (byClass && !isDisabled(byClass)) {
+    return resolveHref(byClass, currentUrl);
+  }
+
+  return null;
+}
+
+/**
+ * Find the link to page N+1 in a numbered pager
+ */
+function findNumberedPage(
+  document: Document,
+  currentUrl: string,
+): string | null {
+  const currentPage = detectCurrentPage(document, currentUrl);
+  const target = String(currentPage + 1);
+
+  const containers = Array.from(document.querySelectorAll(PAGER_SELECTOR));
+  const anchors = (containers.length > 0 ? containers : [document.body])
+    .filter(Boolean)
+    .flatMap((container) => Array.from(container.querySelectorAll("a[href]")));
+
+  for (const anchor of anchors) {
+    if ((anchor.textContent || "").trim() === target && !isDisabled(anchor)) {
+      const url = resolveHref(anchor, currentUrl);
+      if (url && canonicalizeUrl(url) !== canonicalizeUrl(currentUrl))
+        return url;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Work out the current page number from the URL or the pager markup
+ */
+function detectCurrentPage(document: Document, currentUrl: string): number {
+  const url = new URL(currentUrl);
+
+  for (const param of PAGE_PARAMS) {
+    const value = parseInt(url.searchParams.get(param) || "", 10);
+    if (!isNaN(value)) return value;
+  }
+
+  const pathMatch = url.pathname.match(/\/page\/(\d+)/i);
+  if (pathMatch) return parseInt(pathMatch[1], 10);
+
+  const current = document.querySelector(
+    "[aria-current='page'], .pagination .active, .pagination .current, .pager .current, .page-numbers.current",
+  );
+  const currentNumber = parseInt((current?.textContent || "").trim(), 10);
+  if (!isNaN(currentNumber)) return currentNumber;
+
+  return 1;
+}
+
+/**
+ * Resolve the href of an element to an absolute http(s) URL
+ */
+function resolveHref(element: Element, currentUrl: string): string | null {
+  return toAbsoluteUrl(element.getAttribute("href") || "", currentUrl);
+}
+
+/**
+ * Check if a pager link is disabled
+ */
+function isDisabled(element: Element): boolean {
+  return (
+    element.getAttribute("aria-disabled") === "true" ||
+    !!element.closest(".disabled, [aria-disabled='true']")
+  );
+}
@@ -0,0 +1,288 @@
+/**
+ * Prices module
+ * Finds prices in text and normalizes them across locales: currency symbols
+ * and ISO codes, thousands and decimal separators, ranges, billing periods
+ * and free offers
+ */
+
+import { NormalizedPrice, PricePeriod, ScrapingResult } from "@/types/scraping";
+
+// Symbols, longest first so "US$" wins over "$". A bare "$" is read as USD
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  US$: "USD",
+  NZ$: "NZD",
+  HK$: "HKD",
+  C$: "CAD",
+  A$: "AUD",
+  S$: "SGD",
+  R$: "BRL",
+  $: "USD",
+  "€": "EUR",
+  "£": "GBP",
+  "¥": "JPY",
+  "₹": "INR",
+  "₩": "KRW",
+  "₽": "RUB",
+  "₺": "TRY",
+  "₪": "ILS",
+  "₱": "PHP",
+  "฿": "THB",
+  zł: "PLN",
+};
+
+const CURRENCY_CODES = [
+  "USD",
+  "EUR",
+  "GBP",
+  "JPY",
+  "CNY",
+  "INR",
+  "CAD",
+  "AUD",
+  "NZD",
+  "CHF",
+  "SEK",
+  "NOK",
+  "DKK",
+  "PLN",
+  "CZK",
+  "HUF",
+  "BRL",
+  "MXN",
+  "ZAR",
+  "AED",
+  "SAR",
+  "SGD",
+  "HKD",
+  "KRW",
+  "RUB",
+  "TRY",
+  "ILS",
+  "PHP",
+  "THB",
+];
+
+const CURRENCY_WORDS: Record<string, string> = {
+  dollar: "USD",
+  euro: "EUR",
+  pound: "GBP",
+  rupee: "INR",
+  yen: "JPY",
+};
+
+const PERIODS: [RegExp, PricePeriod][] = [
+  [/^(?:hours?|hrs?|hourly)$/, "hour"],
+  [/^(?:days?|daily)$/, "day"],
+  [/^(?:weeks?|wks?|weekly)$/, "week"],
+  [/^(?:months?|mos?|monthly)$/, "month"],
+  [/^(?:quarters?|quarterly)$/, "quarter"],
+  [/^(?:years?|yrs?|annum|yearly|annually)$/, "year"],
+  [/^(?:one[- ]time|once)$/, "one-time"],
+];
+
+const SYMBOL_SOURCE = Object.keys(CURRENCY_SYMBOLS)
+  .map((symbol) => symbol.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+  .join("|");
+const CODE_SOURCE = `\\b(?:${CURRENCY_CODES.join("|")})\\b`;
+const WORD_SOURCE = `\\b(?:${Object.keys(CURRENCY_WORDS).join("|")})s?\\b`;
+
+// Lakh grouping (2,50,000), grouped thousands (1,234.56, 1.234,56,
+// 1 234,56, 1'234.50) or plain numbers
+const NUMBER_SOURCE =
+  "\\d{1,2}(?:,\\d{2})+,\\d{3}(?:\\.\\d{1,2})?(?!\\d)|\\d{1,3}(?:[,.' \\u00a0\\u202f]\\d{3})+(?:[.,]\\d{1,2})?(?!\\d)|\\d+(?:[.,]\\d{1,2})?(?!\\d)";
+const PREFIX_SOURCE = `${SYMBOL_SOURCE}|${CODE_SOURCE}`;
+const SUFFIX_SOURCE = `${SYMBOL_SOURCE}|${CODE_SOURCE}|${WORD_SOURCE}`;
+const MONEY_SOURCE = `(?:(?:${PREFIX_SOURCE})\\s?(?:${NUMBER_SOURCE})(?:\\s?(?:${SUFFIX_SOURCE}))?|(?:${NUMBER_SOURCE})\\s?(?:${SUFFIX_SOURCE}))`;
+const RANGE_SOURCE = "\\s*(?:-|–|—|\\bto\\b)\\s*";
+const PERIOD_SOURCE =
+  "(?:\\s*(?:\\/|\\bper\\s|\\ba\\s|\\ban\\s|\\beach\\s)\\s*(hours?|hrs?|days?|weeks?|wks?|months?|mos?|quarters?|years?|yrs?|annum)\\b|\\s+(hourly|daily|weekly|monthly|quarterly|yearly|annually|one[- ]time|once)\\b)";
+
+const PRICE_SOURCE = `(?:${MONEY_SOURCE}(?:${RANGE_SOURCE}(?:${MONEY_SOURCE}|${NUMBER_SOURCE}))?|(?:${NUMBER_SOURCE})${RANGE_SOURCE}${MONEY_SOURCE})${PERIOD_SOURCE}?`;
+const CURRENCY_SOURCE = `${SYMBOL_SOURCE}|${CODE_SOURCE}|${WORD_SOURCE}`;
+
+const FREE_PATTERN =
+  /(^|[^\w-])(free(?: of charge)?|no charge|no cost|complimentary)(?![\w-])/i;
+
+export interface PriceMatch {
+  price: NormalizedPrice;
+  index: number; // Position of the price in the text
+}
+
+export interface PriceSummary {
+  count: number;
+  min: number;
+  max: number;
+  average: number;
+}
+
+/**
+ * Find every price with a currency in a text
+ * Numbers without a currency symbol, code or name are not prices
+ */
+export function findPrices(text: string): PriceMatch[] {
+  const pattern = new RegExp(PRICE_SOURCE, "gi");
+  const matches: PriceMatch[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const price = normalizePriceText(match[0], match[1] || match[2]);
+    if (price) matches.push({ price, index: match.index });
+  }
+
+  return matches;
+}
+
+/**
+ * Parse the first price in a text, or a free offer if it has no price
+ */
+export function parsePrice(text: string): NormalizedPrice | null {
+  const [first] = findPrices(text);
+  if (first) return first.price;
+
+  const free = FREE_PATTERN.exec(text);
+  if (!free) return null;
+
+  return {
+    amount: 0,
+    currency: null,
+    period: null,
+    min: 0,
+    max: 0,
+    free: true,
+    raw: free[2],
+  };
+}
+
+/**
+ * Parse a number written with any thousands and decimal separators
+ * With both "," and "." the last one is the decimal separator; a single
+ * separator followed by exactly three digits groups thousands
+ */
+export function parseAmount(text: string): number {
+  const value = text.replace(/[\s\u00a0\u202f']/g, "");
+  const lastComma = value.lastIndexOf(",");
+  const lastDot = value.lastIndexOf(".");
+
+  if (lastComma !== -1 && lastDot !== -1) {
+    const decimal = lastComma > lastDot ? "," : ".";
+    const thousands = decimal === "," ? /\./g : /,/g;
+    return parseFloat(value.replace(thousands, "").replace(decimal, "."));
+  }
+
+  const separator = lastComma !== -1 ? "," : lastDot !== -1 ? "." : null;
+  if (!separator) return parseFloat(value);
+
+  const parts = value.split(separator);
+  if (parts.length > 2 || parts[parts.length - 1].length === 3) {
+    return parseFloat(parts.join(""));
+  }
+  return parseFloat(parts.join("."));
+}
+
+/**
+ * Summarize the normalized prices of fees and products items by category,
+ * then by currency and billing period, such as "USD" or "EUR/month"
+ */
+export function summarizePrices(
+  results: ScrapingResult[],
+): Record<string, Record<string, PriceSummary>> {
+  const summaries: Record<string, Record<string, PriceSummary>> = {};
+
+  for (const result of results) {
+    for (const category of ["fees", "products"]) {
+      for (const item of result.categories?.[category]?.items || []) {
+        const price: NormalizedPrice | undefined =
+          item.metadata?.normalizedPrice;
+        if (!price?.currency) continue;
+
+        const key = price.period
+          ? `${price.currency}/${price.period}`
+          : price.currency;
+        const byCurrency = (summaries[category] = summaries[category] || {});
+        const summary = byCurrency[key];
+
+        if (!summary) {
+          byCurrency[key] = {
+            count: 1,
+            min: price.min,
+            max: price.max,
+            average: price.amount,
+          };
+          continue;
+        }
+
+        summary.average =
+          (summary.average * summary.count + price.amount) /
+          (summary.count + 1);
+        summary.count++;
+        summary.min = Math.min(summary.min, price.min);
+        summary.max = Math.max(summary.max, price.max);
+      }
+    }
+  }
+
+  return summaries;
+}
+
+/**
+ * Normalize a matched price: its first currency, its amounts and period
+ * @returns The price, or null when the only currency is a lowercase code
+ * such as "try", which is a word rather than a currency
+ */
+function normalizePriceText(
+  raw: string,
+  periodText?: string,
+): NormalizedPrice | null {
+  const currency = findCurrency(raw);
+  if (!currency) return null;
+
+  const amounts = (raw.match(new RegExp(NUMBER_SOURCE, "g")) || []).map(
+    parseAmount,
+  );
+  if (amounts.length === 0 || isNaN(amounts[0])) return null;
+
+  const min = amounts[0];
+  const max = amounts.length > 1 && amounts[1] >= min ? amounts[1] : min;
+
+  return {
+    amount: min,
+    currency,
+    period: periodText ? toPeriod(periodText) : null,
+    min,
+    max,
+    raw: raw.trim(),
+  };
+}
+
+function findCurrency(text: string): string | null {
+  const pattern = new RegExp(CURRENCY_SOURCE, "gi");
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const token = match[0];
+    const symbol =
+      CURRENCY_SYMBOLS[token] ||
+      CURRENCY_SYMBOLS[token.toUpperCase()] ||
+      CURRENCY_SYMBOLS[token.toLowerCase()];
+    if (symbol) return symbol;
+
+    const word = token.toLowerCase().replace(/s$/, "");
+    if (CURRENCY_WORDS[word]) return CURRENCY_WORDS[word];
+    if (token === token.toUpperCase()) return token;
+  }
+
+  return null;
+}
+
+function toPeriod(text: string): PricePeriod | null {
+  const value = text.toLowerCase();
+  const period = PERIODS.find(([pattern]) => pattern.test(value));
+  return period ? period[1] : null;
+}
+
+export default {
+  findPrices,
+  parsePrice,
+  parseAmount,
+  summarizePrices,
+};
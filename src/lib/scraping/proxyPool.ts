@@ -0,0 +1,500 @@
+/**
+ * Proxy pool module
+ * Sends requests through the proxies of a pool, round-robin or sticky per
+ * host. Each proxy is scored from the outcome of its requests; proxies that
+ * keep failing are ejected for a while and only get requests again once a
+ * probe through them succeeds
+ */
+
+import {
+  FetchResult,
+  ProxyHealth,
+  ProxyPool,
+  ProxyRotation,
+} from "@/types/scraping";
+import { fetchWebsiteContent } from "./fetcher";
+import { getProxyPoolById } from "./storage";
+
+export interface ProxyPoolOptions {
+  maxAttempts?: number; // Proxies tried for one request before giving up
+  maxFailures?: number; // Failures in a row that eject a proxy
+  minScore?: number; // Score under which a proxy is ejected
+  ejectTime?: number; // First ejection in milliseconds, doubled for each ejection in a row
+  maxEjectTime?: number;
+  probeUrl?: string; // URL requested through an ejected proxy to check it works again
+  probeTimeout?: number;
+}
+
+export const PROXY_PROTOCOLS = [
+  "http:",
+  "https:",
+  "socks4:",
+  "socks4a:",
+  "socks5:",
+  "socks5h:",
+];
+export const PROXY_ROTATIONS: ProxyRotation[] = ["round-robin", "sticky"];
+
+// Weight of the latest request in the score of a proxy
+const SCORE_WEIGHT = 0.2;
+const MASKED_PASSWORD = "***";
+
+// Request failures that point at the proxy rather than at the site
+const PROXY_ERROR_PATTERN =
+  /ECONNREFUSED|ECONNRESET|EHOSTUNREACH|ENETUNREACH|ENOTFOUND|EAI_AGAIN|EPIPE|timed? ?out|socket hang up|socks|proxy|tunnel|net::ERR_(CONNECTION|TIMED_OUT|EMPTY_RESPONSE)/i;
+
+let poolOptions: Required<ProxyPoolOptions> = {
+  maxAttempts: 3,
+  maxFailures: 3,
+  minScore: 0.5,
+  ejectTime: 60000,
+  maxEjectTime: 30 * 60 * 1000,
+  probeUrl:
+    process.env.PROXY_PROBE_URL || "https://www.gstatic.com/generate_204",
+  probeTimeout: 10000,
+};
+
+interface ProxyState {
+  score: number;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  ejections: number;
+  lastError?: string;
+  lastUsed?: number;
+  ejectedUntil?: number;
+  probe?: Promise<boolean>;
+}
+
+// Health of each proxy keyed by its URL, shared by the pools that list it
+const proxyStates = new Map<string, ProxyState>();
+
+// Next proxy of each round-robin pool keyed by pool ID
+const cursors = new Map<string, number>();
+
+// Proxy each host of a sticky pool is pinned to, keyed by "poolId host"
+const stickyProxies = new Map<string, string>();
+
+/**
+ * Change how proxies are scored, ejected and probed
+ */
+export function configureProxyPools(options: ProxyPoolOptions) {
+  poolOptions = { ...poolOptions, ...options };
+}
+
+/**
+ * Check a proxy pool before it is saved
+ * @returns The problems found, empty if the pool is valid
+ */
+export function validateProxyPool(pool: any): string[] {
+  if (!pool || typeof pool !== "object") {
+    return ["proxy pool must be an object"];
+  }
+
+  const errors: string[] = [];
+  if (typeof pool.name !== "string" || !pool.name.trim()) {
+    errors.push("name is required");
+  }
+  if (!PROXY_ROTATIONS.includes(pool.rotation)) {
+    errors.push(`rotation must be one of ${PROXY_ROTATIONS.join(", ")}`);
+  }
+  if (!Array.isArray(pool.proxies) || pool.proxies.length === 0) {
+    errors.push("proxies must be a non-empty array of proxy URLs");
+    return errors;
+  }
+
+  const seen = new Set<string>();
+  for (const proxyUrl of pool.proxies) {
+    if (typeof proxyUrl !== "string") {
+      errors.push("Every proxy must be a URL");
+      continue;
+    }
+
+    let proxy: URL;
+    try {
+      proxy = new URL(proxyUrl);
+    } catch (error) {
+      errors.push(`${proxyUrl} is not a valid URL`);
+      continue;
+    }
+
+    const name = maskProxyUrl(proxyUrl);
+    if (!PROXY_PROTOCOLS.includes(proxy.protocol)) {
+      errors.push(
+        `${name} must use one of ${PROXY_PROTOCOLS.map((protocol) => protocol.slice(0, -1)).join(", ")}`,
+      );
+    } else if (
+      (proxy.pathname !== "/" && proxy.pathname !== "") ||
+      proxy.search
+    ) {
+      errors.push(`${name} must be a proxy address without a path or query`);
+    }
+    if (seen.has(proxyUrl)) {
+      errors.push(`${name} is listed more than once`);
+    }
+    seen.add(proxyUrl);
+  }
+
+  return errors;
+}
+
+/**
+ * Replace the password of a proxy URL with asterisks
+ */
+export function maskProxyUrl(proxyUrl: string): string {
+  try {
+    const proxy = new URL(proxyUrl);
+    if (!proxy.password) return proxyUrl;
+    proxy.password = MASKED_PASSWORD;
+    return proxy.toString().replace(/\/$/, "");
+  } catch (error) {
+    return proxyUrl;
+  }
+}
+
+/**
+ * Copy a proxy pool with the passwords of its proxies masked, for API
+ * responses
+ */
+export function hideProxyCredentials(pool: ProxyPool): ProxyPool {
+  return { ...pool, proxies: pool.proxies.map(maskProxyUrl) };
+}
+
+/**
+ * Restore the passwords of proxies sent back masked, as returned by the API
+ * @param pool The pool as sent by the client
+ * @param saved The pool as stored
+ */
+export function keepSavedProxyCredentials(
+  pool: ProxyPool,
+  saved: ProxyPool,
+): ProxyPool {
+  if (!Array.isArray(pool.proxies)) return pool;
+
+  return {
+    ...pool,
+    proxies: pool.proxies.map(
+      (proxyUrl) =>
+        saved.proxies.find(
+          (savedUrl) =>
+            savedUrl !== proxyUrl && maskProxyUrl(savedUrl) === proxyUrl,
+        ) || proxyUrl,
+    ),
+  };
+}
+
+/**
+ * Fetch a page through a proxy pool
+ * Tries another proxy of the pool when the one picked fails, and records the
+ * proxy used on the result. Never throws, like the renderers
+ * @param poolId ID of the proxy pool
+ * @param url URL of the page, used to pin hosts in sticky pools
+ * @param fetch Fetches the page through the given proxy URL
+ * @param signal Optional signal that aborts the request
+ */
+export async function fetchThroughProxyPool(
+  poolId: string,
+  url: string,
+  fetch: (proxyUrl: string) => Promise<FetchResult>,
+  signal?: AbortSignal,
+): Promise<FetchResult> {
+  const pool = await getProxyPoolById(poolId);
+  if (!pool) {
+    return failedFetch(url, `Proxy pool ${poolId} not found`);
+  }
+
+  const tried: string[] = [];
+  let result: FetchResult | null = null;
+
+  while (tried.length < poolOptions.maxAttempts) {
+    const proxyUrl = await pickProxy(pool, url, tried);
+    if (!proxyUrl) break;
+    tried.push(proxyUrl);
+
+    const fetched = await fetch(proxyUrl);
+    result = {
+      ...fetched,
+      proxy: { poolId, proxy: maskProxyUrl(proxyUrl), attempts: tried.length },
+    };
+    if (signal?.aborted) break;
+
+    const failure = getProxyFailure(fetched);
+    recordOutcome(proxyUrl, failure);
+    if (!failure) break;
+
+    console.warn(
+      `Proxy pool: ${maskProxyUrl(proxyUrl)} failed for ${url} (${failure})`,
+    );
+  }
+
+  return (
+    result ||
+    failedFetch(url, `No healthy proxy left in proxy pool ${pool.name}`)
+  );
+}
+
+/**
+ * Get the health of the proxies of a pool
+ */
+export function getProxyHealth(pool: ProxyPool): ProxyHealth[] {
+  return pool.proxies.map((proxyUrl) => {
+    const state = getState(proxyUrl);
+    return {
+      proxy: maskProxyUrl(proxyUrl),
+      score: Math.round(state.score * 100) / 100,
+      successes: state.successes,
+      failures: state.failures,
+      consecutiveFailures: state.consecutiveFailures,
+      lastError: state.lastError,
+      lastUsed: state.lastUsed
+        ? new Date(state.lastUsed).toISOString()
+        : undefined,
+      ejectedUntil: state.ejectedUntil
+        ? new Date(state.ejectedUntil).toISOString()
+        : undefined,
+      ejections: state.ejections,
+    };
+  });
+}
+
+/**
+ * Probe every proxy of a pool now, reinstating the ejected ones that work
+ * and ejecting the ones that do not
+ * @returns The health of the proxies after the probes
+ */
+export async function probeProxyPool(pool: ProxyPool): Promise<ProxyHealth[]> {
+  await Promise.all(pool.proxies.map(probeProxy));
+  return getProxyHealth(pool);
+}
+
+/**
+ * Forget the health of the proxies of a pool, or of every proxy
+ */
+export function resetProxyHealth(pool?: ProxyPool): void {
+  if (!pool) {
+    proxyStates.clear();
+    cursors.clear();
+    stickyProxies.clear();
+    return;
+  }
+
+  for (const proxyUrl of pool.proxies) proxyStates.delete(proxyUrl);
+  cursors.delete(pool.id);
+  for (const key of Array.from(stickyProxies.keys())) {
+    if (key.startsWith(`${pool.id} `)) stickyProxies.delete(key);
+  }
+}
+
+/**
+ * Pick the proxy for a request, skipping ejected proxies and those already
+ * tried. When every other proxy is ejected, waits for the probes of those
+ * whose ejection is over
+ */
+async function pickProxy(
+  pool: ProxyPool,
+  url: string,
+  exclude: string[],
+): Promise<string | null> {
+  const candidates = pool.proxies.filter(
+    (proxyUrl) => !exclude.includes(proxyUrl),
+  );
+  let available = candidates.filter(isAvailable);
+
+  if (available.length === 0) {
+    const probes = candidates
+      .filter((proxyUrl) => getState(proxyUrl).probe)
+      .map((proxyUrl) => getState(proxyUrl).probe);
+    if (probes.length === 0) return null;
+
+    await Promise.all(probes);
+    available = candidates.filter(isAvailable);
+    if (available.length === 0) return null;
+  }
+
+  if (pool.rotation !== "sticky") {
+    return nextProxy(pool, available);
+  }
+
+  const key = `${pool.id} ${new URL(url).host}`;
+  const pinned = stickyProxies.get(key);
+  if (pinned && available.includes(pinned)) return pinned;
+
+  const proxyUrl = nextProxy(pool, available);
+  stickyProxies.set(key, proxyUrl);
+  return proxyUrl;
+}
+
+/**
+ * Take the next available proxy of a pool in round-robin order
+ */
+function nextProxy(pool: ProxyPool, available: string[]): string {
+  const cursor = cursors.get(pool.id) || 0;
+
+  for (let offset = 0; offset < pool.proxies.length; offset++) {
+    const index = (cursor + offset) % pool.proxies.length;
+    if (available.includes(pool.proxies[index])) {
+      cursors.set(pool.id, (index + 1) % pool.proxies.length);
+      return pool.proxies[index];
+    }
+  }
+
+  return available[0];
+}
+
+/**
+ * Check whether a proxy may get requests, starting its probe once its
+ * ejection is over
+ */
+function isAvailable(proxyUrl: string): boolean {
+  const state = getState(proxyUrl);
+  if (!state.ejectedUntil) return true;
+
+  if (Date.now() >= state.ejectedUntil) {
+    probeProxy(proxyUrl);
+  }
+  return false;
+}
+
+/**
+ * Request the probe URL through a proxy, reinstating it when the request
+ * gets through and ejecting it again otherwise
+ * @returns Whether the proxy works
+ */
+function probeProxy(proxyUrl: string): Promise<boolean> {
+  const state = getState(proxyUrl);
+
+  if (!state.probe) {
+    state.probe = fetchWebsiteContent(poolOptions.probeUrl, false, {
+      proxyUrl,
+      timeout: poolOptions.probeTimeout,
+      retryDelay: 0,
+    })
+      .then((result) => {
+        const failure =
+          result.status === 407
+            ? "HTTP 407 Proxy Authentication Required"
+            : result.status === 0
+              ? result.error || "No response"
+              : null;
+
+        if (failure) {
+          state.lastError = `Probe failed: ${failure}`;
+          eject(proxyUrl, state);
+          return false;
+        }
+
+        // Reinstated proxies start with a low score, so they are ejected
+        // again quickly when they keep failing
+        if (state.ejectedUntil) {
+          state.score = poolOptions.minScore + 0.1;
+        }
+        state.ejectedUntil = undefined;
+        state.consecutiveFailures = 0;
+        return true;
+      })
+      .finally(() => {
+        state.probe = undefined;
+      });
+  }
+
+  return state.probe;
+}
+
+/**
+ * Update the score of a proxy after a request went through it, ejecting it
+ * when it keeps failing
+ * @param failure Why the proxy failed, null when the request got through
+ */
+function recordOutcome(proxyUrl: string, failure: string | null) {
+  const state = getState(proxyUrl);
+  state.lastUsed = Date.now();
+
+  if (!failure) {
+    state.successes++;
+    state.consecutiveFailures = 0;
+    state.ejections = 0;
+    state.score = state.score * (1 - SCORE_WEIGHT) + SCORE_WEIGHT;
+    return;
+  }
+
+  state.failures++;
+  state.consecutiveFailures++;
+  state.lastError = failure;
+  state.score = state.score * (1 - SCORE_WEIGHT);
+
+  if (
+    state.consecutiveFailures >= poolOptions.maxFailures ||
+    state.score < poolOptions.minScore
+  ) {
+    eject(proxyUrl, state);
+  }
+}
+
+/**
+ * Stop sending requests through a proxy for a while
+ */
+function eject(proxyUrl: string, state: ProxyState) {
+  state.ejections++;
+  const ejectTime = Math.min(
+    poolOptions.ejectTime * Math.pow(2, state.ejections - 1),
+    poolOptions.maxEjectTime,
+  );
+  state.ejectedUntil = Date.now() + ejectTime;
+
+  console.warn(
+    `Proxy pool: ejected ${maskProxyUrl(proxyUrl)} for ${ejectTime}ms (${state.lastError})`,
+  );
+}
+
+/**
+ * Work out whether a failed request was the fault of the proxy
+ * @returns The reason, or null when the proxy did its job
+ */
+function getProxyFailure(result: FetchResult): string | null {
+  if (result.status === 407) {
+    return "HTTP 407 Proxy Authentication Required";
+  }
+  if (
+    result.status === 0 &&
+    result.error &&
+    PROXY_ERROR_PATTERN.test(result.error)
+  ) {
+    return result.error;
+  }
+  return null;
+}
+
+function getState(proxyUrl: string): ProxyState {
+  let state = proxyStates.get(proxyUrl);
+  if (!state) {
+    state = {
+      score: 1,
+      successes: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      ejections: 0,
+    };
+    proxyStates.set(proxyUrl, state);
+  }
+  return state;
+}
+
+function failedFetch(url: string, message: string): FetchResult {
+  return {
+    html: "",
+    text: "",
+    status: 0,
+    finalUrl: url,
+    headers: {},
+    error: `Error fetching content: ${message}`,
+  };
+}
+
+export default {
+  validateProxyPool,
+  fetchThroughProxyPool,
+  getProxyHealth,
+  probeProxyPool,
+  resetProxyHealth,
+  configureProxyPools,
+};
@@ -1,27 +1,94 @@
-import { ScrapingConfig } from "@/types/scraping";
+import { ScrapingConfig, ScrapingJob, ScrapingResult } from "@/types/scraping";
+import { generateUniqueId } from "@/lib/utils/ids";
+import { scrapeWebsite } from "./scraper";
+import { notifyResultChanges } from "./notifications";
+import { getRateLimiterState } from "./rateLimiter";
+import {
+  deleteScrapingJob,
+  getScrapingJobById,
+  getScrapingJobs,
+  saveScrapingJob,
+  saveScrapingResult,
+} from "./storage";
 
 /**
  * Scraping queue module
- * Handles job queue for scraping operations
+ * Persists jobs through the storage layer and runs them by priority with a
+ * pool of workers
  */
 
-// In-memory queue for simplicity
-const queue = new Map();
+export type QueueJobAction = "cancel" | "retry" | "reprioritize" | "remove";
+
+export interface QueueBatchResult {
+  updated: string[]; // IDs of the jobs the action was applied to
+  skipped: { id: string; error: string }[]; // Jobs in a state that does not allow it
+}
+
+export interface QueueWorkerOptions {
+  concurrency?: number; // Number of jobs processed at the same time
+  pollInterval?: number; // How often to look for runnable jobs, in milliseconds
+  retryDelay?: number; // Base delay before retrying a failed job, in milliseconds
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+const MAX_RETRY_DELAY = 15 * 60 * 1000; // Never back off longer than 15 minutes
+
+// Lower rank runs first
+const PRIORITY_RANK: Record<ScrapingJob["priority"], number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+};
+
+// Failures that will not go away by trying again
+const NON_RETRYABLE_CODES = ["ROBOTS_DISALLOWED", "INVALID_SELECTOR"];
+
+let workerOptions: Required<QueueWorkerOptions> = {
+  concurrency: parseInt(process.env.SCRAPING_QUEUE_CONCURRENCY || "2", 10),
+  pollInterval: 2000,
+  retryDelay: 30000,
+};
+let workerTimer: NodeJS.Timeout | null = null;
+let isDispatching = false;
+let hasRecovered = false;
+let isPaused = false;
+
+// Running jobs and the controllers that cancel them
+const activeJobs = new Map<
+  string,
+  { job: ScrapingJob; controller: AbortController }
+>();
+const removedJobs = new Set<string>();
+
+// Claims and control operations read and write jobs one at a time
+let queueLock: Promise<unknown> = Promise.resolve();
 
 /**
  * Add a job to the queue
  * @param config Scraping configuration
  * @returns Job ID
  */
-function addJob(config: ScrapingConfig): string {
-  const jobId = config.id || `job_${Date.now()}`;
-  queue.set(jobId, {
-    id: jobId,
+async function addJob(config: ScrapingConfig): Promise<string> {
+  const now = new Date().toISOString();
+  const job: ScrapingJob = {
+    id: `job_${generateUniqueId()}`,
     config,
     status: "pending",
-    createdAt: new Date().toISOString(),
-  });
-  return jobId;
+    priority: config.priority || "medium",
+    batchId: config.batchId,
+    progress: 0,
+    retryCount: 0,
+    maxRetries: config.maxRetries ?? DEFAULT_MAX_RETRIES,
+    resultIds: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await saveScrapingJob(job);
+  console.log(`Queue: added job ${job.id} (${job.priority} priority)`);
+
+  startWorkers();
+  return job.id;
 }
 
 /**
@@ -29,25 +96,485 @@ function addJob(config: ScrapingConfig): string {
  * @param jobId Job ID
  * @returns Job or null if not found
  */
-function getJob(jobId: string) {
-  return queue.get(jobId) || null;
+async function getJob(jobId: string): Promise<ScrapingJob | null> {
+  return getScrapingJobById(jobId);
 }
 
 /**
  * Get all jobs from the queue
- * @returns Array of all jobs
+ * @returns Array of all jobs, newest first
  */
-function getAllJobs() {
-  return Array.from(queue.values());
+async function getAllJobs(): Promise<ScrapingJob[]> {
+  const jobs = await getScrapingJobs();
+  return jobs.sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+  );
 }
 
 /**
  * Remove a job from the queue
+ * A running job is cancelled and not saved again
  * @param jobId Job ID
  * @returns True if removed, false if not found
  */
-function removeJob(jobId: string): boolean {
-  return queue.delete(jobId);
+async function removeJob(jobId: string): Promise<boolean> {
+  return withQueueLock(async () => {
+    const active = activeJobs.get(jobId);
+    if (active) {
+      removedJobs.add(jobId);
+      active.controller.abort();
+    }
+    return deleteScrapingJob(jobId);
+  });
+}
+
+/**
+ * Cancel a job
+ * Pending and retrying jobs are cancelled at once, while a running job is
+ * aborted and marked as cancelled when its scrape stops
+ * @param jobId Job ID
+ * @returns The job or null if not found
+ */
+async function cancelJob(jobId: string): Promise<ScrapingJob | null> {
+  return withQueueLock(async () => {
+    const active = activeJobs.get(jobId);
+    if (active) {
+      active.controller.abort();
+      return active.job;
+    }
+
+    const job = await getScrapingJobById(jobId);
+    if (!job) return null;
+
+    assertStatus(job, ["pending", "retrying"], "cancelled");
+    job.status = "cancelled";
+    job.stage = undefined;
+    job.nextAttemptAt = undefined;
+    job.completedAt = new Date().toISOString();
+    console.log(`Queue: cancelled job ${job.id}`);
+    return saveScrapingJob(job);
+  });
+}
+
+/**
+ * Put a failed, cancelled or retrying job back in the queue to run as soon as
+ * a worker is free, with its retry count reset
+ * @param jobId Job ID
+ * @returns The job or null if not found
+ */
+async function retryJob(jobId: string): Promise<ScrapingJob | null> {
+  return withQueueLock(async () => {
+    const job = activeJobs.get(jobId)?.job || (await getScrapingJobById(jobId));
+    if (!job) return null;
+
+    assertStatus(job, ["failed", "cancelled", "retrying"], "retried");
+    job.status = "pending";
+    job.progress = 0;
+    job.stage = undefined;
+    job.retryCount = 0;
+    job.error = undefined;
+    job.nextAttemptAt = undefined;
+    job.completedAt = undefined;
+    console.log(`Queue: requeued job ${job.id}`);
+    return saveScrapingJob(job);
+  });
+}
+
+/**
+ * Change the priority of a job that has not finished
+ * @param jobId Job ID
+ * @param priority New priority
+ * @returns The job or null if not found
+ */
+async function setJobPriority(
+  jobId: string,
+  priority: ScrapingJob["priority"],
+): Promise<ScrapingJob | null> {
+  if (!(priority in PRIORITY_RANK)) {
+    throw queueError(`Invalid priority: ${priority}`, 400);
+  }
+
+  return withQueueLock(async () => {
+    const job = activeJobs.get(jobId)?.job || (await getScrapingJobById(jobId));
+    if (!job) return null;
+
+    assertStatus(job, ["pending", "retrying", "processing"], "reprioritized");
+    job.priority = priority;
+    return saveScrapingJob(job);
+  });
+}
+
+/**
+ * Apply an action to a single job
+ * @param jobId Job ID
+ * @param action Action to apply
+ * @param priority New priority, for "reprioritize"
+ * @returns The updated job, true for a removed job, or null if not found
+ */
+async function applyJobAction(
+  jobId: string,
+  action: QueueJobAction,
+  priority?: ScrapingJob["priority"],
+): Promise<ScrapingJob | boolean | null> {
+  switch (action) {
+    case "cancel":
+      return cancelJob(jobId);
+    case "retry":
+      return retryJob(jobId);
+    case "reprioritize":
+      return setJobPriority(jobId, priority as ScrapingJob["priority"]);
+    case "remove":
+      return (await removeJob(jobId)) || null;
+    default:
+      throw queueError(`Unknown queue action: ${action}`, 400);
+  }
+}
+
+/**
+ * Apply an action to every job of a batch
+ * Jobs whose state does not allow the action are skipped and reported
+ * @param batchId Batch ID
+ * @param action Action to apply
+ * @param priority New priority, for "reprioritize"
+ * @returns The updated and skipped jobs
+ */
+async function applyBatchAction(
+  batchId: string,
+  action: QueueJobAction,
+  priority?: ScrapingJob["priority"],
+): Promise<QueueBatchResult> {
+  const jobs = (await getScrapingJobs()).filter(
+    (job) => job.batchId === batchId,
+  );
+  const result: QueueBatchResult = { updated: [], skipped: [] };
+
+  for (const job of jobs) {
+    try {
+      if (await applyJobAction(job.id, action, priority)) {
+        result.updated.push(job.id);
+      }
+    } catch (error: any) {
+      if (!error?.status || error.status >= 500) throw error;
+      result.skipped.push({ id: job.id, error: error.message });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Stop starting new jobs; running jobs are allowed to finish
+ */
+function pauseQueue() {
+  isPaused = true;
+  console.log("Queue: paused");
+}
+
+/**
+ * Start processing jobs again after pauseQueue
+ */
+function resumeQueue() {
+  isPaused = false;
+  console.log("Queue: resumed");
+  startWorkers();
+  void dispatchJobs();
+}
+
+/**
+ * Start the queue workers
+ * Safe to call repeatedly; later calls only update the options
+ * @param options Worker options
+ */
+function startWorkers(options: QueueWorkerOptions = {}) {
+  workerOptions = { ...workerOptions, ...options };
+
+  if (workerTimer) return;
+
+  console.log(
+    `Queue: starting workers (concurrency ${workerOptions.concurrency})`,
+  );
+  workerTimer = setInterval(() => {
+    void dispatchJobs();
+  }, workerOptions.pollInterval);
+  void dispatchJobs();
+}
+
+/**
+ * Stop picking up new jobs
+ * Jobs that are already running are allowed to finish
+ */
+function stopWorkers() {
+  if (workerTimer) {
+    clearInterval(workerTimer);
+    workerTimer = null;
+    console.log("Queue: workers stopped");
+  }
+}
+
+/**
+ * Get the state of the queue, its workers and the rate limiter of each host
+ */
+function getQueueState() {
+  return {
+    paused: isPaused,
+    running: workerTimer !== null,
+    concurrency: workerOptions.concurrency,
+    activeJobs: Array.from(activeJobs.keys()),
+    rateLimits: getRateLimiterState(),
+  };
+}
+
+/**
+ * Claim runnable jobs until every worker is busy
+ */
+async function dispatchJobs() {
+  if (isDispatching || isPaused) return;
+  isDispatching = true;
+
+  try {
+    if (!hasRecovered) {
+      await withQueueLock(recoverInterruptedJobs);
+      hasRecovered = true;
+    }
+
+    while (
+      workerTimer &&
+      !isPaused &&
+      activeJobs.size < workerOptions.concurrency
+    ) {
+      const controller = new AbortController();
+      const job = await withQueueLock(async () => {
+        const claimed = await claimNextJob();
+        if (claimed) activeJobs.set(claimed.id, { job: claimed, controller });
+        return claimed;
+      });
+      if (!job) break;
+
+      void runJob(job, controller.signal).finally(() => {
+        activeJobs.delete(job.id);
+        removedJobs.delete(job.id);
+      });
+    }
+  } catch (error) {
+    console.error("Queue: error dispatching jobs:", error);
+  } finally {
+    isDispatching = false;
+  }
+}
+
+/**
+ * Put jobs left "processing" by a previous process back in the queue
+ */
+async function recoverInterruptedJobs() {
+  const jobs = await getScrapingJobs();
+
+  for (const job of jobs) {
+    if (job.status === "processing" && !activeJobs.has(job.id)) {
+      console.log(`Queue: requeueing interrupted job ${job.id}`);
+      job.status = "pending";
+      job.progress = 0;
+      job.stage = "Interrupted, waiting to restart";
+      await saveScrapingJob(job);
+    }
+  }
+}
+
+/**
+ * Pick the highest-priority runnable job and mark it as processing
+ * @returns The claimed job or null if nothing is runnable
+ */
+async function claimNextJob(): Promise<ScrapingJob | null> {
+  const now = Date.now();
+  const runnable = (await getScrapingJobs())
+    .filter(
+      (job) =>
+        !activeJobs.has(job.id) &&
+        (job.status === "pending" ||
+          (job.status === "retrying" &&
+            (!job.nextAttemptAt ||
+              new Date(job.nextAttemptAt).getTime() <= now))),
+    )
+    .sort(
+      (a, b) =>
+        PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+    );
+
+  const job = runnable[0];
+  if (!job) return null;
+
+  job.status = "processing";
+  job.progress = 0;
+  job.stage = "Starting";
+  job.startedAt = new Date().toISOString();
+  job.nextAttemptAt = undefined;
+  await saveScrapingJob(job);
+  return job;
+}
+
+/**
+ * Scrape every URL of a job, save the results and record the outcome
+ */
+async function runJob(job: ScrapingJob, signal: AbortSignal) {
+  const urls =
+    job.config.mode === "multiple" && job.config.urls?.length
+      ? job.config.urls
+      : [job.config.url];
+  const failures: string[] = [];
+  let retryable = false;
+
+  // Progress updates are saved in order without blocking the scrape
+  let saving: Promise<unknown> = Promise.resolve();
+  const persist = () => {
+    saving = saving
+      .then(() => (removedJobs.has(job.id) ? null : saveScrapingJob(job)))
+      .catch((error) =>
+        console.error(`Queue: error saving job ${job.id}:`, error),
+      );
+  };
+
+  console.log(`Queue: running job ${job.id} (${urls.length} URL(s))`);
+
+  try {
+    for (let i = 0; i < urls.length && !signal.aborted; i++) {
+      const result = await scrapeWebsite(
+        { ...job.config, url: urls[i] },
+        (progress, stage) => {
+          job.progress = Math.round(((i + progress / 100) / urls.length) * 100);
+          job.stage =
+            urls.length > 1 ? `${stage} (${i + 1}/${urls.length})` : stage;
+          persist();
+        },
+        signal,
+      );
+
+      // The partial result of a cancelled scrape is not kept
+      if (signal.aborted) break;
+
+      result.metadata = {
+        ...result.metadata,
+        jobId: job.id,
+        ...(job.batchId && { batchId: job.batchId }),
+      };
+      const saved = await saveScrapingResult(result);
+      job.resultIds.push(saved.id);
+
+      // Alerts are delivered in the background so they never hold up the job
+      notifyResultChanges(job.config, saved).catch((error) =>
+        console.error(`Queue: error sending alerts for ${saved.id}:`, error),
+      );
+
+      if (result.status === "failed") {
+        failures.push(`${urls[i]}: ${describeFailure(result)}`);
+        retryable = retryable || isRetryableFailure(result);
+      }
+    }
+
+    if (signal.aborted) {
+      job.status = "cancelled";
+      job.stage = undefined;
+      job.completedAt = new Date().toISOString();
+      console.log(`Queue: job ${job.id} cancelled`);
+    } else if (failures.length === urls.length) {
+      throw new Error(failures.join("; "));
+    } else {
+      job.status = "completed";
+      job.progress = 100;
+      job.stage = undefined;
+      job.error =
+        failures.length > 0
+          ? `Some URLs failed: ${failures.join("; ")}`
+          : undefined;
+      job.completedAt = new Date().toISOString();
+      console.log(`Queue: job ${job.id} completed`);
+    }
+  } catch (error: any) {
+    job.error = error?.message || "Unknown error occurred";
+    job.retryCount++;
+
+    // Scrapes that threw are always worth another attempt
+    const canRetry = failures.length < urls.length || retryable;
+
+    if (canRetry && job.retryCount <= job.maxRetries) {
+      const delay = Math.min(
+        workerOptions.retryDelay * Math.pow(2, job.retryCount - 1),
+        MAX_RETRY_DELAY,
+      );
+      job.status = "retrying";
+      job.stage = `Retrying in ${Math.round(delay / 1000)}s`;
+      job.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+      console.warn(
+        `Queue: job ${job.id} failed (attempt ${job.retryCount}/${job.maxRetries + 1}), retrying in ${delay}ms`,
+      );
+    } else {
+      job.status = "failed";
+      job.stage = undefined;
+      job.completedAt = new Date().toISOString();
+      console.error(`Queue: job ${job.id} failed: ${job.error}`);
+    }
+  }
+
+  await saving;
+  if (!removedJobs.has(job.id)) {
+    await saveScrapingJob(job);
+  }
+}
+
+/**
+ * Run an operation once every earlier claim or control operation finished
+ */
+function withQueueLock<T>(operation: () => Promise<T>): Promise<T> {
+  const run = queueLock.then(operation);
+  queueLock = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Build an error carrying the HTTP status the API should answer with
+ */
+function queueError(message: string, status: number): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+/**
+ * Throw a 409 error unless the job is in one of the allowed states
+ */
+function assertStatus(
+  job: ScrapingJob,
+  allowed: ScrapingJob["status"][],
+  action: string,
+) {
+  if (!allowed.includes(job.status)) {
+    throw queueError(
+      `Job ${job.id} is ${job.status} and cannot be ${action}`,
+      409,
+    );
+  }
+}
+
+/**
+ * Summarize the errors of a failed result
+ */
+function describeFailure(result: ScrapingResult): string {
+  const errors = result.metadata?.errors || [];
+  return errors.length > 0
+    ? errors.map((error) => error.message).join(", ")
+    : "Scraping failed";
+}
+
+/**
+ * Check if a failed result could succeed on another attempt
+ * Client errors such as 404 and robots.txt blocks are permanent
+ */
+function isRetryableFailure(result: ScrapingResult): boolean {
+  return (result.metadata?.errors || []).some((error) => {
+    if (NON_RETRYABLE_CODES.includes(error.code)) return false;
+    if (error.code === "HTTP_ERROR") {
+      const status = error.details?.status || 0;
+      return status >= 500 || status === 408 || status === 429;
+    }
+    return true;
+  });
 }
 
 export default {
@@ -55,4 +582,14 @@ export default {
   getJob,
   getAllJobs,
   removeJob,
+  cancelJob,
+  retryJob,
+  setJobPriority,
+  applyJobAction,
+  applyBatchAction,
+  pauseQueue,
+  resumeQueue,
+  getQueueState,
+  startWorkers,
+  stopWorkers,
 };
@@ -0,0 +1,462 @@
+/**
+ * Rate limiter module
+ * Paces the requests of every configuration to a host through one token
+ * bucket per hostname, caps the requests in flight per host and backs off
+ * when a host answers 429 or 503, honouring Retry-After. Domains can have
+ * limits of their own, which are kept in storage
+ */
+
+import { DomainRateLimit, HostRateLimitState } from "@/types/scraping";
+import {
+  deleteDomainRateLimit,
+  getDomainRateLimits,
+  saveDomainRateLimit,
+} from "./storage";
+import { parseRetryAfter } from "./fetcher";
+
+export interface RateLimitDefaults {
+  requestsPerSecond: number;
+  burst: number;
+  maxConcurrency: number;
+}
+
+/**
+ * Hands a request slot back once the response arrived
+ * @param status HTTP status of the response, 0 when none was received
+ * @param headers Response headers, read for Retry-After
+ */
+export type RateLimitRelease = (
+  status: number,
+  headers?: Record<string, string>,
+) => void;
+
+// Statuses that make the limiter back off from a host
+export const BACKOFF_STATUSES = [429, 503];
+const BASE_BACKOFF = 1000; // Doubled for each backoff in a row
+const MAX_BACKOFF = 10 * 60 * 1000;
+const MAX_SLOWDOWN = 16;
+const SLOWDOWN_RECOVERY = 0.75; // Applied to the slowdown after each successful response
+const IDLE_HOST_TIME = 10 * 60 * 1000; // Idle hosts are forgotten after this long
+const PRUNE_INTERVAL = 60 * 1000; // Requests look for idle hosts at most this often
+const ABORTED_MESSAGE = "Request aborted";
+
+let defaults: RateLimitDefaults = {
+  requestsPerSecond: process.env.RATE_LIMIT_RPS
+    ? parseFloat(process.env.RATE_LIMIT_RPS)
+    : 5,
+  burst: process.env.RATE_LIMIT_BURST
+    ? parseInt(process.env.RATE_LIMIT_BURST, 10)
+    : 10,
+  maxConcurrency: process.env.RATE_LIMIT_CONCURRENCY
+    ? parseInt(process.env.RATE_LIMIT_CONCURRENCY, 10)
+    : 4,
+};
+
+interface Waiter {
+  minInterval: number;
+  resolve: (release: RateLimitRelease) => void;
+}
+
+interface HostState {
+  tokens: number;
+  refilledAt: number;
+  lastStartAt: number;
+  lastUsedAt: number;
+  active: number;
+  waiters: Waiter[];
+  slowdown: number;
+  backoffUntil: number;
+  backoffLevel: number;
+  lastStatus?: number;
+  timer?: NodeJS.Timeout;
+}
+
+const hosts = new Map<string, HostState>();
+let prunedAt = Date.now();
+
+// Domain overrides keyed by domain, loaded from storage on first use
+let overrides: Map<string, DomainRateLimit> | null = null;
+let loadingOverrides: Promise<void> | null = null;
+
+/**
+ * Change the limits used for domains without limits of their own
+ */
+export function configureRateLimiter(options: Partial<RateLimitDefaults>) {
+  defaults = { ...defaults, ...options };
+}
+
+/**
+ * Get the limits used for domains without limits of their own
+ */
+export function getRateLimitDefaults(): RateLimitDefaults {
+  return { ...defaults };
+}
+
+/**
+ * Check the rate limits of a domain before they are saved
+ * @returns The problems found, empty if the limits are valid
+ */
+export function validateDomainRateLimit(limit: any): string[] {
+  if (!limit || typeof limit !== "object") {
+    return ["rate limit must be an object"];
+  }
+
+  const errors: string[] = [];
+  if (
+    typeof limit.domain !== "string" ||
+    !/^[a-z0-9-]+(\.[a-z0-9-]+)*$/i.test(limit.domain)
+  ) {
+    errors.push("domain must be a hostname such as example.com");
+  }
+  if (
+    limit.requestsPerSecond !== undefined &&
+    (typeof limit.requestsPerSecond !== "number" ||
+      !(limit.requestsPerSecond > 0))
+  ) {
+    errors.push("requestsPerSecond must be a positive number");
+  }
+  for (const field of ["burst", "maxConcurrency"]) {
+    if (
+      limit[field] !== undefined &&
+      (!Number.isInteger(limit[field]) || limit[field] < 1)
+    ) {
+      errors.push(`${field} must be a positive integer`);
+    }
+  }
+  if (
+    limit.requestsPerSecond === undefined &&
+    limit.burst === undefined &&
+    limit.maxConcurrency === undefined
+  ) {
+    errors.push("Set at least one of requestsPerSecond, burst, maxConcurrency");
+  }
+
+  return errors;
+}
+
+/**
+ * Get the domains with limits of their own
+ */
+export async function getDomainOverrides(): Promise<DomainRateLimit[]> {
+  await loadOverrides();
+  return Array.from(overrides!.values()).sort((a, b) =>
+    a.domain.localeCompare(b.domain),
+  );
+}
+
+/**
+ * Save the limits of a domain and apply them to the next requests
+ * @returns The saved limits
+ */
+export async function setDomainRateLimit(
+  limit: DomainRateLimit,
+): Promise<DomainRateLimit> {
+  await loadOverrides();
+  const saved = await saveDomainRateLimit({
+    domain: limit.domain.toLowerCase(),
+    requestsPerSecond: limit.requestsPerSecond,
+    burst: limit.burst,
+    maxConcurrency: limit.maxConcurrency,
+  });
+  overrides!.set(saved.domain, saved);
+  wakeAll();
+  return saved;
+}
+
+/**
+ * Remove the limits of a domain, so the defaults apply again
+ * @returns True if the domain had limits of its own
+ */
+export async function removeDomainRateLimit(domain: string): Promise<boolean> {
+  await loadOverrides();
+  const key = domain.toLowerCase();
+  if (!overrides!.has(key)) return false;
+
+  await deleteDomainRateLimit(key);
+  overrides!.delete(key);
+  wakeAll();
+  return true;
+}
+
+/**
+ * Wait for a request slot for the host of a URL
+ * Resolves once the host has a free slot, a token in its bucket, no backoff
+ * in progress and minInterval has passed since its last request started
+ * @param url URL about to be requested
+ * @param minInterval Minimum time since the last request to the host, such
+ * as rateLimitDelay
+ * @param signal Optional signal that stops waiting
+ * @returns A function to call with the response once it arrived
+ * @throws When the signal aborts while waiting
+ */
+export async function acquireRequestSlot(
+  url: string,
+  minInterval = 0,
+  signal?: AbortSignal,
+): Promise<RateLimitRelease> {
+  await loadOverrides();
+  if (signal?.aborted) throw new Error(ABORTED_MESSAGE);
+
+  // Crawls across many hosts would otherwise keep every host forever
+  if (Date.now() - prunedAt >= PRUNE_INTERVAL) pruneIdleHosts();
+
+  const host = new URL(url).hostname.toLowerCase();
+  const state = getHostState(host);
+
+  return new Promise<RateLimitRelease>((resolve, reject) => {
+    const waiter: Waiter = {
+      minInterval,
+      resolve: (release) => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(release);
+      },
+    };
+    const onAbort = () => {
+      const index = state.waiters.indexOf(waiter);
+      if (index !== -1) state.waiters.splice(index, 1);
+      reject(new Error(ABORTED_MESSAGE));
+      schedule(host);
+    };
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+    state.waiters.push(waiter);
+    schedule(host);
+  });
+}
+
+/**
+ * Get the state of the limiter for every host it has seen recently
+ */
+export function getRateLimiterState(): HostRateLimitState[] {
+  pruneIdleHosts();
+
+  return Array.from(hosts.entries())
+    .map(([host, state]) => {
+      const limits = getLimits(host);
+      refill(state, limits);
+      return {
+        host,
+        domain: limits.domain,
+        requestsPerSecond:
+          Math.round((limits.requestsPerSecond / state.slowdown) * 100) / 100,
+        burst: limits.burst,
+        maxConcurrency: limits.maxConcurrency,
+        tokens: Math.floor(state.tokens * 100) / 100,
+        active: state.active,
+        waiting: state.waiters.length,
+        slowdown: Math.round(state.slowdown * 100) / 100,
+        backoffUntil:
+          state.backoffUntil > Date.now()
+            ? new Date(state.backoffUntil).toISOString()
+            : undefined,
+        lastStatus: state.lastStatus,
+      };
+    })
+    .sort((a, b) => a.host.localeCompare(b.host));
+}
+
+/**
+ * Forget the state of every host, e.g. between tests
+ * Requests waiting for a slot keep waiting on the fresh state
+ */
+export function resetRateLimiter(): void {
+  for (const [host, state] of Array.from(hosts.entries())) {
+    if (state.active === 0 && state.waiters.length === 0) {
+      if (state.timer) clearTimeout(state.timer);
+      hosts.delete(host);
+    }
+  }
+  overrides = null;
+}
+
+/**
+ * Start every waiting request of a host that may start now, and set a timer
+ * for the first one that may not
+ */
+function schedule(host: string) {
+  const state = hosts.get(host);
+  if (!state) return;
+  if (state.timer) {
+    clearTimeout(state.timer);
+    state.timer = undefined;
+  }
+
+  const limits = getLimits(host);
+
+  while (state.waiters.length > 0) {
+    if (state.active >= limits.maxConcurrency) return; // A release schedules again
+
+    const now = Date.now();
+    refill(state, limits);
+    const rate = limits.requestsPerSecond / state.slowdown;
+    const waiter = state.waiters[0];
+    const wait = Math.max(
+      state.backoffUntil - now,
+      state.lastStartAt + waiter.minInterval - now,
+      state.tokens >= 1 ? 0 : ((1 - state.tokens) / rate) * 1000,
+    );
+
+    if (wait > 0) {
+      state.timer = setTimeout(() => schedule(host), Math.ceil(wait));
+      return;
+    }
+
+    state.waiters.shift();
+    state.tokens -= 1;
+    state.active++;
+    state.lastStartAt = now;
+    state.lastUsedAt = now;
+    waiter.resolve(createRelease(host, state));
+  }
+}
+
+/**
+ * Create the release function of a granted request slot, which may only
+ * be called once
+ */
+function createRelease(host: string, state: HostState): RateLimitRelease {
+  let released = false;
+
+  return (status, headers = {}) => {
+    if (released) return;
+    released = true;
+
+    const now = Date.now();
+    state.active--;
+    state.lastUsedAt = now;
+    state.lastStatus = status || state.lastStatus;
+
+    if (BACKOFF_STATUSES.includes(status)) {
+      const backoff =
+        parseRetryAfter(headers["retry-after"], MAX_BACKOFF) ??
+        Math.min(BASE_BACKOFF * Math.pow(2, state.backoffLevel), MAX_BACKOFF);
+      state.backoffLevel++;
+      state.slowdown = Math.min(state.slowdown * 2, MAX_SLOWDOWN);
+      state.backoffUntil = Math.max(state.backoffUntil, now + backoff);
+      state.tokens = 0;
+      console.warn(
+        `Rate limiter: ${host} answered ${status}, pausing requests for ${backoff}ms`,
+      );
+    } else if (status > 0 && status < 500) {
+      state.backoffLevel = 0;
+      state.slowdown = Math.max(1, state.slowdown * SLOWDOWN_RECOVERY);
+    }
+
+    schedule(host);
+  };
+}
+
+/**
+ * Add the tokens earned since the last refill, up to the burst size
+ */
+function refill(
+  state: HostState,
+  limits: RateLimitDefaults & { domain?: string },
+) {
+  const now = Date.now();
+  const rate = limits.requestsPerSecond / state.slowdown;
+  state.tokens = Math.min(
+    limits.burst,
+    state.tokens + ((now - state.refilledAt) / 1000) * rate,
+  );
+  state.refilledAt = now;
+}
+
+/**
+ * Get the limits of a host: those of the most specific domain covering it,
+ * or the defaults
+ */
+function getLimits(host: string): RateLimitDefaults & { domain?: string } {
+  let match: DomainRateLimit | undefined;
+
+  for (const limit of Array.from(overrides?.values() || [])) {
+    if (host !== limit.domain && !host.endsWith(`.${limit.domain}`)) continue;
+    if (!match || limit.domain.length > match.domain.length) match = limit;
+  }
+
+  return {
+    domain: match?.domain,
+    requestsPerSecond: match?.requestsPerSecond ?? defaults.requestsPerSecond,
+    burst: match?.burst ?? defaults.burst,
+    maxConcurrency: match?.maxConcurrency ?? defaults.maxConcurrency,
+  };
+}
+
+function getHostState(host: string): HostState {
+  let state = hosts.get(host);
+  if (!state) {
+    const now = Date.now();
+    state = {
+      tokens: getLimits(host).burst,
+      refilledAt: now,
+      lastStartAt: 0,
+      lastUsedAt: now,
+      active: 0,
+      waiters: [],
+      slowdown: 1,
+      backoffUntil: 0,
+      backoffLevel: 0,
+    };
+    hosts.set(host, state);
+  }
+  return state;
+}
+
+/**
+ * Re-check every host after its limits changed
+ */
+function wakeAll() {
+  for (const host of Array.from(hosts.keys())) schedule(host);
+}
+
+/**
+ * Forget hosts that have been idle for a while
+ */
+function pruneIdleHosts() {
+  prunedAt = Date.now();
+  const cutoff = prunedAt - IDLE_HOST_TIME;
+  for (const [host, state] of Array.from(hosts.entries())) {
+    if (
+      state.active === 0 &&
+      state.waiters.length === 0 &&
+      state.lastUsedAt < cutoff &&
+      state.backoffUntil < Date.now()
+    ) {
+      hosts.delete(host);
+    }
+  }
+}
+
+/**
+ * Load the domain overrides from storage once
+ */
+function loadOverrides(): Promise<void> {
+  if (overrides) return Promise.resolve();
+
+  if (!loadingOverrides) {
+    loadingOverrides = getDomainRateLimits()
+      .then((limits) => {
+        overrides = new Map(limits.map((limit) => [limit.domain, limit]));
+      })
+      .catch((error) => {
+        console.error("Rate limiter: could not load domain limits:", error);
+        overrides = new Map();
+      })
+      .finally(() => {
+        loadingOverrides = null;
+      });
+  }
+  return loadingOverrides;
+}
+
+export default {
+  acquireRequestSlot,
+  getRateLimiterState,
+  getRateLimitDefaults,
+  getDomainOverrides,
+  setDomainRateLimit,
+  removeDomainRateLimit,
+  validateDomainRateLimit,
+  configureRateLimiter,
+  resetRateLimiter,
+};
@@ -0,0 +1,551 @@
+/**
+ * Renderer module
+ * Turns a URL into HTML through a pluggable renderer: the static renderer
+ * fetches the HTML as served, the chromium renderer loads the page in
+ * headless Chromium so its JavaScript runs before the HTML is read
+ */
+
+import type {
+  Browser,
+  BrowserContext,
+  HTTPRequest,
+  Page,
+} from "puppeteer-core";
+import {
+  FetchResult,
+  PageAction,
+  PageActionResult,
+  RenderingInfo,
+  ScrapingConfig,
+} from "@/types/scraping";
+import {
+  RETRYABLE_STATUSES,
+  fetchWebsiteContent,
+  getUserAgent,
+  htmlToText,
+} from "./fetcher";
+import {
+  DEFAULT_MAX_SCROLLS,
+  runPageActions,
+  scrollToBottom,
+} from "./pageActions";
+import { fetchThroughProxyPool } from "./proxyPool";
+import {
+  BACKOFF_STATUSES,
+  RateLimitRelease,
+  acquireRequestSlot,
+} from "./rateLimiter";
+
+type FetchOptions = ScrapingConfig["options"];
+
+export interface Renderer {
+  name: string;
+  /**
+   * Render a page
+   * Failures of the page itself are reported through the `error` field of
+   * the result; throws only when the renderer cannot run at all, in which
+   * case the static renderer is used instead
+   */
+  render: (
+    url: string,
+    options: Partial<FetchOptions>,
+    signal?: AbortSignal,
+    actions?: PageAction[],
+  ) => Promise<FetchResult>;
+}
+
+export interface ChromiumOptions {
+  executablePath?: string; // Chromium or Chrome binary, rendering is disabled without one
+  launchArgs?: string[]; // Extra command line arguments for the browser
+}
+
+const DEFAULT_TIMEOUT = 30000;
+const MAX_BACKOFF_ATTEMPTS = 3; // Attempts at a page answering 429 or 503
+const NETWORK_IDLE_TIME = 500;
+
+let chromiumOptions: ChromiumOptions = {
+  executablePath:
+    process.env.CHROMIUM_PATH || process.env.PUPPETEER_EXECUTABLE_PATH,
+  launchArgs: process.env.CHROMIUM_ARGS
+    ? process.env.CHROMIUM_ARGS.split(" ").filter(Boolean)
+    : ["--no-sandbox", "--disable-dev-shm-usage"],
+};
+
+// The running browser, shared by every render; proxies are set per context
+let browser: Promise<Browser> | null = null;
+
+const renderers = new Map<string, Renderer>();
+
+/**
+ * Change how Chromium is launched
+ * Defaults come from CHROMIUM_PATH (or PUPPETEER_EXECUTABLE_PATH) and
+ * CHROMIUM_ARGS; the running browser is closed so the change applies to the
+ * next render
+ */
+export async function configureChromium(options: ChromiumOptions) {
+  chromiumOptions = { ...chromiumOptions, ...options };
+  await closeBrowsers();
+}
+
+/**
+ * Register a renderer, replacing any renderer with the same name
+ */
+export function registerRenderer(renderer: Renderer): void {
+  renderers.set(renderer.name, renderer);
+}
+
+/**
+ * Get the name of the renderer the scraping options ask for
+ * Pages with actions to run need a browser even without handleDynamicContent
+ */
+export function getRendererName(
+  options: Partial<FetchOptions>,
+  actions: PageAction[] = [],
+): string {
+  return (
+    options.renderer ||
+    (options.handleDynamicContent || actions.length > 0 ? "chromium" : "static")
+  );
+}
+
+/**
+ * Fetch a page with the renderer the scraping options ask for
+ * Falls back to the static renderer when that renderer is unknown or cannot
+ * run, and records the renderer used and its timings on the result. Pages
+ * of configurations with a proxy pool go through a proxy of the pool, and
+ * every page waits for a request slot from the rate limiter of its host.
+ * Pages answering 429 or 503 are retried once the limiter's backoff is over
+ * @param url URL to render
+ * @param options Scraping options from the configuration
+ * @param signal Optional signal that aborts rendering
+ * @param actions Page actions to run before the HTML is read, skipped when
+ * the renderer cannot run them
+ */
+export async function renderPage(
+  url: string,
+  options: Partial<FetchOptions> = {},
+  signal?: AbortSignal,
+  actions: PageAction[] = [],
+): Promise<FetchResult> {
+  if (options.proxyPoolId) {
+    const { proxyPoolId, ...direct } = options;
+    return fetchThroughProxyPool(
+      proxyPoolId,
+      url,
+      (proxyUrl) => renderPage(url, { ...direct, proxyUrl }, signal, actions),
+      signal,
+    );
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    const result = await renderWithSlot(url, options, signal, actions);
+    if (
+      !BACKOFF_STATUSES.includes(result.status) ||
+      attempt >= MAX_BACKOFF_ATTEMPTS ||
+      signal?.aborted
+    ) {
+      return result;
+    }
+
+    console.warn(
+      `Renderer: ${url} returned ${result.status}, retrying after the rate limiter's backoff (attempt ${attempt}/${MAX_BACKOFF_ATTEMPTS})`,
+    );
+  }
+}
+
+/**
+ * Render a page in a request slot of its host, handing each response to
+ * the rate limiter so it can back off from throttled hosts
+ */
+async function renderWithSlot(
+  url: string,
+  options: Partial<FetchOptions>,
+  signal?: AbortSignal,
+  actions: PageAction[] = [],
+): Promise<FetchResult> {
+  let release: RateLimitRelease;
+  try {
+    release = await acquireRequestSlot(url, options.rateLimitDelay, signal);
+  } catch (error) {
+    return {
+      html: "",
+      text: "",
+      status: 0,
+      finalUrl: url,
+      headers: {},
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  let result: FetchResult | undefined;
+  try {
+    result = await renderWithFallback(url, options, signal, actions);
+    return result;
+  } finally {
+    release(result?.status || 0, result?.headers);
+  }
+}
+
+/**
+ * Render a page with the renderer the options ask for, falling back to the
+ * static renderer
+ */
+async function renderWithFallback(
+  url: string,
+  options: Partial<FetchOptions>,
+  signal?: AbortSignal,
+  actions: PageAction[] = [],
+): Promise<FetchResult> {
+  const name = getRendererName(options, actions);
+  const renderer = renderers.get(name);
+  const startTime = Date.now();
+  let fallbackReason = `Unknown renderer "${name}"`;
+
+  if (renderer) {
+    try {
+      const result = await renderer.render(url, options, signal, actions);
+      return {
+        ...result,
+        rendering: result.rendering || {
+          renderer: name,
+          timings: { total: Date.now() - startTime },
+        },
+      };
+    } catch (error) {
+      fallbackReason = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  const result = await staticRenderer.render(url, options, signal, actions);
+  return {
+    ...result,
+    rendering: {
+      ...result.rendering!,
+      requestedRenderer: name,
+      fallbackReason,
+    },
+  };
+}
+
+/**
+ * Close the browser started by the chromium renderer
+ */
+export async function closeBrowsers(): Promise<void> {
+  const running = browser;
+  browser = null;
+  if (!running) return;
+
+  try {
+    await (await running).close();
+  } catch (error) {
+    // The browser failed to start or is already closed
+  }
+}
+
+/**
+ * Fetch the HTML as served, without running any JavaScript or page actions
+ */
+export const staticRenderer: Renderer = {
+  name: "static",
+  render: async (url, options, signal, actions = []) => {
+    const startTime = Date.now();
+    // renderPage retries 429 and 503 through the rate limiter
+    const result = await fetchWebsiteContent(
+      url,
+      false,
+      options,
+      signal,
+      RETRYABLE_STATUSES.filter((status) => !BACKOFF_STATUSES.includes(status)),
+    );
+    return {
+      ...result,
+      rendering: {
+        renderer: "static",
+        timings: { total: Date.now() - startTime },
+        ...(actions.length > 0 && { actions: skipActions(actions) }),
+      },
+    };
+  },
+};
+
+/**
+ * Load the page in headless Chromium and read the HTML once it has rendered
+ */
+export const chromiumRenderer: Renderer = {
+  name: "chromium",
+  render: async (url, options, signal, actions = []) => {
+    const startTime = Date.now();
+    // A context of its own keeps cookies from leaking between renders
+    const context = await createContext(options.proxyUrl);
+    const page = await context.newPage();
+    const closePage = () => {
+      context.close().catch(() => {});
+    };
+    signal?.addEventListener("abort", closePage);
+
+    const rendering: RenderingInfo = {
+      renderer: "chromium",
+      timings: { total: 0 },
+    };
+
+    try {
+      await preparePage(page, url, options, rendering);
+      const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+
+      const response = await page.goto(url, {
+        waitUntil: options.waitForNetworkIdle ? "networkidle2" : "load",
+        timeout,
+      });
+      rendering.timings.navigation = Date.now() - startTime;
+
+      const waitStart = Date.now();
+      if (options.waitForSelector) {
+        rendering.selectorFound = await page
+          .waitForSelector(options.waitForSelector, { timeout })
+          .then(() => true)
+          .catch(() => false);
+      }
+      rendering.timings.wait = Date.now() - waitStart;
+
+      if (actions.length > 0) {
+        const actionsStart = Date.now();
+        const outcome = await runPageActions(page, actions);
+        rendering.actions = outcome.results;
+        rendering.extracted = outcome.extracted;
+        rendering.timings.actions = Date.now() - actionsStart;
+        if (outcome.error) throw new Error(outcome.error);
+      }
+
+      if (options.scrollToBottom) {
+        const scrollStart = Date.now();
+        rendering.scrolls = await scrollToBottom(
+          page,
+          options.maxScrolls ?? DEFAULT_MAX_SCROLLS,
+        );
+        if (options.waitForNetworkIdle) {
+          await page
+            .waitForNetworkIdle({ idleTime: NETWORK_IDLE_TIME, timeout })
+            .catch(() => {});
+        }
+        rendering.timings.scroll = Date.now() - scrollStart;
+      }
+
+      const html = await page.content();
+      const status = response ? response.status() : 0;
+      rendering.timings.total = Date.now() - startTime;
+
+      return {
+        html,
+        text: htmlToText(html),
+        status,
+        finalUrl: page.url(),
+        headers: response ? response.headers() : {},
+        error:
+          status >= 400
+            ? `HTTP ${status} ${response!.statusText()}`
+            : undefined,
+        rendering,
+      };
+    } catch (error) {
+      rendering.timings.total = Date.now() - startTime;
+      const message = signal?.aborted
+        ? "Request aborted"
+        : error instanceof Error
+          ? error.message
+          : String(error);
+
+      return {
+        html: "",
+        text: "",
+        status: 0,
+        finalUrl: url,
+        headers: {},
+        error: `Error rendering content: ${message}`,
+        rendering,
+      };
+    } finally {
+      signal?.removeEventListener("abort", closePage);
+      closePage();
+    }
+  },
+};
+
+registerRenderer(staticRenderer);
+registerRenderer(chromiumRenderer);
+
+/**
+ * Run a function on a Chromium page prepared with the scraping options, in a
+ * browser context of its own that is closed afterwards
+ * @param url URL the page will load, cookies from the options are set for it
+ * @throws When Chromium cannot run or the function throws
+ */
+export async function withBrowserPage<T>(
+  url: string,
+  options: Partial<FetchOptions>,
+  run: (page: Page) => Promise<T>,
+): Promise<T> {
+  const context = await createContext(options.proxyUrl);
+
+  try {
+    const page = await context.newPage();
+    await preparePage(page, url, options, {
+      renderer: "chromium",
+      timings: { total: 0 },
+    });
+    return await run(page);
+  } finally {
+    context.close().catch(() => {});
+  }
+}
+
+/**
+ * Record page actions as skipped by a renderer that cannot run them
+ */
+function skipActions(actions: PageAction[]): PageActionResult[] {
+  return actions.map((action, index) => ({
+    index,
+    type: action.type,
+    status: "skipped",
+    duration: 0,
+  }));
+}
+
+/**
+ * Create a browser context that connects through a proxy, launching the
+ * browser on first use
+ * @throws When no Chromium executable is configured or it fails to start
+ */
+async function createContext(proxyUrl?: string): Promise<BrowserContext> {
+  // Chromium takes the scheme and host, credentials are sent per page
+  const proxy = proxyUrl ? new URL(proxyUrl) : null;
+  return (await getBrowser()).createBrowserContext(
+    proxy ? { proxyServer: `${proxy.protocol}//${proxy.host}` } : {},
+  );
+}
+
+/**
+ * Get the running browser, launching it on first use
+ * @throws When no Chromium executable is configured or it fails to start
+ */
+async function getBrowser(): Promise<Browser> {
+  if (browser) return browser;
+
+  if (!chromiumOptions.executablePath) {
+    throw new Error(
+      "No Chromium executable configured, set CHROMIUM_PATH to render pages",
+    );
+  }
+
+  const pending = import("puppeteer-core").then(({ default: puppeteer }) =>
+    puppeteer.launch({
+      executablePath: chromiumOptions.executablePath,
+      headless: true,
+      args: chromiumOptions.launchArgs || [],
+    }),
+  );
+  browser = pending;
+
+  // Forget a browser that fails to start or exits so the next render
+  // launches a new one
+  pending.then(
+    (running) =>
+      running.on("disconnected", () => {
+        if (browser === pending) browser = null;
+      }),
+    () => {
+      if (browser === pending) browser = null;
+    },
+  );
+
+  return pending;
+}
+
+/**
+ * Apply the user agent, headers, cookies, proxy credentials and resource
+ * blocking of the scraping options to a page
+ */
+async function preparePage(
+  page: Page,
+  url: string,
+  options: Partial<FetchOptions>,
+  rendering: RenderingInfo,
+) {
+  await page.setUserAgent(getUserAgent(options));
+
+  // Credentials only go to the origin of the page, never to the scripts,
+  // CDNs and trackers it loads from elsewhere
+  const headers: Record<string, string> = {};
+  const authHeaders: Record<string, string> = {};
+  for (const [name, value] of Object.entries(options.headers || {})) {
+    if (name.toLowerCase() === "authorization") {
+      authHeaders[name] = value;
+    } else {
+      headers[name] = value;
+    }
+  }
+
+  if (Object.keys(headers).length > 0) {
+    await page.setExtraHTTPHeaders(headers);
+  }
+
+  if (options.cookies && Object.keys(options.cookies).length > 0) {
+    await page.setCookie(
+      ...Object.entries(options.cookies).map(([name, value]) => ({
+        name,
+        value,
+        url,
+      })),
+    );
+  }
+
+  if (options.proxyUrl) {
+    const proxy = new URL(options.proxyUrl);
+    if (proxy.username) {
+      await page.authenticate({
+        username: decodeURIComponent(proxy.username),
+        password: decodeURIComponent(proxy.password),
+      });
+    }
+  }
+
+  const blocked: string[] = options.blockResources || [];
+  const hasAuth = Object.keys(authHeaders).length > 0;
+  if (blocked.length > 0 || hasAuth) {
+    if (blocked.length > 0) rendering.blockedRequests = 0;
+    const origin = new URL(url).origin;
+    await page.setRequestInterception(true);
+    page.on("request", (request: HTTPRequest) => {
+      if (request.isInterceptResolutionHandled()) return;
+      if (blocked.includes(request.resourceType())) {
+        rendering.blockedRequests!++;
+        request.abort().catch(() => {});
+      } else if (hasAuth && getOrigin(request.url()) === origin) {
+        request
+          .continue({ headers: { ...request.headers(), ...authHeaders } })
+          .catch(() => {});
+      } else {
+        request.continue().catch(() => {});
+      }
+    });
+  }
+}
+
+/**
+ * Get the origin of a URL, or null for URLs without one such as data: URLs
+ */
+function getOrigin(url: string): string | null {
+  try {
+    const origin = new URL(url).origin;
+    return origin === "null" ? null : origin;
+  } catch (error) {
+    return null;
+  }
+}
+
+export default {
+  renderPage,
+  registerRenderer,
+  getRendererName,
+  configureChromium,
+  closeBrowsers,
+};
@@ -0,0 +1,324 @@
+/**
+ * robots.txt module
+ * Fetches, caches and evaluates robots.txt rules for each origin
+ */
+
+import { ScrapingConfig, ScrapingError } from "@/types/scraping";
+import { getUserAgent } from "./fetcher";
+import { renderPage } from "./renderer";
+
+export interface RobotsRule {
+  allow: boolean;
+  pattern: string; // Path pattern, may contain * and a trailing $
+}
+
+export interface RobotsGroup {
+  userAgents: string[]; // Lowercased user-agent tokens, "*" for everyone
+  rules: RobotsRule[];
+  crawlDelay?: number; // In seconds, as written in the file
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+}
+
+export interface RobotsCheck {
+  allowed: boolean;
+  url: string;
+  robotsUrl: string;
+  userAgent: string;
+  rule?: string; // The rule that decided the outcome, e.g. "Disallow: /private"
+  crawlDelay?: number; // In milliseconds
+  reason?: string; // Why the whole site is blocked, if it is
+}
+
+interface CachedRobots {
+  robots: RobotsTxt;
+  reason?: string;
+  expiresAt: number;
+}
+
+const CACHE_TTL = 60 * 60 * 1000; // Keep robots.txt for an hour
+const UNREACHABLE_CACHE_TTL = 5 * 60 * 1000; // Retry unreachable robots.txt sooner
+const MAX_CRAWL_DELAY = 60000; // Never wait longer than a minute between requests
+
+// Blocks everything, used when robots.txt cannot be retrieved
+const DISALLOW_ALL: RobotsTxt = {
+  groups: [{ userAgents: ["*"], rules: [{ allow: false, pattern: "/" }] }],
+  sitemaps: [],
+};
+
+// Cache of parsed robots.txt files keyed by origin
+const robotsCache = new Map<string, Promise<CachedRobots>>();
+
+/**
+ * Check whether a URL may be fetched according to its robots.txt
+ * @param url URL to check
+ * @param options Scraping options, used for the user agent and the request
+ * @returns Whether the URL is allowed and the crawl delay for its origin
+ */
+export async function checkRobotsTxt(
+  url: string,
+  options: Partial<ScrapingConfig["options"]> = {},
+): Promise<RobotsCheck> {
+  const target = new URL(url);
+  const robotsUrl = `${target.origin}/robots.txt`;
+  const userAgent = getUserAgent(options);
+
+  // robots.txt itself is always allowed
+  if (target.pathname === "/robots.txt") {
+    return { allowed: true, url, robotsUrl, userAgent };
+  }
+
+  const cached = await loadRobotsTxt(target.origin, options);
+  const group = selectGroup(cached.robots, userAgent);
+  const match = matchRule(group.rules, `${target.pathname}${target.search}`);
+
+  return {
+    allowed: match ? match.allow : true,
+    url,
+    robotsUrl,
+    userAgent,
+    rule: match
+      ? `${match.allow ? "Allow" : "Disallow"}: ${match.pattern}`
+      : undefined,
+    crawlDelay:
+      group.crawlDelay !== undefined
+        ? Math.min(group.crawlDelay * 1000, MAX_CRAWL_DELAY)
+        : undefined,
+    reason: cached.reason,
+  };
+}
+
+/**
+ * Get the delay to wait between requests, raised to the robots.txt
+ * Crawl-delay when that is longer than the configured rateLimitDelay
+ */
+export function getEffectiveDelay(
+  options: ScrapingConfig["options"],
+  check?: RobotsCheck,
+): number {
+  return Math.max(options.rateLimitDelay || 0, check?.crawlDelay || 0);
+}
+
+/**
+ * Build the error reported for a URL blocked by robots.txt
+ */
+export function toRobotsError(check: RobotsCheck): ScrapingError {
+  return {
+    code: "ROBOTS_DISALLOWED",
+    message: check.reason
+      ? `Blocked by robots.txt: ${check.url} (${check.reason})`
+      : `Blocked by robots.txt: ${check.url}`,
+    details: {
+      url: check.url,
+      robotsUrl: check.robotsUrl,
+      userAgent: check.userAgent,
+      rule: check.rule,
+    },
+  };
+}
+
+/**
+ * Parse the contents of a robots.txt file
+ * Consecutive User-agent lines share a group, and a group ends at the next
+ * User-agent line that follows a rule
+ */
+export function parseRobotsTxt(content: string): RobotsTxt {
+  const robots: RobotsTxt = { groups: [], sitemaps: [] };
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of content.split(/\r?\n|\r/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+
+    const key = line.substring(0, separator).trim().toLowerCase();
+    const value = line.substring(separator + 1).trim();
+
+    switch (key) {
+      case "user-agent":
+        if (!current || !lastWasAgent) {
+          current = { userAgents: [], rules: [] };
+          robots.groups.push(current);
+        }
+        current.userAgents.push(value.toLowerCase());
+        lastWasAgent = true;
+        continue;
+      case "allow":
+      case "disallow":
+        // An empty Disallow allows everything, so it adds no rule
+        if (current && value) {
+          current.rules.push({ allow: key === "allow", pattern: value });
+        }
+        break;
+      case "crawl-delay": {
+        const seconds = parseFloat(value);
+        if (current && !isNaN(seconds) && seconds >= 0) {
+          current.crawlDelay = seconds;
+        }
+        break;
+      }
+      case "sitemap":
+        if (value) robots.sitemaps.push(value);
+        break;
+    }
+
+    lastWasAgent = false;
+  }
+
+  return robots;
+}
+
+/**
+ * Check a path against the rules that apply to a user agent
+ * @returns Whether the path is allowed and the deciding rule
+ */
+export function isPathAllowed(
+  robots: RobotsTxt,
+  userAgent: string,
+  path: string,
+): { allowed: boolean; rule?: RobotsRule } {
+  const match = matchRule(selectGroup(robots, userAgent).rules, path);
+  return { allowed: match ? match.allow : true, rule: match || undefined };
+}
+
+/**
+ * Clear cached robots.txt files
+ */
+export function clearRobotsCache() {
+  robotsCache.clear();
+}
+
+/**
+ * Fetch and parse robots.txt for an origin, sharing concurrent requests
+ * A missing file (4xx) allows everything, while an unreachable one (5xx or
+ * network error) blocks everything until it can be fetched again
+ */
+function loadRobotsTxt(
+  origin: string,
+  options: Partial<ScrapingConfig["options"]>,
+): Promise<CachedRobots> {
+  const cached = robotsCache.get(origin);
+  if (cached) {
+    return cached.then((entry) => {
+      if (entry.expiresAt > Date.now()) return entry;
+      robotsCache.delete(origin);
+      return loadRobotsTxt(origin, options);
+    });
+  }
+
+  // Fetched like any other page, through the rate limiter and the proxy
+  // pool, but as served and without the configuration's credentials
+  const headers = { ...options.headers };
+  for (const name of Object.keys(headers)) {
+    if (name.toLowerCase() === "authorization") delete headers[name];
+    if (name.toLowerCase() === "cookie") delete headers[name];
+  }
+  const pending = renderPage(`${origin}/robots.txt`, {
+    ...options,
+    renderer: "static",
+    headers,
+    cookies: undefined,
+  }).then((fetched): CachedRobots => {
+    if (fetched.status >= 200 && fetched.status < 300) {
+      return {
+        robots: parseRobotsTxt(fetched.html),
+        expiresAt: Date.now() + CACHE_TTL,
+      };
+    }
+
+    if (fetched.status >= 400 && fetched.status < 500) {
+      return {
+        robots: { groups: [], sitemaps: [] },
+        expiresAt: Date.now() + CACHE_TTL,
+      };
+    }
+
+    console.warn(
+      `Robots: could not retrieve ${origin}/robots.txt (${fetched.error || `HTTP ${fetched.status}`}), treating the site as disallowed`,
+    );
+    return {
+      robots: DISALLOW_ALL,
+      reason: `robots.txt could not be retrieved: ${fetched.error || `HTTP ${fetched.status}`}`,
+      expiresAt: Date.now() + UNREACHABLE_CACHE_TTL,
+    };
+  });
+
+  robotsCache.set(origin, pending);
+  return pending;
+}
+
+/**
+ * Select the rules for a user agent
+ * The group with the longest user-agent token contained in the user agent
+ * wins, groups naming the same token are combined, and "*" is the fallback
+ */
+function selectGroup(
+  robots: RobotsTxt,
+  userAgent: string,
+): { rules: RobotsRule[]; crawlDelay?: number } {
+  const agent = userAgent.toLowerCase();
+  let bestToken = "";
+
+  for (const group of robots.groups) {
+    for (const token of group.userAgents) {
+      if (
+        token !== "*" &&
+        agent.includes(token) &&
+        token.length > bestToken.length
+      ) {
+        bestToken = token;
+      }
+    }
+  }
+
+  const selected = robots.groups.filter((group) =>
+    group.userAgents.includes(bestToken || "*"),
+  );
+
+  return {
+    rules: selected.flatMap((group) => group.rules),
+    crawlDelay: selected.find((group) => group.crawlDelay !== undefined)
+      ?.crawlDelay,
+  };
+}
+
+/**
+ * Find the rule that decides a path: the longest matching pattern wins and
+ * Allow wins a tie
+ */
+function matchRule(rules: RobotsRule[], path: string): RobotsRule | null {
+  let best: RobotsRule | null = null;
+
+  for (const rule of rules) {
+    if (!patternToRegExp(rule.pattern).test(path)) continue;
+
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Convert a robots.txt path pattern into a regular expression
+ * "*" matches any sequence of characters and a trailing "$" anchors the end
+ */
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith("$");
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const source = body
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+
+  return new RegExp(`^${source}${anchored ? "$" : ""}`);
+}
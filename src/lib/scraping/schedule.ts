@@ -0,0 +1,221 @@
+/**
+ * Schedule module
+ * Computes when a scheduled scraping configuration should run, in the
+ * schedule's IANA timezone
+ */
+
+import { ScrapingConfig } from "@/types/scraping";
+
+type Schedule = NonNullable<ScrapingConfig["schedule"]>;
+
+interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// A year plus a month covers every daily, weekly and monthly schedule
+const MAX_LOOKAHEAD_DAYS = 400;
+
+// Formatters are expensive to create, so keep one per timezone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Compute the first run of a schedule strictly after the given time
+ * @param schedule Schedule from the scraping configuration
+ * @param after Time to search from
+ * @returns The next run, or null if the schedule has ended
+ */
+export function computeNextRun(schedule: Schedule, after: Date): Date | null {
+  const timeZone = schedule.timezone || "UTC";
+  if (!isValidTimezone(timeZone)) {
+    throw new Error(`Invalid schedule timezone: ${timeZone}`);
+  }
+
+  const { hour, minute } = parseTime(schedule.time);
+  const startDate = schedule.startDate?.substring(0, 10);
+  const endDate = schedule.endDate?.substring(0, 10);
+  const start = getZonedParts(after, timeZone);
+
+  for (let offset = 0; offset <= MAX_LOOKAHEAD_DAYS; offset++) {
+    // Walk calendar days in the schedule's timezone
+    const day = new Date(
+      Date.UTC(start.year, start.month - 1, start.day + offset),
+    );
+    const date = day.toISOString().substring(0, 10);
+
+    if (endDate && date > endDate) return null;
+    if (startDate && date < startDate) continue;
+    if (!matchesFrequency(schedule, day)) continue;
+
+    const run = zonedTimeToUtc(
+      day.getUTCFullYear(),
+      day.getUTCMonth() + 1,
+      day.getUTCDate(),
+      hour,
+      minute,
+      timeZone,
+    );
+    if (run.getTime() > after.getTime()) return run;
+  }
+
+  return null;
+}
+
+/**
+ * List the runs of a schedule between two times, both inclusive
+ * @param schedule Schedule from the scraping configuration
+ * @param from First time to include
+ * @param until Last time to include
+ * @param limit Maximum number of runs to return
+ */
+export function getRunsBetween(
+  schedule: Schedule,
+  from: Date,
+  until: Date,
+  limit: number,
+): Date[] {
+  const runs: Date[] = [];
+  let next = computeNextRun(schedule, new Date(from.getTime() - 1));
+
+  while (next && next.getTime() <= until.getTime() && runs.length < limit) {
+    runs.push(next);
+    next = computeNextRun(schedule, next);
+  }
+
+  return runs;
+}
+
+/**
+ * Check if a string is a timezone known to the runtime
+ */
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Check if a calendar day matches the schedule's frequency
+ * Weekly schedules without days run on the start date's weekday (Monday by
+ * default) and monthly schedules run on the start date's day of the month
+ * (the 1st by default), moved to the last day in shorter months
+ */
+function matchesFrequency(schedule: Schedule, day: Date): boolean {
+  const anchor = schedule.startDate
+    ? new Date(`${schedule.startDate.substring(0, 10)}T00:00:00Z`)
+    : null;
+
+  switch (schedule.frequency) {
+    case "weekly": {
+      const days = schedule.daysOfWeek?.length
+        ? schedule.daysOfWeek
+        : [anchor ? anchor.getUTCDay() : 1];
+      return days.includes(day.getUTCDay());
+    }
+    case "monthly": {
+      const lastDay = new Date(
+        Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0),
+      ).getUTCDate();
+      const target = Math.min(anchor ? anchor.getUTCDate() : 1, lastDay);
+      return day.getUTCDate() === target;
+    }
+    default:
+      return true;
+  }
+}
+
+/**
+ * Parse an "HH:MM" time of day
+ */
+function parseTime(time: string): { hour: number; minute: number } {
+  const match = /^(\d{1,2}):(\d{2})$/.exec((time || "").trim());
+  const hour = match ? parseInt(match[1], 10) : NaN;
+  const minute = match ? parseInt(match[2], 10) : NaN;
+
+  if (!match || hour > 23 || minute > 59) {
+    throw new Error(`Invalid schedule time: ${time}`);
+  }
+
+  return { hour, minute };
+}
+
+/**
+ * Convert a wall-clock time in a timezone to an instant
+ * The offset is computed twice so times next to a DST change use the
+ * offset in effect at that time; times skipped by the change move forward
+ */
+function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string,
+): Date {
+  const local = Date.UTC(year, month - 1, day, hour, minute);
+  const firstGuess = local - getTimezoneOffset(new Date(local), timeZone);
+  const offset = getTimezoneOffset(new Date(firstGuess), timeZone);
+  return new Date(local - offset);
+}
+
+/**
+ * Get the offset of a timezone from UTC at an instant, in milliseconds
+ */
+function getTimezoneOffset(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Get the wall-clock date and time of an instant in a timezone
+ */
+function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const values: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== "literal") {
+      values[part.type] = parseInt(part.value, 10);
+    }
+  }
+
+  return {
+    year: values.year,
+    month: values.month,
+    day: values.day,
+    hour: values.hour,
+    minute: values.minute,
+    second: values.second,
+  };
+}
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
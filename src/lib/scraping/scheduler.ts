@@ -1,9 +1,31 @@
 /**
- * Scheduler module for periodic data synchronization
+ * Scheduler module for periodic data synchronization and scheduled scraping
  * This module handles scheduling periodic data synchronization between MySQL and JSON files
+ * and enqueues scheduled scraping configurations when they are due
  */
 
+import {
+  MissedRunPolicy,
+  SchedulerRunRecord,
+  SchedulerStatus,
+  ScrapingConfig,
+} from "@/types/scraping";
 import { syncAll } from "./sync";
+import { getScrapingConfigs, saveScrapingConfig } from "./storage";
+import { computeNextRun, getRunsBetween } from "./schedule";
+import scrapingQueue from "./queue";
+
+export interface ScrapeSchedulerOptions {
+  interval?: number; // How often to check for due configurations, in milliseconds
+  missedRunPolicy?: MissedRunPolicy; // Default for schedules that do not set one
+}
+
+export interface ScheduledScrapeSummary {
+  checked: number; // Scheduled configurations that were looked at
+  enqueued: number; // Runs added to the queue
+  skipped: number; // Missed runs dropped by the policy
+  errors: string[];
+}
 
 // Interval for synchronization in milliseconds (default: 1 hour)
 const SYNC_INTERVAL = process.env.SYNC_INTERVAL
@@ -16,6 +38,30 @@ let isSyncRunning = false;
 // Timer ID for the scheduled synchronization
 let syncTimerId: NodeJS.Timeout | null = null;
 
+// Current synchronization interval and time of the last synchronization
+let syncInterval = SYNC_INTERVAL;
+let lastSyncAt: string | null = null;
+
+// Interval for checking scheduled scrapes in milliseconds (default: 1 minute)
+const SCRAPE_CHECK_INTERVAL = process.env.SCRAPE_SCHEDULER_INTERVAL
+  ? parseInt(process.env.SCRAPE_SCHEDULER_INTERVAL, 10)
+  : 60 * 1000;
+
+// Never enqueue more than this many missed runs of one configuration at once
+const MAX_CATCH_UP_RUNS = 10;
+
+let scrapeOptions: Required<ScrapeSchedulerOptions> = {
+  interval: SCRAPE_CHECK_INTERVAL,
+  missedRunPolicy: "run-once",
+};
+let isScrapeCheckRunning = false;
+let scrapeTimerId: NodeJS.Timeout | null = null;
+let lastScrapeCheckAt: string | null = null;
+
+// Most recent sync and scrape runs, newest first
+const MAX_HISTORY = 50;
+const runHistory: SchedulerRunRecord[] = [];
+
 /**
  * Start the synchronization scheduler
  * @param interval Optional interval in milliseconds (default: 1 hour)
@@ -26,6 +72,7 @@ export function startSyncScheduler(interval = SYNC_INTERVAL): void {
     clearInterval(syncTimerId);
   }
 
+  syncInterval = interval;
   console.log(`Starting synchronization scheduler with interval ${interval}ms`);
 
   // Run initial synchronization
@@ -56,6 +103,7 @@ async function runSynchronization(): Promise<void> {
   }
 
   isSyncRunning = true;
+  const startedAt = new Date();
 
   try {
     console.log("Running scheduled data synchronization...");
@@ -63,15 +111,322 @@ async function runSynchronization(): Promise<void> {
     console.log(
       `Synchronized ${result.configurations} configurations and ${result.results} results`,
     );
-  } catch (error) {
+    recordRun("sync", startedAt, result, []);
+  } catch (error: any) {
     console.error("Error during scheduled synchronization:", error);
+    recordRun("sync", startedAt, {}, [error?.message || String(error)]);
   } finally {
+    lastSyncAt = startedAt.toISOString();
     isSyncRunning = false;
   }
 }
 
+/**
+ * Start the scrape scheduler
+ * @param options Optional check interval and default missed-run policy
+ */
+export function startScrapeScheduler(
+  options: ScrapeSchedulerOptions = {},
+): void {
+  if (scrapeTimerId) {
+    clearInterval(scrapeTimerId);
+  }
+
+  scrapeOptions = {
+    interval: options.interval || scrapeOptions.interval,
+    missedRunPolicy: options.missedRunPolicy || scrapeOptions.missedRunPolicy,
+  };
+
+  console.log(
+    `Starting scrape scheduler with interval ${scrapeOptions.interval}ms`,
+  );
+
+  runScrapeCheck();
+  scrapeTimerId = setInterval(runScrapeCheck, scrapeOptions.interval);
+}
+
+/**
+ * Stop the scrape scheduler
+ */
+export function stopScrapeScheduler(): void {
+  if (scrapeTimerId) {
+    clearInterval(scrapeTimerId);
+    scrapeTimerId = null;
+    console.log("Scrape scheduler stopped");
+  }
+}
+
+/**
+ * Get the state of the scrape scheduler
+ */
+export function getScrapeSchedulerStatus(): SchedulerStatus["scrape"] {
+  return {
+    running: scrapeTimerId !== null,
+    inProgress: isScrapeCheckRunning,
+    interval: scrapeOptions.interval,
+    missedRunPolicy: scrapeOptions.missedRunPolicy,
+    lastRunAt: lastScrapeCheckAt,
+    nextRunAt: getNextRunAt(
+      scrapeTimerId,
+      lastScrapeCheckAt,
+      scrapeOptions.interval,
+    ),
+  };
+}
+
+/**
+ * Get the state of both schedulers and their recent runs
+ */
+export function getSchedulerStatus(): SchedulerStatus {
+  return {
+    sync: {
+      running: syncTimerId !== null,
+      inProgress: isSyncRunning,
+      interval: syncInterval,
+      lastRunAt: lastSyncAt,
+      nextRunAt: getNextRunAt(syncTimerId, lastSyncAt, syncInterval),
+    },
+    scrape: getScrapeSchedulerStatus(),
+    history: [...runHistory],
+  };
+}
+
+/**
+ * Enqueue every scheduled configuration that is due and record the outcome
+ * of runs that finished since the last check
+ * @param now Current time
+ * @returns What the check did
+ */
+export async function checkScheduledScrapes(
+  now = new Date(),
+): Promise<ScheduledScrapeSummary> {
+  const summary: ScheduledScrapeSummary = {
+    checked: 0,
+    enqueued: 0,
+    skipped: 0,
+    errors: [],
+  };
+
+  const configs = (await getScrapingConfigs()).filter(
+    (config) => config.mode === "scheduled" && config.schedule,
+  );
+
+  for (const config of configs) {
+    summary.checked++;
+    try {
+      const { enqueued, skipped } = await processSchedule(config, now);
+      summary.enqueued += enqueued;
+      summary.skipped += skipped;
+    } catch (error: any) {
+      summary.errors.push(
+        `${config.name || config.id}: ${error?.message || String(error)}`,
+      );
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Run a scrape check if one is not already running
+ */
+async function runScrapeCheck(): Promise<void> {
+  if (isScrapeCheckRunning) {
+    console.log("Scrape check already in progress, skipping");
+    return;
+  }
+
+  isScrapeCheckRunning = true;
+  const startedAt = new Date();
+
+  try {
+    const summary = await checkScheduledScrapes(startedAt);
+    if (summary.enqueued > 0 || summary.skipped > 0) {
+      console.log(
+        `Scheduled scrapes: enqueued ${summary.enqueued}, skipped ${summary.skipped} missed run(s)`,
+      );
+    }
+    for (const error of summary.errors) {
+      console.error(`Error in scheduled scrape: ${error}`);
+    }
+    recordRun(
+      "scrape",
+      startedAt,
+      {
+        checked: summary.checked,
+        enqueued: summary.enqueued,
+        skipped: summary.skipped,
+      },
+      summary.errors,
+    );
+  } catch (error: any) {
+    console.error("Error during scheduled scrape check:", error);
+    recordRun("scrape", startedAt, {}, [error?.message || String(error)]);
+  } finally {
+    lastScrapeCheckAt = startedAt.toISOString();
+    isScrapeCheckRunning = false;
+  }
+}
+
+/**
+ * Add a run to the history, dropping the oldest beyond MAX_HISTORY
+ */
+function recordRun(
+  type: SchedulerRunRecord["type"],
+  startedAt: Date,
+  counts: Record<string, number>,
+  errors: string[],
+) {
+  const finishedAt = new Date();
+  runHistory.unshift({
+    type,
+    startedAt: startedAt.toISOString(),
+    finishedAt: finishedAt.toISOString(),
+    duration: finishedAt.getTime() - startedAt.getTime(),
+    success: errors.length === 0,
+    counts,
+    errors,
+  });
+  runHistory.splice(MAX_HISTORY);
+}
+
+/**
+ * Work out when a running scheduler fires next
+ */
+function getNextRunAt(
+  timerId: NodeJS.Timeout | null,
+  lastRunAt: string | null,
+  interval: number,
+): string | null {
+  if (!timerId || !lastRunAt) return null;
+  return new Date(new Date(lastRunAt).getTime() + interval).toISOString();
+}
+
+/**
+ * Record finished runs of a configuration and enqueue it when due
+ * Runs missed while the scheduler was stopped are handled by the missed-run
+ * policy; a single run noticed within two check intervals is never "missed"
+ */
+async function processSchedule(
+  config: ScrapingConfig,
+  now: Date,
+): Promise<{ enqueued: number; skipped: number }> {
+  const schedule = config.schedule!;
+  let changed = await recordFinishedRuns(config);
+  let enqueued = 0;
+  let skipped = 0;
+
+  if (schedule.enabled !== false) {
+    if (!schedule.nextRun) {
+      // First time the schedule is seen: wait for its next run
+      schedule.nextRun = computeNextRun(schedule, now)?.toISOString();
+      changed = true;
+    } else if (new Date(schedule.nextRun).getTime() <= now.getTime()) {
+      const nextRun = new Date(schedule.nextRun);
+      const due = getRunsBetween(schedule, nextRun, now, MAX_CATCH_UP_RUNS);
+      // The schedule may have been edited since nextRun was computed
+      if (due.length === 0) due.push(nextRun);
+
+      const policy = schedule.missedRunPolicy || scrapeOptions.missedRunPolicy;
+      const onTime =
+        due.length === 1 &&
+        now.getTime() - due[0].getTime() <= 2 * scrapeOptions.interval;
+      const runs =
+        policy === "run-all"
+          ? due.length
+          : policy === "run-once" || onTime
+            ? 1
+            : 0;
+
+      for (let i = 0; i < runs; i++) {
+        await enqueueScheduledRun(config, now);
+      }
+      enqueued = runs;
+      skipped = due.length - runs;
+
+      schedule.nextRun = computeNextRun(schedule, now)?.toISOString();
+      if (!schedule.nextRun) {
+        console.log(`Schedule of ${config.name || config.id} has ended`);
+      }
+      changed = true;
+    }
+  }
+
+  if (changed) {
+    await saveScrapingConfig(config);
+  }
+
+  return { enqueued, skipped };
+}
+
+/**
+ * Add a run of a scheduled configuration to the queue
+ */
+async function enqueueScheduledRun(config: ScrapingConfig, now: Date) {
+  const metadata = (config.metadata = config.metadata || {});
+  const jobId = await scrapingQueue.addJob({
+    ...config,
+    metadata: { ...metadata, pendingRunJobIds: undefined },
+  });
+
+  metadata.pendingRunJobIds = [...(metadata.pendingRunJobIds || []), jobId];
+  metadata.runCount = (metadata.runCount || 0) + 1;
+  metadata.lastRun = now.toISOString();
+  metadata.nextRun = config.schedule?.nextRun;
+}
+
+/**
+ * Update the run counters of a configuration from queue jobs that finished
+ * Jobs removed from the queue before finishing are no longer tracked.
+ * schedule.lastRun records the last successful run, while
+ * metadata.lastFinishedAt records when any run last finished
+ * @returns True if a run finished or stopped being tracked, so the
+ * configuration changed
+ */
+async function recordFinishedRuns(config: ScrapingConfig): Promise<boolean> {
+  const metadata = config.metadata;
+  const pending: string[] = metadata?.pendingRunJobIds || [];
+  if (!metadata || pending.length === 0) return false;
+
+  const stillRunning: string[] = [];
+
+  for (const jobId of pending) {
+    const job = await scrapingQueue.getJob(jobId);
+    if (!job) continue;
+
+    if (job.status === "completed") {
+      metadata.successCount = (metadata.successCount || 0) + 1;
+      config.schedule!.lastRun = job.completedAt;
+    } else if (job.status === "failed" || job.status === "cancelled") {
+      metadata.failureCount = (metadata.failureCount || 0) + 1;
+    } else {
+      stillRunning.push(jobId);
+      continue;
+    }
+
+    metadata.lastFinishedAt = job.completedAt || new Date().toISOString();
+    metadata.lastRunStatus = job.status;
+    metadata.lastRunError = job.error;
+    metadata.lastRunDuration =
+      job.startedAt && job.completedAt
+        ? new Date(job.completedAt).getTime() -
+          new Date(job.startedAt).getTime()
+        : undefined;
+  }
+
+  if (stillRunning.length === pending.length) return false;
+
+  metadata.pendingRunJobIds = stillRunning;
+  return true;
+}
+
 // Export the scheduler functions
 export default {
   startSyncScheduler,
   stopSyncScheduler,
+  startScrapeScheduler,
+  stopScrapeScheduler,
+  getScrapeSchedulerStatus,
+  getSchedulerStatus,
+  checkScheduledScrapes,
 };
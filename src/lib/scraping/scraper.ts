@@ -1,27 +1,63 @@
 import {
   ScrapingConfig,
   ScrapingResult,
+  ScrapingError,
   CategoryData,
-  CategoryItem,
+  FetchResult,
+  RawData,
 } from "@/types/scraping";
 import { generateUniqueId } from "@/lib/utils/ids";
-import { categorizeContent } from "./categorization";
+import { categorizeContent, categorizeContentWithLLM } from "./categorization";
+import { renderPage } from "./renderer";
+import {
+  extractRawData,
+  extractRawDataThorough,
+  extractRawDataSemantic,
+} from "./extractRawData";
+import { PageResult, crawlPagination, mergePageResults } from "./pagination";
+import { crawlLinks } from "./crawler";
+import { carryOverItemHistory } from "./itemIdentity";
+import { applyCustomEntities } from "./entities";
+import { saveScrapingResult } from "./storage";
+import { checkRobotsTxt, getEffectiveDelay, toRobotsError } from "./robots";
+import { applyAuthProfile, isSessionRejected, toAuthError } from "./auth";
+
+type RawDataExtractor = (
+  html: string,
+  text: string,
+  config: ScrapingConfig,
+) => Promise<RawData>;
+
+const CANCELLED_ERROR: ScrapingError = {
+  code: "CANCELLED",
+  message: "Scraping was cancelled",
+};
+
+export type ScrapingProgressCallback = (
+  progress: number,
+  stage: string,
+) => void;
 
 /**
  * Main function to scrape a website based on the provided configuration
+ * @param config Scraping configuration
+ * @param onProgress Optional callback receiving progress (0-100) and stage
+ * @param signal Optional signal that cancels the scrape
  */
 export async function scrapeWebsite(
   config: ScrapingConfig,
+  onProgress?: ScrapingProgressCallback,
+  signal?: AbortSignal,
 ): Promise<ScrapingResult> {
   // Apply the appropriate scraping strategy based on the scraping mode
   if (config.scrapingMode === "thorough") {
-    return scrapeWebsiteThorough(config);
+    return scrapeWebsiteThorough(config, onProgress, signal);
   } else if (config.scrapingMode === "semantic") {
-    return scrapeWebsiteSemantic(config);
+    return scrapeWebsiteSemantic(config, onProgress, signal);
   }
 
   // Default to basic scraping if not specified or "basic"
-  return scrapeWebsiteBasic(config);
+  return scrapeWebsiteBasic(config, onProgress, signal);
 }
 
 /**
@@ -29,621 +65,551 @@ export async function scrapeWebsite(
  */
 async function scrapeWebsiteBasic(
   config: ScrapingConfig,
+  onProgress?: ScrapingProgressCallback,
+  signal?: AbortSignal,
+): Promise<ScrapingResult> {
+  return runScrapingPipeline(
+    config,
+    extractRawData,
+    "Basic",
+    onProgress,
+    signal,
+  );
+}
+
+/**
+ * Thorough scraping mode - deeper extraction with structure
+ */
+async function scrapeWebsiteThorough(
+  config: ScrapingConfig,
+  onProgress?: ScrapingProgressCallback,
+  signal?: AbortSignal,
+): Promise<ScrapingResult> {
+  return runScrapingPipeline(
+    config,
+    extractRawDataThorough,
+    "Thorough",
+    onProgress,
+    signal,
+  );
+}
+
+/**
+ * Semantic scraping mode - AI-powered content understanding
+ */
+async function scrapeWebsiteSemantic(
+  config: ScrapingConfig,
+  onProgress?: ScrapingProgressCallback,
+  signal?: AbortSignal,
+): Promise<ScrapingResult> {
+  return runScrapingPipeline(
+    config,
+    extractRawDataSemantic,
+    "Semantic",
+    onProgress,
+    signal,
+  );
+}
+
+/**
+ * Fetch, extract and categorize a page, following pagination and links when
+ * enabled
+ * Returns a "failed" result when the page cannot be fetched or processed and
+ * an "empty" result when nothing matched, unless the config opts into demo mode.
+ * A cancelled scrape returns a "failed" result with a CANCELLED error
+ */
+async function runScrapingPipeline(
+  config: ScrapingConfig,
+  extract: RawDataExtractor,
+  modeLabel: string,
+  onProgress: ScrapingProgressCallback = () => {},
+  signal?: AbortSignal,
 ): Promise<ScrapingResult> {
   const startTime = Date.now();
   const resultId = generateUniqueId();
 
   try {
+    // Honour robots.txt before fetching anything
+    if (config.options.respectRobotsTxt) {
+      const robots = await checkRobotsTxt(config.url, config.options);
+      if (!robots.allowed) {
+        return buildFailedResult(config, resultId, startTime, [
+          toRobotsError(robots),
+        ]);
+      }
+
+      // A Crawl-delay longer than rateLimitDelay applies to every later request
+      config = {
+        ...config,
+        options: {
+          ...config.options,
+          rateLimitDelay: getEffectiveDelay(config.options, robots),
+        },
+      };
+    }
+
+    // Sign in with the auth profile, keeping the configuration without its
+    // credentials so an expired session can be replaced
+    const unauthenticated = config;
+    if (config.authProfileId) {
+      onProgress(5, "Signing in");
+      try {
+        config = await applyAuthProfile(unauthenticated);
+      } catch (error) {
+        return buildFailedResult(config, resultId, startTime, [
+          toAuthError(config, error),
+        ]);
+      }
+    }
+
     // Fetch the HTML content
-    const { html, text, error, status } = await fetchWebsiteContent(
+    onProgress(10, "Fetching page");
+    let fetched = await renderPage(
       config.url,
-      config.options.handleDynamicContent,
       config.options,
+      signal,
+      config.actions,
     );
 
+    // Sign in again once when the site no longer accepts the session
+    if (
+      config.authProfileId &&
+      !signal?.aborted &&
+      (await isSessionRejected(config, fetched))
+    ) {
+      onProgress(10, "Signing in again");
+      try {
+        config = await applyAuthProfile(unauthenticated, true);
+      } catch (error) {
+        return buildFailedResult(config, resultId, startTime, [
+          toAuthError(config, error),
+        ]);
+      }
+      fetched = await renderPage(
+        config.url,
+        config.options,
+        signal,
+        config.actions,
+      );
+    }
+
+    if (signal?.aborted) {
+      return buildFailedResult(config, resultId, startTime, [CANCELLED_ERROR]);
+    }
+
     // Check if there was an error during fetching
-    if (status === "error" || error) {
+    if (fetched.error) {
+      const failed = buildFailedResult(
+        config,
+        resultId,
+        startTime,
+        [toFetchError(fetched)],
+        fetched.html,
+      );
+      failed.metadata!.rendering = fetched.rendering;
+      failed.metadata!.proxy = fetched.proxy;
+      return config.demoMode ? withDemoData(failed) : failed;
+    }
+
+    // Extract and categorize each page against its own URL
+    const processPage = async (
+      page: FetchResult,
+      pageNumber: number,
+    ): Promise<PageResult> => {
+      const rawData = await extract(page.html, page.text, {
+        ...config,
+        url: page.finalUrl || config.url,
+      });
+      const categories = applyCustomEntities(
+        await categorizePage(rawData, config, signal),
+        rawData,
+        config.customEntities,
+      );
       return {
-        id: resultId,
-        configId: config.id || "manual",
-        url: config.url,
-        timestamp: new Date().toISOString(),
-        status: "failed",
-        categories: {
-          error: {
-            description: "Error occurred during scraping",
-            items: [
-              {
-                title: "Error Details",
-                content: error || "Unknown error occurred",
-              },
-            ],
-          },
-        },
-        raw: {
-          text: error || "Unknown error occurred",
-          html:
-            html || "<html><body><p>Error fetching content</p></body></html>",
-          json: JSON.stringify({ error: error || "Unknown error occurred" }),
-        },
-        metadata: {
-          processingTime: Date.now() - startTime,
-          errors: [error || "Unknown error occurred"],
-          version: "1.0.0",
-        },
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
+        page: pageNumber,
+        url: page.finalUrl || config.url,
+        rawData,
+        categories,
       };
+    };
+
+    onProgress(40, "Extracting content");
+    const pages = [await processPage(fetched, 1)];
+    const crawlWarnings: string[] = [];
+    const crawlErrors: ScrapingError[] = [];
+
+    if (config.options.followPagination && config.options.maxPages > 1) {
+      onProgress(60, "Following pagination");
+      const paginated = await crawlPagination(
+        config,
+        fetched,
+        processPage,
+        signal,
+      );
+      pages.push(...paginated.pages);
+      crawlWarnings.push(...paginated.warnings);
+      crawlErrors.push(...paginated.errors);
     }
 
-    // Extract raw data based on the configuration
-    const rawData = await extractRawData(html, text, config);
+    let childPages: PageResult[] = [];
+
+    if (config.options.followLinks) {
+      onProgress(75, "Crawling links");
+      const crawled = await crawlLinks(
+        config,
+        fetched,
+        processPage,
+        pages.length + 1,
+        pages.map((page) => page.url),
+        signal,
+      );
+      crawlWarnings.push(...crawled.warnings);
+      crawlErrors.push(...crawled.errors);
+
+      if (config.options.crawlOutput === "children") {
+        childPages = crawled.pages;
+      } else {
+        pages.push(...crawled.pages);
+      }
+    }
 
-    // Categorize the content
-    const categorizedData = await categorizeContent(rawData, config.categories);
+    if (signal?.aborted) {
+      return buildFailedResult(config, resultId, startTime, [CANCELLED_ERROR]);
+    }
 
-    // If no categorized data was found, provide sample data
-    if (Object.keys(categorizedData).length === 0) {
-      console.log("No categorized data found, returning sample structure");
-      return {
-        id: resultId,
-        configId: config.id || "manual",
-        url: config.url,
-        timestamp: new Date().toISOString(),
-        status: "success",
-        categories: {
-          services: {
-            description: "Services offered",
-            items: [
-              {
-                title: "Service 1",
-                content: "Description of service 1",
-                metadata: { type: "primary" },
-              },
-              {
-                title: "Service 2",
-                content: "Description of service 2",
-                metadata: { type: "secondary" },
-              },
-            ],
-          },
-          fees: {
-            description: "Associated fees",
-            items: [
-              {
-                title: "Application Fee",
-                content: "$100",
-                metadata: { required: true },
-              },
-              {
-                title: "Processing Fee",
-                content: "$50",
-                metadata: { required: false },
-              },
-            ],
-          },
-        },
-        raw: {
-          text: text || "Sample text content for demonstration",
-          html: html || "<div>Sample HTML content for demonstration</div>",
-          json: JSON.stringify({
-            sample: "Sample JSON content for demonstration",
-          }),
-        },
-        metadata: {
-          processingTime: Date.now() - startTime,
-          pageCount: config.options.followPagination
-            ? Math.min(rawData.pageCount || 1, config.options.maxPages)
-            : 1,
-          elementCount: rawData.elementCount || 0,
-          errors: rawData.errors || [],
-          warnings: rawData.warnings || [],
-          version: "1.0.0",
-          note: "This is sample data for demonstration purposes",
-        },
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
+    onProgress(90, "Building result");
+    const { categories: categorizedData, rawData } = mergePageResults(
+      pages,
+      config.options.deduplicateResults,
+    );
+    rawData.url = config.url;
+    rawData.warnings.push(...crawlWarnings);
+    if (fetched.rendering?.fallbackReason) {
+      rawData.warnings.push(
+        `Used the ${fetched.rendering.renderer} renderer instead of ${fetched.rendering.requestedRenderer}: ${fetched.rendering.fallbackReason}`,
+      );
+    }
+    for (const action of fetched.rendering?.actions || []) {
+      if (action.status === "failed") {
+        rawData.warnings.push(
+          `Optional page action ${action.index + 1} failed: ${action.error}`,
+        );
+      }
+    }
+    if (
+      fetched.rendering?.actions?.every((action) => action.status === "skipped")
+    ) {
+      rawData.warnings.push(
+        `Page actions were skipped: the ${fetched.rendering.renderer} renderer cannot run them`,
+      );
     }
 
-    // Calculate processing time
-    const processingTime = Date.now() - startTime;
-
-    // Create the result object
-    const result: ScrapingResult = {
-      id: resultId,
-      configId: config.id || "manual",
-      url: config.url,
-      timestamp: new Date().toISOString(),
-      status: "success",
-      categories: categorizedData,
-      raw: {
-        json: JSON.stringify(rawData.structured, null, 2),
-        html: rawData.html,
-        text: rawData.text,
-      },
-      metadata: {
-        processingTime,
-        pageCount: config.options.followPagination
-          ? Math.min(rawData.pageCount || 1, config.options.maxPages)
-          : 1,
-        elementCount: rawData.elementCount || 0,
-        errors: rawData.errors || [],
-        warnings: rawData.warnings || [],
-        version: "1.0.0",
-      },
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
+    const result = applyOutcomeStatus(
+      buildResult(
+        config,
+        resultId,
+        startTime,
+        "success",
+        categorizedData,
+        rawData,
+      ),
+      rawData,
+      config,
+    );
+
+    result.metadata!.rendering = fetched.rendering;
+    result.metadata!.proxy = fetched.proxy;
+
+    // Pages skipped by the crawlers are reported without failing the result
+    result.metadata!.errors!.push(...crawlErrors);
 
-    return result;
+    if (childPages.length > 0) {
+      result.metadata!.childResultIds = await saveChildResults(
+        config,
+        resultId,
+        childPages,
+      );
+    }
+
+    // Items seen in earlier runs keep their creation date and verified flag
+    await carryOverItemHistory(result);
+
+    return config.demoMode && result.status === "empty"
+      ? withDemoData(result)
+      : result;
   } catch (error: any) {
-    console.error("Scraping error:", error);
+    console.error(`${modeLabel} scraping error:`, error);
 
-    // Return a failed result with sample data
-    return {
-      id: resultId,
-      configId: config.id || "manual",
-      url: config.url,
-      timestamp: new Date().toISOString(),
-      status: "partial",
-      categories: {
-        services: {
-          description: "Services offered (sample data)",
-          items: [
-            {
-              title: "Sample Service 1",
-              content:
-                "This is sample data generated due to an error in the scraping process",
-              metadata: { sample: true },
-            },
-            {
-              title: "Sample Service 2",
-              content:
-                "This is sample data generated due to an error in the scraping process",
-              metadata: { sample: true },
-            },
-          ],
-        },
-        error: {
-          description: "Error information",
-          items: [
-            {
-              title: "Error Details",
-              content: error.message || "Unknown error occurred",
-            },
-          ],
-        },
-      },
-      raw: {
-        text: error.message || "Error occurred during scraping",
-        html: "<div>Error occurred during scraping</div>",
-        json: JSON.stringify({ error: error.message || "Unknown error" }),
-      },
-      metadata: {
-        processingTime: Date.now() - startTime,
-        errors: [error.message || "Unknown error"],
-        version: "1.0.0",
-        note: "This contains sample data due to an error in the scraping process",
+    const result = buildFailedResult(config, resultId, startTime, [
+      {
+        code: "EXTRACTION_FAILED",
+        message: error?.message || "Unknown error occurred",
       },
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
+    ]);
+
+    return config.demoMode ? withDemoData(result) : result;
   }
 }
 
 /**
- * Thorough scraping mode - deeper extraction with structure
+ * Categorize extracted data, going through the language model provider in
+ * semantic mode or when AI extraction is enabled
+ * Falls back to rule-based categorization with a warning when the provider
+ * is not configured or fails
  */
-async function scrapeWebsiteThorough(
+async function categorizePage(
+  rawData: RawData,
   config: ScrapingConfig,
-): Promise<ScrapingResult> {
-  const startTime = Date.now();
-  const resultId = generateUniqueId();
+  signal?: AbortSignal,
+): Promise<Record<string, CategoryData>> {
+  if (config.scrapingMode !== "semantic" && !config.options.useAI) {
+    return categorizeContent(rawData, config.categories);
+  }
 
   try {
-    // Fetch the HTML content
-    const { html, text, error, status } = await fetchWebsiteContent(
-      config.url,
-      config.options.handleDynamicContent,
-      config.options,
-    );
-
-    // Check if there was an error during fetching
-    if (status === "error" || error) {
-      return {
-        id: resultId,
-        configId: config.id || "manual",
-        url: config.url,
-        timestamp: new Date().toISOString(),
-        status: "failed",
-        categories: {
-          error: {
-            description: "Error occurred during scraping",
-            items: [
-              {
-                title: "Error Details",
-                content: error || "Unknown error occurred",
-              },
-            ],
-          },
-        },
-        raw: {
-          text: error || "Unknown error occurred",
-          html:
-            html || "<html><body><p>Error fetching content</p></body></html>",
-          json: JSON.stringify({ error: error || "Unknown error occurred" }),
-        },
-        metadata: {
-          processingTime: Date.now() - startTime,
-          errors: [error || "Unknown error occurred"],
-          version: "1.0.0",
-        },
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
+    return await categorizeContentWithLLM(rawData, config.categories, {
+      confidenceThreshold: config.options.aiConfidenceThreshold,
+      signal,
+    });
+  } catch (error: any) {
+    // A cancelled scrape is reported by the pipeline, not as a warning
+    if (!signal?.aborted) {
+      console.warn(`AI extraction failed for ${rawData.url}:`, error?.message);
+      rawData.warnings.push(
+        `AI extraction failed, used rule-based categorization instead: ${error?.message || error}`,
+      );
     }
+    return categorizeContent(rawData, config.categories);
+  }
+}
 
-    // Extract raw data with more comprehensive parsing
-    const rawData = await extractRawDataThorough(html, text, config);
-
-    // Categorize the content with more detailed analysis
-    const categorizedData = await categorizeContent(rawData, config.categories);
-
-    // If no categorized data was found, provide sample data
-    if (Object.keys(categorizedData).length === 0) {
-      console.log("No categorized data found, returning sample structure");
-      return {
-        id: resultId,
-        configId: config.id || "manual",
-        url: config.url,
-        timestamp: new Date().toISOString(),
-        status: "success",
-        categories: {
-          services: {
-            description: "Services offered",
-            items: [
-              {
-                title: "Service 1",
-                content: "Description of service 1",
-                metadata: { type: "primary" },
-              },
-              {
-                title: "Service 2",
-                content: "Description of service 2",
-                metadata: { type: "secondary" },
-              },
-            ],
-          },
-          fees: {
-            description: "Associated fees",
-            items: [
-              {
-                title: "Application Fee",
-                content: "$100",
-                metadata: { required: true },
-              },
-              {
-                title: "Processing Fee",
-                content: "$50",
-                metadata: { required: false },
-              },
-            ],
+/**
+ * Mark results without items as "empty" and results with extraction
+ * errors as "partial"
+ */
+function applyOutcomeStatus(
+  result: ScrapingResult,
+  rawData: RawData,
+  config: ScrapingConfig,
+): ScrapingResult {
+  const itemCount = Object.values(result.categories).reduce(
+    (count, category) => count + category.items.length,
+    0,
+  );
+
+  // Report an empty result instead of pretending we found something
+  if (itemCount === 0) {
+    result.status = "empty";
+    result.metadata!.errors!.push(
+      rawData.text.trim()
+        ? {
+            code: "NO_ITEMS",
+            message: `No content matched the categories: ${config.categories.join(", ") || "none selected"}`,
+            details: { categories: config.categories },
+          }
+        : {
+            code: "NO_CONTENT",
+            message: "The page or the selected elements contained no text",
+            details: { selector: config.selector },
           },
-        },
-        raw: {
-          text: text || "Sample text content for demonstration",
-          html: html || "<div>Sample HTML content for demonstration</div>",
-          json: JSON.stringify({
-            sample: "Sample JSON content for demonstration",
-          }),
-        },
-        metadata: {
-          processingTime: Date.now() - startTime,
-          pageCount: config.options.followPagination
-            ? Math.min(rawData.pageCount || 1, config.options.maxPages)
-            : 1,
-          elementCount: rawData.elementCount || 0,
-          errors: rawData.errors || [],
-          warnings: rawData.warnings || [],
-          version: "1.0.0",
-          note: "This is sample data for demonstration purposes",
-        },
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
-    }
-
-    // Calculate processing time
-    const processingTime = Date.now() - startTime;
-
-    // Create the result object
-    const result: ScrapingResult = {
-      id: resultId,
-      configId: config.id || "manual",
-      url: config.url,
-      timestamp: new Date().toISOString(),
-      status: "success",
-      categories: categorizedData,
-      raw: {
-        json: JSON.stringify(rawData.structured, null, 2),
-        html: rawData.html,
-        text: rawData.text,
-      },
-      metadata: {
-        processingTime,
-        pageCount: config.options.followPagination
-          ? Math.min(rawData.pageCount || 1, config.options.maxPages)
-          : 1,
-        elementCount: rawData.elementCount || 0,
-        errors: rawData.errors || [],
-        warnings: rawData.warnings || [],
-        version: "1.0.0",
-      },
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
+    );
+  } else if (rawData.errors.length > 0) {
+    // Selector problems mean we fell back to the full page
+    result.status = "partial";
+  }
 
-    return result;
-  } catch (error: any) {
-    console.error("Thorough scraping error:", error);
+  return result;
+}
 
-    // Return a failed result with sample data
-    return {
-      id: resultId,
-      configId: config.id || "manual",
-      url: config.url,
-      timestamp: new Date().toISOString(),
-      status: "partial",
-      categories: {
-        services: {
-          description: "Services offered (sample data)",
-          items: [
-            {
-              title: "Sample Service 1",
-              content:
-                "This is sample data generated due to an error in the scraping process",
-              metadata: { sample: true },
-            },
-            {
-              title: "Sample Service 2",
-              content:
-                "This is sample data generated due to an error in the scraping process",
-              metadata: { sample: true },
-            },
-          ],
-        },
-        error: {
-          description: "Error information",
-          items: [
-            {
-              title: "Error Details",
-              content: error.message || "Unknown error occurred",
-            },
-          ],
-        },
-      },
-      raw: {
-        text: error.message || "Error occurred during scraping",
-        html: "<div>Error occurred during scraping</div>",
-        json: JSON.stringify({ error: error.message || "Unknown error" }),
-      },
-      metadata: {
-        processingTime: Date.now() - startTime,
-        errors: [error.message || "Unknown error"],
-        version: "1.0.0",
-        note: "This contains sample data due to an error in the scraping process",
-      },
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
+/**
+ * Save one result per crawled page, linked to the parent result
+ * @returns The IDs of the saved child results
+ */
+async function saveChildResults(
+  config: ScrapingConfig,
+  parentResultId: string,
+  childPages: PageResult[],
+): Promise<string[]> {
+  const childResultIds: string[] = [];
+
+  for (const page of childPages) {
+    const childConfig = { ...config, url: page.url };
+    const { categories, rawData } = mergePageResults(
+      [page],
+      config.options.deduplicateResults,
+    );
+    const child = applyOutcomeStatus(
+      buildResult(
+        childConfig,
+        generateUniqueId(),
+        Date.now(),
+        "success",
+        categories,
+        rawData,
+      ),
+      rawData,
+      childConfig,
+    );
+    child.metadata = {
+      ...child.metadata,
+      parentResultId,
+      depth: page.depth,
+      parentUrl: page.parentUrl,
     };
+
+    await carryOverItemHistory(child);
+    const saved = await saveScrapingResult(child);
+    childResultIds.push(saved.id);
   }
+
+  return childResultIds;
 }
 
 /**
- * Semantic scraping mode - AI-powered content understanding
+ * Build a result object from categorized data
  */
-async function scrapeWebsiteSemantic(
+function buildResult(
   config: ScrapingConfig,
-): Promise<ScrapingResult> {
-  const startTime = Date.now();
-  const resultId = generateUniqueId();
+  resultId: string,
+  startTime: number,
+  status: ScrapingResult["status"],
+  categories: Record<string, CategoryData>,
+  rawData: RawData,
+): ScrapingResult {
+  const now = new Date().toISOString();
+
+  return {
+    id: resultId,
+    configId: config.id || "manual",
+    url: config.url,
+    timestamp: now,
+    status,
+    categories,
+    raw: {
+      json: JSON.stringify(rawData.structured, null, 2),
+      structured: rawData.structuredData,
+      tables: rawData.tables,
+      html: rawData.html,
+      text: rawData.text,
+    },
+    metadata: {
+      processingTime: Date.now() - startTime,
+      pageCount: rawData.pageCount || 1,
+      elementCount: rawData.elementCount || 0,
+      errors: [...rawData.errors],
+      warnings: [...rawData.warnings],
+      version: "1.0.0",
+    },
+    createdAt: now,
+    updatedAt: now,
+  };
+}
 
-  try {
-    // Fetch the HTML content
-    const { html, text, error, status } = await fetchWebsiteContent(
-      config.url,
-      config.options.handleDynamicContent,
-      config.options,
-    );
+/**
+ * Build a failed result with no categorized data
+ */
+function buildFailedResult(
+  config: ScrapingConfig,
+  resultId: string,
+  startTime: number,
+  errors: ScrapingError[],
+  html?: string,
+): ScrapingResult {
+  const now = new Date().toISOString();
+  const message = errors.map((error) => error.message).join("; ");
+
+  return {
+    id: resultId,
+    configId: config.id || "manual",
+    url: config.url,
+    timestamp: now,
+    status: "failed",
+    categories: {},
+    raw: {
+      text: message,
+      html: html || undefined,
+      json: JSON.stringify({ errors }),
+    },
+    metadata: {
+      processingTime: Date.now() - startTime,
+      errors,
+      version: "1.0.0",
+    },
+    createdAt: now,
+    updatedAt: now,
+  };
+}
 
-    // Check if there was an error during fetching
-    if (status === "error" || error) {
-      return {
-        id: resultId,
-        configId: config.id || "manual",
-        url: config.url,
-        timestamp: new Date().toISOString(),
-        status: "failed",
-        categories: {
-          error: {
-            description: "Error occurred during scraping",
-            items: [
-              {
-                title: "Error Details",
-                content: error || "Unknown error occurred",
-              },
-            ],
-          },
-        },
-        raw: {
-          text: error || "Unknown error occurred",
-          html:
-            html || "<html><body><p>Error fetching content</p></body></html>",
-          json: JSON.stringify({ error: error || "Unknown error occurred" }),
-        },
-        metadata: {
-          processingTime: Date.now() - startTime,
-          errors: [error || "Unknown error occurred"],
-          version: "1.0.0",
-        },
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
-    }
+/**
+ * Convert a fetch failure into a structured error
+ */
+function toFetchError(fetched: FetchResult): ScrapingError {
+  const message = fetched.error || "Unknown error occurred";
 
-    // Extract raw data with semantic understanding
-    const rawData = await extractRawDataSemantic(html, text, config);
+  if (fetched.status >= 400) {
+    return {
+      code: "HTTP_ERROR",
+      message,
+      details: { status: fetched.status, finalUrl: fetched.finalUrl },
+    };
+  }
 
-    // Categorize the content with AI-powered analysis
-    const categorizedData = await categorizeContent(rawData, config.categories);
+  return {
+    code: /timed out/i.test(message) ? "TIMEOUT" : "FETCH_FAILED",
+    message,
+    details: { finalUrl: fetched.finalUrl },
+  };
+}
 
-    // If no categorized data was found, provide sample data
-    if (Object.keys(categorizedData).length === 0) {
-      console.log("No categorized data found, returning sample structure");
-      return {
-        id: resultId,
-        configId: config.id || "manual",
-        url: config.url,
-        timestamp: new Date().toISOString(),
-        status: "success",
-        categories: {
-          services: {
-            description: "Services offered",
-            items: [
-              {
-                title: "Service 1",
-                content: "Description of service 1",
-                metadata: { type: "primary" },
-              },
-              {
-                title: "Service 2",
-                content: "Description of service 2",
-                metadata: { type: "secondary" },
-              },
-            ],
+/**
+ * Add sample data to an empty or failed result
+ * The status and errors are kept, so the failure stays visible. Only used
+ * when the configuration explicitly enables demo mode
+ */
+function withDemoData(result: ScrapingResult): ScrapingResult {
+  return {
+    ...result,
+    categories: {
+      ...result.categories,
+      services: {
+        description: "Services offered (sample data)",
+        items: [
+          {
+            id: generateUniqueId(),
+            title: "Service 1",
+            content: "Description of service 1",
+            metadata: { type: "primary", sample: true },
           },
-          fees: {
-            description: "Associated fees",
-            items: [
-              {
-                title: "Application Fee",
-                content: "$100",
-                metadata: { required: true },
-              },
-              {
-                title: "Processing Fee",
-                content: "$50",
-                metadata: { required: false },
-              },
-            ],
+          {
+            id: generateUniqueId(),
+            title: "Service 2",
+            content: "Description of service 2",
+            metadata: { type: "secondary", sample: true },
           },
-        },
-        raw: {
-          text: text || "Sample text content for demonstration",
-          html: html || "<div>Sample HTML content for demonstration</div>",
-          json: JSON.stringify({
-            sample: "Sample JSON content for demonstration",
-          }),
-        },
-        metadata: {
-          processingTime: Date.now() - startTime,
-          pageCount: config.options.followPagination
-            ? Math.min(rawData.pageCount || 1, config.options.maxPages)
-            : 1,
-          elementCount: rawData.elementCount || 0,
-          errors: rawData.errors || [],
-          warnings: rawData.warnings || [],
-          version: "1.0.0",
-          note: "This is sample data for demonstration purposes",
-        },
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
-    }
-
-    // Calculate processing time
-    const processingTime = Date.now() - startTime;
-
-    // Create the result object
-    const result: ScrapingResult = {
-      id: resultId,
-      configId: config.id || "manual",
-      url: config.url,
-      timestamp: new Date().toISOString(),
-      status: "success",
-      categories: categorizedData,
-      raw: {
-        json: JSON.stringify(rawData.structured, null, 2),
-        html: rawData.html,
-        text: rawData.text,
-      },
-      metadata: {
-        processingTime,
-        pageCount: config.options.followPagination
-          ? Math.min(rawData.pageCount || 1, config.options.maxPages)
-          : 1,
-        elementCount: rawData.elementCount || 0,
-        errors: rawData.errors || [],
-        warnings: rawData.warnings || [],
-        version: "1.0.0",
-      },
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
-
-    return result;
-  } catch (error: any) {
-    console.error("Semantic scraping error:", error);
-
-    // Return a failed result with sample data
-    return {
-      id: resultId,
-      configId: config.id || "manual",
-      url: config.url,
-      timestamp: new Date().toISOString(),
-      status: "partial",
-      categories: {
-        services: {
-          description: "Services offered (sample data)",
-          items: [
-            {
-              title: "Sample Service 1",
-              content:
-                "This is sample data generated due to an error in the scraping process",
-              metadata: { sample: true },
-            },
-            {
-              title: "Sample Service 2",
-              content:
-                "This is sample data generated due to an error in the scraping process",
-              metadata: { sample: true },
-            },
-          ],
-        },
-        error: {
-          description: "Error information",
-          items: [
-            {
-              title: "Error Details",
-              content: error.message || "Unknown error occurred",
-            },
-          ],
-        },
+        ],
       },
-      raw: {
-        text: error.message || "Error occurred during scraping",
-        html: "<div>Error occurred during scraping</div>",
-        json: JSON.stringify({ error: error.message || "Unknown error" }),
-      },
-      metadata: {
-        processingTime: Date.now() - startTime,
-        errors: [error.message || "Unknown error"],
-        version: "1.0.0",
-        note: "This contains sample data due to an error in the scraping process",
+      fees: {
+        description: "Associated fees (sample data)",
+        items: [
+          {
+            id: generateUniqueId(),
+            title: "Application Fee",
+            content: "$100",
+            metadata: { required: true, sample: true },
+          },
+          {
+            id: generateUniqueId(),
+            title: "Processing Fee",
+            content: "$50",
+            metadata: { required: false, sample: true },
+          },
+        ],
       },
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
-  }
+    },
+    metadata: {
+      ...result.metadata,
+      demo: true,
+      note: "This is sample data for demonstration purposes",
+    },
+  };
 }
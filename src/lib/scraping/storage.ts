@@ -5,8 +5,15 @@
  */
 
 import {
+  AuthProfile,
+  AuthSession,
+  CategoryDefinition,
+  DomainRateLimit,
+  ProxyPool,
   ScrapingConfig,
   ScrapingResult,
+  ScrapingJob,
+  WebhookDelivery,
   ExportOptions,
 } from "@/types/scraping";
 import { generateUniqueId } from "@/lib/utils/ids";
@@ -23,8 +30,39 @@ import {
   saveResultToFile,
   loadResultFromFile,
   loadAllResultsFromFiles,
+  loadPreviousResultFromFiles,
   deleteResultFile,
+  saveJobToFile,
+  loadJobFromFile,
+  loadAllJobsFromFiles,
+  deleteJobFile,
+  saveDeliveryToFile,
+  loadDeliveryFromFile,
+  loadAllDeliveriesFromFiles,
+  deleteDeliveryFile,
+  saveCategoryToFile,
+  loadCategoryFromFile,
+  loadAllCategoriesFromFiles,
+  deleteCategoryFile,
+  saveAuthProfileToFile,
+  loadAuthProfileFromFile,
+  loadAllAuthProfilesFromFiles,
+  deleteAuthProfileFile,
+  saveSessionToFile,
+  loadSessionFromFile,
+  deleteSessionFile,
+  saveProxyPoolToFile,
+  loadProxyPoolFromFile,
+  loadAllProxyPoolsFromFiles,
+  deleteProxyPoolFile,
+  saveRateLimitToFile,
+  loadAllRateLimitsFromFiles,
+  deleteRateLimitFile,
 } from "@/lib/db/fileStorage";
+import { decryptSecret, encryptSecret } from "@/lib/db/secrets";
+
+// Auth profile fields stored encrypted
+const AUTH_SECRET_FIELDS = ["password", "token", "cookieJar"] as const;
 
 /**
  * Generate a unique ID for database records
@@ -486,6 +524,62 @@ export async function getScrapingResultById(
   }
 }
 
+/**
+ * Get the latest result of a configuration and URL saved before a time,
+ * skipping failed runs
+ * @param configId Configuration the result was scraped with
+ * @param url URL the result was scraped from
+ * @param before Only results with an earlier timestamp are considered
+ * @param excludeId Optional ID of a result to skip
+ * @returns The previous result or null if there is none
+ */
+export async function getPreviousScrapingResult(
+  configId: string,
+  url: string,
+  before: string,
+  excludeId?: string,
+): Promise<ScrapingResult | null> {
+  if (isDatabaseAvailable()) {
+    try {
+      const rows = await executeQuery(
+        `SELECT * FROM scraping_results
+         WHERE configId = ? AND url = ? AND status <> 'failed'
+           AND timestamp < ? AND id <> ?
+         ORDER BY timestamp DESC LIMIT 1`,
+        [configId, url, before, excludeId || ""],
+      );
+      if (Array.isArray(rows) && rows.length > 0) {
+        return parseResultRow(rows[0]);
+      }
+    } catch (dbError) {
+      console.error(
+        `Storage: MySQL error loading previous result for ${configId}:`,
+        { message: dbError instanceof Error ? dbError.message : dbError },
+      );
+    }
+  }
+
+  return loadPreviousResultFromFiles(configId, url, before, excludeId);
+}
+
+/**
+ * Convert a scraping_results row into a result
+ */
+function parseResultRow(row: any): ScrapingResult {
+  return {
+    id: row.id,
+    configId: row.configId,
+    url: row.url,
+    timestamp: row.timestamp?.toISOString() || new Date().toISOString(),
+    status: row.status,
+    categories: JSON.parse(row.categories || "{}"),
+    raw: JSON.parse(row.raw || "{}"),
+    metadata: JSON.parse(row.metadata || "{}"),
+    createdAt: row.createdAt?.toISOString() || new Date().toISOString(),
+    updatedAt: row.updatedAt?.toISOString() || new Date().toISOString(),
+  };
+}
+
 /**
  * Delete a scraping result by ID
  * @param id The ID of the scraping result to delete
@@ -1275,6 +1369,1053 @@ export async function deleteScrapingConfig(id: string): Promise<boolean> {
   }
 }
 
+/**
+ * Save a queued scraping job to both MySQL and JSON file storage
+ * Jobs are saved on every status and progress change, so only failures are
+ * logged
+ * @param job The job to save
+ * @returns The saved job
+ */
+export async function saveScrapingJob(job: ScrapingJob): Promise<ScrapingJob> {
+  if (!job || !job.id) {
+    const error = new Error("Invalid scraping job: id is required");
+    console.error("Storage: saveScrapingJob validation error:", error);
+    throw error;
+  }
+
+  job.updatedAt = new Date().toISOString();
+  let savedToDb = false;
+
+  if (isDatabaseAvailable()) {
+    try {
+      await executeQuery(
+        `INSERT INTO scraping_jobs (id, status, priority, batchId, job_data, createdAt, updatedAt)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON DUPLICATE KEY UPDATE status = VALUES(status), priority = VALUES(priority),
+           batchId = VALUES(batchId), job_data = VALUES(job_data), updatedAt = VALUES(updatedAt)`,
+        [
+          job.id,
+          job.status,
+          job.priority,
+          job.batchId || null,
+          JSON.stringify(job),
+          new Date(job.createdAt),
+          new Date(job.updatedAt),
+        ],
+      );
+      savedToDb = true;
+    } catch (dbError) {
+      console.error(`Storage: MySQL error saving scraping job ${job.id}:`, {
+        message: dbError instanceof Error ? dbError.message : dbError,
+      });
+      // Continue to file storage even if database fails
+    }
+  }
+
+  try {
+    await saveJobToFile(job);
+  } catch (fileError) {
+    if (!savedToDb) {
+      throw new Error(
+        `Failed to save job ${job.id} to any storage medium: ${
+          fileError instanceof Error ? fileError.message : "Unknown error"
+        }`,
+      );
+    }
+  }
+
+  return job;
+}
+
+/**
+ * Get all queued scraping jobs
+ * Reads from the database first and falls back to file storage
+ * @returns Array of jobs, oldest first
+ */
+export async function getScrapingJobs(): Promise<ScrapingJob[]> {
+  if (isDatabaseAvailable()) {
+    try {
+      const rows = await executeQuery(
+        "SELECT job_data FROM scraping_jobs ORDER BY createdAt ASC",
+      );
+      if (Array.isArray(rows)) {
+        return rows.map((row: any) => parseJobData(row.job_data));
+      }
+    } catch (dbError) {
+      console.error("Storage: MySQL error loading scraping jobs:", {
+        message: dbError instanceof Error ? dbError.message : dbError,
+      });
+    }
+  }
+
+  return loadAllJobsFromFiles();
+}
+
+/**
+ * Get a queued scraping job by ID
+ * @param id The job ID
+ * @returns The job or null if not found
+ */
+export async function getScrapingJobById(
+  id: string,
+): Promise<ScrapingJob | null> {
+  if (isDatabaseAvailable()) {
+    try {
+      const rows = await executeQuery(
+        "SELECT job_data FROM scraping_jobs WHERE id = ?",
+        [id],
+      );
+      if (Array.isArray(rows) && rows.length > 0) {
+        return parseJobData((rows[0] as any).job_data);
+      }
+    } catch (dbError) {
+      console.error(`Storage: MySQL error loading scraping job ${id}:`, {
+        message: dbError instanceof Error ? dbError.message : dbError,
+      });
+    }
+  }
+
+  return loadJobFromFile(id);
+}
+
+/**
+ * Delete a queued scraping job from both storage media
+ * @param id The job ID
+ * @returns True if the job was deleted from at least one storage medium
+ */
+export async function deleteScrapingJob(id: string): Promise<boolean> {
+  let deletedFromDb = false;
+
+  if (isDatabaseAvailable()) {
+    try {
+      const result: any = await executeQuery(
+        "DELETE FROM scraping_jobs WHERE id = ?",
+        [id],
+      );
+      deletedFromDb = (result?.affectedRows || 0) > 0;
+    } catch (dbError) {
+      console.error(`Storage: MySQL error deleting scraping job ${id}:`, {
+        message: dbError instanceof Error ? dbError.message : dbError,
+      });
+    }
+  }
+
+  const deletedFromFile = await deleteJobFile(id);
+  return deletedFromDb || deletedFromFile;
+}
+
+/**
+ * Parse the job_data column, which MySQL may return as a string or object
+ */
+function parseJobData(data: any): ScrapingJob {
+  return typeof data === "string" ? JSON.parse(data) : data;
+}
+
+/**
+ * Save a webhook delivery to both MySQL and JSON file storage
+ * @param delivery The delivery to save
+ * @returns The saved delivery
+ */
+export async function saveWebhookDelivery(
+  delivery: WebhookDelivery,
+): Promise<WebhookDelivery> {
+  if (!delivery || !delivery.id) {
+    const error = new Error("Invalid webhook delivery: id is required");
+    console.error("Storage: saveWebhookDelivery validation error:", error);
+    throw error;
+  }
+
+  delivery.updatedAt = new Date().toISOString();
+  let savedToDb = false;
+
+  if (isDatabaseAvailable()) {
+    try {
+      await executeQuery(
+        `INSERT INTO webhook_deliveries (id, configId, status, delivery_data, createdAt, updatedAt)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON DUPLICATE KEY UPDATE status = VALUES(status),
+           delivery_data = VALUES(delivery_data), updatedAt = VALUES(updatedAt)`,
+        [
+          delivery.id,
+          delivery.configId,
+          delivery.status,
+          JSON.stringify(delivery),
+          new Date(delivery.createdAt),
+          new Date(delivery.updatedAt),
+        ],
+      );
+      savedToDb = true;
+    } catch (dbError) {
+      console.error(
+        `Storage: MySQL error saving webhook delivery ${delivery.id}:`,
+        { message: dbError instanceof Error ? dbError.message : dbError },
+      );
+      // Continue to file storage even if database fails
+    }
+  }
+
+  try {
+    await saveDeliveryToFile(delivery);
+  } catch (fileError) {
+    if (!savedToDb) {
+      throw new Error(
+        `Failed to save webhook delivery ${delivery.id} to any storage medium: ${
+          fileError instanceof Error ? fileError.message : "Unknown error"
+        }`,
+      );
+    }
+  }
+
+  return delivery;
+}
+
+/**
+ * Get the webhook delivery log
+ * Reads from the database first and falls back to file storage
+ * @param configId Optional configuration to filter by
+ * @returns Array of deliveries, newest first
+ */
+export async function getWebhookDeliveries(
+  configId?: string,
+): Promise<WebhookDelivery[]> {
+  if (isDatabaseAvailable()) {
+    try {
+      const rows = configId
+        ? await executeQuery(
+            "SELECT delivery_data FROM webhook_deliveries WHERE configId = ? ORDER BY createdAt DESC",
+            [configId],
+          )
+        : await executeQuery(
+            "SELECT delivery_data FROM webhook_deliveries ORDER BY createdAt DESC",
+          );
+      if (Array.isArray(rows)) {
+        return rows.map((row: any) => parseDeliveryData(row.delivery_data));
+      }
+    } catch (dbError) {
+      console.error("Storage: MySQL error loading webhook deliveries:", {
+        message: dbError instanceof Error ? dbError.message : dbError,
+      });
+    }
+  }
+
+  const deliveries = await loadAllDeliveriesFromFiles();
+  return configId
+    ? deliveries.filter((delivery) => delivery.configId === configId)
+    : deliveries;
+}
+
+/**
+ * Get a webhook delivery by ID
+ * @param id The delivery ID
+ * @returns The delivery or null if not found
+ */
+export async function getWebhookDeliveryById(
+  id: string,
+): Promise<WebhookDelivery | null> {
+  if (isDatabaseAvailable()) {
+    try {
+      const rows = await executeQuery(
+        "SELECT delivery_data FROM webhook_deliveries WHERE id = ?",
+        [id],
+      );
+      if (Array.isArray(rows) && rows.length > 0) {
+        return parseDeliveryData((rows[0] as any).delivery_data);
+      }
+    } catch (dbError) {
+      console.error(`Storage: MySQL error loading webhook delivery ${id}:`, {
+        message: dbError instanceof Error ? dbError.message : dbError,
+      });
+    }
+  }
+
+  return loadDeliveryFromFile(id);
+}
+
+/**
+ * Delete a webhook delivery from both storage media
+ * @param id The delivery ID
+ * @returns True if the delivery was deleted from at least one storage medium
+ */
+export async function deleteWebhookDelivery(id: string): Promise<boolean> {
+  let deletedFromDb = false;
+
+  if (isDatabaseAvailable()) {
+    try {
+      const result: any = await executeQuery(
+        "DELETE FROM webhook_deliveries WHERE id = ?",
+        [id],
+      );
+      deletedFromDb = (result?.affectedRows || 0) > 0;
+    } catch (dbError) {
+      console.error(`Storage: MySQL error deleting webhook delivery ${id}:`, {
+        message: dbError instanceof Error ? dbError.message : dbError,
+      });
+    }
+  }
+
+  const deletedFromFile = await deleteDeliveryFile(id);
+  return deletedFromDb || deletedFromFile;
+}
+
+/**
+ * Parse the delivery_data column, which MySQL may return as a string or object
+ */
+function parseDeliveryData(data: any): WebhookDelivery {
+  return typeof data === "string" ? JSON.parse(data) : data;
+}
+
+/**
+ * Save a category definition to both MySQL and JSON file storage
+ * The name is stored lowercase and identifies the category
+ * @param category The category to save
+ * @returns The saved category
+ */
+export async function saveCategoryDefinition(
+  category: CategoryDefinition,
+): Promise<CategoryDefinition> {
+  if (!category || !category.name) {
+    const error = new Error("Invalid category: name is required");
+    console.error("Storage: saveCategoryDefinition validation error:", error);
+    throw error;
+  }
+
+  const now = new Date().toISOString();
+  const name = category.name.toLowerCase().trim();
+  const existing = await getCategoryDefinition(name);
+  const saved: CategoryDefinition = {
+    ...category,
+    id: existing?.id || category.id || generateId(),
+    name,
+    keywords: category.keywords || [],
+    createdAt: existing?.createdAt || category.createdAt || now,
+    updatedAt: now,
+  };
+  let savedToDb = false;
+
+  if (isDatabaseAvailable()) {
+    try {
+      const { keywordWeights, negativeKeywords, headingPatterns, strategy } =
+        saved;
+      // The table predates extraction rules, so they live in metadata
+      await executeQuery(
+        `INSERT INTO scraping_categories (id, name, description, keywords, metadata, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON DUPLICATE KEY UPDATE description = VALUES(description),
+           keywords = VALUES(keywords), metadata = VALUES(metadata),
+           updated_at = VALUES(updated_at)`,
+        [
+          saved.id,
+          saved.name,
+          saved.description,
+          JSON.stringify(saved.keywords),
+          JSON.stringify({
+            ...saved.metadata,
+            rules: {
+              keywordWeights,
+              negativeKeywords,
+              headingPatterns,
+              strategy,
+            },
+          }),
+          new Date(saved.createdAt!),
+          new Date(saved.updatedAt!),
+        ],
+      );
+      savedToDb = true;
+    } catch (dbError) {
+      console.error(`Storage: MySQL error saving category ${name}:`, {
+        message: dbError instanceof Error ? dbError.message : dbError,
+      });
+      // Continue to file storage even if database fails
+    }
+  }
+
+  try {
+    await saveCategoryToFile(saved);
+  } catch (fileError) {
+    if (!savedToDb) {
+      throw new Error(
+        `Failed to save category ${name} to any storage medium: ${
+          fileError instanceof Error ? fileError.message : "Unknown error"
+        }`,
+      );
+    }
+  }
+
+  return saved;
+}
+
+/**
+ * Get all stored category definitions
+ * Reads from the database first and falls back to file storage
+ * @returns Array of categories sorted by name
+ */
+export async function getCategoryDefinitions(): Promise<CategoryDefinition[]> {
+  if (isDatabaseAvailable()) {
+    try {
+      const rows = await executeQuery(
+        "SELECT * FROM scraping_categories ORDER BY name ASC",
+      );
+      if (Array.isArray(rows) && rows.length > 0) {
+        return rows.map(parseCategoryRow);
+      }
+    } catch (dbError) {
+      console.error("Storage: MySQL error loading categories:", {
+        message: dbError instanceof Error ? dbError.message : dbError,
+      });
+    }
+  }
+
+  return loadAllCategoriesFromFiles();
+}
+
+/**
+ * Get a stored category definition by name
+ * @param name The category name
+ * @returns The category or null if it was never stored
+ */
+export async function getCategoryDefinition(
+  name: string,
+): Promise<CategoryDefinition | null> {
+  const key = name.toLowerCase().trim();
+
+  if (isDatabaseAvailable()) {
+    try {
+      const rows = await executeQuery(
+        "SELECT * FROM scraping_categories WHERE name = ?",
+        [key],
+      );
+      if (Array.isArray(rows) && rows.length > 0) {
+        return parseCategoryRow(rows[0]);
+      }
+    } catch (dbError) {
+      console.error(`Storage: MySQL error loading category ${key}:`, {
+        message: dbError instanceof Error ? dbError.message : dbError,
+      });
+    }
+  }
+
+  return loadCategoryFromFile(key);
+}
+
+/**
+ * Delete a category definition from both storage media
+ * Built-in categories fall back to their default rules
+ * @param name The category name
+ * @returns True if the category was deleted from at least one storage medium
+ */
+export async function deleteCategoryDefinition(name: string): Promise<boolean> {
+  const key = name.toLowerCase().trim();
+  let deletedFromDb = false;
+
+  if (isDatabaseAvailable()) {
+    try {
+      const result: any = await executeQuery(
+        "DELETE FROM scraping_categories WHERE name = ?",
+        [key],
+      );
+      deletedFromDb = (result?.affectedRows || 0) > 0;
+    } catch (dbError) {
+      console.error(`Storage: MySQL error deleting category ${key}:`, {
+        message: dbError instanceof Error ? dbError.message : dbError,
+      });
+    }
+  }
+
+  const deletedFromFile = await deleteCategoryFile(key);
+  return deletedFromDb || deletedFromFile;
+}
+
+/**
+ * Convert a scraping_categories row, lifting the extraction rules out of
+ * its metadata column
+ */
+function parseCategoryRow(row: any): CategoryDefinition {
+  const parse = (value: any, fallback: any) =>
+    typeof value === "string"
+      ? (JSON.parse(value || "null") ?? fallback)
+      : (value ?? fallback);
+  const { rules = {}, ...metadata } = parse(row.metadata, {});
+
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    keywords: parse(row.keywords, []),
+    ...rules,
+    metadata,
+    createdAt:
+      row.created_at instanceof Date
+        ? row.created_at.toISOString()
+        : row.created_at,
+    updatedAt:
+      row.updated_at instanceof Date
+        ? row.updated_at.toISOString()
+        : row.updated_at,
+  };
+}
+
+/**
+ * Save an auth profile to both MySQL and JSON file storage
+ * The password, token and cookie jar are encrypted before they are stored
+ * @param profile The profile to save, with its secrets in plain text
+ * @returns The saved profile, with its secrets in plain text
+ */
+export async function saveAuthProfile(
+  profile: AuthProfile,
+): Promise<AuthProfile> {
+  if (!profile || !profile.name) {
+    const error = new Error("Invalid auth profile: name is required");
+    console.error("Storage: saveAuthProfile validation error:", error);
+    throw error;
+  }
+
+  const now = new Date().toISOString();
+  const saved: AuthProfile = {
+    ...profile,
+    id: profile.id || generateId(),
+    createdAt: profile.createdAt || now,
+    updatedAt: now,
+  };
+  const stored = transformAuthSecrets(saved, encryptSecret);
+  let savedToDb = false;
+
+  if (isDatabaseAvailable()) {
+    try {
+      await executeQuery(
+        `INSERT INTO auth_profiles (id, name, type, profile_data, createdAt, updatedAt)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON DUPLICATE KEY UPDATE name = VALUES(name), type = VALUES(type),
+           profile_data = VALUES(profile_data), updatedAt = VALUES(updatedAt)`,
+        [
+          stored.id,
+          stored.name,
+          stored.type,
+          JSON.stringify(stored),
+          new Date(stored.createdAt!),
+          new Date(stored.updatedAt!),
+        ],
+      );
+      savedToDb = true;
+    } catch (dbError) {
+      console.error(`Storage: MySQL error saving auth profile ${saved.id}:`, {
+        message: dbError instanceof Error ? dbError.message : dbError,
+      });
+      // Continue to file storage even if database fails
+    }
+  }
+
+  try {
+    await saveAuthProfileToFile(stored);
+  } catch (fileError) {
+    if (!savedToDb) {
+      throw new Error(
+        `Failed to save auth profile ${saved.id} to any storage medium: ${
+          fileError instanceof Error ? fileError.message : "Unknown error"
+        }`,
+      );
+    }
+  }
+
+  return saved;
+}
+
+/**
+ * Get all auth profiles
+ * Reads from the database first and falls back to file storage
+ * @returns Array of profiles sorted by name, with their secrets decrypted
+ */
+export async function getAuthProfiles(): Promise<AuthProfile[]> {
+  if (isDatabaseAvailable()) {
+    try {
+      const rows = await executeQuery(
+        "SELECT profile_data FROM auth_profiles ORDER BY name ASC",
+      );
+      if (Array.isArray(rows)) {
+        return rows.map((row: any) =>
+          transformAuthSecrets(
+            parseJsonColumn(row.profile_data),
+            decryptSecret,
+          ),
+        );
+      }
+    } catch (dbError) {
+      console.error("Storage: MySQL error loading auth profiles:", {
+        message: dbError instanceof Error ? dbError.message : dbError,
+      });
+    }
+  }
+
+  return (await loadAllAuthProfilesFromFiles()).map((profile) =>
+    transformAuthSecrets(profile, decryptSecret),
+  );
+}
+
+/**
+ * Get an auth profile by ID
+ * @param id The profile ID
+ * @returns The profile with its secrets decrypted, or null if not found
+ */
+export async function getAuthProfileById(
+  id: string,
+): Promise<AuthProfile | null> {
+  if (isDatabaseAvailable()) {
+    try {
+      const rows = await executeQuery(
+        "SELECT profile_data FROM auth_profiles WHERE id = ?",
+        [id],
+      );
+      if (Array.isArray(rows) && rows.length > 0) {
+        return transformAuthSecrets(
+          parseJsonColumn((rows[0] as any).profile_data),
+          decryptSecret,
+        );
+      }
+    } catch (dbError) {
+      console.error(`Storage: MySQL error loading auth profile ${id}:`, {
+        message: dbError instanceof Error ? dbError.message : dbError,
+      });
+    }
+  }
+
+  const profile = await loadAuthProfileFromFile(id);
+  return profile && transformAuthSecrets(profile, decryptSecret);
+}
+
+/**
+ * Delete an auth profile and its session from both storage media
+ * @param id The profile ID
+ * @returns True if the profile was deleted from at least one storage medium
+ */
+export async function deleteAuthProfile(id: string): Promise<boolean> {
+  let deletedFromDb = false;
+
+  if (isDatabaseAvailable()) {
+    try {
+      const result: any = await executeQuery(
+        "DELETE FROM auth_profiles WHERE id = ?",
+        [id],
+      );
+      deletedFromDb = (result?.affectedRows || 0) > 0;
+    } catch (dbError) {
+      console.error(`Storage: MySQL error deleting auth profile ${id}:`, {
+        message: dbError instanceof Error ? dbError.message : dbError,
+      });
+    }
+  }
+
+  const deletedFromFile = await deleteAuthProfileFile(id);
+  await deleteAuthSession(id);
+  return deletedFromDb || deletedFromFile;
+}
+
+/**
+ * Save the session captured for an auth profile, replacing the previous one
+ * Cookie values are encrypted before they are stored
+ * @param session The session to save
+ * @returns The saved session
+ */
+export async function saveAuthSession(
+  session: AuthSession,
+): Promise<AuthSession> {
+  if (!session || !session.profileId) {
+    const error = new Error("Invalid auth session: profileId is required");
+    console.error("Storage: saveAuthSession validation error:", error);
+    throw error;
+  }
+
+  const stored = transformSessionCookies(session, encryptSecret);
+  let savedToDb = false;
+
+  if (isDatabaseAvailable()) {
+    try {
+      await executeQuery(
+        `INSERT INTO auth_sessions (profileId, session_data, expiresAt, createdAt)
+         VALUES (?, ?, ?, ?)
+         ON DUPLICATE KEY UPDATE session_data = VALUES(session_data),
+           expiresAt = VALUES(expiresAt), createdAt = VALUES(createdAt)`,
+        [
+          stored.profileId,
+          JSON.stringify(stored),
+          new Date(stored.expiresAt),
+          new Date(stored.createdAt),
+        ],
+      );
+      savedToDb = true;
+    } catch (dbError) {
+      console.error(
+        `Storage: MySQL error saving session of auth profile ${session.profileId}:`,
+        { message: dbError instanceof Error ? dbError.message : dbError },
+      );
+      // Continue to file storage even if database fails
+    }
+  }
+
+  try {
+    await saveSessionToFile(stored);
+  } catch (fileError) {
+    if (!savedToDb) {
+      throw new Error(
+        `Failed to save session of auth profile ${session.profileId} to any storage medium: ${
+          fileError instanceof Error ? fileError.message : "Unknown error"
+        }`,
+      );
+    }
+  }
+
+  return session;
+}
+
+/**
+ * Get the stored session of an auth profile, expired or not
+ * @param profileId The profile ID
+ * @returns The session with its cookie values decrypted, or null if the
+ * profile has not signed in yet
+ */
+export async function getAuthSession(
+  profileId: string,
+): Promise<AuthSession | null> {
+  if (isDatabaseAvailable()) {
+    try {
+      const rows = await executeQuery(
+        "SELECT session_data FROM auth_sessions WHERE profileId = ?",
+        [profileId],
+      );
+      if (Array.isArray(rows) && rows.length > 0) {
+        return transformSessionCookies(
+          parseJsonColumn((rows[0] as any).session_data),
+          decryptSecret,
+        );
+      }
+    } catch (dbError) {
+      console.error(
+        `Storage: MySQL error loading session of auth profile ${profileId}:`,
+        { message: dbError instanceof Error ? dbError.message : dbError },
+      );
+    }
+  }
+
+  const session = await loadSessionFromFile(profileId);
+  return session && transformSessionCookies(session, decryptSecret);
+}
+
+/**
+ * Delete the stored session of an auth profile, so it signs in again
+ * @param profileId The profile ID
+ * @returns True if a session was deleted from at least one storage medium
+ */
+export async function deleteAuthSession(profileId: string): Promise<boolean> {
+  let deletedFromDb = false;
+
+  if (isDatabaseAvailable()) {
+    try {
+      const result: any = await executeQuery(
+        "DELETE FROM auth_sessions WHERE profileId = ?",
+        [profileId],
+      );
+      deletedFromDb = (result?.affectedRows || 0) > 0;
+    } catch (dbError) {
+      console.error(
+        `Storage: MySQL error deleting session of auth profile ${profileId}:`,
+        { message: dbError instanceof Error ? dbError.message : dbError },
+      );
+    }
+  }
+
+  const deletedFromFile = await deleteSessionFile(profileId);
+  return deletedFromDb || deletedFromFile;
+}
+
+/**
+ * Save a proxy pool to both MySQL and JSON file storage
+ * Proxy URLs are encrypted before they are stored, as they may carry
+ * credentials
+ * @param pool The pool to save, with its proxy URLs in plain text
+ * @returns The saved pool, with its proxy URLs in plain text
+ */
+export async function saveProxyPool(pool: ProxyPool): Promise<ProxyPool> {
+  if (!pool || !pool.name) {
+    const error = new Error("Invalid proxy pool: name is required");
+    console.error("Storage: saveProxyPool validation error:", error);
+    throw error;
+  }
+
+  const now = new Date().toISOString();
+  const saved: ProxyPool = {
+    ...pool,
+    id: pool.id || generateId(),
+    createdAt: pool.createdAt || now,
+    updatedAt: now,
+  };
+  const stored = { ...saved, proxies: saved.proxies.map(encryptSecret) };
+  let savedToDb = false;
+
+  if (isDatabaseAvailable()) {
+    try {
+      await executeQuery(
+        `INSERT INTO proxy_pools (id, name, pool_data, createdAt, updatedAt)
+         VALUES (?, ?, ?, ?, ?)
+         ON DUPLICATE KEY UPDATE name = VALUES(name),
+           pool_data = VALUES(pool_data), updatedAt = VALUES(updatedAt)`,
+        [
+          stored.id,
+          stored.name,
+          JSON.stringify(stored),
+          new Date(stored.createdAt!),
+          new Date(stored.updatedAt!),
+        ],
+      );
+      savedToDb = true;
+    } catch (dbError) {
+      console.error(`Storage: MySQL error saving proxy pool ${saved.id}:`, {
+        message: dbError instanceof Error ? dbError.message : dbError,
+      });
+      // Continue to file storage even if database fails
+    }
+  }
+
+  try {
+    await saveProxyPoolToFile(stored);
+  } catch (fileError) {
+    if (!savedToDb) {
+      throw new Error(
+        `Failed to save proxy pool ${saved.id} to any storage medium: ${
+          fileError instanceof Error ? fileError.message : "Unknown error"
+        }`,
+      );
+    }
+  }
+
+  return saved;
+}
+
+/**
+ * Get all proxy pools
+ * Reads from the database first and falls back to file storage
+ * @returns Array of pools sorted by name, with their proxy URLs decrypted
+ */
+export async function getProxyPools(): Promise<ProxyPool[]> {
+  if (isDatabaseAvailable()) {
+    try {
+      const rows = await executeQuery(
+        "SELECT pool_data FROM proxy_pools ORDER BY name ASC",
+      );
+      if (Array.isArray(rows)) {
+        return rows.map((row: any) =>
+          decryptProxyPool(parseJsonColumn(row.pool_data)),
+        );
+      }
+    } catch (dbError) {
+      console.error("Storage: MySQL error loading proxy pools:", {
+        message: dbError instanceof Error ? dbError.message : dbError,
+      });
+    }
+  }
+
+  return (await loadAllProxyPoolsFromFiles()).map(decryptProxyPool);
+}
+
+/**
+ * Get a proxy pool by ID
+ * @param id The pool ID
+ * @returns The pool with its proxy URLs decrypted, or null if not found
+ */
+export async function getProxyPoolById(id: string): Promise<ProxyPool | null> {
+  if (isDatabaseAvailable()) {
+    try {
+      const rows = await executeQuery(
+        "SELECT pool_data FROM proxy_pools WHERE id = ?",
+        [id],
+      );
+      if (Array.isArray(rows) && rows.length > 0) {
+        return decryptProxyPool(parseJsonColumn((rows[0] as any).pool_data));
+      }
+    } catch (dbError) {
+      console.error(`Storage: MySQL error loading proxy pool ${id}:`, {
+        message: dbError instanceof Error ? dbError.message : dbError,
+      });
+    }
+  }
+
+  const pool = await loadProxyPoolFromFile(id);
+  return pool && decryptProxyPool(pool);
+}
+
+/**
+ * Delete a proxy pool from both storage media
+ * @param id The pool ID
+ * @returns True if the pool was deleted from at least one storage medium
+ */
+export async function deleteProxyPool(id: string): Promise<boolean> {
+  let deletedFromDb = false;
+
+  if (isDatabaseAvailable()) {
+    try {
+      const result: any = await executeQuery(
+        "DELETE FROM proxy_pools WHERE id = ?",
+        [id],
+      );
+      deletedFromDb = (result?.affectedRows || 0) > 0;
+    } catch (dbError) {
+      console.error(`Storage: MySQL error deleting proxy pool ${id}:`, {
+        message: dbError instanceof Error ? dbError.message : dbError,
+      });
+    }
+  }
+
+  const deletedFromFile = await deleteProxyPoolFile(id);
+  return deletedFromDb || deletedFromFile;
+}
+
+/**
+ * Save the rate limits of a domain to both MySQL and JSON file storage,
+ * replacing its previous limits
+ * @param limit The limits to save
+ * @returns The saved limits
+ */
+export async function saveDomainRateLimit(
+  limit: DomainRateLimit,
+): Promise<DomainRateLimit> {
+  if (!limit || !limit.domain) {
+    const error = new Error("Invalid rate limit: domain is required");
+    console.error("Storage: saveDomainRateLimit validation error:", error);
+    throw error;
+  }
+
+  const saved: DomainRateLimit = {
+    ...limit,
+    updatedAt: new Date().toISOString(),
+  };
+  let savedToDb = false;
+
+  if (isDatabaseAvailable()) {
+    try {
+      await executeQuery(
+        `INSERT INTO domain_rate_limits (domain, limit_data, updatedAt)
+         VALUES (?, ?, ?)
+         ON DUPLICATE KEY UPDATE limit_data = VALUES(limit_data),
+           updatedAt = VALUES(updatedAt)`,
+        [saved.domain, JSON.stringify(saved), new Date(saved.updatedAt!)],
+      );
+      savedToDb = true;
+    } catch (dbError) {
+      console.error(
+        `Storage: MySQL error saving rate limit of ${saved.domain}:`,
+        { message: dbError instanceof Error ? dbError.message : dbError },
+      );
+      // Continue to file storage even if database fails
+    }
+  }
+
+  try {
+    await saveRateLimitToFile(saved);
+  } catch (fileError) {
+    if (!savedToDb) {
+      throw new Error(
+        `Failed to save rate limit of ${saved.domain} to any storage medium: ${
+          fileError instanceof Error ? fileError.message : "Unknown error"
+        }`,
+      );
+    }
+  }
+
+  return saved;
+}
+
+/**
+ * Get the rate limits of every domain with limits of its own
+ * Reads from the database first and falls back to file storage
+ * @returns Array of limits sorted by domain
+ */
+export async function getDomainRateLimits(): Promise<DomainRateLimit[]> {
+  if (isDatabaseAvailable()) {
+    try {
+      const rows = await executeQuery(
+        "SELECT limit_data FROM domain_rate_limits ORDER BY domain ASC",
+      );
+      if (Array.isArray(rows)) {
+        return rows.map((row: any) => parseJsonColumn(row.limit_data));
+      }
+    } catch (dbError) {
+      console.error("Storage: MySQL error loading rate limits:", {
+        message: dbError instanceof Error ? dbError.message : dbError,
+      });
+    }
+  }
+
+  return loadAllRateLimitsFromFiles();
+}
+
+/**
+ * Delete the rate limits of a domain, so the defaults apply again
+ * @param domain The domain
+ * @returns True if limits were deleted from at least one storage medium
+ */
+export async function deleteDomainRateLimit(domain: string): Promise<boolean> {
+  let deletedFromDb = false;
+
+  if (isDatabaseAvailable()) {
+    try {
+      const result: any = await executeQuery(
+        "DELETE FROM domain_rate_limits WHERE domain = ?",
+        [domain],
+      );
+      deletedFromDb = (result?.affectedRows || 0) > 0;
+    } catch (dbError) {
+      console.error(`Storage: MySQL error deleting rate limit of ${domain}:`, {
+        message: dbError instanceof Error ? dbError.message : dbError,
+      });
+    }
+  }
+
+  const deletedFromFile = await deleteRateLimitFile(domain);
+  return deletedFromDb || deletedFromFile;
+}
+
+/**
+ * Encrypt or decrypt the secret fields of an auth profile
+ */
+function transformAuthSecrets(
+  profile: AuthProfile,
+  transform: (value: string) => string,
+): AuthProfile {
+  const result = { ...profile };
+  for (const field of AUTH_SECRET_FIELDS) {
+    if (result[field]) result[field] = transform(result[field]!);
+  }
+  return result;
+}
+
+/**
+ * Encrypt or decrypt the cookie values of a session
+ */
+function transformSessionCookies(
+  session: AuthSession,
+  transform: (value: string) => string,
+): AuthSession {
+  return {
+    ...session,
+    cookies: session.cookies.map((cookie) => ({
+      ...cookie,
+      value: transform(cookie.value),
+    })),
+  };
+}
+
+/**
+ * Decrypt the proxy URLs of a stored pool
+ */
+function decryptProxyPool(pool: ProxyPool): ProxyPool {
+  return { ...pool, proxies: (pool.proxies || []).map(decryptSecret) };
+}
+
+/**
+ * Parse a JSON column, which MySQL may return as a string or object
+ */
+function parseJsonColumn(data: any): any {
+  return typeof data === "string" ? JSON.parse(data) : data;
+}
+
 /**
  * Export scraping results in various formats
  * @param options Export options
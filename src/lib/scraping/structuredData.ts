@@ -0,0 +1,459 @@
+/**
+ * Structured data module
+ * Harvests JSON-LD, microdata, RDFa Lite, OpenGraph and Twitter card data
+ * embedded in a page and maps schema.org types onto our categories
+ */
+
+import { StructuredData } from "@/types/scraping";
+
+// Elements whose microdata value is an URL attribute
+const URL_PROPERTY_ATTRIBUTES: Record<string, string> = {
+  a: "href",
+  area: "href",
+  link: "href",
+  audio: "src",
+  embed: "src",
+  iframe: "src",
+  img: "src",
+  source: "src",
+  track: "src",
+  video: "src",
+  object: "data",
+};
+
+// schema.org types mapped onto the contact category
+const ORGANIZATION_TYPES = [
+  "Organization",
+  "LocalBusiness",
+  "Corporation",
+  "GovernmentOrganization",
+  "EducationalOrganization",
+  "MedicalOrganization",
+  "NGO",
+  "Store",
+  "Restaurant",
+  "ProfessionalService",
+];
+
+interface StructuredItem {
+  title: string;
+  description: string;
+  schemaType: string;
+  [key: string]: any;
+}
+
+/**
+ * Harvest the structured data embedded in a document
+ * Must run before scripts are removed from the document
+ */
+export function harvestStructuredData(document: Document): StructuredData {
+  return {
+    jsonLd: parseJsonLd(document),
+    microdata: parseMicrodata(document),
+    rdfa: parseRdfa(document),
+    openGraph: parseMetaProperties(document, /^(og|product|article):/),
+    twitter: parseMetaProperties(document, /^twitter:/),
+  };
+}
+
+/**
+ * Check whether any structured data was found
+ */
+export function hasStructuredData(data: StructuredData): boolean {
+  return (
+    data.jsonLd.length > 0 ||
+    data.microdata.length > 0 ||
+    data.rdfa.length > 0 ||
+    Object.keys(data.openGraph).length > 0 ||
+    Object.keys(data.twitter).length > 0
+  );
+}
+
+/**
+ * Map schema.org nodes onto categories
+ * Product goes to products, Offer to fees, FAQPage and Question to faq,
+ * Organization and ContactPoint to contact, PostalAddress to locations and
+ * OpeningHoursSpecification to hours
+ * @returns Items keyed by category, only for categories with items
+ */
+export function mapStructuredData(
+  data: StructuredData,
+): Record<string, { items: StructuredItem[] }> {
+  const categories: Record<string, { items: StructuredItem[] }> = {};
+  const add = (category: string, item: StructuredItem) => {
+    if (!item.title && !item.description) return;
+    categories[category] = categories[category] || { items: [] };
+    categories[category].items.push(item);
+  };
+
+  const sources: [string, any[]][] = [
+    ["json-ld", data.jsonLd],
+    ["microdata", data.microdata],
+    ["rdfa", data.rdfa],
+  ];
+
+  for (const [format, roots] of sources) {
+    visitNodes(roots, (node, parent) => {
+      const types = getTypes(node);
+      const parentName = parent ? text(parent.name) : "";
+      const base = { format, schemaType: types[0] };
+
+      if (types.includes("Product")) {
+        const offer = first(node.offers);
+        add("products", {
+          ...base,
+          title: text(node.name),
+          description: text(node.description),
+          sku: text(node.sku) || undefined,
+          brand: text(first(node.brand)?.name ?? node.brand) || undefined,
+          image: text(first(node.image)?.url ?? first(node.image)) || undefined,
+          url: text(node.url) || undefined,
+          price: offer ? getPrice(offer) : undefined,
+          currency: offer ? text(offer.priceCurrency) || undefined : undefined,
+        });
+      }
+
+      if (types.includes("Offer") || types.includes("AggregateOffer")) {
+        const price = getPrice(node);
+        const currency = text(node.priceCurrency);
+        add("fees", {
+          ...base,
+          title: text(node.name) || parentName || "Offer",
+          description: [price, currency].filter(Boolean).join(" "),
+          price: price || undefined,
+          currency: currency || undefined,
+          availability: stripSchema(text(node.availability)) || undefined,
+          url: text(node.url) || undefined,
+        });
+      }
+
+      if (types.includes("Question")) {
+        add("faq", {
+          ...base,
+          title: text(node.name),
+          description: text(
+            first(node.acceptedAnswer)?.text ??
+              first(node.suggestedAnswer)?.text,
+          ),
+        });
+      }
+
+      if (types.some((type) => ORGANIZATION_TYPES.includes(type))) {
+        const details = {
+          telephone: text(node.telephone) || undefined,
+          email: text(node.email).replace(/^mailto:/, "") || undefined,
+          url: text(node.url) || undefined,
+          sameAs: toArray(node.sameAs).map(text).filter(Boolean),
+        };
+        const description = [details.telephone, details.email, details.url]
+          .filter(Boolean)
+          .join(", ");
+
+        // An organization named only as a brand or publisher is no contact
+        if (description) {
+          add("contact", {
+            ...base,
+            title: text(node.name),
+            description,
+            ...details,
+          });
+        }
+
+        for (const hours of toArray(node.openingHours)) {
+          add("hours", {
+            ...base,
+            title: text(node.name) || "Opening hours",
+            description: text(hours),
+          });
+        }
+      }
+
+      if (types.includes("ContactPoint")) {
+        add("contact", {
+          ...base,
+          title: text(node.contactType) || parentName || "Contact",
+          description: [text(node.telephone), text(node.email)]
+            .filter(Boolean)
+            .join(", "),
+          telephone: text(node.telephone) || undefined,
+          email: text(node.email) || undefined,
+        });
+      }
+
+      if (types.includes("PostalAddress")) {
+        const country = text(
+          first(node.addressCountry)?.name ?? node.addressCountry,
+        );
+        const address = [
+          text(node.streetAddress),
+          text(node.addressLocality),
+          text(node.addressRegion),
+          text(node.postalCode),
+          country,
+        ].filter(Boolean);
+        add("locations", {
+          ...base,
+          title: parentName || text(node.addressLocality) || "Address",
+          description: address.join(", "),
+          streetAddress: text(node.streetAddress) || undefined,
+          addressLocality: text(node.addressLocality) || undefined,
+          addressRegion: text(node.addressRegion) || undefined,
+          postalCode: text(node.postalCode) || undefined,
+          addressCountry: country || undefined,
+        });
+      }
+
+      if (types.includes("OpeningHoursSpecification")) {
+        const days = toArray(node.dayOfWeek).map((day) =>
+          stripSchema(text(day)),
+        );
+        const opens = text(node.opens);
+        const closes = text(node.closes);
+        add("hours", {
+          ...base,
+          title: days.join(", ") || parentName || "Opening hours",
+          description:
+            opens || closes ? `${opens || "?"} - ${closes || "?"}` : "Closed",
+          dayOfWeek: days,
+          opens: opens || undefined,
+          closes: closes || undefined,
+          validFrom: text(node.validFrom) || undefined,
+          validThrough: text(node.validThrough) || undefined,
+        });
+      }
+    });
+  }
+
+  return categories;
+}
+
+/**
+ * Parse every JSON-LD script, skipping blocks that are not valid JSON
+ */
+function parseJsonLd(document: Document): any[] {
+  const blocks: any[] = [];
+
+  document
+    .querySelectorAll('script[type="application/ld+json"]')
+    .forEach((script) => {
+      try {
+        const parsed = JSON.parse(script.textContent || "");
+        blocks.push(...toArray(parsed));
+      } catch (error) {
+        console.warn("Skipping invalid JSON-LD block");
+      }
+    });
+
+  return blocks;
+}
+
+/**
+ * Parse top-level microdata items
+ */
+function parseMicrodata(document: Document): Record<string, any>[] {
+  return Array.from(document.querySelectorAll("[itemscope]"))
+    .filter((element) => !element.hasAttribute("itemprop"))
+    .map((element) =>
+      parseItem(element, {
+        scope: "itemscope",
+        property: "itemprop",
+        type: (item) => item.getAttribute("itemtype"),
+        id: (item) => item.getAttribute("itemid"),
+      }),
+    );
+}
+
+/**
+ * Parse top-level RDFa Lite resources
+ */
+function parseRdfa(document: Document): Record<string, any>[] {
+  return Array.from(document.querySelectorAll("[typeof]"))
+    .filter((element) => !element.hasAttribute("property"))
+    .map((element) =>
+      parseItem(element, {
+        scope: "typeof",
+        property: "property",
+        type: (item) => {
+          const vocab = item.closest("[vocab]")?.getAttribute("vocab") || "";
+          return (item.getAttribute("typeof") || "")
+            .split(/\s+/)
+            .filter(Boolean)
+            .map((type) => (/^\w+:/.test(type) ? type : `${vocab}${type}`))
+            .join(" ");
+        },
+        id: (item) => item.getAttribute("resource"),
+      }),
+    );
+}
+
+interface ItemSyntax {
+  scope: string; // Attribute that starts an item
+  property: string; // Attribute naming an item's properties
+  type: (element: Element) => string | null;
+  id: (element: Element) => string | null;
+}
+
+/**
+ * Parse a microdata or RDFa item into a JSON-LD style node
+ * Properties of nested items belong to the nested item, not this one
+ */
+function parseItem(element: Element, syntax: ItemSyntax): Record<string, any> {
+  const node: Record<string, any> = {};
+  const types = (syntax.type(element) || "").split(/\s+/).filter(Boolean);
+  if (types.length > 0) node["@type"] = types.length === 1 ? types[0] : types;
+
+  const id = syntax.id(element);
+  if (id) node["@id"] = id;
+
+  const addProperties = (parent: Element) => {
+    for (const child of Array.from(parent.children)) {
+      const names = (child.getAttribute(syntax.property) || "")
+        .split(/\s+/)
+        .filter(Boolean)
+        .map((name) => name.replace(/^.*[:/#]/, ""));
+      const nested = child.hasAttribute(syntax.scope);
+
+      if (names.length > 0) {
+        const value = nested
+          ? parseItem(child, syntax)
+          : getPropertyValue(child, syntax);
+        for (const name of names) {
+          node[name] =
+            node[name] === undefined ? value : [...toArray(node[name]), value];
+        }
+      }
+
+      if (!nested) addProperties(child);
+    }
+  };
+
+  addProperties(element);
+  return node;
+}
+
+/**
+ * Read the value of a property element
+ */
+function getPropertyValue(element: Element, syntax: ItemSyntax): string {
+  const tag = element.tagName.toLowerCase();
+
+  if (element.hasAttribute("content")) {
+    return element.getAttribute("content") || "";
+  }
+  if (syntax.scope === "typeof") {
+    const resource =
+      element.getAttribute("resource") ||
+      element.getAttribute("href") ||
+      element.getAttribute("src");
+    if (resource) return resource;
+  }
+  if (URL_PROPERTY_ATTRIBUTES[tag]) {
+    return element.getAttribute(URL_PROPERTY_ATTRIBUTES[tag]) || "";
+  }
+  if (tag === "time" && element.hasAttribute("datetime")) {
+    return element.getAttribute("datetime") || "";
+  }
+  if ((tag === "data" || tag === "meter") && element.hasAttribute("value")) {
+    return element.getAttribute("value") || "";
+  }
+
+  return (element.textContent || "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Collect meta tags whose property or name matches a prefix
+ * Repeated properties, such as several og:image tags, become arrays
+ */
+function parseMetaProperties(
+  document: Document,
+  prefix: RegExp,
+): Record<string, string | string[]> {
+  const properties: Record<string, string | string[]> = {};
+
+  document.querySelectorAll("meta[content]").forEach((meta) => {
+    const key =
+      meta.getAttribute("property") || meta.getAttribute("name") || "";
+    if (!prefix.test(key)) return;
+
+    const value = meta.getAttribute("content") || "";
+    const existing = properties[key];
+    properties[key] =
+      existing === undefined ? value : [...toArray(existing), value];
+  });
+
+  return properties;
+}
+
+/**
+ * Visit every node with a type, including nodes nested in properties and
+ * @graph arrays, passing the closest typed ancestor
+ */
+function visitNodes(
+  roots: any[],
+  visit: (
+    node: Record<string, any>,
+    parent: Record<string, any> | null,
+  ) => void,
+) {
+  const seen = new Set<any>();
+
+  const walk = (value: any, parent: Record<string, any> | null) => {
+    if (!value || typeof value !== "object" || seen.has(value)) return;
+    seen.add(value);
+
+    if (Array.isArray(value)) {
+      value.forEach((entry) => walk(entry, parent));
+      return;
+    }
+
+    const typed = getTypes(value).length > 0;
+    if (typed) visit(value, parent);
+
+    for (const [key, child] of Object.entries(value)) {
+      if (key === "@context") continue;
+      walk(child, typed ? value : parent);
+    }
+  };
+
+  walk(roots, null);
+}
+
+/**
+ * Get the schema.org type names of a node, without the vocabulary URL
+ */
+function getTypes(node: Record<string, any>): string[] {
+  return toArray(node["@type"]).map((type) => stripSchema(String(type)));
+}
+
+function getPrice(offer: Record<string, any>): string {
+  return text(
+    offer.price ?? offer.lowPrice ?? first(offer.priceSpecification)?.price,
+  );
+}
+
+function stripSchema(value: string): string {
+  return value
+    .replace(/^https?:\/\/schema\.org\//i, "")
+    .replace(/^schema:/, "");
+}
+
+function toArray(value: any): any[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function first(value: any): any {
+  return toArray(value)[0];
+}
+
+/**
+ * Read a property as text, unwrapping arrays and JSON-LD value objects
+ */
+function text(value: any): string {
+  const single = first(value);
+  if (single === undefined || single === null) return "";
+  if (typeof single === "object") {
+    return single["@value"] !== undefined ? String(single["@value"]) : "";
+  }
+  return String(single).replace(/\s+/g, " ").trim();
+}
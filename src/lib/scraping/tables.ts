@@ -0,0 +1,341 @@
+/**
+ * Tables module
+ * Parses HTML data tables into expanded grids with detected headers and
+ * typed columns, turns their rows into category items and exports them as CSV
+ */
+
+import {
+  CategoryItem,
+  ExtractedTable,
+  TableColumnType,
+  TableValue,
+} from "@/types/scraping";
+import { createItemId } from "./itemIdentity";
+import { findPrices } from "./prices";
+
+// Spans beyond this are treated as typos rather than layout
+const MAX_SPAN = 100;
+
+// Share of a column's non-empty cells that must parse for it to get a type
+const TYPE_THRESHOLD = 0.8;
+
+// Cells that hold no value, such as "-" or "n/a"
+const EMPTY_CELL_PATTERN = /^(?:-+|–|—|n\/?a|none)?$/i;
+
+const NUMBER_PATTERN = /^[-+]?\d[\d,]*(?:\.\d+)?\s*%?$/;
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})/;
+const DATE_PATTERN =
+  /^(?:\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}|(?:\d{1,2}\s+)?[a-z]{3,9}\.?\s+(?:\d{1,2},?\s+)?\d{4})$/i;
+
+/**
+ * Parse the data tables under the given roots
+ * Nested tables are parsed on their own and tables with fewer than two
+ * columns or no body rows are skipped as layout
+ */
+export function parseTables(roots: Node[]): ExtractedTable[] {
+  const tables: Element[] = [];
+
+  for (const root of roots) {
+    if (root.nodeType !== 1) continue;
+    const element = root as Element;
+    if (element.matches("table")) tables.push(element);
+    tables.push(...Array.from(element.querySelectorAll("table")));
+  }
+
+  return tables
+    .map((table) => parseTable(table as HTMLTableElement))
+    .filter((table): table is Omit<ExtractedTable, "index"> => !!table)
+    .map((table, index) => ({ index, ...table }));
+}
+
+/**
+ * Parse a table, expanding colspan and rowspan so every row has one cell
+ * per column
+ */
+function parseTable(
+  table: HTMLTableElement,
+): Omit<ExtractedTable, "index"> | null {
+  const grid: string[][] = [];
+  const headerRowFlags: boolean[] = [];
+
+  Array.from(table.rows).forEach((row, rowIndex) => {
+    grid[rowIndex] = grid[rowIndex] || [];
+    let column = 0;
+
+    for (const cell of Array.from(row.cells)) {
+      while (grid[rowIndex][column] !== undefined) column++;
+
+      const colspan = clampSpan(cell.getAttribute("colspan"));
+      const rowspanAttribute = cell.getAttribute("rowspan");
+      // rowspan="0" spans the rest of the table section
+      const rowspan =
+        rowspanAttribute === "0"
+          ? (row.parentElement as HTMLTableSectionElement).rows.length -
+            row.sectionRowIndex
+          : clampSpan(rowspanAttribute);
+      const text = (cell.textContent || "").replace(/\s+/g, " ").trim();
+
+      for (let r = 0; r < rowspan; r++) {
+        grid[rowIndex + r] = grid[rowIndex + r] || [];
+        for (let c = 0; c < colspan; c++) {
+          grid[rowIndex + r][column + c] = text;
+        }
+      }
+      column += colspan;
+    }
+
+    headerRowFlags[rowIndex] =
+      row.parentElement?.tagName.toLowerCase() === "thead" ||
+      (row.cells.length > 0 &&
+        Array.from(row.cells).every(
+          (cell) => cell.tagName.toLowerCase() === "th",
+        ));
+  });
+
+  const columnCount = Math.max(0, ...grid.map((row) => row.length));
+  const rows = grid
+    .slice(0, table.rows.length)
+    .map((row) =>
+      Array.from({ length: columnCount }, (_, index) => row[index] || ""),
+    );
+  if (columnCount < 2 || rows.length < 2) return null;
+
+  // Header rows are the leading rows in thead or made of th cells; without
+  // them a first row of labels over typed columns is taken as the header
+  let headerCount = 0;
+  while (headerCount < rows.length - 1 && headerRowFlags[headerCount]) {
+    headerCount++;
+  }
+  if (headerCount === 0 && looksLikeHeader(rows)) headerCount = 1;
+
+  const headerRows = rows.slice(0, headerCount);
+  const bodyRows = rows
+    .slice(headerCount)
+    .filter((row) => row.some((cell) => cell !== ""));
+  if (bodyRows.length === 0) return null;
+
+  return {
+    caption: getCaption(table),
+    headers: buildHeaders(headerRows, columnCount),
+    headerRows,
+    columnTypes: Array.from({ length: columnCount }, (_, column) =>
+      inferColumnType(bodyRows.map((row) => row[column])),
+    ),
+    rows: bodyRows,
+  };
+}
+
+/**
+ * Turn the rows of a table into category items
+ * Each item is titled by the row's first text cell and keeps a typed
+ * column → value map in metadata.columns
+ * @param table The table
+ * @param category Category the items belong to
+ * @param source URL of the page the table is on
+ * @param confidence Confidence given to every row
+ */
+export function tableToItems(
+  table: ExtractedTable,
+  category: string,
+  source: string | undefined,
+  confidence: number,
+): CategoryItem[] {
+  const titleColumn = Math.max(0, table.columnTypes.indexOf("text"));
+  const timestamp = new Date().toISOString();
+
+  return table.rows.map((row, rowIndex) => {
+    const columns: Record<string, TableValue> = {};
+    const cells: string[] = [];
+
+    table.headers.forEach((header, column) => {
+      columns[header] = parseValue(row[column], table.columnTypes[column]);
+      if (column !== titleColumn && row[column]) {
+        cells.push(`${header}: ${row[column]}`);
+      }
+    });
+
+    const title =
+      row[titleColumn] || `${table.caption || "Row"} ${rowIndex + 1}`;
+    const content = cells.join("; ");
+
+    return {
+      id: createItemId(category, source, row[titleColumn], content),
+      title,
+      content,
+      confidence,
+      verified: false,
+      source: source || "",
+      metadata: {
+        extractionMethod: "table",
+        timestamp,
+        table: table.index,
+        ...(table.caption && { tableCaption: table.caption }),
+        row: rowIndex,
+        columns,
+        columnTypes: Object.fromEntries(
+          table.headers.map((header, column) => [
+            header,
+            table.columnTypes[column],
+          ]),
+        ),
+      },
+    };
+  });
+}
+
+/**
+ * Export a table as CSV, header rows first, with cells as on the page
+ */
+export function tableToCsv(table: ExtractedTable): string {
+  const headerRows =
+    table.headerRows.length > 0 ? table.headerRows : [table.headers];
+
+  return [...headerRows, ...table.rows]
+    .map((row) => row.map(escapeCsvCell).join(","))
+    .join("\n");
+}
+
+/**
+ * Convert a cell to the type of its column
+ * Cells that do not parse are kept as text; empty cells become null
+ */
+export function parseValue(text: string, type: TableColumnType): TableValue {
+  if (EMPTY_CELL_PATTERN.test(text.trim())) return null;
+
+  switch (type) {
+    case "currency":
+      return parseCurrency(text) ?? text;
+    case "number":
+      return parseNumber(text) ?? text;
+    case "date":
+      return parseDate(text) ?? text;
+    default:
+      return text;
+  }
+}
+
+/**
+ * Infer the type of a column from its body cells
+ */
+function inferColumnType(cells: string[]): TableColumnType {
+  const values = cells
+    .map((cell) => cell.trim())
+    .filter((cell) => !EMPTY_CELL_PATTERN.test(cell));
+  if (values.length === 0) return "text";
+
+  const share = (parse: (value: string) => unknown) =>
+    values.filter((value) => parse(value) !== null).length / values.length;
+
+  if (share(parseCurrency) >= TYPE_THRESHOLD) return "currency";
+  if (share(parseNumber) >= TYPE_THRESHOLD) return "number";
+  if (share(parseDate) >= TYPE_THRESHOLD) return "date";
+  return "text";
+}
+
+/**
+ * Check whether the first row of a table without th cells holds labels:
+ * all of its cells are text while some column below it is typed
+ */
+function looksLikeHeader(rows: string[][]): boolean {
+  const [first, ...rest] = rows;
+  if (first.some((cell) => !cell)) return false;
+  if (first.some((cell) => inferColumnType([cell]) !== "text")) return false;
+
+  return first.some(
+    (_, column) => inferColumnType(rest.map((row) => row[column])) !== "text",
+  );
+}
+
+/**
+ * Build one label per column, joining the distinct labels of multi-row
+ * headers and numbering repeated labels
+ */
+function buildHeaders(headerRows: string[][], columnCount: number): string[] {
+  const seen = new Map<string, number>();
+
+  return Array.from({ length: columnCount }, (_, column) => {
+    const parts: string[] = [];
+    for (const row of headerRows) {
+      const text = row[column];
+      if (text && parts[parts.length - 1] !== text) parts.push(text);
+    }
+
+    const label = parts.join(" / ") || `Column ${column + 1}`;
+    const count = (seen.get(label) || 0) + 1;
+    seen.set(label, count);
+    return count === 1 ? label : `${label} (${count})`;
+  });
+}
+
+/**
+ * Use the table caption, or the closest heading before the table
+ */
+function getCaption(table: HTMLTableElement): string | undefined {
+  const caption = table.caption?.textContent?.replace(/\s+/g, " ").trim();
+  if (caption) return caption;
+
+  let sibling = table.previousElementSibling;
+  for (let i = 0; sibling && i < 3; i++) {
+    if (/^h[1-6]$/i.test(sibling.tagName)) {
+      return (sibling.textContent || "").replace(/\s+/g, " ").trim();
+    }
+    sibling = sibling.previousElementSibling;
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse a cell holding exactly one price with a currency
+ */
+function parseCurrency(
+  text: string,
+): { amount: number; currency: string } | null {
+  const value = text.trim();
+  const [match] = findPrices(value);
+  if (!match || match.index !== 0 || match.price.raw !== value) return null;
+
+  const { amount, currency, min, max, period } = match.price;
+  if (!currency || min !== max || period) return null;
+
+  return { amount, currency };
+}
+
+function parseNumber(text: string): number | null {
+  const value = text.trim();
+  if (!NUMBER_PATTERN.test(value)) return null;
+  return parseFloat(value.replace(/[,%\s]/g, ""));
+}
+
+/**
+ * Parse a date to an ISO date, reading ISO dates as written so time zones
+ * cannot move them to another day
+ */
+function parseDate(text: string): string | null {
+  const value = text.trim();
+  const iso = ISO_DATE_PATTERN.exec(value);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  if (!DATE_PATTERN.test(value)) return null;
+
+  const date = new Date(value.replace(/(\d)(st|nd|rd|th)\b/i, "$1"));
+  if (isNaN(date.getTime())) return null;
+
+  const pad = (part: number) => String(part).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function clampSpan(value: string | null): number {
+  const span = parseInt(value || "1", 10);
+  return isNaN(span) || span < 1 ? 1 : Math.min(span, MAX_SPAN);
+}
+
+function escapeCsvCell(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export default {
+  parseTables,
+  tableToItems,
+  tableToCsv,
+  parseValue,
+};
@@ -0,0 +1,92 @@
+// Query parameters that only track the visitor and never change the page
+const TRACKING_PARAMS =
+  /^(utm_[a-z]+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|_ga)$/i;
+
+/**
+ * Resolves an href against a base URL
+ * Returns null for fragments, javascript: links and non-http(s) URLs
+ */
+export function toAbsoluteUrl(href: string, baseUrl: string): string | null {
+  const trimmed = href.trim();
+  if (!trimmed || trimmed.startsWith("#") || /^javascript:/i.test(trimmed)) {
+    return null;
+  }
+
+  try {
+    const url = new URL(trimmed, baseUrl);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+    url.hash = "";
+    return url.toString();
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Canonicalizes a URL so that equivalent URLs compare equal
+ * Lowercases the host, drops default ports, fragments and tracking
+ * parameters, sorts the query and removes trailing slashes
+ */
+export function canonicalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = "";
+    parsed.hostname = parsed.hostname.toLowerCase();
+
+    const params = Array.from(parsed.searchParams.entries())
+      .filter(([key]) => !TRACKING_PARAMS.test(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    parsed.search = new URLSearchParams(params).toString();
+
+    if (parsed.pathname.length > 1) {
+      parsed.pathname = parsed.pathname.replace(/\/+$/, "");
+    }
+
+    // The URL constructor already drops default ports and resolves dot segments
+    return parsed.toString().replace(/\/$/, "");
+  } catch (error) {
+    return url;
+  }
+}
+
+/**
+ * Converts a glob pattern into a regular expression
+ * "**" matches anything, "*" matches anything except "/" and "?" matches
+ * a single character other than "/"
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      source += ".*";
+      i++;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Checks if a URL matches a glob pattern
+ * Patterns containing "://" are matched against the full URL, others
+ * against the path and query string
+ */
+export function matchesGlob(url: string, pattern: string): boolean {
+  try {
+    const parsed = new URL(url);
+    const target = pattern.includes("://")
+      ? parsed.toString()
+      : `${parsed.pathname}${parsed.search}`;
+    return globToRegExp(pattern).test(target);
+  } catch (error) {
+    return false;
+  }
+}
@@ -0,0 +1,391 @@
+/**
+ * Test script for authenticated scraping
+ * Stores auth profiles and sessions, checks their secrets are encrypted at
+ * rest, and scrapes a local portal that needs credentials. The form login
+ * checks run when CHROMIUM_PATH points to a Chromium binary
+ */
+
+import fs from "fs";
+import http from "http";
+import path from "path";
+import { AddressInfo } from "net";
+import {
+  applyAuthProfile,
+  hideAuthSecrets,
+  keepSavedAuthSecrets,
+  parseCookieJar,
+  validateAuthProfile,
+} from "@/lib/scraping/auth";
+import { hideConfigSecrets } from "@/lib/scraping/notifications";
+import {
+  deleteAuthProfile,
+  getAuthProfileById,
+  getAuthSession,
+  saveAuthProfile,
+  saveAuthSession,
+} from "@/lib/scraping/storage";
+import { decryptSecret, encryptSecret } from "@/lib/db/secrets";
+import { scrapeWebsite } from "@/lib/scraping/scraper";
+import { closeBrowsers, configureChromium } from "@/lib/scraping/renderer";
+import { AuthProfile, ScrapingConfig } from "@/types/scraping";
+
+const BASIC_AUTH = `Basic ${Buffer.from("ada:s3cret").toString("base64")}`;
+
+const FEES_PAGE = `<html><body>
+  <h2>Member fees</h2>
+  <ul><li>Annual membership: $120</li><li>Late fee: $25</li></ul>
+</body></html>`;
+
+const LOGIN_PAGE = `<html><body>
+  <form method="post" action="/login">
+    <input name="user" id="user"><input name="pass" id="pass" type="password">
+    <button id="submit" type="submit">Sign in</button>
+  </form>
+</body></html>`;
+
+/**
+ * Start a portal whose /basic page needs basic auth and whose /fees page
+ * needs the session cookie set by the /login form
+ */
+async function startPortal(): Promise<{
+  server: http.Server;
+  baseUrl: string;
+  sessions: Set<string>;
+  stats: { logins: number };
+}> {
+  const sessions = new Set<string>();
+  const stats = { logins: 0 };
+
+  const server = http.createServer((req, res) => {
+    const cookie = /sid=([^;]+)/.exec(req.headers.cookie || "");
+
+    if (req.url === "/basic") {
+      if (req.headers.authorization !== BASIC_AUTH) {
+        res.writeHead(401, { "WWW-Authenticate": "Basic" });
+        res.end("Unauthorized");
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.end(FEES_PAGE);
+    } else if (req.url === "/login" && req.method === "POST") {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        const form = new URLSearchParams(body);
+        if (form.get("user") !== "ada" || form.get("pass") !== "s3cret") {
+          res.writeHead(200, { "Content-Type": "text/html" });
+          res.end(LOGIN_PAGE);
+          return;
+        }
+        const sid = `session-${++stats.logins}`;
+        sessions.add(sid);
+        res.writeHead(302, {
+          Location: "/account",
+          "Set-Cookie": `sid=${sid}; Path=/`,
+        });
+        res.end();
+      });
+    } else if (req.url === "/login") {
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.end(LOGIN_PAGE);
+    } else if (cookie && sessions.has(cookie[1])) {
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.end(
+        req.url === "/account"
+          ? '<html><body><p id="welcome">Welcome back</p></body></html>'
+          : FEES_PAGE,
+      );
+    } else {
+      res.writeHead(302, { Location: "/login" });
+      res.end();
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, baseUrl: `http://127.0.0.1:${port}`, sessions, stats };
+}
+
+function createConfig(url: string, authProfileId: string): ScrapingConfig {
+  return {
+    url,
+    authProfileId,
+    mode: "single",
+    selector: "",
+    selectorType: "auto",
+    scrapingMode: "basic",
+    categories: ["fees"],
+    options: {
+      handleDynamicContent: false,
+      followPagination: false,
+      extractImages: false,
+      deduplicateResults: false,
+      maxPages: 1,
+      skipHeadersFooters: false,
+      skipImagesMedia: false,
+      stealthMode: false,
+      respectRobotsTxt: false,
+      rateLimitDelay: 0,
+      timeout: 5000,
+      retryDelay: 10,
+    },
+    outputFormat: "json",
+  };
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+/**
+ * Test auth profiles, the session vault and authenticated scraping
+ */
+export async function testAuth() {
+  console.log("=== Testing Authenticated Scraping ===\n");
+
+  process.env.SECRETS_KEY = process.env.SECRETS_KEY || "auth-test-key";
+
+  console.log("--- Secrets ---");
+  const encrypted = encryptSecret("s3cret");
+  assert(
+    encrypted !== encryptSecret("s3cret") && !encrypted.includes("s3cret"),
+    "secrets should be encrypted with a random IV",
+  );
+  assert(
+    decryptSecret(encrypted) === "s3cret" && decryptSecret("plain") === "plain",
+    "secrets should decrypt, plain text should pass through",
+  );
+
+  console.log("--- Cookie jars ---");
+  const netscape = parseCookieJar(
+    "# Netscape HTTP Cookie File\n#HttpOnly_.example.com\tTRUE\t/\tFALSE\t4102444800\tsid\tabc\n",
+  );
+  assert(
+    netscape.length === 1 &&
+      netscape[0].domain === ".example.com" &&
+      netscape[0].expires === 4102444800,
+    `cookies.txt files should be parsed, got ${JSON.stringify(netscape)}`,
+  );
+  const exported = parseCookieJar(
+    '[{"name":"sid","value":"abc","domain":"example.com","expirationDate":4102444800000}]',
+  );
+  assert(
+    exported[0]?.expires === 4102444800,
+    "JSON exports should be parsed with expiries in seconds",
+  );
+  const header = parseCookieJar("Cookie: sid=abc; theme=dark=1");
+  assert(
+    header.length === 2 && header[1].value === "dark=1",
+    "Cookie headers should be parsed",
+  );
+
+  console.log("--- Validation ---");
+  const errors = validateAuthProfile({
+    name: "Portal",
+    type: "form",
+    loginUrl: "ftp://example.com",
+    usernameSelector: "#user",
+    passwordSelector: "#pass",
+    username: "ada",
+  });
+  assert(
+    errors.includes("form profiles need a password") &&
+      errors.includes("loginUrl must be an http(s) URL") &&
+      errors.includes(
+        "form profiles need a successSelector or successUrlPattern",
+      ),
+    `invalid form profiles should be reported, got ${JSON.stringify(errors)}`,
+  );
+  assert(
+    validateAuthProfile({ name: "Jar", type: "cookies", cookieJar: "junk" })
+      .length === 1,
+    "cookie jars without cookies should be rejected",
+  );
+
+  const { server, baseUrl, sessions, stats } = await startPortal();
+  const profileIds: string[] = [];
+  const executablePath = process.env.CHROMIUM_PATH;
+
+  try {
+    console.log("--- Storage ---");
+    const basic = await saveAuthProfile({
+      id: "",
+      name: "Basic portal",
+      type: "basic",
+      username: "ada",
+      password: "s3cret",
+    });
+    profileIds.push(basic.id);
+
+    const stored = fs.readFileSync(
+      path.join(process.cwd(), "data", "auth-profiles", `${basic.id}.json`),
+      "utf8",
+    );
+    assert(
+      !stored.includes("s3cret") && stored.includes("enc:v1:"),
+      "passwords should be encrypted at rest",
+    );
+    assert(
+      (await getAuthProfileById(basic.id))?.password === "s3cret",
+      "stored passwords should be decrypted when read",
+    );
+
+    const hidden = hideAuthSecrets(basic);
+    assert(
+      !("password" in hidden) && hidden.hasPassword,
+      "secrets should be replaced with flags",
+    );
+    assert(
+      keepSavedAuthSecrets({ ...basic, password: undefined }, basic)
+        .password === "s3cret" &&
+        keepSavedAuthSecrets({ ...basic, password: "" }, basic).password ===
+          undefined,
+      "left out secrets should be kept and empty ones removed",
+    );
+    const config = hideConfigSecrets({
+      ...createConfig(baseUrl, basic.id),
+      notifications: {
+        enabled: true,
+        rules: [],
+        webhooks: [
+          { id: "hook", url: baseUrl, secret: "hook-secret", enabled: true },
+        ],
+      },
+    });
+    assert(
+      !JSON.stringify(config).includes("hook-secret"),
+      "webhook secrets should not be returned with configurations",
+    );
+
+    console.log("--- Basic auth ---");
+    const basicResult = await scrapeWebsite(
+      createConfig(`${baseUrl}/basic`, basic.id),
+    );
+    assert(
+      basicResult.status === "success" &&
+        JSON.stringify(basicResult.categories).includes("Late fee"),
+      `basic credentials should be sent, got ${basicResult.status}`,
+    );
+
+    const missing = await scrapeWebsite(
+      createConfig(`${baseUrl}/basic`, "missing-profile"),
+    );
+    assert(
+      missing.status === "failed" &&
+        missing.metadata?.errors?.[0]?.code === "AUTH_FAILED",
+      "unknown profiles should fail with AUTH_FAILED",
+    );
+
+    console.log("--- Imported cookies ---");
+    sessions.add("imported");
+    const jar = await saveAuthProfile({
+      id: "",
+      name: "Imported portal",
+      type: "cookies",
+      cookieJar: "sid=imported",
+    });
+    profileIds.push(jar.id);
+
+    const jarResult = await scrapeWebsite(
+      createConfig(`${baseUrl}/fees`, jar.id),
+    );
+    assert(
+      jarResult.status === "success" &&
+        JSON.stringify(jarResult.categories).includes("Annual membership"),
+      `imported cookies should be sent, got ${jarResult.status}`,
+    );
+
+    const session = await getAuthSession(jar.id);
+    const sessionFile = fs.readFileSync(
+      path.join(process.cwd(), "data", "sessions", `${jar.id}.json`),
+      "utf8",
+    );
+    assert(
+      session?.cookies[0].value === "imported" &&
+        !sessionFile.includes('"imported"'),
+      "session cookies should be stored encrypted",
+    );
+
+    await saveAuthSession({
+      ...session!,
+      cookies: [{ name: "sid", value: "stale" }],
+      expiresAt: new Date(Date.now() - 1000).toISOString(),
+    });
+    const refreshed = await applyAuthProfile(
+      createConfig(`${baseUrl}/fees`, jar.id),
+    );
+    assert(
+      refreshed.options.cookies?.sid === "imported",
+      "expired sessions should be replaced",
+    );
+
+    if (!executablePath) {
+      console.log("CHROMIUM_PATH is not set, skipping the form login");
+    } else {
+      await configureChromium({ executablePath });
+
+      console.log("--- Form login ---");
+      const form = await saveAuthProfile({
+        id: "",
+        name: "Form portal",
+        type: "form",
+        loginUrl: `${baseUrl}/login`,
+        usernameSelector: "#user",
+        passwordSelector: "#pass",
+        submitSelector: "#submit",
+        successSelector: "#welcome",
+        username: "ada",
+        password: "s3cret",
+      } as AuthProfile);
+      profileIds.push(form.id);
+
+      const first = await scrapeWebsite(
+        createConfig(`${baseUrl}/fees`, form.id),
+      );
+      assert(
+        first.status === "success" && stats.logins === 1,
+        `the form login should open the portal, got ${first.status}`,
+      );
+
+      await scrapeWebsite(createConfig(`${baseUrl}/fees`, form.id));
+      assert(stats.logins === 1, "stored sessions should be reused");
+
+      // The portal forgets the session, the scrape signs in again
+      sessions.clear();
+      const again = await scrapeWebsite(
+        createConfig(`${baseUrl}/fees`, form.id),
+      );
+      assert(
+        again.status === "success" && stats.logins === 2,
+        `rejected sessions should be refreshed, got ${again.status}`,
+      );
+
+      const wrong = await saveAuthProfile({ ...form, password: "wrong" });
+      await saveAuthSession({
+        profileId: wrong.id,
+        cookies: [],
+        createdAt: new Date().toISOString(),
+        expiresAt: new Date(0).toISOString(),
+      });
+      const failed = await scrapeWebsite(
+        createConfig(`${baseUrl}/fees`, wrong.id),
+      );
+      assert(
+        failed.metadata?.errors?.[0]?.code === "AUTH_FAILED",
+        "wrong credentials should fail with AUTH_FAILED",
+      );
+    }
+  } finally {
+    for (const id of profileIds) {
+      await deleteAuthProfile(id);
+    }
+    await closeBrowsers();
+    server.close();
+  }
+
+  console.log(
+    "\n=== All authenticated scraping tests completed successfully ===\n",
+  );
+}
@@ -0,0 +1,154 @@
+/**
+ * Test script for user-defined category rules
+ * Resolves stored categories over the built-in rules and checks that their
+ * keywords, weights, negative keywords, heading patterns and strategy drive
+ * extraction
+ */
+
+import {
+  resolveCategoryRules,
+  validateCategoryDefinition,
+} from "@/lib/scraping/categoryRules";
+import { extractItemsFromContent } from "@/lib/scraping/extractItemsFromContent";
+import { categorizeContent } from "@/lib/scraping/categorization";
+import {
+  deleteCategoryDefinition,
+  saveCategoryDefinition,
+} from "@/lib/scraping/storage";
+import {
+  deleteCategoryFile,
+  loadCategoryFromFile,
+  saveCategoryToFile,
+} from "@/lib/db/fileStorage";
+import { CategoryDefinition } from "@/types/scraping";
+
+const HTML = `
+  <h2>Grant programs</h2>
+  <p>Small business grant for new shops.</p>
+  <h2>Closed grant rounds</h2>
+  <p>The archived grant round from 2020.</p>
+  <p>Apply for a grant or a subsidy before June; every grant is reviewed.</p>
+  <h2>Funding streams</h2>
+  <p>Innovation funding for startups.</p>`;
+
+const GRANTS: CategoryDefinition = {
+  name: "Grants",
+  description: "Grants and subsidies",
+  keywords: ["grant", "subsidy"],
+  keywordWeights: { subsidy: 3 },
+  negativeKeywords: ["archived", "closed"],
+  headingPatterns: ["grant", "funding"],
+  strategy: "generic",
+};
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+/**
+ * Test category rules and the extraction they drive
+ */
+export async function testCategoryRules() {
+  console.log("=== Testing Category Rules ===\n");
+
+  console.log("--- Resolving rules ---");
+  const fees = resolveCategoryRules("Fees", {
+    name: "fees",
+    description: "Permit fees",
+    keywords: [],
+    negativeKeywords: ["refund"],
+  });
+  assert(
+    fees.description === "Permit fees" &&
+      fees.keywords.includes("price") &&
+      fees.strategy === "fees" &&
+      fees.negativeKeywords?.[0] === "refund",
+    "stored fields should override the built-in rules field by field",
+  );
+  assert(
+    resolveCategoryRules("Awards").strategy === "generic" &&
+      resolveCategoryRules("Awards").keywords[0] === "awards",
+    "unknown categories should match their own name",
+  );
+
+  console.log("--- Validation ---");
+  assert(validateCategoryDefinition(GRANTS).length === 0, "valid rules pass");
+  assert(
+    validateCategoryDefinition({
+      name: "x",
+      description: "y",
+      keywords: "grant",
+      keywordWeights: { grant: -1 },
+      headingPatterns: ["("],
+      strategy: "magic",
+    }).length === 4,
+    "invalid keywords, weights, patterns and strategies should be reported",
+  );
+  assert(
+    validateCategoryDefinition({ ...GRANTS, name: "../configurations/abc" })
+      .length === 1,
+    "names that are not plain words should be rejected",
+  );
+  let savedOutside = true;
+  await saveCategoryToFile({ ...GRANTS, name: "../configurations/abc" })
+    .then(() => {})
+    .catch(() => {
+      savedOutside = false;
+    });
+  assert(
+    !savedOutside &&
+      (await loadCategoryFromFile("../../package")) === null &&
+      !(await deleteCategoryFile("../../package")),
+    "file storage should refuse names that leave the categories directory",
+  );
+
+  console.log("--- Extraction ---");
+  const rules = resolveCategoryRules("grants", GRANTS);
+  const items = await extractItemsFromContent(
+    { url: "https://example.com/grants", html: HTML },
+    "grants",
+    rules,
+  );
+  const titles = items.map((item) => item.title);
+  assert(
+    titles.includes("Grant programs") && titles.includes("Funding streams"),
+    `headings matching the heading patterns should become items, got ${JSON.stringify(titles)}`,
+  );
+  assert(
+    !items.some((item) =>
+      /archived|closed/i.test(`${item.title} ${item.content}`),
+    ),
+    "items mentioning a negative keyword should be dropped",
+  );
+  const weighted = items.find((item) => item.content.includes("subsidy"));
+  const unweighted = items.find((item) => item.title === "Grant programs");
+  assert(
+    !!weighted &&
+      !!unweighted &&
+      weighted.confidence! > unweighted.confidence! &&
+      weighted.confidence! >= 0.8,
+    "weighted keywords should raise confidence",
+  );
+
+  console.log("--- Stored categories ---");
+  await saveCategoryDefinition(GRANTS);
+  try {
+    const categories = await categorizeContent(
+      { url: "https://example.com/grants", html: HTML, text: "" },
+      ["grants"],
+    );
+    assert(
+      categories.grants.description === "Grants and subsidies" &&
+        categories.grants.items.some(
+          (item) => item.title === "Funding streams",
+        ),
+      "categorizeContent should load stored rules",
+    );
+  } finally {
+    await deleteCategoryDefinition("grants");
+  }
+
+  console.log("\n=== All category rules tests completed successfully ===\n");
+}
@@ -0,0 +1,255 @@
+/**
+ * Test script for the link crawler
+ * Crawls a small fixture site served by a local HTTP server
+ */
+
+import http from "http";
+import { AddressInfo } from "net";
+import { scrapeWebsite } from "@/lib/scraping/scraper";
+import {
+  configureRateLimiter,
+  getRateLimitDefaults,
+} from "@/lib/scraping/rateLimiter";
+import {
+  deleteScrapingResult,
+  getScrapingResultById,
+} from "@/lib/scraping/storage";
+import { canonicalizeUrl, matchesGlob } from "@/lib/utils/urls";
+import { ScrapingConfig } from "@/types/scraping";
+
+// Links on each fixture page
+const SITE: Record<string, string[]> = {
+  "/": [
+    "/a",
+    "/a/?utm_source=home#top",
+    "/b",
+    "/docs/intro",
+    "/private/secret",
+    "/report.pdf",
+    "https://other.example/",
+  ],
+  "/a": ["/", "/a/deep"],
+  "/a/deep": ["/a/deeper"],
+  "/a/deeper": [],
+  "/b": ["/"],
+  "/docs/intro": ["/docs/setup", "/b"],
+  "/docs/setup": [],
+  "/private/secret": [],
+};
+
+/**
+ * Start a fixture server that records requests and concurrency
+ * @returns The server, its base URL and request statistics
+ */
+async function startFixtureServer(): Promise<{
+  server: http.Server;
+  baseUrl: string;
+  stats: { requests: string[]; active: number; maxActive: number };
+}> {
+  const stats = { requests: [] as string[], active: 0, maxActive: 0 };
+
+  const server = http.createServer((req, res) => {
+    const path = new URL(req.url || "/", "http://localhost").pathname;
+    stats.requests.push(path);
+    stats.active++;
+    stats.maxActive = Math.max(stats.maxActive, stats.active);
+
+    // Hold each response briefly so concurrent requests overlap
+    setTimeout(() => {
+      stats.active--;
+      const links = SITE[path];
+      if (!links) {
+        res.writeHead(404);
+        res.end("Not Found");
+        return;
+      }
+
+      res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+      res.end(`<html><body>
+        <h2>Fee for ${path}</h2>
+        <p>Processing fee on ${path}: $25</p>
+        ${links.map((link) => `<a href="${link}">${link}</a>`).join("\n")}
+        <a rel="nofollow" href="/never">Never</a>
+      </body></html>`);
+    }, 30);
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, baseUrl: `http://127.0.0.1:${port}`, stats };
+}
+
+function createConfig(
+  url: string,
+  options: Partial<ScrapingConfig["options"]> = {},
+): ScrapingConfig {
+  return {
+    url,
+    mode: "single",
+    selector: "",
+    selectorType: "auto",
+    scrapingMode: "basic",
+    categories: ["fees"],
+    options: {
+      handleDynamicContent: false,
+      followPagination: false,
+      extractImages: false,
+      deduplicateResults: false,
+      maxPages: 1,
+      skipHeadersFooters: false,
+      skipImagesMedia: false,
+      stealthMode: false,
+      respectRobotsTxt: false,
+      rateLimitDelay: 0,
+      timeout: 2000,
+      retryDelay: 10,
+      followLinks: true,
+      maxLinkDepth: 1,
+      ...options,
+    },
+    outputFormat: "json",
+  };
+}
+
+/**
+ * Collect the paths of the pages items were scraped from
+ */
+function scrapedPaths(result: {
+  categories: Record<string, { items: { metadata?: any }[] }>;
+}): string[] {
+  const urls = (result.categories.fees?.items || []).map(
+    (item) => new URL(item.metadata?.pageUrl).pathname,
+  );
+  return Array.from(new Set(urls)).sort();
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+/**
+ * Test URL helpers and the link crawler
+ */
+export async function testCrawler() {
+  console.log("=== Testing Link Crawler ===\n");
+
+  console.log("--- URL canonicalisation and globs ---");
+  assert(
+    canonicalizeUrl("HTTP://Example.com:80/a/?b=2&a=1&utm_source=x#top") ===
+      "http://example.com/a?a=1&b=2",
+    "URLs should be canonicalised",
+  );
+  assert(
+    matchesGlob("https://example.com/docs/a/b", "/docs/**"),
+    "** should cross path segments",
+  );
+  assert(
+    !matchesGlob("https://example.com/docs/a/b", "/docs/*"),
+    "* should stay within a path segment",
+  );
+
+  const { server, baseUrl, stats } = await startFixtureServer();
+  // Only the crawler's own limits should hold back requests to the fixture
+  const rateLimits = getRateLimitDefaults();
+  configureRateLimiter({ requestsPerSecond: 1000, burst: 1000 });
+
+  try {
+    console.log("--- Depth 1, same origin ---");
+    const shallow = await scrapeWebsite(
+      createConfig(`${baseUrl}/`, { excludePatterns: ["/private/**"] }),
+    );
+    assert(
+      JSON.stringify(scrapedPaths(shallow)) ===
+        JSON.stringify(["/", "/a", "/b", "/docs/intro"]),
+      `depth 1 should crawl the root's links, got ${scrapedPaths(shallow)}`,
+    );
+    assert(
+      stats.requests.filter((path) => path === "/a").length === 1,
+      "equivalent URLs should only be fetched once",
+    );
+    assert(
+      !stats.requests.includes("/never") &&
+        !stats.requests.includes("/report.pdf"),
+      "nofollow and non-HTML links should be skipped",
+    );
+    assert(shallow.metadata?.pageCount === 4, "pageCount should be reported");
+
+    console.log("--- Depth 2 and include patterns ---");
+    const deep = await scrapeWebsite(
+      createConfig(`${baseUrl}/`, {
+        maxLinkDepth: 2,
+        includePatterns: ["/a", "/a/**"],
+      }),
+    );
+    assert(
+      JSON.stringify(scrapedPaths(deep)) ===
+        JSON.stringify(["/", "/a", "/a/deep"]),
+      `depth 2 should follow included links only, got ${scrapedPaths(deep)}`,
+    );
+
+    console.log("--- Path-prefix scope ---");
+    const docs = await scrapeWebsite(
+      createConfig(`${baseUrl}/docs/intro`, { linkScope: "path-prefix" }),
+    );
+    assert(
+      JSON.stringify(scrapedPaths(docs)) ===
+        JSON.stringify(["/docs/intro", "/docs/setup"]),
+      `only links inside /docs/ should be followed, got ${scrapedPaths(docs)}`,
+    );
+
+    console.log("--- Per-host concurrency ---");
+    stats.maxActive = 0;
+    await scrapeWebsite(
+      createConfig(`${baseUrl}/`, { maxConcurrencyPerHost: 1 }),
+    );
+    assert(stats.maxActive === 1, "one request per host should be in flight");
+    stats.maxActive = 0;
+    await scrapeWebsite(
+      createConfig(`${baseUrl}/`, { maxConcurrencyPerHost: 3 }),
+    );
+    assert(stats.maxActive > 1, "requests to a host should run in parallel");
+
+    console.log("--- maxCrawlPages ---");
+    const capped = await scrapeWebsite(
+      createConfig(`${baseUrl}/`, { maxCrawlPages: 2 }),
+    );
+    assert(capped.metadata?.pageCount === 3, "the crawl should be capped");
+    assert(
+      (capped.metadata?.warnings || []).some((warning: string) =>
+        warning.includes("maxCrawlPages"),
+      ),
+      "a capped crawl should be reported",
+    );
+
+    console.log("--- Child results ---");
+    const parent = await scrapeWebsite(
+      createConfig(`${baseUrl}/`, {
+        crawlOutput: "children",
+        excludePatterns: ["/private/**"],
+      }),
+    );
+    const childIds: string[] = parent.metadata?.childResultIds || [];
+    try {
+      assert(scrapedPaths(parent).length === 1, "parent keeps the root page");
+      assert(childIds.length === 3, "one child result per crawled page");
+      for (const childId of childIds) {
+        const child = await getScrapingResultById(childId);
+        assert(
+          child?.metadata?.parentResultId === parent.id,
+          "child results should link to the parent",
+        );
+      }
+    } finally {
+      for (const childId of childIds) {
+        await deleteScrapingResult(childId);
+      }
+    }
+  } finally {
+    configureRateLimiter(rateLimits);
+    server.close();
+  }
+
+  console.log("\n=== All crawler tests completed successfully ===\n");
+}
@@ -0,0 +1,160 @@
+/**
+ * Test script for result diffing
+ * Compares two results of the same configuration and checks how items are
+ * matched and classified, and finds the previous result of a URL
+ */
+
+import { diffResults, findPreviousResult } from "@/lib/scraping/diff";
+import {
+  deleteScrapingResult,
+  saveScrapingResult,
+} from "@/lib/scraping/storage";
+import { CategoryItem, ScrapingResult } from "@/types/scraping";
+
+function createResult(
+  id: string,
+  timestamp: string,
+  categories: Record<string, CategoryItem[]>,
+): ScrapingResult {
+  return {
+    id,
+    configId: "config_diff_test",
+    url: "https://example.com/fees",
+    timestamp,
+    status: "success",
+    categories: Object.fromEntries(
+      Object.entries(categories).map(([name, items]) => [
+        name,
+        { description: name, items },
+      ]),
+    ),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+/**
+ * Test matching by identity and field-level changes between two results
+ */
+export async function testDiff() {
+  console.log("=== Testing Result Diff ===\n");
+
+  const base = createResult("result_old", "2024-03-01T10:00:00.000Z", {
+    fees: [
+      {
+        id: "a1",
+        title: "Processing fee",
+        content: "Processing fee: $25",
+        metadata: { price: 25 },
+      },
+      { id: "a2", title: "Late fee", content: "Late fee: $10" },
+      { id: "a3", title: "Card fee", content: "Card replacement: $5" },
+    ],
+    documents: [{ id: "a4", title: "Passport", content: "A valid passport" }],
+  });
+
+  const target = createResult("result_new", "2024-03-02T10:00:00.000Z", {
+    fees: [
+      {
+        id: "b1",
+        title: "processing fee.",
+        content: "Processing fee: $30",
+        metadata: { price: 30 },
+      },
+      { id: "b2", title: "Late payment", content: "Late fee: $10" },
+      { id: "b3", title: "Express fee", content: "Express service: $50" },
+    ],
+    documents: [{ id: "a4", title: "Passport", content: "A valid passport" }],
+  });
+
+  console.log("--- Classification ---");
+  const diff = diffResults(base, target);
+  const fees = diff.categories.find((category) => category.category === "fees");
+  assert(
+    diff.summary.added === 1 &&
+      diff.summary.removed === 1 &&
+      diff.summary.modified === 2 &&
+      diff.summary.unchanged === 1,
+    `unexpected summary ${JSON.stringify(diff.summary)}`,
+  );
+  assert(
+    fees?.items.find((item) => item.type === "added")?.after?.id === "b3",
+    "an item without a match should be added",
+  );
+  assert(
+    fees?.items.find((item) => item.type === "removed")?.before?.id === "a3",
+    "an unmatched earlier item should be removed",
+  );
+
+  console.log("--- Field changes ---");
+  const processing = fees?.items.find((item) => item.after?.id === "b1");
+  const fields = processing?.changes.map((change) => change.field) || [];
+  assert(
+    processing?.before?.id === "a1",
+    "items should match by normalized title",
+  );
+  assert(
+    JSON.stringify(fields) ===
+      JSON.stringify(["title", "content", "metadata.price"]),
+    `changed fields should be listed, got ${fields}`,
+  );
+  const renamed = fees?.items.find((item) => item.after?.id === "b2");
+  assert(
+    renamed?.before?.id === "a2" &&
+      renamed.changes.length === 1 &&
+      renamed.changes[0].field === "title",
+    "items with a new title should match by content",
+  );
+
+  console.log("--- Different configurations ---");
+  let rejected = false;
+  try {
+    diffResults(base, { ...target, configId: "other" });
+  } catch (error) {
+    rejected = true;
+  }
+  assert(rejected, "results of different configurations cannot be compared");
+
+  console.log("--- Previous result ---");
+  const older = createResult("diff_test_older", "2024-01-01T00:00:00.000Z", {});
+  const failed = {
+    ...createResult("diff_test_failed", "2024-01-02T00:00:00.000Z", {}),
+    status: "failed" as const,
+  };
+  const otherUrl = {
+    ...createResult("diff_test_other_url", "2024-01-02T00:00:00.000Z", {}),
+    url: "https://example.com/other",
+  };
+  const latest = createResult(
+    "diff_test_latest",
+    "2024-01-03T00:00:00.000Z",
+    {},
+  );
+  const saved = [older, failed, otherUrl, latest];
+  try {
+    for (const result of saved) {
+      await saveScrapingResult(result);
+    }
+    const previous = await findPreviousResult(latest);
+    assert(
+      previous?.id === older.id,
+      `the latest earlier result of the same URL should be found, got ${previous?.id}`,
+    );
+    assert(
+      (await findPreviousResult(older)) === null,
+      "the first result should have no previous result",
+    );
+  } finally {
+    for (const result of saved) {
+      await deleteScrapingResult(result.id);
+    }
+  }
+
+  console.log("\n=== All diff tests completed successfully ===\n");
+}
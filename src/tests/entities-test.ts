@@ -0,0 +1,168 @@
+/**
+ * Test script for custom entity extraction
+ * Applies entity definitions with selectors, regular expressions and
+ * possible values to categorized fee cards
+ */
+
+import { applyCustomEntities } from "@/lib/scraping/entities";
+import { CategoryData, CustomEntity, RawData } from "@/types/scraping";
+
+const HTML = `
+  <div class="fee">
+    <h3>Application fee</h3>
+    <p>Paid online by card.</p>
+    <span class="amount">USD 25.00</span>
+    <span class="frequency">Once</span>
+  </div>
+  <div class="fee">
+    <h3>Renewal fee</h3>
+    <p>Paid yearly, by cheque or card.</p>
+    <span class="amount">USD 40.00</span>
+    <span class="frequency">Every second Tuesday</span>
+  </div>
+  <div class="fee">
+    <h3>Late fee</h3>
+    <p>Charged when payment is overdue.</p>
+  </div>`;
+
+const ENTITIES: CustomEntity[] = [
+  {
+    name: "amount",
+    category: "fees",
+    selector: ".amount",
+    regex: "(\\d+(?:\\.\\d+)?)",
+    required: true,
+  },
+  {
+    name: "frequency",
+    category: "Fees",
+    selector: "//span[@class='frequency']",
+    possibleValues: ["Once", "Monthly", "Yearly"],
+  },
+  {
+    name: "paymentMethod",
+    category: "fees",
+    possibleValues: ["card", "cheque", "cash"],
+  },
+  { name: "ignored", category: "documents", regex: "." },
+];
+
+function createCategories(): Record<string, CategoryData> {
+  return {
+    fees: {
+      description: "Fees",
+      items: [
+        {
+          id: "fee_1",
+          title: "Application fee",
+          content: "Paid online by card.",
+        },
+        {
+          id: "fee_2",
+          title: "Renewal fee",
+          content: "Paid yearly, by cheque or card.",
+        },
+        {
+          id: "fee_3",
+          title: "Late fee",
+          content: "Charged when payment is overdue.",
+        },
+      ],
+    },
+  };
+}
+
+function createRawData(): RawData {
+  return {
+    url: "https://example.com/fees",
+    html: HTML,
+    text: "",
+    selectorType: "css",
+    elements: [],
+    elementCount: 0,
+    pageCount: 1,
+    errors: [],
+    warnings: [],
+  };
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+/**
+ * Test custom entity extraction
+ */
+export async function testEntities() {
+  console.log("=== Testing Custom Entities ===\n");
+
+  const categories = applyCustomEntities(
+    createCategories(),
+    createRawData(),
+    ENTITIES,
+  );
+  const [application, renewal, late] = categories.fees.items;
+
+  console.log("--- Selectors and regular expressions ---");
+  const amount = application.metadata?.entities?.amount;
+  assert(
+    amount?.value === "25.00" &&
+      amount.raw === "USD 25.00" &&
+      amount.method === "selector",
+    `the regex should refine the selector match, got ${JSON.stringify(amount)}`,
+  );
+  assert(
+    renewal.metadata?.entities?.amount?.value === "40.00",
+    "selector matches should be assigned to the item they belong to",
+  );
+  assert(
+    amount.confidence < 0.9 && amount.confidence >= 0.5,
+    "matches outside the item text should lose some confidence",
+  );
+
+  console.log("--- Possible values ---");
+  assert(
+    application.metadata?.entities?.frequency?.value === "Once" &&
+      application.metadata.entities.frequency.valid,
+    "XPath matches should be validated against possible values",
+  );
+  assert(
+    renewal.metadata?.entities?.frequency?.valid === false,
+    "values outside the possible values should be marked invalid",
+  );
+  assert(
+    application.metadata?.entities?.paymentMethod?.value === "card" &&
+      renewal.metadata?.entities?.paymentMethod?.value === "cheque" &&
+      renewal.metadata.entities.paymentMethod.method === "possibleValues",
+    "possible values mentioned in the item should be extracted",
+  );
+  assert(
+    !application.metadata?.entities?.ignored,
+    "entities of other categories should not apply",
+  );
+
+  console.log("--- Required entities ---");
+  assert(
+    JSON.stringify(late.metadata?.missingRequiredEntities) ===
+      JSON.stringify(["amount"]),
+    "items without a required entity should be flagged",
+  );
+  assert(
+    !application.metadata?.missingRequiredEntities &&
+      categories.fees.metadata?.incompleteItemCount === 1,
+    "complete items should not be flagged",
+  );
+
+  const rawData = createRawData();
+  applyCustomEntities(createCategories(), rawData, [
+    { name: "broken", category: "fees", regex: "(", selector: "[" },
+  ]);
+  assert(
+    rawData.warnings.length === 2,
+    "invalid selectors and regular expressions should be reported",
+  );
+
+  console.log("\n=== All custom entity tests completed successfully ===\n");
+}
@@ -0,0 +1,145 @@
+/**
+ * Test script for the extractor registry
+ * Registers a custom extractor next to the built-in ones and checks how
+ * their items are selected, merged and scored, then parses opening hours
+ */
+
+import {
+  getExtractors,
+  registerExtractor,
+  unregisterExtractor,
+} from "@/lib/scraping/extractors";
+import { extractItemsFromContent } from "@/lib/scraping/extractItemsFromContent";
+import { resolveCategoryRules } from "@/lib/scraping/categoryRules";
+import { extractOpeningHours } from "@/lib/scraping/openingHours";
+
+const HTML = `
+  <h2>Our awards</h2>
+  <p>Recognized across the industry.</p>
+  <ul class="awards">
+    <li>Our awards</li>
+    <li>Best Bakery 2024</li>
+  </ul>
+  <h2>Opening hours</h2>
+  <p>Mon - Fri: 9:00 AM - 5:30 PM</p>
+  <p>Saturday 10 - 2pm</p>
+  <p>Sunday: closed</p>`;
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+/**
+ * Test extractor selection, merging and the opening hours extractor
+ */
+export async function testExtractors() {
+  console.log("=== Testing Extractor Registry ===\n");
+
+  console.log("--- Selection ---");
+  assert(
+    getExtractors(resolveCategoryRules("fees"))
+      .map((extractor) => extractor.name)
+      .join() === "fees",
+    "strategy categories should use their strategy extractor",
+  );
+  assert(
+    getExtractors(resolveCategoryRules("hours"))
+      .map((extractor) => extractor.name)
+      .join() === "opening-hours,generic",
+    "domain extractors should run before the generic one",
+  );
+
+  console.log("--- Custom extractors ---");
+  registerExtractor({
+    name: "award-list",
+    categories: ["awards"],
+    needs: ["dom"],
+    priority: 5,
+    extract: ({ document }) =>
+      Array.from(document!.querySelectorAll(".awards li")).map((node) => ({
+        title: node.textContent || "",
+        content: "",
+        matchedKeywords: ["award"],
+        metadata: { selector: ".awards li" },
+      })),
+  });
+  registerExtractor({
+    name: "broken",
+    categories: ["awards"],
+    needs: ["html"],
+    priority: 1,
+    extract: () => {
+      throw new Error("Extractor failure");
+    },
+  });
+
+  try {
+    const items = await extractItemsFromContent(
+      { url: "https://example.com/about", html: HTML, text: "" },
+      "awards",
+    );
+    const merged = items.find((item) => item.title === "Our awards");
+    assert(
+      JSON.stringify(merged?.metadata?.extractors) ===
+        JSON.stringify(["award-list", "generic"]) &&
+        merged!.content === "Recognized across the industry." &&
+        merged!.metadata!.selector === ".awards li",
+      `items found by several extractors should be merged, got ${JSON.stringify(merged)}`,
+    );
+    const single = items.find((item) => item.title === "Best Bakery 2024");
+    assert(
+      !!single && merged!.confidence! > single.confidence!,
+      "agreeing extractors should raise confidence",
+    );
+    assert(
+      items.filter((item) => item.title === "Our awards").length === 1,
+      "merged items should not be repeated",
+    );
+  } finally {
+    unregisterExtractor("award-list");
+    unregisterExtractor("broken");
+  }
+  assert(
+    !getExtractors(resolveCategoryRules("awards")).some(
+      (extractor) => extractor.name === "award-list",
+    ),
+    "unregistered extractors should no longer run",
+  );
+
+  console.log("--- Opening hours ---");
+  const hours = extractOpeningHours(
+    "Mon - Fri: 9:00 AM - 5:30 PM\nSaturday 10 - 2pm\nSunday: closed\nMonthly fees: 10 - 20",
+  );
+  assert(hours.length === 3, `three lines of hours, got ${hours.length}`);
+  assert(
+    hours[0].metadata?.days.length === 5 &&
+      hours[0].metadata.opens === "09:00" &&
+      hours[0].metadata.closes === "17:30",
+    `day ranges should be expanded, got ${JSON.stringify(hours[0].metadata)}`,
+  );
+  assert(
+    hours[1].metadata?.opens === "10:00" &&
+      hours[1].metadata.closes === "14:00",
+    `opening times later than the closing hour stay in the morning, got ${JSON.stringify(hours[1].metadata)}`,
+  );
+  assert(hours[2].metadata?.closed === true, "closed days should be flagged");
+
+  const items = await extractItemsFromContent(
+    { url: "https://example.com/about", html: HTML, text: "" },
+    "hours",
+  );
+  assert(
+    items.some(
+      (item) =>
+        item.title === "Mon - Fri" &&
+        item.metadata?.extractors[0] === "opening-hours",
+    ),
+    "the hours category should use the opening hours extractor",
+  );
+
+  console.log(
+    "\n=== All extractor registry tests completed successfully ===\n",
+  );
+}
@@ -0,0 +1,282 @@
+/**
+ * Test script for the HTTP fetcher
+ * Runs the fetcher against a local fixture HTTP server
+ */
+
+import http from "http";
+import { AddressInfo } from "net";
+import zlib from "zlib";
+import { fetchWebsiteContent } from "@/lib/scraping/fetcher";
+
+/**
+ * Start a fixture server with one route per scenario
+ * @returns The server and its base URL
+ */
+async function startFixtureServer(): Promise<{
+  server: http.Server;
+  baseUrl: string;
+}> {
+  let flakyRequests = 0;
+
+  const server = http.createServer((req, res) => {
+    // /redirect-to?url=<url> redirects to the given URL
+    if (req.url?.startsWith("/redirect-to?")) {
+      const target = new URL(req.url, "http://fixture").searchParams.get("url");
+      res.writeHead(302, { Location: target || "/" });
+      res.end();
+      return;
+    }
+
+    switch (req.url) {
+      case "/ok":
+        res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+        res.end(
+          "<html><body><h1>Fees</h1><p>Application fee: $100</p><script>var x = 1;</script></body></html>",
+        );
+        break;
+      case "/latin1":
+        res.writeHead(200, { "Content-Type": "text/html; charset=iso-8859-1" });
+        res.end(Buffer.from("<p>Caf\xe9 cr\xe8me</p>", "latin1"));
+        break;
+      case "/meta-charset":
+        res.writeHead(200, { "Content-Type": "text/html" });
+        res.end(
+          Buffer.from(
+            '<html><head><meta charset="windows-1251"></head><body>\xd6\xe5\xed\xe0 10</body></html>',
+            "latin1",
+          ),
+        );
+        break;
+      case "/redirect":
+        res.writeHead(301, { Location: "/redirect-2" });
+        res.end();
+        break;
+      case "/redirect-2":
+        res.writeHead(302, { Location: "/ok" });
+        res.end();
+        break;
+      case "/redirect-loop":
+        res.writeHead(302, { Location: "/redirect-loop" });
+        res.end();
+        break;
+      case "/flaky":
+        flakyRequests++;
+        if (flakyRequests < 3) {
+          res.writeHead(503);
+          res.end("Service Unavailable");
+        } else {
+          res.writeHead(200, { "Content-Type": "text/html" });
+          res.end("<p>Recovered</p>");
+        }
+        break;
+      case "/slow":
+        setTimeout(() => {
+          res.writeHead(200);
+          res.end("<p>Too late</p>");
+        }, 2000);
+        break;
+      case "/gzip-reset": {
+        // Send half of a gzip body, then drop the connection
+        const body = zlib.gzipSync("<p>" + "Tuition ".repeat(5000) + "</p>");
+        res.writeHead(200, {
+          "Content-Type": "text/html",
+          "Content-Encoding": "gzip",
+        });
+        res.write(body.subarray(0, body.length / 2));
+        setTimeout(() => res.socket?.destroy(), 50);
+        break;
+      }
+      case "/echo":
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(req.headers));
+        break;
+      default:
+        res.writeHead(404);
+        res.end("Not Found");
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, baseUrl: `http://127.0.0.1:${port}` };
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+/**
+ * Test the HTTP fetcher
+ */
+export async function testFetcher() {
+  console.log("=== Testing HTTP Fetcher ===\n");
+
+  const { server, baseUrl } = await startFixtureServer();
+  const options = { retryDelay: 10, timeout: 500 };
+
+  try {
+    console.log("--- Basic fetch ---");
+    const ok = await fetchWebsiteContent(`${baseUrl}/ok`, false, options);
+    assert(ok.status === 200, "status should be 200");
+    assert(!ok.error, "successful fetch should have no error");
+    assert(ok.html.includes("<h1>Fees</h1>"), "html should be returned");
+    assert(
+      ok.text.includes("Application fee: $100"),
+      "text should be extracted",
+    );
+    assert(!ok.text.includes("var x"), "scripts should be stripped from text");
+    assert(
+      ok.headers["content-type"] === "text/html; charset=utf-8",
+      "response headers should be returned",
+    );
+
+    console.log("--- Charset detection ---");
+    const latin1 = await fetchWebsiteContent(
+      `${baseUrl}/latin1`,
+      false,
+      options,
+    );
+    assert(latin1.text === "Café crème", "header charset should be honoured");
+    const meta = await fetchWebsiteContent(
+      `${baseUrl}/meta-charset`,
+      false,
+      options,
+    );
+    assert(meta.text === "Цена 10", "meta charset should be honoured");
+
+    console.log("--- Redirects ---");
+    const redirected = await fetchWebsiteContent(
+      `${baseUrl}/redirect`,
+      false,
+      options,
+    );
+    assert(redirected.status === 200, "redirects should be followed");
+    assert(redirected.finalUrl === `${baseUrl}/ok`, "finalUrl should be set");
+    const loop = await fetchWebsiteContent(
+      `${baseUrl}/redirect-loop`,
+      false,
+      options,
+    );
+    assert(
+      !!loop.error && loop.error.includes("Too many redirects"),
+      "redirect loops should be capped",
+    );
+
+    console.log("--- Retries ---");
+    const flaky = await fetchWebsiteContent(`${baseUrl}/flaky`, false, options);
+    assert(flaky.status === 200, "transient 503s should be retried");
+    assert(flaky.text === "Recovered", "retried response should be returned");
+
+    console.log("--- Timeouts ---");
+    const slow = await fetchWebsiteContent(`${baseUrl}/slow`, false, {
+      retryDelay: 10,
+      timeout: 100,
+    });
+    assert(
+      !!slow.error && slow.error.includes("timed out"),
+      "slow responses should time out",
+    );
+
+    console.log("--- Connection reset ---");
+    const resetStarted = Date.now();
+    const reset = await fetchWebsiteContent(`${baseUrl}/gzip-reset`, false, {
+      retryDelay: 10,
+      timeout: 5000,
+    });
+    assert(
+      !!reset.error && Date.now() - resetStarted < 2000,
+      `a reset partway through a gzip body should fail, got ${reset.error} after ${Date.now() - resetStarted}ms`,
+    );
+
+    console.log("--- Cancellation ---");
+    const controller = new AbortController();
+    const started = Date.now();
+    setTimeout(() => controller.abort(), 50);
+    const aborted = await fetchWebsiteContent(
+      `${baseUrl}/slow`,
+      false,
+      { retryDelay: 10, timeout: 5000 },
+      controller.signal,
+    );
+    assert(
+      !!aborted.error && aborted.error.includes("aborted"),
+      "an aborted request should report the cancellation",
+    );
+    assert(Date.now() - started < 1000, "an abort should not be retried");
+
+    console.log("--- Request headers ---");
+    const echo = await fetchWebsiteContent(`${baseUrl}/echo`, false, {
+      ...options,
+      userAgent: "TestAgent/1.0",
+      headers: { "X-Test": "yes" },
+      cookies: { session: "abc", theme: "dark" },
+    });
+    const received = JSON.parse(echo.html);
+    assert(
+      received["user-agent"] === "TestAgent/1.0",
+      "userAgent should be sent",
+    );
+    assert(received["x-test"] === "yes", "custom headers should be sent");
+    assert(
+      received["cookie"] === "session=abc; theme=dark",
+      "cookies should be sent",
+    );
+
+    console.log("--- Credentials on redirects ---");
+    const credentials = {
+      ...options,
+      headers: { Authorization: "Bearer secret" },
+      cookies: { session: "abc" },
+    };
+    const sameOrigin = JSON.parse(
+      (
+        await fetchWebsiteContent(
+          `${baseUrl}/redirect-to?url=${encodeURIComponent("/echo")}`,
+          false,
+          credentials,
+        )
+      ).html,
+    );
+    assert(
+      sameOrigin["authorization"] === "Bearer secret" &&
+        sameOrigin["cookie"] === "session=abc",
+      "credentials should follow redirects within the origin",
+    );
+    const other = await startFixtureServer();
+    try {
+      const otherOrigin = JSON.parse(
+        (
+          await fetchWebsiteContent(
+            `${baseUrl}/redirect-to?url=${encodeURIComponent(`${other.baseUrl}/echo`)}`,
+            false,
+            credentials,
+          )
+        ).html,
+      );
+      assert(
+        !otherOrigin["authorization"] && !otherOrigin["cookie"],
+        "credentials should not be sent to another origin",
+      );
+    } finally {
+      other.server.close();
+    }
+
+    console.log("--- HTTP errors ---");
+    const missing = await fetchWebsiteContent(
+      `${baseUrl}/missing`,
+      false,
+      options,
+    );
+    assert(missing.status === 404, "status should be reported");
+    assert(
+      missing.error === "HTTP 404 Not Found",
+      "HTTP errors should be reported",
+    );
+  } finally {
+    server.close();
+  }
+
+  console.log("\n=== All fetcher tests completed successfully ===\n");
+}
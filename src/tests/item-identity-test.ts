@@ -0,0 +1,156 @@
+/**
+ * Test script for item identity
+ * Checks that item IDs are stable across runs and that item history is
+ * carried over from the previous result of a configuration
+ */
+
+import {
+  applyItemHistory,
+  carryOverItemHistory,
+  createItemId,
+  ensureUniqueItemIds,
+} from "@/lib/scraping/itemIdentity";
+import { diffResults } from "@/lib/scraping/diff";
+import {
+  deleteScrapingResult,
+  saveScrapingResult,
+} from "@/lib/scraping/storage";
+import { CategoryItem, ScrapingResult } from "@/types/scraping";
+
+const SOURCE = "https://example.com/fees";
+
+function createItem(title: string, content: string): CategoryItem {
+  return {
+    id: createItemId("fees", SOURCE, title, content),
+    title,
+    content,
+    source: SOURCE,
+    verified: false,
+    metadata: { timestamp: new Date().toISOString() },
+  };
+}
+
+function createResult(
+  id: string,
+  timestamp: string,
+  items: CategoryItem[],
+): ScrapingResult {
+  return {
+    id,
+    configId: "config_identity_test",
+    url: SOURCE,
+    timestamp,
+    status: "success",
+    categories: { fees: { description: "Fees", items } },
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+/**
+ * Test stable item IDs and cross-run item history
+ */
+export async function testItemIdentity() {
+  console.log("=== Testing Item Identity ===\n");
+
+  console.log("--- Stable IDs ---");
+  const id = createItemId("fees", SOURCE, "Processing fee", "$25");
+  assert(
+    id === createItemId("Fees", `${SOURCE}/#top`, "  processing  FEE ", "$25"),
+    "case, whitespace, fragments and trailing slashes should not change IDs",
+  );
+  assert(
+    id === createItemId("fees", SOURCE, "Processing fee", "$30"),
+    "a titled item should keep its ID when its content changes",
+  );
+  assert(
+    id !== createItemId("documents", SOURCE, "Processing fee", "$25") &&
+      id !==
+        createItemId(
+          "fees",
+          "https://example.com/other",
+          "Processing fee",
+          "$25",
+        ),
+    "the category and source should be part of the ID",
+  );
+  assert(
+    createItemId("fees", SOURCE, "", "$25") !==
+      createItemId("fees", SOURCE, "", "$30"),
+    "untitled items should be identified by their content",
+  );
+
+  const repeated = ensureUniqueItemIds([
+    createItem("", "$5"),
+    createItem("", "$5"),
+  ]);
+  assert(
+    repeated[0].id !== repeated[1].id,
+    "repeated items on a page should get distinct IDs",
+  );
+
+  console.log("--- Item history ---");
+  const first = applyItemHistory(
+    createResult("result_identity_1", "2024-03-01T10:00:00.000Z", [
+      createItem("Processing fee", "$25"),
+      createItem("Late fee", "$10"),
+    ]),
+    null,
+  );
+  first.categories.fees.items[1].verified = true;
+  assert(
+    first.categories.fees.items.every(
+      (item) =>
+        item.createdAt === first.timestamp &&
+        item.updatedAt === first.timestamp,
+    ),
+    "items of a first run should be dated to the result",
+  );
+
+  const second = createResult("result_identity_2", "2024-03-02T10:00:00.000Z", [
+    createItem("Processing fee", "$30"),
+    createItem("Late fee", "$10"),
+    createItem("Express fee", "$50"),
+  ]);
+
+  try {
+    await saveScrapingResult(first);
+    await carryOverItemHistory(second);
+
+    const [processing, late, express] = second.categories.fees.items;
+    assert(
+      processing.createdAt === first.timestamp &&
+        processing.updatedAt === second.timestamp,
+      "a changed item should keep createdAt and get a new updatedAt",
+    );
+    assert(
+      late.createdAt === first.timestamp &&
+        late.updatedAt === first.timestamp &&
+        late.verified === true,
+      "an unchanged item should keep its dates and verified flag",
+    );
+    assert(
+      express.createdAt === second.timestamp,
+      "a new item should be dated to the result",
+    );
+
+    console.log("--- Diffing re-scrapes ---");
+    const diff = diffResults(first, second);
+    assert(
+      diff.summary.added === 1 &&
+        diff.summary.modified === 1 &&
+        diff.summary.unchanged === 1,
+      `re-scraped items should match by ID, got ${JSON.stringify(diff.summary)}`,
+    );
+  } finally {
+    await deleteScrapingResult(first.id);
+  }
+
+  console.log("\n=== All item identity tests completed successfully ===\n");
+}
@@ -0,0 +1,257 @@
+/**
+ * Test script for LLM extraction
+ * Runs extraction through the mock provider and through the OpenAI-compatible
+ * adapter against a local chat completions server
+ */
+
+import http from "http";
+import { AddressInfo } from "net";
+import llm, { LLMMessage } from "@/lib/scraping/llm";
+import { scrapeWebsite } from "@/lib/scraping/scraper";
+import { ScrapingConfig } from "@/types/scraping";
+
+const PAGE_TEXT =
+  "Our application fee is $25 and must be paid online. " +
+  "The processing fee is $10. " +
+  "Opening hours are 9 to 5 on weekdays.";
+
+interface ReceivedCompletion {
+  authorization?: string;
+  model: string;
+  messages: LLMMessage[];
+}
+
+/**
+ * Start a server with a fee page and an OpenAI-compatible completions API
+ * /v1 answers with a fenced JSON completion and /slow/v1 never answers
+ */
+async function startServer(): Promise<{
+  server: http.Server;
+  baseUrl: string;
+  received: ReceivedCompletion[];
+}> {
+  const received: ReceivedCompletion[] = [];
+
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      if (req.url === "/fees") {
+        res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+        res.end(`<html><body><p>${PAGE_TEXT}</p></body></html>`);
+        return;
+      }
+
+      if (req.url === "/v1/chat/completions") {
+        const request = JSON.parse(body);
+        received.push({
+          authorization: req.headers.authorization,
+          model: request.model,
+          messages: request.messages,
+        });
+
+        const content = JSON.stringify({
+          items: [
+            {
+              category: "Fees",
+              title: "Application fee",
+              content: "$25, paid online",
+              confidence: 0.92,
+              metadata: { amount: "$25" },
+            },
+            {
+              category: "fees",
+              title: "Maybe a fee",
+              content: "Opening hours",
+              confidence: 0.2,
+            },
+            { category: "weather", title: "Sunny", content: "Sunny" },
+          ],
+        });
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            choices: [
+              {
+                message: {
+                  role: "assistant",
+                  content: "```json\n" + content + "\n```",
+                },
+              },
+            ],
+          }),
+        );
+        return;
+      }
+
+      if (req.url === "/slow/v1/chat/completions") return;
+
+      res.writeHead(404);
+      res.end("Not Found");
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, baseUrl: `http://127.0.0.1:${port}`, received };
+}
+
+function createConfig(url: string): ScrapingConfig {
+  return {
+    url,
+    mode: "single",
+    selector: "",
+    selectorType: "auto",
+    scrapingMode: "semantic",
+    categories: ["fees"],
+    options: {
+      handleDynamicContent: false,
+      followPagination: false,
+      extractImages: false,
+      deduplicateResults: false,
+      maxPages: 1,
+      skipHeadersFooters: false,
+      skipImagesMedia: false,
+      stealthMode: false,
+      respectRobotsTxt: false,
+      rateLimitDelay: 0,
+      timeout: 2000,
+      useAI: true,
+      aiConfidenceThreshold: 0.5,
+    },
+    outputFormat: "json",
+  };
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+/**
+ * Test LLM providers and semantic extraction
+ */
+export async function testLLM() {
+  console.log("=== Testing LLM Extraction ===\n");
+
+  const { server, baseUrl, received } = await startServer();
+
+  try {
+    console.log("--- Mock provider ---");
+    const mock = llm.createMockProvider();
+    const first = await llm.extractWithLLM(
+      { text: PAGE_TEXT, categories: ["fees"], url: `${baseUrl}/fees` },
+      { provider: mock },
+    );
+    const second = await llm.extractWithLLM(
+      { text: PAGE_TEXT, categories: ["fees"], url: `${baseUrl}/fees` },
+      { provider: mock },
+    );
+    assert(
+      first.items.fees.length === 2,
+      `the mock should find both fees, got ${first.items.fees.length}`,
+    );
+    assert(
+      JSON.stringify(first.items.fees.map((item) => item.id)) ===
+        JSON.stringify(second.items.fees.map((item) => item.id)),
+      "the mock should be deterministic",
+    );
+    assert(
+      first.items.fees.every(
+        (item) =>
+          item.metadata?.extractionMethod === "llm" &&
+          item.metadata?.provider === "mock",
+      ),
+      "items should record how they were extracted",
+    );
+
+    console.log("--- Prompt template ---");
+    let prompt = "";
+    await llm.extractWithLLM(
+      { text: PAGE_TEXT, categories: ["fees", "hours"], title: "Fees" },
+      {
+        provider: llm.createMockProvider((request) => {
+          prompt = request.messages[1].content;
+          return '{"items": []}';
+        }),
+        promptTemplate: "Find {{categories}} (max {{maxItems}}) in {{title}}",
+        maxItemsPerCategory: 3,
+      },
+    );
+    assert(
+      prompt === "Find fees, hours (max 3) in Fees",
+      `placeholders should be filled in, got "${prompt}"`,
+    );
+
+    console.log("--- OpenAI-compatible provider ---");
+    const provider = llm.createOpenAICompatibleProvider({
+      baseUrl: `${baseUrl}/v1/`,
+      apiKey: "test-key",
+      model: "test-model",
+    });
+    const extracted = await llm.extractWithLLM(
+      { text: PAGE_TEXT, categories: ["fees"], url: `${baseUrl}/fees` },
+      { provider, confidenceThreshold: 0.5 },
+    );
+    assert(
+      received[0]?.authorization === "Bearer test-key" &&
+        received[0]?.model === "test-model",
+      "the API key and model should be sent",
+    );
+    assert(
+      received[0].messages[1].content.includes(PAGE_TEXT),
+      "the page text should be part of the prompt",
+    );
+    assert(
+      extracted.items.fees.length === 1 &&
+        extracted.items.fees[0].title === "Application fee" &&
+        extracted.items.fees[0].metadata?.amount === "$25",
+      "fenced JSON should be parsed, dropping unknown categories and low confidence items",
+    );
+
+    const slow = llm.createOpenAICompatibleProvider({
+      baseUrl: `${baseUrl}/slow/v1`,
+      timeout: 100,
+    });
+    let timeoutError = "";
+    try {
+      await llm.extractWithLLM(
+        { text: PAGE_TEXT, categories: ["fees"] },
+        { provider: slow },
+      );
+    } catch (error: any) {
+      timeoutError = error.message;
+    }
+    assert(
+      timeoutError.includes("timed out"),
+      `a slow provider should time out, got "${timeoutError}"`,
+    );
+
+    console.log("--- Semantic mode ---");
+    llm.setLLMProvider(mock);
+    const result = await scrapeWebsite(createConfig(`${baseUrl}/fees`));
+    assert(result.status === "success", "semantic scrape should succeed");
+    assert(
+      result.categories.fees.metadata?.extractionMethod === "llm" &&
+        result.categories.fees.items.length === 2,
+      "semantic mode should go through the provider",
+    );
+
+    llm.setLLMProvider(slow);
+    const fallback = await scrapeWebsite(createConfig(`${baseUrl}/fees`));
+    assert(
+      fallback.categories.fees.metadata?.extractionMethod !== "llm" &&
+        !!fallback.metadata?.warnings?.some((warning) =>
+          warning.includes("AI extraction failed"),
+        ),
+      "a failing provider should fall back to rule-based categorization",
+    );
+  } finally {
+    llm.setLLMProvider(null);
+    server.closeAllConnections();
+    server.close();
+  }
+
+  console.log("\n=== All LLM tests completed successfully ===\n");
+}
@@ -0,0 +1,322 @@
+/**
+ * Test script for change alerts
+ * Saves two results of a configuration and checks the alerts delivered to a
+ * local webhook receiver, including signatures, retries and the delivery log
+ */
+
+import http from "http";
+import { AddressInfo } from "net";
+import notifications, {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+} from "@/lib/scraping/notifications";
+import {
+  deleteScrapingConfig,
+  deleteScrapingResult,
+  deleteWebhookDelivery,
+  getWebhookDeliveries,
+  saveScrapingConfig,
+  saveScrapingResult,
+} from "@/lib/scraping/storage";
+import {
+  CategoryItem,
+  ScrapingConfig,
+  ScrapingResult,
+  WebhookDelivery,
+  WebhookPayload,
+} from "@/types/scraping";
+
+const SECRET = "test-secret";
+
+interface ReceivedRequest {
+  path: string;
+  payload: WebhookPayload;
+  validSignature: boolean;
+}
+
+/**
+ * Start a webhook receiver that checks signatures
+ * /flaky fails twice before accepting a delivery and /rejected always
+ * answers 400
+ */
+async function startReceiver(): Promise<{
+  server: http.Server;
+  baseUrl: string;
+  received: ReceivedRequest[];
+}> {
+  const received: ReceivedRequest[] = [];
+  let flakyCalls = 0;
+
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const path = req.url || "/";
+      const expected = notifications.signPayload(
+        body,
+        SECRET,
+        String(req.headers[TIMESTAMP_HEADER.toLowerCase()]),
+      );
+      received.push({
+        path,
+        payload: JSON.parse(body),
+        validSignature:
+          req.headers[SIGNATURE_HEADER.toLowerCase()] === expected,
+      });
+
+      const status =
+        path === "/rejected"
+          ? 400
+          : path === "/flaky" && ++flakyCalls <= 2
+            ? 500
+            : 200;
+      res.writeHead(status);
+      res.end();
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, baseUrl: `http://127.0.0.1:${port}`, received };
+}
+
+function createResult(
+  configId: string,
+  timestamp: string,
+  fees: CategoryItem[],
+): ScrapingResult {
+  return {
+    id: `result_${configId}_${timestamp.substring(0, 10)}`,
+    configId,
+    url: "https://example.com/fees",
+    timestamp,
+    status: "success",
+    categories: { fees: { description: "Fees", items: fees } },
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+}
+
+/**
+ * Wait until no delivery of a configuration is pending or retrying
+ */
+async function waitForDeliveries(
+  configId: string,
+  timeout = 5000,
+): Promise<WebhookDelivery[]> {
+  const deadline = Date.now() + timeout;
+
+  while (Date.now() < deadline) {
+    const deliveries = await getWebhookDeliveries(configId);
+    if (
+      deliveries.every(
+        (delivery) =>
+          delivery.status === "delivered" || delivery.status === "failed",
+      )
+    ) {
+      return deliveries;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+
+  throw new Error(`Deliveries did not finish within ${timeout}ms`);
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+/**
+ * Test alert rules and webhook deliveries
+ */
+export async function testNotifications() {
+  console.log("=== Testing Change Alerts ===\n");
+
+  const { server, baseUrl, received } = await startReceiver();
+  const configId = "config_notifications_test";
+  const config: ScrapingConfig = {
+    id: configId,
+    name: "Notifications test",
+    url: "https://example.com/fees",
+    mode: "scheduled",
+    selector: "",
+    selectorType: "auto",
+    scrapingMode: "basic",
+    categories: ["fees"],
+    options: {
+      handleDynamicContent: false,
+      followPagination: false,
+      extractImages: false,
+      deduplicateResults: false,
+      maxPages: 1,
+      skipHeadersFooters: false,
+      skipImagesMedia: false,
+      stealthMode: false,
+      respectRobotsTxt: false,
+      rateLimitDelay: 0,
+    },
+    outputFormat: "json",
+    notifications: {
+      enabled: true,
+      rules: [
+        {
+          id: "rule_fees",
+          name: "Fees added or removed",
+          enabled: true,
+          categories: ["fees"],
+          changeTypes: ["added", "removed"],
+        },
+        {
+          id: "rule_processing",
+          name: "Processing fee changed",
+          enabled: true,
+          changeTypes: ["modified"],
+          pattern: "^processing",
+        },
+        {
+          id: "rule_documents",
+          name: "Documents changed",
+          enabled: true,
+          categories: ["documents"],
+          changeTypes: ["added", "removed", "modified"],
+        },
+      ],
+      webhooks: [
+        { id: "hook_ok", url: `${baseUrl}/ok`, secret: SECRET, enabled: true },
+        { id: "hook_flaky", url: `${baseUrl}/flaky`, enabled: true },
+        { id: "hook_rejected", url: `${baseUrl}/rejected`, enabled: true },
+        { id: "hook_disabled", url: `${baseUrl}/disabled`, enabled: false },
+      ],
+    },
+  };
+
+  const base = createResult(configId, "2024-03-01T10:00:00.000Z", [
+    { id: "a1", title: "Processing fee", content: "$25" },
+    { id: "a2", title: "Late fee", content: "$10" },
+    { id: "a3", title: "Card fee", content: "$5" },
+  ]);
+  const target = createResult(configId, "2024-03-02T10:00:00.000Z", [
+    { id: "b1", title: "Processing fee", content: "$30" },
+    { id: "b2", title: "Late fee", content: "$15" },
+    { id: "b3", title: "Express fee", content: "$50" },
+  ]);
+
+  notifications.configureWebhookDelivery({ retryDelay: 20, maxAttempts: 3 });
+
+  try {
+    console.log("--- Validation ---");
+    const invalid = notifications.validateNotificationSettings({
+      enabled: true,
+      rules: [
+        { id: "r", name: "r", enabled: true, changeTypes: [], pattern: "(" },
+      ],
+      webhooks: [{ id: "w", url: "ftp://example.com", enabled: true }],
+    });
+    assert(
+      invalid.length === 3,
+      `invalid settings should be rejected, got ${invalid}`,
+    );
+    assert(
+      notifications.validateNotificationSettings(config.notifications!)
+        .length === 0,
+      "valid settings should pass",
+    );
+
+    console.log("--- Delivering alerts ---");
+    await saveScrapingConfig(config);
+    await saveScrapingResult(base);
+    await saveScrapingResult(target);
+
+    const created = await notifications.notifyResultChanges(config, target);
+    assert(created.length === 3, "every enabled webhook should get a delivery");
+
+    const alerts = created[0].payload.alerts;
+    assert(
+      JSON.stringify(alerts.map((alert) => alert.ruleId)) ===
+        JSON.stringify(["rule_fees", "rule_processing"]),
+      `only matching rules should alert, got ${alerts.map((a) => a.ruleId)}`,
+    );
+    assert(
+      alerts[0].changes.length === 2,
+      "the fees rule should report the added and removed items",
+    );
+    assert(
+      alerts[1].changes.length === 1 && alerts[1].changes[0].after?.id === "b1",
+      "the pattern should limit the modified items",
+    );
+    assert(
+      created[0].payload.baseResultId === base.id,
+      "the alert should name the result it compares against",
+    );
+
+    console.log("--- Signatures and retries ---");
+    const deliveries = await waitForDeliveries(configId);
+    const byHook = (id: string) =>
+      deliveries.find((delivery) => delivery.webhookId === id)!;
+
+    const signed = received.find((request) => request.path === "/ok");
+    assert(!!signed?.validSignature, "the signature should verify");
+    assert(
+      byHook("hook_ok").status === "delivered" &&
+        byHook("hook_ok").attempts === 1,
+      "a healthy receiver should get the delivery once",
+    );
+    assert(
+      byHook("hook_flaky").status === "delivered" &&
+        byHook("hook_flaky").attempts === 3,
+      `a failing receiver should be retried, got ${byHook("hook_flaky").attempts} attempts`,
+    );
+    assert(
+      byHook("hook_rejected").status === "failed" &&
+        byHook("hook_rejected").attempts === 1 &&
+        byHook("hook_rejected").lastStatusCode === 400,
+      "a client error should not be retried",
+    );
+    assert(
+      !received.some((request) => request.path === "/disabled"),
+      "disabled webhooks should not be called",
+    );
+
+    console.log("--- Redelivery and test events ---");
+    const redelivered = await notifications.redeliverWebhook(
+      byHook("hook_rejected").id,
+    );
+    assert(
+      redelivered?.status === "failed" && redelivered.attempts === 1,
+      "a redelivery should start over",
+    );
+    const tests = await notifications.sendTestNotification(config);
+    assert(
+      tests.every((delivery) => delivery.payload.event === "scraping.test"),
+      "test events should be sent to every enabled webhook",
+    );
+    await waitForDeliveries(configId);
+
+    console.log("--- Unchanged results ---");
+    const repeat = {
+      ...target,
+      id: `${target.id}_repeat`,
+      timestamp: "2024-03-03T10:00:00.000Z",
+    };
+    await saveScrapingResult(repeat);
+    assert(
+      (await notifications.notifyResultChanges(config, repeat)).length === 0,
+      "no alerts should be sent without changes",
+    );
+    await deleteScrapingResult(repeat.id);
+  } finally {
+    notifications.stopWebhookRetries();
+    server.close();
+
+    for (const delivery of await getWebhookDeliveries(configId)) {
+      await deleteWebhookDelivery(delivery.id);
+    }
+    await deleteScrapingResult(base.id);
+    await deleteScrapingResult(target.id);
+    await deleteScrapingConfig(configId);
+  }
+
+  console.log("\n=== All notification tests completed successfully ===\n");
+}
@@ -0,0 +1,198 @@
+/**
+ * Test script for page actions
+ * Validates action lists and runs them against a page that hides its
+ * content behind a cookie banner and a "Show more" button. The steps only
+ * run when CHROMIUM_PATH points to a Chromium binary
+ */
+
+import http from "http";
+import { AddressInfo } from "net";
+import { validatePageActions } from "@/lib/scraping/pageActions";
+import {
+  closeBrowsers,
+  configureChromium,
+  renderPage,
+} from "@/lib/scraping/renderer";
+import { loadScreenshotFromFile } from "@/lib/db/fileStorage";
+import { PageAction } from "@/types/scraping";
+
+const FEES_PAGE = `<html><body>
+  <div id="cookies"><button id="accept">Accept cookies</button></div>
+  <select id="year"><option value="2024">2024</option><option value="2025">2025</option></select>
+  <button id="more" style="display: none">Show more</button>
+  <ul id="fees"><li>Standard permit: $120</li></ul>
+  <script>
+    document.getElementById("accept").addEventListener("click", function () {
+      document.getElementById("cookies").remove();
+      document.getElementById("more").style.display = "block";
+    });
+    document.getElementById("more").addEventListener("click", function () {
+      setTimeout(function () {
+        document.getElementById("fees").innerHTML +=
+          '<li class="late">Late fee: $25</li>';
+      }, 100);
+    });
+  </script>
+</body></html>`;
+
+const ACTIONS: PageAction[] = [
+  { type: "click", selector: "#accept" },
+  { type: "select", selector: "#year", value: "2025" },
+  { type: "click", selector: "#more" },
+  { type: "waitFor", selector: ".late" },
+  {
+    type: "evaluate",
+    name: "feeCount",
+    script: "document.querySelectorAll('#fees li').length",
+  },
+];
+
+async function startFixtureServer(): Promise<{
+  server: http.Server;
+  baseUrl: string;
+}> {
+  const server = http.createServer((req, res) => {
+    if (req.url === "/fees") {
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.end(FEES_PAGE);
+    } else {
+      res.writeHead(404);
+      res.end("Not Found");
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, baseUrl: `http://127.0.0.1:${port}` };
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+/**
+ * Test page action validation and execution
+ */
+export async function testPageActions() {
+  console.log("=== Testing Page Actions ===\n");
+
+  console.log("--- Validation ---");
+  assert(
+    validatePageActions(undefined).length === 0 &&
+      validatePageActions(ACTIONS).length === 0,
+    "valid actions should pass",
+  );
+  assert(
+    validatePageActions({ type: "click" })[0] === "actions must be an array",
+    "actions should be an array",
+  );
+  const errors = validatePageActions([
+    { type: "hover", selector: "a" },
+    { type: "type", selector: "#name" },
+    { type: "scroll", timeout: -1 },
+  ]);
+  assert(
+    errors.length === 3 &&
+      errors[0].startsWith("Action 1: type must be one of") &&
+      errors[1] === "Action 2: type steps need a value" &&
+      errors[2] === "Action 3: timeout must be a positive number",
+    `invalid steps should be reported, got ${JSON.stringify(errors)}`,
+  );
+
+  const { server, baseUrl } = await startFixtureServer();
+  const executablePath = process.env.CHROMIUM_PATH;
+
+  try {
+    console.log("--- Static renderer ---");
+    const skipped = await renderPage(
+      `${baseUrl}/fees`,
+      { renderer: "static" },
+      undefined,
+      ACTIONS,
+    );
+    assert(
+      !skipped.error &&
+        skipped.rendering?.actions?.length === ACTIONS.length &&
+        skipped.rendering.actions.every(
+          (result) => result.status === "skipped",
+        ),
+      "the static renderer should skip page actions",
+    );
+
+    console.log("--- Fallback ---");
+    await configureChromium({ executablePath: "" });
+    const fallback = await renderPage(`${baseUrl}/fees`, {}, undefined, [
+      { type: "click", selector: "#accept" },
+    ]);
+    assert(
+      fallback.rendering?.requestedRenderer === "chromium" &&
+        fallback.rendering.actions?.[0].status === "skipped",
+      "pages with actions should ask for the chromium renderer",
+    );
+
+    if (!executablePath) {
+      console.log("CHROMIUM_PATH is not set, skipping the chromium steps");
+    } else {
+      await configureChromium({ executablePath });
+
+      console.log("--- Chromium steps ---");
+      const rendered = await renderPage(
+        `${baseUrl}/fees`,
+        { timeout: 10000 },
+        undefined,
+        ACTIONS,
+      );
+      assert(
+        !rendered.error &&
+          rendered.text.includes("Late fee: $25") &&
+          rendered.rendering?.actions?.every(
+            (result) => result.status === "success",
+          ) === true,
+        `the steps should reveal the late fee, got ${rendered.error || rendered.text}`,
+      );
+      assert(
+        rendered.rendering!.extracted?.feeCount === 2,
+        `evaluate steps should return data, got ${JSON.stringify(rendered.rendering!.extracted)}`,
+      );
+
+      console.log("--- Failures ---");
+      const failed = await renderPage(
+        `${baseUrl}/fees`,
+        { timeout: 10000 },
+        undefined,
+        [
+          {
+            type: "click",
+            selector: "#newsletter",
+            timeout: 500,
+            optional: true,
+          },
+          { type: "click", selector: "#more", timeout: 500 },
+          { type: "click", selector: "#accept" },
+        ],
+      );
+      const results = failed.rendering?.actions || [];
+      assert(
+        results.map((result) => result.status).join() ===
+          "failed,failed,skipped",
+        `a required failure should skip the remaining steps, got ${JSON.stringify(results)}`,
+      );
+      assert(
+        !!failed.error && failed.error.includes("Page action 2"),
+        `required failures should fail the render, got ${failed.error}`,
+      );
+      assert(
+        !!results[1].screenshot &&
+          !!(await loadScreenshotFromFile(results[1].screenshot)),
+        "failed steps should be saved as screenshots",
+      );
+    }
+  } finally {
+    await closeBrowsers();
+    server.close();
+  }
+
+  console.log("\n=== All page action tests completed successfully ===\n");
+}
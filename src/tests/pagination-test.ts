@@ -0,0 +1,241 @@
+/**
+ * Test script for pagination
+ * Crawls paginated fixture pages served by a local HTTP server
+ */
+
+import http from "http";
+import { AddressInfo } from "net";
+import { findNextPageUrl } from "@/lib/scraping/pagination";
+import { scrapeWebsite } from "@/lib/scraping/scraper";
+import { ScrapingConfig } from "@/types/scraping";
+
+/**
+ * Render a listing page with one fee and the given pager markup
+ */
+function renderPage(page: number, pager: string): string {
+  return `<html><body>
+    <h2>Fee ${page}</h2>
+    <p>Filing fee for page ${page}: $${page * 10}</p>
+    ${pager}
+  </body></html>`;
+}
+
+/**
+ * Start a fixture server with a three-page listing
+ * Page 1 links with rel="next", page 2 with a "Next" anchor, page 3 is last.
+ * /foreign?next=<url> links to the given URL
+ * @returns The server and its base URL
+ */
+async function startFixtureServer(): Promise<{
+  server: http.Server;
+  baseUrl: string;
+}> {
+  const server = http.createServer((req, res) => {
+    const pages: Record<string, string> = {
+      "/list": renderPage(1, '<a rel="next" href="/list?page=2">2</a>'),
+      "/list?page=2": renderPage(
+        2,
+        '<a href="/list">Previous</a> <a href="/list?page=3">Next »</a>',
+      ),
+      "/list?page=3": renderPage(3, '<a href="/list?page=2">Previous</a>'),
+      "/loop": renderPage(1, '<a rel="next" href="/loop#top">Next</a>'),
+    };
+
+    // /foreign?next=<url> links to a page on another site
+    const foreignNext = new URL(
+      req.url || "/",
+      "http://fixture",
+    ).searchParams.get("next");
+    if (req.url?.startsWith("/foreign") && foreignNext) {
+      pages[req.url] = renderPage(
+        1,
+        `<a rel="next" href="${foreignNext}">Next</a>`,
+      );
+    }
+
+    const body = pages[req.url || ""];
+    if (body) {
+      res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+      res.end(body);
+    } else {
+      res.writeHead(404);
+      res.end("Not Found");
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, baseUrl: `http://127.0.0.1:${port}` };
+}
+
+function createConfig(
+  url: string,
+  options: Partial<ScrapingConfig["options"]> = {},
+): ScrapingConfig {
+  return {
+    url,
+    mode: "single",
+    selector: "",
+    selectorType: "auto",
+    scrapingMode: "basic",
+    categories: ["fees"],
+    options: {
+      handleDynamicContent: false,
+      followPagination: true,
+      extractImages: false,
+      deduplicateResults: true,
+      maxPages: 10,
+      skipHeadersFooters: false,
+      skipImagesMedia: false,
+      stealthMode: false,
+      respectRobotsTxt: false,
+      rateLimitDelay: 10,
+      timeout: 2000,
+      retryDelay: 10,
+      ...options,
+    },
+    outputFormat: "json",
+  };
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+/**
+ * Test next-page link detection and the pagination crawler
+ */
+export async function testPagination() {
+  console.log("=== Testing Pagination ===\n");
+
+  console.log("--- Next link detection ---");
+  const base = "https://example.com/items?page=2";
+  assert(
+    findNextPageUrl('<link rel="next" href="?page=3">', base)?.url ===
+      "https://example.com/items?page=3",
+    "rel=next should be followed",
+  );
+  assert(
+    findNextPageUrl('<a href="/items/p3">Next page</a>', base)?.method ===
+      "next-anchor",
+    '"Next" anchors should be detected',
+  );
+  assert(
+    findNextPageUrl(
+      '<ul class="pagination"><li><a href="?page=1">1</a></li><li class="active">2</li><li><a href="?page=3">3</a></li></ul>',
+      base,
+    )?.url === "https://example.com/items?page=3",
+    "numbered pagers should link to the following page",
+  );
+  assert(
+    findNextPageUrl(
+      '<a class="more" href="/items?page=3">Load more</a>',
+      base,
+      "a.more",
+    )?.method === "selector",
+    "a CSS next-page selector should be honoured",
+  );
+  assert(
+    findNextPageUrl(
+      '<a class="more" href="/items?page=3">Load more</a>',
+      base,
+      "//a[@class='more']/@href",
+    )?.url === "https://example.com/items?page=3",
+    "an XPath next-page selector should be honoured",
+  );
+  assert(
+    findNextPageUrl(
+      '<span class="next disabled"><a href="#">Next</a></span>',
+      base,
+    ) === null,
+    "disabled and fragment links should be ignored",
+  );
+
+  const { server, baseUrl } = await startFixtureServer();
+
+  try {
+    console.log("--- Crawling pages ---");
+    const result = await scrapeWebsite(createConfig(`${baseUrl}/list`));
+    const fees = result.categories.fees?.items || [];
+    assert(result.status === "success", "paginated scrape should succeed");
+    assert(result.metadata?.pageCount === 3, "three pages should be crawled");
+    for (const page of [1, 2, 3]) {
+      assert(
+        fees.some((item) => item.metadata?.page === page),
+        `items from page ${page} should be merged`,
+      );
+    }
+    assert(
+      fees.every((item) =>
+        String(item.metadata?.pageUrl).startsWith(`${baseUrl}/list`),
+      ),
+      "items should record the page they came from",
+    );
+
+    console.log("--- maxPages ---");
+    const limited = await scrapeWebsite(
+      createConfig(`${baseUrl}/list`, { maxPages: 2 }),
+    );
+    assert(limited.metadata?.pageCount === 2, "maxPages should be respected");
+    assert(
+      !(limited.categories.fees?.items || []).some(
+        (item) => item.metadata?.page === 3,
+      ),
+      "pages beyond maxPages should not be fetched",
+    );
+
+    console.log("--- Disabled pagination ---");
+    const single = await scrapeWebsite(
+      createConfig(`${baseUrl}/list`, { followPagination: false }),
+    );
+    assert(single.metadata?.pageCount === 1, "only the first page is scraped");
+
+    console.log("--- Loops ---");
+    const loop = await scrapeWebsite(createConfig(`${baseUrl}/loop`));
+    assert(loop.metadata?.pageCount === 1, "visited pages should not repeat");
+    assert(
+      (loop.metadata?.warnings || []).some((warning: string) =>
+        warning.includes("already visited"),
+      ),
+      "a pagination loop should be reported",
+    );
+
+    console.log("--- Links to other sites ---");
+    const otherRequests: http.IncomingHttpHeaders[] = [];
+    const other = http.createServer((req, res) => {
+      otherRequests.push(req.headers);
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.end(renderPage(2, ""));
+    });
+    await new Promise<void>((resolve) => other.listen(0, "127.0.0.1", resolve));
+    try {
+      const otherUrl = `http://127.0.0.1:${(other.address() as AddressInfo).port}/list?page=2`;
+      const foreign = await scrapeWebsite(
+        createConfig(
+          `${baseUrl}/foreign?next=${encodeURIComponent(otherUrl)}`,
+          {
+            headers: { Authorization: "Bearer secret" },
+          },
+        ),
+      );
+      assert(
+        foreign.metadata?.pageCount === 1 && otherRequests.length === 0,
+        `next links to another site should not be followed, got ${otherRequests.length} request(s)`,
+      );
+      assert(
+        (foreign.metadata?.warnings || []).some((warning: string) =>
+          warning.includes("another site"),
+        ),
+        "stopping at a link to another site should be reported",
+      );
+    } finally {
+      other.close();
+    }
+  } finally {
+    server.close();
+  }
+
+  console.log("\n=== All pagination tests completed successfully ===\n");
+}
@@ -0,0 +1,115 @@
+/**
+ * Test script for price normalization
+ * Parses prices written in several locales and checks the normalized
+ * metadata of categorized fees and products
+ */
+
+import { findPrices, parsePrice, summarizePrices } from "@/lib/scraping/prices";
+import { categorizeContent } from "@/lib/scraping/categorization";
+import { ScrapingResult } from "@/types/scraping";
+
+const HTML = `
+  <h2>Permit fees</h2>
+  <p>Standard permit: 1.234,56 € per year</p>
+  <p>Express permit: CHF 1'250.00</p>
+  <div class="product">
+    <h3>Permit kit</h3>
+    <span class="price">£10 – £25</span>
+  </div>`;
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+/**
+ * Test price parsing and normalization
+ */
+export async function testPrices() {
+  console.log("=== Testing Price Normalization ===\n");
+
+  console.log("--- Parsing ---");
+  const cases: [string, number, string | null, number, string | null][] = [
+    ["$1,200.50", 1200.5, "USD", 1200.5, null],
+    ["1.234,56 €", 1234.56, "EUR", 1234.56, null],
+    ["€ 1 234,50", 1234.5, "EUR", 1234.5, null],
+    ["₹2,50,000", 250000, "INR", 250000, null],
+    ["$10–$25 per month", 10, "USD", 25, "month"],
+    ["From 10 to 25 EUR monthly", 10, "EUR", 25, "month"],
+    ["£12.50/hr", 12.5, "GBP", 12.5, "hour"],
+    ["20 dollars a week", 20, "USD", 20, "week"],
+  ];
+  for (const [text, amount, currency, max, period] of cases) {
+    const price = parsePrice(text);
+    assert(
+      price?.amount === amount &&
+        price.currency === currency &&
+        price.max === max &&
+        price.period === period,
+      `"${text}" was parsed as ${JSON.stringify(price)}`,
+    );
+  }
+
+  const free = parsePrice("Free of charge for residents");
+  assert(
+    free?.free === true && free.amount === 0,
+    "free offers should have a zero price",
+  );
+  assert(
+    parsePrice("Call our toll-free number") === null &&
+      parsePrice("Try 10 times") === null &&
+      parsePrice("Since 2024") === null,
+    "numbers without a currency should not be prices",
+  );
+  assert(
+    findPrices("Basic $5/mo, Pro $15/mo").length === 2,
+    "every price in a text should be found",
+  );
+
+  console.log("--- Categorized items ---");
+  const categories = await categorizeContent(
+    { url: "https://example.com/permits", html: HTML, text: "" },
+    ["fees", "products"],
+  );
+  const standard = categories.fees.items.find(
+    (item) => item.metadata?.normalizedPrice?.currency === "EUR",
+  );
+  assert(
+    standard?.metadata?.normalizedPrice.amount === 1234.56 &&
+      standard.metadata.normalizedPrice.period === "year",
+    `euro fees should be normalized, got ${JSON.stringify(
+      categories.fees.items.map((item) => item.metadata?.normalizedPrice),
+    )}`,
+  );
+  assert(
+    categories.fees.items.some(
+      (item) => item.metadata?.normalizedPrice?.currency === "CHF",
+    ),
+    "fees priced with an ISO code should be found",
+  );
+  const kit = categories.products.items.find(
+    (item) => item.title === "Permit kit",
+  );
+  assert(
+    kit?.metadata?.normalizedPrice?.min === 10 &&
+      kit.metadata.normalizedPrice.max === 25 &&
+      kit.metadata.normalizedPrice.currency === "GBP",
+    `product price ranges should be normalized, got ${JSON.stringify(kit?.metadata)}`,
+  );
+
+  console.log("--- Summary ---");
+  const summary = summarizePrices([
+    { categories } as unknown as ScrapingResult,
+  ]);
+  assert(
+    summary.fees?.["EUR/year"]?.count === 1 &&
+      summary.products?.GBP?.min === 10 &&
+      summary.products.GBP.max === 25,
+    `prices should be summarized by currency, got ${JSON.stringify(summary)}`,
+  );
+
+  console.log(
+    "\n=== All price normalization tests completed successfully ===\n",
+  );
+}
@@ -0,0 +1,376 @@
+/**
+ * Test script for the persistent scraping queue
+ * Runs jobs against a local fixture server and checks ordering, retries and
+ * persistence
+ */
+
+import http from "http";
+import { AddressInfo } from "net";
+import { NextRequest } from "next/server";
+import scrapingQueue from "@/lib/scraping/queue";
+import {
+  configureRateLimiter,
+  getRateLimitDefaults,
+} from "@/lib/scraping/rateLimiter";
+import {
+  GET as getQueue,
+  PATCH as patchQueue,
+} from "@/app/api/scraping/queue/route";
+import { deleteScrapingResult } from "@/lib/scraping/storage";
+import { ScrapingConfig, ScrapingJob } from "@/types/scraping";
+
+/**
+ * Start a fixture server that records the order of page requests
+ * /slow holds its response, /hang holds it for longer than a test should
+ * wait, /flaky always fails with 503 (with Retry-After: 0, so the rate
+ * limiter does not hold later requests back) and /missing returns 404
+ */
+async function startFixtureServer(): Promise<{
+  server: http.Server;
+  baseUrl: string;
+  requests: string[];
+}> {
+  const requests: string[] = [];
+
+  const server = http.createServer((req, res) => {
+    const path = req.url || "/";
+    requests.push(path);
+
+    if (path === "/flaky") {
+      res.writeHead(503, { "Retry-After": "0" });
+      res.end("Service Unavailable");
+      return;
+    }
+    if (path === "/missing") {
+      res.writeHead(404);
+      res.end("Not Found");
+      return;
+    }
+
+    setTimeout(
+      () => {
+        res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+        res.end(`<html><body>
+          <h2>Fees</h2>
+          <p>Processing fee for ${path}: $25</p>
+        </body></html>`);
+      },
+      path === "/slow" ? 300 : path === "/hang" ? 5000 : 0,
+    );
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, baseUrl: `http://127.0.0.1:${port}`, requests };
+}
+
+function createConfig(
+  url: string,
+  overrides: Partial<ScrapingConfig> = {},
+): ScrapingConfig {
+  return {
+    url,
+    mode: "single",
+    selector: "",
+    selectorType: "auto",
+    scrapingMode: "basic",
+    categories: ["fees"],
+    options: {
+      handleDynamicContent: false,
+      followPagination: false,
+      extractImages: false,
+      deduplicateResults: false,
+      maxPages: 1,
+      skipHeadersFooters: false,
+      skipImagesMedia: false,
+      stealthMode: false,
+      respectRobotsTxt: false,
+      rateLimitDelay: 0,
+      timeout: 2000,
+      retryDelay: 10,
+    },
+    outputFormat: "json",
+    ...overrides,
+  };
+}
+
+/**
+ * Wait until every job has finished or the timeout expires
+ */
+async function waitForJobs(
+  jobIds: string[],
+  timeout = 20000,
+): Promise<ScrapingJob[]> {
+  const deadline = Date.now() + timeout;
+
+  while (Date.now() < deadline) {
+    const jobs = await Promise.all(
+      jobIds.map((id) => scrapingQueue.getJob(id)),
+    );
+    if (
+      jobs.every(
+        (job) =>
+          job && ["completed", "failed", "cancelled"].includes(job.status),
+      )
+    ) {
+      return jobs as ScrapingJob[];
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+
+  throw new Error(`Jobs did not finish within ${timeout}ms`);
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+/**
+ * Wait until a job reaches the given status or the timeout expires
+ */
+async function waitForStatus(
+  jobId: string,
+  status: ScrapingJob["status"],
+  timeout = 5000,
+): Promise<ScrapingJob> {
+  const deadline = Date.now() + timeout;
+
+  while (Date.now() < deadline) {
+    const job = await scrapingQueue.getJob(jobId);
+    if (job?.status === status) return job;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+
+  throw new Error(`Job ${jobId} did not become ${status} within ${timeout}ms`);
+}
+
+/**
+ * Test job ordering, retries, control operations and persistence of the
+ * scraping queue
+ */
+export async function testQueue() {
+  console.log("=== Testing Scraping Queue ===\n");
+
+  const { server, baseUrl, requests } = await startFixtureServer();
+  const jobIds: string[] = [];
+  // Only the queue's own retries should hold back requests to the fixture
+  const rateLimits = getRateLimitDefaults();
+  configureRateLimiter({ requestsPerSecond: 1000, burst: 1000 });
+  scrapingQueue.startWorkers({
+    concurrency: 1,
+    pollInterval: 50,
+    retryDelay: 20,
+  });
+
+  try {
+    console.log("--- Priority order ---");
+    // Keep the only worker busy while the other jobs are queued
+    jobIds.push(await scrapingQueue.addJob(createConfig(`${baseUrl}/slow`)));
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    for (const priority of ["low", "medium", "high"] as const) {
+      jobIds.push(
+        await scrapingQueue.addJob(
+          createConfig(`${baseUrl}/${priority}`, { priority }),
+        ),
+      );
+    }
+
+    const ordered = await waitForJobs(jobIds);
+    const pages = requests.filter((path) => path !== "/slow");
+    assert(
+      JSON.stringify(pages) === JSON.stringify(["/high", "/medium", "/low"]),
+      `jobs should run by priority, got ${pages}`,
+    );
+    assert(
+      ordered.every(
+        (job) => job.progress === 100 && job.resultIds.length === 1,
+      ),
+      "completed jobs should report progress and their result",
+    );
+
+    console.log("--- Multiple URLs and batches ---");
+    const batchJobId = await scrapingQueue.addJob(
+      createConfig(`${baseUrl}/first`, {
+        mode: "multiple",
+        urls: [`${baseUrl}/first`, `${baseUrl}/second`],
+        batchId: "batch_test",
+      }),
+    );
+    jobIds.push(batchJobId);
+    const [batchJob] = await waitForJobs([batchJobId]);
+    assert(
+      batchJob.status === "completed" && batchJob.resultIds.length === 2,
+      "every URL of a job should produce a result",
+    );
+    assert(batchJob.batchId === "batch_test", "the batch should be kept");
+
+    console.log("--- Retries with backoff ---");
+    const flakyJobId = await scrapingQueue.addJob(
+      createConfig(`${baseUrl}/flaky`, { maxRetries: 2 }),
+    );
+    const missingJobId = await scrapingQueue.addJob(
+      createConfig(`${baseUrl}/missing`),
+    );
+    jobIds.push(flakyJobId, missingJobId);
+    const [flaky, missing] = await waitForJobs([flakyJobId, missingJobId]);
+    assert(
+      flaky.status === "failed" && flaky.retryCount === 3,
+      `a failing job should be retried maxRetries times, got ${flaky.retryCount}`,
+    );
+    assert(
+      (flaky.error || "").includes("503"),
+      "the last error should be kept",
+    );
+    assert(
+      missing.status === "failed" && missing.retryCount === 1,
+      "a 404 should not be retried",
+    );
+
+    console.log("--- Cancelling a running job ---");
+    const hangingJobId = await scrapingQueue.addJob(
+      createConfig(`${baseUrl}/hang`),
+    );
+    jobIds.push(hangingJobId);
+    await waitForStatus(hangingJobId, "processing");
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    const cancelStarted = Date.now();
+    await scrapingQueue.cancelJob(hangingJobId);
+    const hanging = await waitForStatus(hangingJobId, "cancelled");
+    assert(
+      Date.now() - cancelStarted < 2000,
+      "cancelling should abort the in-flight request",
+    );
+    assert(
+      hanging.resultIds.length === 0,
+      "a cancelled scrape should not save a result",
+    );
+
+    console.log("--- Pause, reprioritize and batch operations ---");
+    scrapingQueue.pauseQueue();
+    const batch = "batch_control";
+    const lowJobId = await scrapingQueue.addJob(
+      createConfig(`${baseUrl}/batch-low`, { batchId: batch, priority: "low" }),
+    );
+    const otherJobId = await scrapingQueue.addJob(
+      createConfig(`${baseUrl}/batch-other`, { batchId: batch }),
+    );
+    jobIds.push(lowJobId, otherJobId);
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    assert(
+      (await scrapingQueue.getJob(lowJobId))?.status === "pending",
+      "a paused queue should not start jobs",
+    );
+    assert(
+      scrapingQueue.getQueueState().paused,
+      "the queue state should report the pause",
+    );
+
+    await scrapingQueue.setJobPriority(lowJobId, "high");
+    const cancelled = await scrapingQueue.applyBatchAction(batch, "cancel");
+    assert(
+      cancelled.updated.length === 2,
+      "every pending job of the batch should be cancelled",
+    );
+    const retriedBatch = await scrapingQueue.applyBatchAction(batch, "retry");
+    assert(
+      retriedBatch.updated.length === 2,
+      "cancelled jobs should be retried",
+    );
+
+    let conflict = "";
+    try {
+      await scrapingQueue.cancelJob(jobIds[0]);
+    } catch (error: any) {
+      conflict = `${error.status}`;
+    }
+    assert(conflict === "409", "finished jobs cannot be cancelled");
+
+    requests.length = 0;
+    scrapingQueue.resumeQueue();
+    await waitForJobs([lowJobId, otherJobId]);
+    assert(
+      JSON.stringify(requests) ===
+        JSON.stringify(["/batch-low", "/batch-other"]),
+      `the reprioritized job should run first, got ${requests}`,
+    );
+
+    console.log("--- Retrying a failed job ---");
+    const retried = await scrapingQueue.retryJob(missingJobId);
+    assert(
+      retried?.status === "pending" && retried.retryCount === 0,
+      "a retried job should be pending with its retry count reset",
+    );
+    const [missingAgain] = await waitForJobs([missingJobId]);
+    assert(missingAgain.status === "failed", "the retried job should run");
+
+    console.log("--- Webhook secrets ---");
+    // Keep the job pending so it can still be reprioritized
+    scrapingQueue.pauseQueue();
+    const secretJobId = await scrapingQueue.addJob(
+      createConfig(`${baseUrl}/secret`, {
+        priority: "low",
+        notifications: {
+          enabled: true,
+          rules: [],
+          webhooks: [
+            {
+              id: "hook",
+              url: `${baseUrl}/hook`,
+              secret: "queue-hook-secret",
+              enabled: true,
+            },
+          ],
+        },
+      }),
+    );
+    jobIds.push(secretJobId);
+    const responses = await Promise.all([
+      getQueue(new NextRequest(`${baseUrl}/api/scraping/queue`)),
+      getQueue(
+        new NextRequest(`${baseUrl}/api/scraping/queue?id=${secretJobId}`),
+      ),
+      patchQueue(
+        new NextRequest(`${baseUrl}/api/scraping/queue`, {
+          method: "PATCH",
+          body: JSON.stringify({
+            action: "reprioritize",
+            id: secretJobId,
+            priority: "high",
+          }),
+        }),
+      ),
+    ]);
+    const bodies = await Promise.all(
+      responses.map((response) => response.text()),
+    );
+    assert(
+      bodies.every((body) => body.includes(secretJobId)) &&
+        !bodies.some((body) => body.includes("queue-hook-secret")),
+      "the queue API should not return webhook secrets",
+    );
+    scrapingQueue.resumeQueue();
+
+    console.log("--- Persistence ---");
+    const stored = await scrapingQueue.getAllJobs();
+    assert(
+      jobIds.every((id) => stored.some((job) => job.id === id)),
+      "jobs should be read back from storage",
+    );
+  } finally {
+    scrapingQueue.stopWorkers();
+    configureRateLimiter(rateLimits);
+    server.close();
+
+    for (const id of jobIds) {
+      const job = await scrapingQueue.getJob(id);
+      for (const resultId of job?.resultIds || []) {
+        await deleteScrapingResult(resultId);
+      }
+      await scrapingQueue.removeJob(id);
+    }
+  }
+
+  console.log("\n=== All queue tests completed successfully ===\n");
+}
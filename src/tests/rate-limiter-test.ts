@@ -0,0 +1,268 @@
+/**
+ * Test script for the shared rate limiter
+ * Checks token bucket pacing, the concurrency cap, spacing shared between
+ * configurations, backoff on 429 responses and per-domain limits
+ */
+
+import http from "http";
+import { AddressInfo } from "net";
+import {
+  acquireRequestSlot,
+  configureRateLimiter,
+  getRateLimitDefaults,
+  getRateLimiterState,
+  removeDomainRateLimit,
+  resetRateLimiter,
+  setDomainRateLimit,
+  validateDomainRateLimit,
+} from "@/lib/scraping/rateLimiter";
+import { renderPage } from "@/lib/scraping/renderer";
+import { getDomainRateLimits } from "@/lib/scraping/storage";
+
+const PAGE = "<html><body><h1>Licensing</h1></body></html>";
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+function getHostState(host: string) {
+  const state = getRateLimiterState().find((state) => state.host === host);
+  assert(!!state, `the limiter should know ${host}`);
+  return state!;
+}
+
+/**
+ * Start a site that records when each request arrived and answers /busy
+ * with 429 and Retry-After: 1
+ */
+async function startSite(): Promise<{
+  server: http.Server;
+  url: string;
+  requests: { path: string; at: number }[];
+}> {
+  const requests: { path: string; at: number }[] = [];
+  const server = http.createServer((req, res) => {
+    requests.push({ path: req.url || "/", at: Date.now() });
+    if (req.url === "/busy") {
+      res.writeHead(429, { "Retry-After": "1" });
+      res.end("Too many requests");
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "text/html" });
+    res.end(PAGE);
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, url: `http://127.0.0.1:${port}`, requests };
+}
+
+/**
+ * Test the rate limiter directly and through renderPage
+ */
+export async function testRateLimiter() {
+  console.log("=== Testing Rate Limiter ===\n");
+
+  const initialDefaults = getRateLimitDefaults();
+  const { server, url: siteUrl, requests } = await startSite();
+
+  try {
+    console.log("--- Validation ---");
+    const errors = validateDomainRateLimit({
+      domain: "https://example.com/",
+      requestsPerSecond: 0,
+      burst: 1.5,
+    });
+    assert(
+      errors.includes("domain must be a hostname such as example.com") &&
+        errors.includes("requestsPerSecond must be a positive number") &&
+        errors.includes("burst must be a positive integer"),
+      `invalid limits should be reported, got ${JSON.stringify(errors)}`,
+    );
+    assert(
+      validateDomainRateLimit({ domain: "example.com" }).length === 1,
+      "limits without any value should be rejected",
+    );
+    assert(
+      validateDomainRateLimit({ domain: "example.com", maxConcurrency: 2 })
+        .length === 0,
+      "valid limits should pass",
+    );
+
+    console.log("--- Token bucket ---");
+    resetRateLimiter();
+    configureRateLimiter({
+      requestsPerSecond: 10,
+      burst: 2,
+      maxConcurrency: 10,
+    });
+    const bucketStart = Date.now();
+    const starts: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      const release = await acquireRequestSlot("https://bucket.test/page");
+      starts.push(Date.now() - bucketStart);
+      release(200);
+    }
+    assert(
+      starts[1] < 50 && starts[2] >= 80 && starts[3] >= 180,
+      `the burst should start at once and later requests at 10/s, got ${starts.join(", ")}`,
+    );
+
+    console.log("--- Concurrency cap ---");
+    configureRateLimiter({
+      requestsPerSecond: 100,
+      burst: 10,
+      maxConcurrency: 2,
+    });
+    const first = await acquireRequestSlot("https://busy.test/a");
+    const second = await acquireRequestSlot("https://busy.test/b");
+    let thirdStarted = false;
+    const third = acquireRequestSlot("https://busy.test/c").then((release) => {
+      thirdStarted = true;
+      return release;
+    });
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    const busy = getHostState("busy.test");
+    assert(
+      !thirdStarted && busy.active === 2 && busy.waiting === 1,
+      `a third request should wait for a free slot, got ${JSON.stringify(busy)}`,
+    );
+    first(200);
+    (await third)(200);
+    assert(thirdStarted, "releasing a slot should start the waiting request");
+
+    const fourth = await acquireRequestSlot("https://busy.test/d");
+    const controller = new AbortController();
+    const aborted = acquireRequestSlot(
+      "https://busy.test/e",
+      0,
+      controller.signal,
+    );
+    controller.abort();
+    let abortError = "";
+    await aborted.catch((error) => {
+      abortError = error.message;
+    });
+    second(200);
+    fourth(200);
+    assert(
+      abortError === "Request aborted" &&
+        getHostState("busy.test").waiting === 0,
+      "aborting should stop waiting for a slot",
+    );
+
+    console.log("--- Spacing shared between configurations ---");
+    resetRateLimiter();
+    configureRateLimiter({
+      requestsPerSecond: 100,
+      burst: 10,
+      maxConcurrency: 4,
+    });
+    requests.length = 0;
+    const [one, two] = await Promise.all([
+      renderPage(`${siteUrl}/one`, { rateLimitDelay: 300 }),
+      renderPage(`${siteUrl}/two`, { rateLimitDelay: 300 }),
+    ]);
+    assert(
+      one.status === 200 && two.status === 200,
+      "both pages should be fetched",
+    );
+    assert(
+      requests.length === 2 && requests[1].at - requests[0].at >= 280,
+      `requests of different configurations should share rateLimitDelay, got ${
+        requests.length === 2
+          ? requests[1].at - requests[0].at
+          : requests.length
+      }`,
+    );
+
+    console.log("--- Backoff on 429 ---");
+    requests.length = 0;
+    const [busyPage, other] = await Promise.all([
+      renderPage(`${siteUrl}/busy`, { rateLimitDelay: 0, retryDelay: 10 }),
+      // Another configuration asking for the same host during the backoff
+      new Promise((resolve) => setTimeout(resolve, 100)).then(() =>
+        renderPage(`${siteUrl}/other`, { rateLimitDelay: 0 }),
+      ),
+    ]);
+    const busyAt = requests
+      .filter((request) => request.path === "/busy")
+      .map((request) => request.at);
+    assert(
+      busyPage.status === 429 && busyAt.length === 3,
+      `the busy page should be tried three times, got ${busyAt.length}`,
+    );
+    assert(
+      busyAt[1] - busyAt[0] >= 950 && busyAt[2] - busyAt[1] >= 950,
+      `each 429 should go through the limiter's backoff, got ${busyAt.join(", ")}`,
+    );
+    const otherAt = requests.find((request) => request.path === "/other")!.at;
+    assert(
+      other.status === 200 && otherAt - busyAt[0] >= 950,
+      `other configurations should wait for Retry-After too, got ${otherAt - busyAt[0]}ms`,
+    );
+    const backingOff = getHostState("127.0.0.1");
+    assert(
+      !!backingOff.backoffUntil &&
+        backingOff.slowdown > 1 &&
+        backingOff.lastStatus === 429,
+      `a 429 should slow the host down, got ${JSON.stringify(backingOff)}`,
+    );
+
+    const retried = await renderPage(`${siteUrl}/after`, { rateLimitDelay: 0 });
+    const pause = requests[requests.length - 1].at - busyAt[2];
+    assert(
+      retried.status === 200 && pause >= 950,
+      `the next request should wait for Retry-After, got ${pause}ms`,
+    );
+    assert(
+      getHostState("127.0.0.1").slowdown < backingOff.slowdown,
+      "successful responses should ease the slowdown",
+    );
+
+    console.log("--- Domain limits ---");
+    const saved = await setDomainRateLimit({
+      domain: "Limited.test",
+      maxConcurrency: 1,
+    });
+    assert(
+      saved.domain === "limited.test" && !!saved.updatedAt,
+      "domain limits should be saved",
+    );
+    assert(
+      (await getDomainRateLimits()).some(
+        (limit) => limit.domain === "limited.test",
+      ),
+      "domain limits should be stored",
+    );
+
+    const release = await acquireRequestSlot("https://www.limited.test/");
+    const limited = getHostState("www.limited.test");
+    assert(
+      limited.domain === "limited.test" &&
+        limited.maxConcurrency === 1 &&
+        limited.burst === 10,
+      `subdomains should use the domain limits, got ${JSON.stringify(limited)}`,
+    );
+    release(200);
+
+    assert(
+      await removeDomainRateLimit("limited.test"),
+      "domain limits should be removed",
+    );
+    const unlimited = getHostState("www.limited.test");
+    assert(
+      !unlimited.domain && unlimited.maxConcurrency === 4,
+      "removed domain limits should fall back to the defaults",
+    );
+  } finally {
+    await removeDomainRateLimit("limited.test");
+    configureRateLimiter(initialDefaults);
+    resetRateLimiter();
+    server.close();
+  }
+
+  console.log("\n=== All rate limiter tests completed successfully ===\n");
+}
@@ -0,0 +1,211 @@
+/**
+ * Test script for the page renderers
+ * Serves a page that builds its content with JavaScript and checks what
+ * each renderer reads from it. The chromium checks run when CHROMIUM_PATH
+ * points to a Chromium binary
+ */
+
+import http from "http";
+import { AddressInfo } from "net";
+import {
+  closeBrowsers,
+  configureChromium,
+  renderPage,
+} from "@/lib/scraping/renderer";
+
+const APP_PAGE = `<html><body>
+  <div id="app">Loading...</div>
+  <img src="/logo.png">
+  <script>
+    setTimeout(function () {
+      document.getElementById("app").innerHTML =
+        '<h2 class="fees">Permit fees</h2><p>Standard permit: $120</p>';
+    }, 200);
+  </script>
+</body></html>`;
+
+const LAZY_PAGE = `<html><body>
+  <div style="height: 3000px">Top</div>
+  <ul id="list"></ul>
+  <script>
+    window.addEventListener("scroll", function () {
+      if (window.scrollY + window.innerHeight >= document.body.scrollHeight - 10 &&
+          !document.getElementById("lazy")) {
+        document.getElementById("list").innerHTML = '<li id="lazy">Lazy item</li>';
+      }
+    });
+  </script>
+</body></html>`;
+
+async function startFixtureServer(): Promise<{
+  server: http.Server;
+  baseUrl: string;
+  authorization: Record<string, string | undefined>;
+}> {
+  // Authorization header received for each path
+  const authorization: Record<string, string | undefined> = {};
+  const server = http.createServer((req, res) => {
+    authorization[req.url || "/"] = req.headers.authorization;
+    if (req.url?.startsWith("/private?")) {
+      // Loads a script of its own and one from another origin
+      const thirdParty = new URL(req.url, "http://localhost").searchParams.get(
+        "thirdParty",
+      );
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.end(`<html><body><h1>Account</h1>
+        <script src="/app.js"></script>
+        <script src="${thirdParty}/tracker.js"></script>
+      </body></html>`);
+      return;
+    }
+
+    switch (req.url) {
+      case "/app":
+        res.writeHead(200, { "Content-Type": "text/html" });
+        res.end(APP_PAGE);
+        break;
+      case "/lazy":
+        res.writeHead(200, { "Content-Type": "text/html" });
+        res.end(LAZY_PAGE);
+        break;
+      case "/logo.png":
+        res.writeHead(200, { "Content-Type": "image/png" });
+        res.end(Buffer.alloc(0));
+        break;
+      default:
+        res.writeHead(404);
+        res.end("Not Found");
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, baseUrl: `http://127.0.0.1:${port}`, authorization };
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+/**
+ * Test the static and chromium renderers
+ */
+export async function testRenderer() {
+  console.log("=== Testing Page Renderers ===\n");
+
+  const { server, baseUrl, authorization } = await startFixtureServer();
+  // A second origin standing in for CDNs and trackers
+  const thirdParty = await startFixtureServer();
+  const executablePath = process.env.CHROMIUM_PATH;
+
+  try {
+    console.log("--- Static renderer ---");
+    const serverHtml = await renderPage(`${baseUrl}/app`, {
+      handleDynamicContent: false,
+    });
+    assert(
+      serverHtml.html.includes("Loading...") &&
+        !serverHtml.text.includes("Permit fees") &&
+        serverHtml.rendering?.renderer === "static",
+      "the static renderer should return the HTML as served",
+    );
+
+    console.log("--- Fallback ---");
+    await configureChromium({ executablePath: "" });
+    const fallback = await renderPage(`${baseUrl}/app`, {
+      handleDynamicContent: true,
+    });
+    assert(
+      fallback.rendering?.renderer === "static" &&
+        fallback.rendering.requestedRenderer === "chromium" &&
+        !!fallback.rendering.fallbackReason &&
+        !fallback.error,
+      "rendering without Chromium should fall back to static HTML",
+    );
+    const unknown = await renderPage(`${baseUrl}/app`, {
+      renderer: "webkit",
+    });
+    assert(
+      unknown.rendering?.fallbackReason === 'Unknown renderer "webkit"',
+      "unknown renderers should fall back to static HTML",
+    );
+
+    if (!executablePath) {
+      console.log("CHROMIUM_PATH is not set, skipping the chromium renderer");
+    } else {
+      await configureChromium({ executablePath });
+
+      console.log("--- Chromium renderer ---");
+      const rendered = await renderPage(`${baseUrl}/app`, {
+        handleDynamicContent: true,
+        waitForSelector: ".fees",
+        blockResources: ["image", "font"],
+        timeout: 10000,
+      });
+      assert(
+        !rendered.error &&
+          rendered.text.includes("Standard permit: $120") &&
+          rendered.rendering?.renderer === "chromium" &&
+          rendered.rendering.selectorFound === true,
+        `JavaScript content should be rendered, got ${rendered.error || rendered.text}`,
+      );
+      assert(
+        rendered.rendering!.blockedRequests === 1,
+        `images should be blocked, got ${rendered.rendering!.blockedRequests}`,
+      );
+      assert(
+        rendered.rendering!.timings.total >=
+          rendered.rendering!.timings.navigation!,
+        "timings should be recorded",
+      );
+
+      console.log("--- Lazy loading ---");
+      const lazy = await renderPage(`${baseUrl}/lazy`, {
+        handleDynamicContent: true,
+        scrollToBottom: true,
+        timeout: 10000,
+      });
+      assert(
+        lazy.html.includes("Lazy item") && lazy.rendering!.scrolls! > 1,
+        "scrolling should load lazy content",
+      );
+
+      const missing = await renderPage(`${baseUrl}/missing`, {
+        handleDynamicContent: true,
+        timeout: 10000,
+      });
+      assert(
+        missing.status === 404 && missing.error === "HTTP 404 Not Found",
+        `HTTP errors should be reported, got ${missing.error}`,
+      );
+
+      console.log("--- Authorization header ---");
+      const privatePath = `/private?thirdParty=${encodeURIComponent(thirdParty.baseUrl)}`;
+      const authorized = await renderPage(`${baseUrl}${privatePath}`, {
+        handleDynamicContent: true,
+        waitForNetworkIdle: true,
+        headers: { Authorization: "Bearer page-token" },
+        timeout: 10000,
+      });
+      assert(
+        !authorized.error &&
+          authorization[privatePath] === "Bearer page-token" &&
+          authorization["/app.js"] === "Bearer page-token",
+        "requests to the page's origin should carry the Authorization header",
+      );
+      assert(
+        "/tracker.js" in thirdParty.authorization &&
+          thirdParty.authorization["/tracker.js"] === undefined,
+        "requests to other origins should not carry the Authorization header",
+      );
+    }
+  } finally {
+    await closeBrowsers();
+    server.close();
+    thirdParty.server.close();
+  }
+
+  console.log("\n=== All renderer tests completed successfully ===\n");
+}
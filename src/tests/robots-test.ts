@@ -0,0 +1,295 @@
+/**
+ * Test script for robots.txt compliance
+ * Parses sample robots.txt files and scrapes a local fixture site with
+ * respectRobotsTxt enabled
+ */
+
+import http from "http";
+import { AddressInfo } from "net";
+import {
+  checkRobotsTxt,
+  clearRobotsCache,
+  isPathAllowed,
+  parseRobotsTxt,
+} from "@/lib/scraping/robots";
+import {
+  getRateLimiterState,
+  resetRateLimiter,
+} from "@/lib/scraping/rateLimiter";
+import { scrapeWebsite } from "@/lib/scraping/scraper";
+import { ScrapingConfig } from "@/types/scraping";
+
+const SAMPLE_ROBOTS_TXT = `
+# Sample robots.txt
+User-agent: *
+Disallow: /private
+Allow: /private/press
+Disallow: /*.pdf$
+Disallow: /search?*q=
+
+User-agent: ScrapingBot
+User-agent: OtherBot
+Disallow: /bots-only
+Crawl-delay: 2
+
+Sitemap: https://example.com/sitemap.xml
+`;
+
+// robots.txt served by the fixture site
+const FIXTURE_ROBOTS_TXT = `
+User-agent: *
+Disallow: /private
+Crawl-delay: 0.2
+`;
+
+/**
+ * Start a fixture site whose robots.txt blocks /private and sets a
+ * Crawl-delay
+ * The request log records each request's headers
+ * @returns The server, its base URL and the request log
+ */
+async function startFixtureServer(): Promise<{
+  server: http.Server;
+  baseUrl: string;
+  requests: { path: string; time: number; headers: http.IncomingHttpHeaders }[];
+}> {
+  const requests: {
+    path: string;
+    time: number;
+    headers: http.IncomingHttpHeaders;
+  }[] = [];
+
+  const server = http.createServer((req, res) => {
+    const path = req.url || "/";
+    requests.push({ path, time: Date.now(), headers: req.headers });
+
+    if (path === "/robots.txt") {
+      res.writeHead(200, { "Content-Type": "text/plain" });
+      res.end(FIXTURE_ROBOTS_TXT);
+      return;
+    }
+
+    res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+    res.end(`<html><body>
+      <h2>Fee for ${path}</h2>
+      <p>Processing fee: $25</p>
+      <a href="/public">Public</a>
+      <a href="/private/report">Private</a>
+      <a href="/other">Other</a>
+      <a rel="next" href="/private/page-2">Next</a>
+    </body></html>`);
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, baseUrl: `http://127.0.0.1:${port}`, requests };
+}
+
+/**
+ * Start a server that answers robots.txt with the given status
+ */
+async function startStatusServer(status: number): Promise<{
+  server: http.Server;
+  baseUrl: string;
+}> {
+  const server = http.createServer((req, res) => {
+    if (req.url === "/robots.txt") {
+      res.writeHead(status);
+      res.end();
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "text/html" });
+    res.end("<p>Application fee: $10</p>");
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, baseUrl: `http://127.0.0.1:${port}` };
+}
+
+function createConfig(
+  url: string,
+  options: Partial<ScrapingConfig["options"]> = {},
+): ScrapingConfig {
+  return {
+    url,
+    mode: "single",
+    selector: "",
+    selectorType: "auto",
+    scrapingMode: "basic",
+    categories: ["fees"],
+    options: {
+      handleDynamicContent: false,
+      followPagination: false,
+      extractImages: false,
+      deduplicateResults: false,
+      maxPages: 1,
+      skipHeadersFooters: false,
+      skipImagesMedia: false,
+      stealthMode: false,
+      respectRobotsTxt: true,
+      rateLimitDelay: 0,
+      timeout: 2000,
+      retryDelay: 10,
+      ...options,
+    },
+    outputFormat: "json",
+  };
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+/**
+ * Test robots.txt parsing, matching and enforcement
+ */
+export async function testRobots() {
+  console.log("=== Testing robots.txt Compliance ===\n");
+
+  console.log("--- Parsing and matching ---");
+  const robots = parseRobotsTxt(SAMPLE_ROBOTS_TXT);
+  assert(robots.groups.length === 2, "two groups should be parsed");
+  assert(
+    robots.sitemaps[0] === "https://example.com/sitemap.xml",
+    "sitemaps should be collected",
+  );
+
+  const browser = "Mozilla/5.0 (Windows NT 10.0)";
+  assert(
+    !isPathAllowed(robots, browser, "/private/data").allowed,
+    "Disallow should block matching paths",
+  );
+  assert(
+    isPathAllowed(robots, browser, "/private/press/2024").allowed,
+    "the longer Allow rule should win",
+  );
+  assert(
+    !isPathAllowed(robots, browser, "/files/report.pdf").allowed &&
+      isPathAllowed(robots, browser, "/files/report.pdf?v=2").allowed,
+    "* and $ should be supported",
+  );
+  assert(
+    !isPathAllowed(robots, browser, "/search?lang=en&q=fees").allowed,
+    "query strings should be matched",
+  );
+
+  const bot = "Mozilla/5.0 (compatible; ScrapingBot/1.0)";
+  assert(
+    !isPathAllowed(robots, bot, "/bots-only").allowed,
+    "the bot's own group should apply",
+  );
+  assert(
+    isPathAllowed(robots, bot, "/private/data").allowed,
+    "a specific group should replace the * group",
+  );
+
+  const { server, baseUrl, requests } = await startFixtureServer();
+  const down = await startStatusServer(503);
+  const missing = await startStatusServer(404);
+  clearRobotsCache();
+
+  try {
+    console.log("--- Blocked root URL ---");
+    const blocked = await scrapeWebsite(createConfig(`${baseUrl}/private/x`));
+    assert(blocked.status === "failed", "a disallowed URL should fail");
+    assert(
+      blocked.metadata?.errors?.[0]?.code === "ROBOTS_DISALLOWED",
+      "a ROBOTS_DISALLOWED error should be reported",
+    );
+    assert(
+      !requests.some((request) => request.path === "/private/x"),
+      "a disallowed URL should never be fetched",
+    );
+
+    console.log("--- Link crawling and pagination ---");
+    requests.length = 0;
+    const crawled = await scrapeWebsite(
+      createConfig(`${baseUrl}/`, {
+        followLinks: true,
+        maxLinkDepth: 1,
+        followPagination: true,
+        maxPages: 3,
+      }),
+    );
+    const paths = requests.map((request) => request.path);
+    assert(
+      paths.includes("/public") && paths.includes("/other"),
+      "allowed links should be crawled",
+    );
+    assert(
+      !paths.some((path) => path.startsWith("/private")),
+      "disallowed links and pages should not be fetched",
+    );
+    const blockedUrls = (crawled.metadata?.errors || [])
+      .filter((error) => error.code === "ROBOTS_DISALLOWED")
+      .map((error) => new URL(error.details.url).pathname);
+    assert(
+      blockedUrls.includes("/private/report") &&
+        blockedUrls.includes("/private/page-2"),
+      "skipped links and pages should be reported",
+    );
+    assert(crawled.status === "success", "skipped pages should not fail");
+
+    console.log("--- Crawl-delay ---");
+    const pageRequests = requests.filter(
+      (request) => request.path !== "/robots.txt",
+    );
+    for (let i = 1; i < pageRequests.length; i++) {
+      const gap = pageRequests[i].time - pageRequests[i - 1].time;
+      assert(gap >= 180, `Crawl-delay should space requests, got ${gap}ms`);
+    }
+    const check = await checkRobotsTxt(`${baseUrl}/public`);
+    assert(check.crawlDelay === 200, "Crawl-delay should be in milliseconds");
+
+    console.log("--- Fetching robots.txt ---");
+    clearRobotsCache();
+    resetRateLimiter();
+    requests.length = 0;
+    await checkRobotsTxt(`${baseUrl}/public`, {
+      headers: { Authorization: "Bearer secret", "X-Test": "yes" },
+      cookies: { session: "abc" },
+    });
+    const robotsRequest = requests.find(
+      (request) => request.path === "/robots.txt",
+    );
+    assert(
+      !!robotsRequest &&
+        !robotsRequest.headers["authorization"] &&
+        !robotsRequest.headers["cookie"] &&
+        robotsRequest.headers["x-test"] === "yes",
+      "robots.txt should be fetched without credentials",
+    );
+    assert(
+      getRateLimiterState().some((state) => state.host === "127.0.0.1"),
+      "robots.txt should be fetched through the rate limiter",
+    );
+
+    console.log("--- Unavailable robots.txt ---");
+    const unavailable = await scrapeWebsite(createConfig(`${down.baseUrl}/`));
+    assert(
+      unavailable.metadata?.errors?.[0]?.code === "ROBOTS_DISALLOWED",
+      "a 5xx robots.txt should block the site",
+    );
+    const noRobots = await scrapeWebsite(createConfig(`${missing.baseUrl}/`));
+    assert(noRobots.status === "success", "a missing robots.txt allows all");
+
+    console.log("--- Disabled ---");
+    const ignored = await scrapeWebsite(
+      createConfig(`${baseUrl}/private/x`, { respectRobotsTxt: false }),
+    );
+    assert(
+      ignored.status === "success",
+      "robots.txt is only enforced when enabled",
+    );
+  } finally {
+    server.close();
+    down.server.close();
+    missing.server.close();
+    clearRobotsCache();
+  }
+
+  console.log("\n=== All robots.txt tests completed successfully ===\n");
+}
@@ -0,0 +1,310 @@
+/**
+ * Test script for the scrape scheduler
+ * Checks next-run computation in different timezones and enqueues due
+ * configurations against a local fixture server
+ */
+
+import http from "http";
+import { AddressInfo } from "net";
+import { computeNextRun, getRunsBetween } from "@/lib/scraping/schedule";
+import scheduler, { checkScheduledScrapes } from "@/lib/scraping/scheduler";
+import scrapingQueue from "@/lib/scraping/queue";
+import {
+  deleteScrapingConfig,
+  deleteScrapingResult,
+  getScrapingConfigById,
+  saveScrapingConfig,
+} from "@/lib/scraping/storage";
+import { ScrapingConfig } from "@/types/scraping";
+
+type Schedule = NonNullable<ScrapingConfig["schedule"]>;
+
+/**
+ * Start a fixture server with a page that always matches the fees category
+ */
+async function startFixtureServer(): Promise<{
+  server: http.Server;
+  baseUrl: string;
+}> {
+  const server = http.createServer((req, res) => {
+    res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+    res.end("<html><body><p>Processing fee: $25</p></body></html>");
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, baseUrl: `http://127.0.0.1:${port}` };
+}
+
+function createConfig(
+  id: string,
+  url: string,
+  schedule: Schedule,
+): ScrapingConfig {
+  return {
+    id,
+    name: `Scheduler test ${id}`,
+    url,
+    mode: "scheduled",
+    selector: "",
+    selectorType: "auto",
+    scrapingMode: "basic",
+    categories: ["fees"],
+    options: {
+      handleDynamicContent: false,
+      followPagination: false,
+      extractImages: false,
+      deduplicateResults: false,
+      maxPages: 1,
+      skipHeadersFooters: false,
+      skipImagesMedia: false,
+      stealthMode: false,
+      respectRobotsTxt: false,
+      rateLimitDelay: 0,
+      timeout: 2000,
+      retryDelay: 10,
+    },
+    outputFormat: "json",
+    schedule,
+  };
+}
+
+function iso(date: Date | null): string | null {
+  return date ? date.toISOString() : null;
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+/**
+ * Test next-run computation and the enqueueing of due configurations
+ */
+export async function testScheduler() {
+  console.log("=== Testing Scrape Scheduler ===\n");
+
+  console.log("--- Next run computation ---");
+  const daily: Schedule = { frequency: "daily", time: "09:30" };
+  assert(
+    iso(computeNextRun(daily, new Date("2024-03-05T08:00:00Z"))) ===
+      "2024-03-05T09:30:00.000Z",
+    "a daily run later today should be found",
+  );
+  assert(
+    iso(computeNextRun(daily, new Date("2024-03-05T09:30:00Z"))) ===
+      "2024-03-06T09:30:00.000Z",
+    "the next run should be strictly after the given time",
+  );
+
+  const newYork: Schedule = { ...daily, timezone: "America/New_York" };
+  assert(
+    iso(computeNextRun(newYork, new Date("2024-03-09T15:00:00Z"))) ===
+      "2024-03-10T13:30:00.000Z",
+    "the DST change should move the UTC time of the run",
+  );
+  assert(
+    iso(computeNextRun(newYork, new Date("2024-03-08T12:00:00Z"))) ===
+      "2024-03-08T14:30:00.000Z",
+    "runs before the DST change should use standard time",
+  );
+
+  const weekly: Schedule = {
+    frequency: "weekly",
+    time: "00:15",
+    daysOfWeek: [1, 4],
+    timezone: "Asia/Tokyo",
+  };
+  assert(
+    iso(computeNextRun(weekly, new Date("2024-03-05T00:00:00Z"))) ===
+      "2024-03-06T15:15:00.000Z",
+    "weekly runs should use the weekday in the schedule's timezone",
+  );
+
+  const monthly: Schedule = {
+    frequency: "monthly",
+    time: "12:00",
+    startDate: "2024-01-31",
+  };
+  assert(
+    iso(computeNextRun(monthly, new Date("2024-02-01T00:00:00Z"))) ===
+      "2024-02-29T12:00:00.000Z",
+    "monthly runs should move to the last day of shorter months",
+  );
+
+  const ending: Schedule = { ...daily, endDate: "2024-03-05" };
+  assert(
+    computeNextRun(ending, new Date("2024-03-05T10:00:00Z")) === null,
+    "a schedule past its end date should have no next run",
+  );
+  assert(
+    getRunsBetween(
+      daily,
+      new Date("2024-03-01T09:30:00Z"),
+      new Date("2024-03-04T12:00:00Z"),
+      10,
+    ).length === 4,
+    "runs between two times should include both ends",
+  );
+
+  let invalid = "";
+  try {
+    computeNextRun({ ...daily, timezone: "Mars/Olympus" }, new Date());
+  } catch (error: any) {
+    invalid = error.message;
+  }
+  assert(invalid.includes("timezone"), "invalid timezones should be rejected");
+
+  console.log("--- Enqueueing due configurations ---");
+  const { server, baseUrl } = await startFixtureServer();
+  const now = new Date();
+  const threeDaysAgo = new Date(now.getTime() - 3 * 24 * 60 * 60 * 1000);
+  const time = `${String(now.getUTCHours()).padStart(2, "0")}:${String(now.getUTCMinutes()).padStart(2, "0")}`;
+  const missed: Schedule = {
+    frequency: "daily",
+    time,
+    timezone: "UTC",
+    nextRun: computeNextRun(
+      { frequency: "daily", time },
+      new Date(threeDaysAgo.getTime() - 60000),
+    )!.toISOString(),
+  };
+
+  const configIds = ["sched_test_all", "sched_test_skip", "sched_test_new"];
+  const jobIds: string[] = [];
+
+  try {
+    await saveScrapingConfig(
+      createConfig(configIds[0], `${baseUrl}/all`, {
+        ...missed,
+        missedRunPolicy: "run-all",
+      }),
+    );
+    await saveScrapingConfig(
+      createConfig(configIds[1], `${baseUrl}/skip`, {
+        ...missed,
+        missedRunPolicy: "skip",
+      }),
+    );
+    await saveScrapingConfig(
+      createConfig(configIds[2], `${baseUrl}/new`, {
+        frequency: "daily",
+        time,
+      }),
+    );
+
+    // Hold the runs in the queue until the pending checks are done
+    scrapingQueue.pauseQueue();
+    const summary = await checkScheduledScrapes(now);
+    assert(summary.errors.length === 0, `no errors, got ${summary.errors}`);
+
+    const all = await getScrapingConfigById(configIds[0]);
+    const skip = await getScrapingConfigById(configIds[1]);
+    const fresh = await getScrapingConfigById(configIds[2]);
+    jobIds.push(
+      ...(all?.metadata?.pendingRunJobIds || []),
+      ...(skip?.metadata?.pendingRunJobIds || []),
+    );
+
+    assert(
+      all?.metadata?.runCount === 4,
+      `run-all should enqueue every missed run, got ${all?.metadata?.runCount}`,
+    );
+    assert(
+      !skip?.metadata?.runCount && summary.skipped >= 4,
+      "skip should drop missed runs",
+    );
+    assert(
+      !!all?.schedule?.nextRun &&
+        new Date(all.schedule.nextRun).getTime() > now.getTime(),
+      "nextRun should move into the future",
+    );
+    assert(
+      !!fresh?.schedule?.nextRun && !fresh.metadata?.runCount,
+      "a new schedule should only get a nextRun",
+    );
+
+    await checkScheduledScrapes(now);
+    const unchanged = await getScrapingConfigById(configIds[0]);
+    assert(
+      unchanged?.updatedAt === all?.updatedAt &&
+        !unchanged?.metadata?.lastFinishedAt,
+      "runs still in the queue should not rewrite the configuration",
+    );
+    scrapingQueue.resumeQueue();
+
+    console.log("--- Recording finished runs ---");
+    const deadline = Date.now() + 20000;
+    while (Date.now() < deadline) {
+      const jobs = await Promise.all(
+        jobIds.map((id) => scrapingQueue.getJob(id)),
+      );
+      if (jobs.every((job) => job?.status === "completed")) break;
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+
+    await checkScheduledScrapes(now);
+    const recorded = await getScrapingConfigById(configIds[0]);
+    assert(
+      recorded?.metadata?.successCount === 4,
+      `finished runs should be counted, got ${recorded?.metadata?.successCount}`,
+    );
+    assert(
+      recorded?.metadata?.pendingRunJobIds?.length === 0,
+      "counted runs should no longer be tracked",
+    );
+    assert(
+      !!recorded?.schedule?.lastRun,
+      "lastRun should be set when runs succeed",
+    );
+    assert(
+      !!recorded?.metadata?.lastFinishedAt &&
+        recorded.metadata.lastFinishedAt >= recorded.schedule!.lastRun!,
+      "lastFinishedAt should be set when runs finish",
+    );
+
+    console.log("--- Status and run history ---");
+    scheduler.startScrapeScheduler({ interval: 60000 });
+    const historyDeadline = Date.now() + 10000;
+    while (
+      scheduler.getSchedulerStatus().history.length === 0 &&
+      Date.now() < historyDeadline
+    ) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+
+    const status = scheduler.getSchedulerStatus();
+    const [run] = status.history;
+    assert(
+      status.scrape.running && !status.sync.running,
+      "the status should report which schedulers are running",
+    );
+    assert(
+      run?.type === "scrape" && run.success && run.counts.checked >= 3,
+      "a scrape check should be recorded with its counts",
+    );
+    assert(
+      status.scrape.nextRunAt ===
+        new Date(new Date(run.startedAt).getTime() + 60000).toISOString(),
+      "the next check should follow the last one by the interval",
+    );
+  } finally {
+    scheduler.stopScrapeScheduler();
+    scrapingQueue.stopWorkers();
+    server.close();
+
+    for (const jobId of jobIds) {
+      const job = await scrapingQueue.getJob(jobId);
+      for (const resultId of job?.resultIds || []) {
+        await deleteScrapingResult(resultId);
+      }
+      await scrapingQueue.removeJob(jobId);
+    }
+    for (const configId of configIds) {
+      await deleteScrapingConfig(configId);
+    }
+  }
+
+  console.log("\n=== All scheduler tests completed successfully ===\n");
+}
@@ -0,0 +1,257 @@
+/**
+ * Test script for structured data harvesting
+ * Parses JSON-LD, microdata, RDFa, OpenGraph and Twitter cards from a
+ * fixture page and checks how schema.org types map onto categories
+ */
+
+import http from "http";
+import { AddressInfo } from "net";
+import { JSDOM } from "jsdom";
+import {
+  harvestStructuredData,
+  mapStructuredData,
+} from "@/lib/scraping/structuredData";
+import { scrapeWebsite } from "@/lib/scraping/scraper";
+import { ScrapingConfig } from "@/types/scraping";
+
+const JSON_LD = {
+  "@context": "https://schema.org",
+  "@graph": [
+    {
+      "@type": "LocalBusiness",
+      name: "Acme Permits",
+      telephone: "+1 555 0100",
+      email: "mailto:help@acme.test",
+      address: {
+        "@type": "PostalAddress",
+        streetAddress: "1 Main St",
+        addressLocality: "Springfield",
+        postalCode: "12345",
+        addressCountry: { "@type": "Country", name: "US" },
+      },
+      openingHoursSpecification: [
+        {
+          "@type": "OpeningHoursSpecification",
+          dayOfWeek: ["https://schema.org/Monday", "https://schema.org/Friday"],
+          opens: "09:00",
+          closes: "17:00",
+        },
+        {
+          "@type": "OpeningHoursSpecification",
+          dayOfWeek: "Saturday",
+          opens: "10:00",
+          closes: "12:00",
+        },
+      ],
+    },
+    {
+      "@type": "FAQPage",
+      mainEntity: [
+        {
+          "@type": "Question",
+          name: "How long does a permit take?",
+          acceptedAnswer: { "@type": "Answer", text: "About two weeks." },
+        },
+        {
+          "@type": "Question",
+          name: "How long does a permit take to renew?",
+          acceptedAnswer: { "@type": "Answer", text: "One week." },
+        },
+      ],
+    },
+  ],
+};
+
+const PAGE = `<html>
+  <head>
+    <title>Permits</title>
+    <meta property="og:title" content="Acme Permits">
+    <meta property="og:image" content="https://acme.test/a.png">
+    <meta property="og:image" content="https://acme.test/b.png">
+    <meta name="twitter:card" content="summary">
+    <script type="application/ld+json">${JSON.stringify(JSON_LD)}</script>
+    <script type="application/ld+json">{ not json</script>
+  </head>
+  <body>
+    <div itemscope itemtype="https://schema.org/Product">
+      <h2 itemprop="name">Permit kit</h2>
+      <p itemprop="description">Everything you need to apply.</p>
+      <div itemprop="offers" itemscope itemtype="https://schema.org/Offer">
+        <span itemprop="price" content="49.00">$49</span>
+        <meta itemprop="priceCurrency" content="USD">
+        <link itemprop="availability" href="https://schema.org/InStock">
+      </div>
+    </div>
+    <div vocab="https://schema.org/" typeof="Organization">
+      <span property="name">Acme Support</span>
+      <a property="url" href="https://acme.test/support">Support</a>
+      <div property="contactPoint" typeof="ContactPoint">
+        <span property="contactType">Customer service</span>
+        <span property="telephone">+1 555 0199</span>
+      </div>
+    </div>
+  </body>
+</html>`;
+
+async function startServer(): Promise<{
+  server: http.Server;
+  baseUrl: string;
+}> {
+  const server = http.createServer((req, res) => {
+    res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+    res.end(PAGE);
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, baseUrl: `http://127.0.0.1:${port}` };
+}
+
+function createConfig(
+  url: string,
+  options: Partial<ScrapingConfig["options"]> = {},
+): ScrapingConfig {
+  return {
+    url,
+    mode: "single",
+    selector: "",
+    selectorType: "auto",
+    scrapingMode: "basic",
+    categories: ["products", "fees", "faq", "contact", "locations", "hours"],
+    options: {
+      handleDynamicContent: false,
+      followPagination: false,
+      extractImages: false,
+      deduplicateResults: false,
+      maxPages: 1,
+      skipHeadersFooters: false,
+      skipImagesMedia: false,
+      stealthMode: false,
+      respectRobotsTxt: false,
+      rateLimitDelay: 0,
+      timeout: 2000,
+      ...options,
+    },
+    outputFormat: "json",
+  };
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+/**
+ * Test structured data harvesting and category mapping
+ */
+export async function testStructuredData() {
+  console.log("=== Testing Structured Data ===\n");
+
+  console.log("--- Harvesting ---");
+  const dom = new JSDOM(PAGE);
+  const data = harvestStructuredData(dom.window.document);
+  dom.window.close();
+
+  assert(
+    data.jsonLd.length === 1,
+    "valid JSON-LD blocks should be parsed and invalid ones skipped",
+  );
+  assert(
+    data.microdata.length === 1 &&
+      data.microdata[0]["@type"] === "https://schema.org/Product" &&
+      data.microdata[0].offers.price === "49.00" &&
+      data.microdata[0].offers.availability === "https://schema.org/InStock",
+    `microdata should nest items, got ${JSON.stringify(data.microdata)}`,
+  );
+  assert(
+    data.rdfa.length === 1 &&
+      data.rdfa[0]["@type"] === "https://schema.org/Organization" &&
+      data.rdfa[0].url === "https://acme.test/support" &&
+      data.rdfa[0].contactPoint.telephone === "+1 555 0199",
+    `RDFa should use the vocabulary, got ${JSON.stringify(data.rdfa)}`,
+  );
+  assert(
+    data.openGraph["og:title"] === "Acme Permits" &&
+      Array.isArray(data.openGraph["og:image"]) &&
+      data.twitter["twitter:card"] === "summary",
+    "OpenGraph and Twitter card properties should be collected",
+  );
+
+  console.log("--- Category mapping ---");
+  const categories = mapStructuredData(data);
+  assert(
+    categories.products?.items[0]?.title === "Permit kit" &&
+      categories.products.items[0].price === "49.00",
+    "Products should map to products with their price",
+  );
+  assert(
+    categories.fees?.items[0]?.title === "Permit kit" &&
+      categories.fees.items[0].description === "49.00 USD" &&
+      categories.fees.items[0].availability === "InStock",
+    "Offers should map to fees named after their product",
+  );
+  assert(
+    categories.faq?.items.length === 2 &&
+      categories.faq.items[0].description === "About two weeks.",
+    "FAQPage questions should map to faq",
+  );
+  assert(
+    categories.contact?.items.some(
+      (item) =>
+        item.title === "Acme Permits" && item.email === "help@acme.test",
+    ) &&
+      categories.contact.items.some(
+        (item) => item.title === "Customer service",
+      ),
+    "Organizations and contact points should map to contact",
+  );
+  assert(
+    categories.locations?.items[0]?.title === "Acme Permits" &&
+      categories.locations.items[0].description ===
+        "1 Main St, Springfield, 12345, US",
+    "PostalAddress should map to locations",
+  );
+  assert(
+    categories.hours?.items[0]?.title === "Monday, Friday" &&
+      categories.hours.items[0].description === "09:00 - 17:00",
+    "OpeningHoursSpecification should map to hours",
+  );
+
+  const { server, baseUrl } = await startServer();
+
+  try {
+    console.log("--- Scraping ---");
+    const result = await scrapeWebsite(createConfig(`${baseUrl}/`));
+    assert(
+      result.raw?.structured?.jsonLd?.length === 1,
+      "the raw graph should be stored on the result",
+    );
+    assert(
+      result.categories.faq.items.length === 2 &&
+        result.categories.faq.items.every(
+          (item) =>
+            item.confidence === 0.9 &&
+            item.metadata?.extractionMethod === "structured",
+        ),
+      "similar structured questions should all be kept with high confidence",
+    );
+    assert(
+      result.categories.hours.items.length === 2,
+      "every opening hours specification should become an item",
+    );
+
+    const skipped = await scrapeWebsite(
+      createConfig(`${baseUrl}/`, { extractMetadata: false }),
+    );
+    assert(
+      !skipped.raw?.structured &&
+        skipped.categories.faq.metadata?.extractionMethod === "content-based",
+      "extractMetadata: false should skip structured data",
+    );
+  } finally {
+    server.close();
+  }
+
+  console.log("\n=== All structured data tests completed successfully ===\n");
+}
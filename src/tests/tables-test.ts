@@ -0,0 +1,127 @@
+/**
+ * Test script for table extraction
+ * Parses fixture tables with spans, multi-row headers and typed columns,
+ * then checks the items and CSV they produce
+ */
+
+import { JSDOM } from "jsdom";
+import { parseTables, tableToCsv } from "@/lib/scraping/tables";
+import { categorizeContent } from "@/lib/scraping/categorization";
+
+const HTML = `
+  <h2>Permit fees</h2>
+  <table>
+    <thead>
+      <tr><th rowspan="2">Permit</th><th colspan="2">Fee</th><th rowspan="2">Valid from</th></tr>
+      <tr><th>Standard</th><th>Express</th></tr>
+    </thead>
+    <tbody>
+      <tr><td>Building</td><td>$1,200.00</td><td>$1,500</td><td>2024-01-15</td></tr>
+      <tr><td>Signage</td><td>$80</td><td>n/a</td><td>March 1, 2024</td></tr>
+      <tr><td colspan="4"></td></tr>
+    </tbody>
+  </table>
+  <table>
+    <tr><td>Office</td><td>Staff</td></tr>
+    <tr><td>North, "Main"</td><td>12</td></tr>
+    <tr><td>South</td><td>8</td></tr>
+  </table>
+  <table><tr><td>Layout only</td></tr></table>`;
+
+function parseFixture() {
+  const dom = new JSDOM(HTML);
+  try {
+    return parseTables([dom.window.document.body]);
+  } finally {
+    dom.window.close();
+  }
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+}
+
+/**
+ * Test table parsing, typed rows and CSV export
+ */
+export async function testTables() {
+  console.log("=== Testing Table Extraction ===\n");
+
+  console.log("--- Parsing ---");
+  const tables = parseFixture();
+  assert(tables.length === 2, "single-column layout tables should be skipped");
+
+  const [fees, offices] = tables;
+  assert(
+    JSON.stringify(fees.headers) ===
+      JSON.stringify([
+        "Permit",
+        "Fee / Standard",
+        "Fee / Express",
+        "Valid from",
+      ]),
+    `multi-row headers should be joined, got ${JSON.stringify(fees.headers)}`,
+  );
+  assert(
+    fees.caption === "Permit fees",
+    "the preceding heading is the caption",
+  );
+  assert(
+    JSON.stringify(fees.columnTypes) ===
+      JSON.stringify(["text", "currency", "currency", "date"]),
+    `column types should be inferred, got ${JSON.stringify(fees.columnTypes)}`,
+  );
+  assert(fees.rows.length === 2, "empty body rows should be dropped");
+  assert(
+    JSON.stringify(offices.headers) === JSON.stringify(["Office", "Staff"]) &&
+      offices.columnTypes[1] === "number" &&
+      offices.rows.length === 2,
+    "a text row over typed columns should be taken as the header",
+  );
+
+  console.log("--- Items ---");
+  const categories = await categorizeContent(
+    { url: "https://example.com/permits", html: HTML, text: "", tables },
+    ["fees", "team"],
+  );
+  const building = categories.fees.items.find(
+    (item) => item.title === "Building",
+  );
+  assert(
+    !!building && building.metadata?.extractionMethod === "table",
+    "fee table rows should become items",
+  );
+  assert(
+    building!.metadata!.columns["Fee / Standard"].amount === 1200 &&
+      building!.metadata!.columns["Fee / Standard"].currency === "USD" &&
+      building!.metadata!.columns["Valid from"] === "2024-01-15",
+    `cells should be typed, got ${JSON.stringify(building!.metadata!.columns)}`,
+  );
+  const signage = categories.fees.items.find(
+    (item) => item.title === "Signage",
+  );
+  assert(
+    signage?.metadata?.columns["Fee / Express"] === null &&
+      signage.metadata.columns["Valid from"] === "2024-03-01",
+    "n/a cells should be null and other date formats normalized",
+  );
+  assert(
+    categories.team.items.length === 2 &&
+      categories.team.items[0].metadata?.columns.Staff === 12,
+    "tables whose headers name the category should be used",
+  );
+
+  console.log("--- CSV ---");
+  assert(
+    tableToCsv(fees).split("\n")[0] === "Permit,Fee,Fee,Valid from",
+    "CSV should keep the header rows as on the page",
+  );
+  assert(
+    tableToCsv(offices) === 'Office,Staff\n"North, ""Main""",12\nSouth,8',
+    `CSV cells should be quoted when needed, got ${tableToCsv(offices)}`,
+  );
+
+  console.log("\n=== All table extraction tests completed successfully ===\n");
+}
@@ -14,18 +14,28 @@ export interface ScrapingConfig {
   categories: string[];
   customEntities?: CustomEntity[]; // Custom entity definitions for advanced categorization
   prebuiltSelectors?: PrebuiltSelector[]; // Prebuilt selectors for common use cases
+  actions?: PageAction[]; // Steps run on the first rendered page before extraction
+  authProfileId?: string; // Auth profile used to sign in before pages are fetched
   options: {
-    handleDynamicContent: boolean;
+    handleDynamicContent: boolean; // Render pages in a headless browser so their JavaScript runs
+    renderer?: string; // Renderer to use, "chromium" when handleDynamicContent is set and "static" otherwise
+    waitForSelector?: string; // CSS selector a rendered page must show before it is read
+    waitForNetworkIdle?: boolean; // Wait until a rendered page stops loading resources
+    scrollToBottom?: boolean; // Scroll rendered pages to trigger lazy-loading
+    maxScrolls?: number; // Maximum number of scroll steps, 10 by default
+    blockResources?: BlockedResourceType[]; // Resources rendered pages skip loading
     followPagination: boolean;
     extractImages: boolean;
     deduplicateResults: boolean;
     maxPages: number;
+    nextPageSelector?: string; // CSS or XPath selector for the next-page link
     skipHeadersFooters: boolean;
     skipImagesMedia: boolean;
     stealthMode: boolean;
     respectRobotsTxt: boolean;
-    rateLimitDelay: number; // in milliseconds
-    proxyUrl?: string; // Optional proxy URL for bypassing CORS restrictions
+    rateLimitDelay: number; // Minimum time between requests to a host in milliseconds, shared by every configuration
+    proxyUrl?: string; // Single http(s) or socks proxy, or a URL-prefix proxy the page URL is appended to
+    proxyPoolId?: string; // Proxy pool requests are sent through, takes precedence over proxyUrl
     userAgent?: string; // Custom user agent
     cookies?: Record<string, string>; // Cookies to send with request
     headers?: Record<string, string>; // Custom headers
@@ -36,8 +46,15 @@ export interface ScrapingConfig {
     extractMetadata?: boolean; // Extract metadata like author, date, etc.
     followLinks?: boolean; // Follow links to extract more data
     maxLinkDepth?: number; // Maximum depth for link following
+    linkScope?: "same-origin" | "path-prefix"; // Which links the crawler may follow
+    includePatterns?: string[]; // Glob patterns a followed link must match
+    excludePatterns?: string[]; // Glob patterns of links never to follow
+    maxCrawlPages?: number; // Maximum number of pages the crawler fetches
+    maxConcurrencyPerHost?: number; // Parallel requests per host while crawling
+    crawlOutput?: "aggregate" | "children"; // Merge crawled pages or save one result per page
   };
   outputFormat: "json" | "html" | "text" | "structured";
+  demoMode?: boolean; // Add sample data to empty or failed results, keeping their status (demos only)
   schedule?: {
     frequency: "daily" | "weekly" | "monthly";
     time: string;
@@ -48,7 +65,9 @@ export interface ScrapingConfig {
     enabled?: boolean; // Whether the schedule is enabled
     lastRun?: string; // ISO date string of the last successful run
     nextRun?: string; // ISO date string of the next scheduled run
+    missedRunPolicy?: MissedRunPolicy; // What to do with runs missed while the scheduler was down
   };
+  notifications?: NotificationSettings; // Alerts sent when results change between runs
   priority?: "high" | "medium" | "low";
   batchId?: string;
   status?:
@@ -69,6 +88,7 @@ export interface ScrapingConfig {
   version?: string; // Version of this configuration
   metadata?: {
     lastRun?: string; // ISO date string of the last run
+    lastFinishedAt?: string; // ISO date string of when the last run finished, whatever its outcome
     nextRun?: string; // ISO date string of the next scheduled run
     runCount?: number; // Number of times this job has been run
     successCount?: number; // Number of successful runs
@@ -80,6 +100,170 @@ export interface ScrapingConfig {
   };
 }
 
+export type PageActionType =
+  | "click"
+  | "type"
+  | "select"
+  | "waitFor"
+  | "scroll"
+  | "evaluate";
+
+// One step of the interactions run on a page before it is extracted, such
+// as accepting cookies or opening a tab
+export interface PageAction {
+  type: PageActionType;
+  selector?: string; // CSS selector of the element; scroll steps without one scroll to the bottom
+  value?: string; // Text to type or option value to select
+  script?: string; // JavaScript expression evaluated in the page by evaluate steps
+  name?: string; // Key the value of an evaluate step is stored under
+  timeout?: number; // In milliseconds, 10 seconds by default
+  optional?: boolean; // Carry on when the step fails, e.g. for a banner that is not always shown
+  description?: string;
+}
+
+export interface PageActionResult {
+  index: number; // Position of the step in the actions
+  type: PageActionType;
+  status: "success" | "failed" | "skipped";
+  duration: number; // In milliseconds
+  error?: string;
+  screenshot?: string; // Screenshot taken when the step failed, see the screenshots API
+}
+
+export type BlockedResourceType = "image" | "font" | "media" | "stylesheet";
+
+export type AuthProfileType = "form" | "bearer" | "basic" | "cookies";
+
+// Named credentials configurations sign in with. The password, token and
+// cookieJar are stored encrypted and never returned by the API
+export interface AuthProfile {
+  id: string;
+  name: string;
+  type: AuthProfileType;
+  loginUrl?: string; // Page with the login form
+  usernameSelector?: string; // CSS selectors of the login form fields
+  passwordSelector?: string;
+  submitSelector?: string; // Submit button, the password field is submitted with Enter without one
+  successSelector?: string; // Element only shown once signed in
+  successUrlPattern?: string; // Regular expression the URL must match once signed in
+  username?: string; // Form and basic logins
+  password?: string; // Form and basic logins
+  token?: string; // Bearer token
+  cookieJar?: string; // Imported cookies: a Netscape cookies.txt, a JSON export or a Cookie header
+  sessionTtl?: number; // Minutes a captured session is reused, 60 by default
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface SessionCookie {
+  name: string;
+  value: string;
+  domain?: string; // Host the cookie belongs to, subdomains included when it starts with "."
+  path?: string;
+  expires?: number; // Unix time in seconds, none for session cookies
+}
+
+// Cookies captured by signing in with an auth profile, reused until they
+// expire
+export interface AuthSession {
+  profileId: string;
+  cookies: SessionCookie[];
+  createdAt: string; // ISO date string
+  expiresAt: string; // ISO date string, the profile signs in again after it
+}
+
+export type ProxyRotation = "round-robin" | "sticky";
+
+// Named set of proxies configurations send their requests through. Proxy
+// URLs may carry credentials, so they are stored encrypted and the API masks
+// their passwords
+export interface ProxyPool {
+  id: string;
+  name: string;
+  proxies: string[]; // http://, https://, socks4:// or socks5:// URLs
+  rotation: ProxyRotation; // "sticky" keeps each host on one proxy while it stays healthy
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Health of a proxy, scored from the outcome of the requests sent through it
+export interface ProxyHealth {
+  proxy: string; // Proxy URL with its password masked
+  score: number; // 0-1, moving average of requests that got through
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastError?: string;
+  lastUsed?: string; // ISO date string
+  ejectedUntil?: string; // ISO date string, the proxy gets requests again once a probe through it succeeds
+  ejections: number;
+}
+
+// Proxy of a pool a page was fetched through
+export interface ProxyUsage {
+  poolId: string;
+  proxy: string; // Proxy URL with its password masked
+  attempts: number; // Proxies tried, more than 1 when earlier ones failed
+}
+
+// Limits of the shared rate limiter for a domain and its subdomains,
+// replacing the defaults
+export interface DomainRateLimit {
+  domain: string; // e.g. "example.com", which also covers www.example.com
+  requestsPerSecond?: number; // Rate tokens are added to the bucket at
+  burst?: number; // Tokens the bucket holds, requests that may start at once after a quiet spell
+  maxConcurrency?: number; // Requests to a host in flight at the same time
+  updatedAt?: string;
+}
+
+// State of the shared rate limiter for one host
+export interface HostRateLimitState {
+  host: string;
+  domain?: string; // Domain whose limits apply, none when the defaults do
+  requestsPerSecond: number; // After the adaptive slowdown
+  burst: number;
+  maxConcurrency: number;
+  tokens: number;
+  active: number; // Requests in flight
+  waiting: number; // Requests waiting for a token or a free slot
+  slowdown: number; // 1 normally, doubled by each 429 or 503 response
+  backoffUntil?: string; // ISO date string, no request starts before it
+  lastStatus?: number;
+}
+
+// "skip" drops missed runs, "run-once" makes up for them with a single run
+// and "run-all" runs each of them (up to a limit)
+export type MissedRunPolicy = "skip" | "run-once" | "run-all";
+
+export interface SchedulerRunRecord {
+  type: "sync" | "scrape";
+  startedAt: string; // ISO date string
+  finishedAt: string; // ISO date string
+  duration: number; // In milliseconds
+  success: boolean;
+  counts: Record<string, number>; // e.g. configurations/results synced, runs enqueued
+  errors: string[];
+}
+
+export interface SchedulerStatus {
+  sync: {
+    running: boolean; // Whether the timer is active
+    inProgress: boolean; // Whether a synchronization is running right now
+    interval: number; // In milliseconds
+    lastRunAt: string | null;
+    nextRunAt: string | null;
+  };
+  scrape: {
+    running: boolean;
+    inProgress: boolean;
+    interval: number;
+    missedRunPolicy: MissedRunPolicy;
+    lastRunAt: string | null;
+    nextRunAt: string | null;
+  };
+  history: SchedulerRunRecord[]; // Most recent first
+}
+
 export interface CustomEntity {
   name: string; // Entity name (e.g., "product_name", "service_title")
   category: string; // Category this entity belongs to
@@ -90,6 +274,17 @@ export interface CustomEntity {
   description?: string; // Description of this entity
 }
 
+export interface EntityValue {
+  value: string; // Extracted value, the listed spelling when possibleValues match
+  raw?: string; // Text the value was extracted from
+  method: "selector" | "regex" | "possibleValues";
+  confidence: number; // Confidence score (0-1)
+  valid: boolean; // False when possibleValues are listed and none matched
+}
+
+// Custom entity values of an item, stored on CategoryItem.metadata.entities
+export type ItemEntities = Record<string, EntityValue>;
+
 export interface PrebuiltSelector {
   name: string; // Name of the selector (e.g., "Product Grid", "Service List")
   description: string; // Description of what this selector targets
@@ -99,6 +294,34 @@ export interface PrebuiltSelector {
   website?: string; // Website this selector is optimized for (optional)
 }
 
+// Extractor used for a category's content
+export type CategoryStrategy =
+  | "services"
+  | "fees"
+  | "documents"
+  | "eligibility"
+  | "products"
+  | "generic";
+
+/**
+ * A category and the rules that drive its extraction
+ * Stored categories override the built-in rules of the same name field by
+ * field
+ */
+export interface CategoryDefinition {
+  id?: string;
+  name: string; // Lowercase key used in configurations and results
+  description: string;
+  keywords: string[];
+  keywordWeights?: Record<string, number>; // Weight per keyword, default 1
+  negativeKeywords?: string[]; // Items mentioning one of these are dropped
+  headingPatterns?: string[]; // Regular expressions for section headings
+  strategy?: CategoryStrategy; // Default "generic"
+  metadata?: Record<string, any>;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
 export interface CategoryItem {
   id: string;
   title: string;
@@ -122,21 +345,26 @@ export interface ScrapingResult {
   configId: string;
   url: string;
   timestamp: string;
-  status: "success" | "partial" | "failed" | "warning";
+  status: "success" | "partial" | "failed" | "warning" | "empty";
   categories: Record<string, CategoryData>;
   raw?: {
     json?: string;
     html?: string;
     text?: string;
     structured?: any;
+    tables?: ExtractedTable[]; // Tables of the selected content, see RawData
   };
   metadata?: {
     processingTime?: number;
     pageCount?: number;
     elementCount?: number;
-    errors?: string[];
+    errors?: ScrapingError[];
     warnings?: string[];
     suggestions?: string[];
+    parentResultId?: string; // Result of the page the crawler started from
+    childResultIds?: string[]; // Results saved for each crawled page
+    rendering?: RenderingInfo; // How the first page was rendered
+    proxy?: ProxyUsage; // Proxy the first page was fetched through
     version?: string;
     [key: string]: any; // Allow for additional metadata
   };
@@ -144,9 +372,263 @@ export interface ScrapingResult {
   updatedAt: string;
 }
 
+export type ItemChangeType = "added" | "removed" | "modified";
+
+export interface FieldChange {
+  field: string; // Item field, e.g. "content" or "metadata.price"
+  before?: any;
+  after?: any;
+}
+
+export interface ItemDiff {
+  type: ItemChangeType;
+  before?: CategoryItem; // Item in the result compared against
+  after?: CategoryItem; // Item in the newer result
+  changes: FieldChange[]; // Empty for added and removed items
+}
+
+export interface CategoryDiff {
+  category: string;
+  added: number;
+  removed: number;
+  modified: number;
+  unchanged: number;
+  items: ItemDiff[];
+}
+
+export interface ResultDiff {
+  configId: string;
+  baseResultId: string; // The result compared against
+  targetResultId: string;
+  baseTimestamp: string;
+  targetTimestamp: string;
+  summary: {
+    added: number;
+    removed: number;
+    modified: number;
+    unchanged: number;
+  };
+  categories: CategoryDiff[];
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  categories?: string[]; // Categories to watch, all categories if empty
+  changeTypes: ItemChangeType[]; // Changes that trigger the alert
+  pattern?: string; // Regular expression an item's title or content must match
+}
+
+export interface WebhookTarget {
+  id: string;
+  url: string;
+  secret?: string; // Used to sign deliveries with HMAC-SHA256
+  enabled: boolean;
+}
+
+export interface NotificationSettings {
+  enabled: boolean;
+  rules: AlertRule[];
+  webhooks: WebhookTarget[];
+}
+
+export interface AlertMatch {
+  ruleId: string;
+  ruleName: string;
+  category: string;
+  changes: ItemDiff[];
+}
+
+export interface WebhookPayload {
+  event: "scraping.alert" | "scraping.test";
+  deliveryId: string;
+  configId: string;
+  configName?: string;
+  url: string; // Page the result was scraped from
+  resultId?: string;
+  baseResultId?: string; // The result the changes are relative to
+  timestamp: string; // ISO date string
+  alerts: AlertMatch[];
+}
+
+export type WebhookDeliveryStatus =
+  | "pending"
+  | "retrying"
+  | "delivered"
+  | "failed";
+
+export interface WebhookDelivery {
+  id: string;
+  configId: string;
+  webhookId: string;
+  webhookUrl: string;
+  status: WebhookDeliveryStatus;
+  payload: WebhookPayload;
+  attempts: number;
+  maxAttempts: number;
+  lastStatusCode?: number;
+  lastError?: string;
+  nextAttemptAt?: string; // ISO date string, set while retrying
+  deliveredAt?: string; // ISO date string
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ScrapingJobStatus =
+  | "pending"
+  | "processing"
+  | "completed"
+  | "failed"
+  | "retrying"
+  | "cancelled";
+
+export interface ScrapingJob {
+  id: string;
+  config: ScrapingConfig;
+  status: ScrapingJobStatus;
+  priority: "high" | "medium" | "low";
+  batchId?: string;
+  progress: number; // 0-100
+  stage?: string; // What the job is currently doing
+  retryCount: number;
+  maxRetries: number;
+  nextAttemptAt?: string; // ISO date string, when a retrying job may run again
+  resultIds: string[]; // Results saved by the job, one per URL and attempt
+  error?: string;
+  startedAt?: string; // ISO date string of the latest attempt
+  completedAt?: string; // ISO date string
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FetchResult {
+  html: string;
+  text: string;
+  status: number; // HTTP status of the final response, 0 if no response was received
+  finalUrl: string; // URL after following redirects
+  headers: Record<string, string>;
+  error?: string;
+  rendering?: RenderingInfo;
+  proxy?: ProxyUsage; // Set when the page was fetched through a proxy pool
+}
+
+export interface RenderingInfo {
+  renderer: string; // Renderer that produced the HTML
+  requestedRenderer?: string; // Renderer asked for, when it could not be used
+  fallbackReason?: string; // Why the requested renderer could not be used
+  timings: {
+    total: number; // In milliseconds, like the other timings
+    navigation?: number; // Until the page was loaded
+    wait?: number; // Waiting for the selector or for the network to go idle
+    actions?: number; // Running the page actions
+    scroll?: number; // Scrolling to load lazy content
+  };
+  selectorFound?: boolean; // Whether waitForSelector appeared before the timeout
+  scrolls?: number; // Scroll steps taken
+  blockedRequests?: number; // Requests skipped because of blockResources
+  actions?: PageActionResult[]; // Outcome of each page action
+  extracted?: Record<string, any>; // Values returned by evaluate steps, by name
+}
+
+export interface ExtractedElement {
+  tag: string; // Tag name, "#text" for text nodes or "@name" for attributes
+  text: string;
+  html: string;
+  attributes?: Record<string, string>;
+}
+
+export interface RawData {
+  url: string;
+  html: string; // HTML of the selected content
+  text: string; // Plain text of the selected content
+  selectorType: "css" | "xpath";
+  elements: ExtractedElement[]; // Nodes matched by the selector
+  elementCount: number; // Number of elements in the selected content
+  pageCount: number;
+  title?: string;
+  headings?: { level: number; text: string }[];
+  links?: { href: string; text: string }[];
+  images?: { src: string; alt: string }[];
+  structured?: any; // Items from embedded structured data, keyed by category
+  structuredData?: StructuredData; // Structured data embedded in the page
+  tables?: ExtractedTable[]; // Data tables of the selected content
+  errors: ScrapingError[];
+  warnings: string[];
+}
+
+export type PricePeriod =
+  | "one-time"
+  | "hour"
+  | "day"
+  | "week"
+  | "month"
+  | "quarter"
+  | "year";
+
+/**
+ * A price parsed from text, stored on fees and products items as
+ * metadata.normalizedPrice
+ * Ranges set min and max with amount as the lower bound; free prices are 0
+ */
+export interface NormalizedPrice {
+  amount: number;
+  currency: string | null; // ISO 4217 code, null for free or unknown
+  period: PricePeriod | null; // Billing period of recurring prices
+  min: number;
+  max: number;
+  free?: boolean;
+  raw: string; // Price text as on the page
+}
+
+export type TableColumnType = "text" | "number" | "currency" | "date";
+
+// A typed table cell: dates are ISO dates (YYYY-MM-DD)
+export type TableValue =
+  | string
+  | number
+  | { amount: number; currency: string }
+  | null;
+
+export interface ExtractedTable {
+  index: number; // Position of the table in the selected content of its page
+  page?: number; // Page the table is on, set when pages are merged
+  caption?: string; // Caption, or the heading right before the table
+  headers: string[]; // One label per column, multi-row headers joined with " / "
+  headerRows: string[][]; // Header rows as on the page, spans expanded
+  columnTypes: TableColumnType[];
+  rows: string[][]; // Body rows as on the page, spans expanded
+}
+
+/**
+ * Structured data embedded in a page
+ * Microdata and RDFa items use the same shape as JSON-LD nodes: "@type",
+ * optional "@id" and one key per property
+ */
+export interface StructuredData {
+  jsonLd: any[]; // Parsed JSON-LD blocks
+  microdata: Record<string, any>[];
+  rdfa: Record<string, any>[];
+  openGraph: Record<string, string | string[]>; // og:*, product:* and article:* properties
+  twitter: Record<string, string | string[]>; // twitter:* card properties
+}
+
+export type ScrapingErrorCode =
+  | "FETCH_FAILED" // The page could not be fetched at all
+  | "HTTP_ERROR" // The server answered with a 4xx/5xx status
+  | "TIMEOUT" // The request or the whole operation timed out
+  | "INVALID_SELECTOR" // The configured selector could not be evaluated
+  | "NO_CONTENT" // The page (or the selection) contained no text
+  | "NO_ITEMS" // Content was found but nothing matched the categories
+  | "ROBOTS_DISALLOWED" // robots.txt does not allow fetching the URL
+  | "AUTH_FAILED" // Signing in with the auth profile failed
+  | "EXTRACTION_FAILED" // Parsing or categorizing the content threw
+  | "CANCELLED" // The scrape was aborted before it finished
+  | "INTERNAL_ERROR"; // Anything else
+
 export interface ScrapingError {
   message: string;
-  code: string;
+  code: ScrapingErrorCode;
   details?: any;
 }
 